@@ -0,0 +1,103 @@
+import { decodeProtectedHeader } from 'jose'
+import request from 'supertest'
+import type { Express } from 'express'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+
+type SessionTokensModule = typeof import('../services/sessionTokens.js')
+
+let app: Express
+let sessions: SessionTokensModule
+
+beforeAll(async () => {
+  vi.resetModules()
+  process.env.AUTH_MODE = 'session'
+  process.env.SESSION_TTL_SECONDS = '600'
+  process.env.AUTH_DEV_LOGIN_ENABLED = 'true'
+
+  const { createApp } = await import('../app.js')
+  const { databaseReady } = await import('../db/client.js')
+  sessions = await import('../services/sessionTokens.js')
+
+  await databaseReady
+  app = createApp()
+})
+
+afterAll(() => {
+  process.env.AUTH_MODE = 'headers'
+  delete process.env.SESSION_TTL_SECONDS
+  delete process.env.AUTH_DEV_LOGIN_ENABLED
+})
+
+describe('session authentication', () => {
+  it('ignores identity headers outside of gateway mode', async () => {
+    const spoofed = await request(app).get('/api/partners/webhooks').set('x-user-role', 'colleague')
+    expect(spoofed.status).toBe(403)
+
+    const session = await request(app).get('/api/auth/session').set('x-user-role', 'admin')
+    expect(session.body).toMatchObject({ id: 'anonymous', roles: [], permissions: [] })
+  })
+
+  it('issues dev persona sessions that authorize requests', async () => {
+    const login = await request(app)
+      .post('/api/auth/dev-login')
+      .send({ persona: 'colleague', id: 'qa.colleague', name: 'QA Analyst' })
+    expect(login.status).toBe(201)
+    expect(login.body.user).toMatchObject({ id: 'qa.colleague', role: 'colleague', partnerId: null })
+    expect(login.body.user.roles).toEqual(['reviewer'])
+    expect(Date.parse(login.body.expiresAt) - Date.now()).toBeLessThanOrEqual(600_000)
+
+    const reviewerOnly = await request(app)
+      .get('/api/partners/webhooks')
+      .set('authorization', `Bearer ${login.body.token}`)
+    expect(reviewerOnly.status).toBe(403)
+
+    const admin = await request(app).post('/api/auth/dev-login').send({ persona: 'colleague', roles: ['admin'] })
+    const authorized = await request(app)
+      .get('/api/partners/webhooks')
+      .set('authorization', `Bearer ${admin.body.token}`)
+    expect(authorized.status).toBe(200)
+
+    const merchant = await request(app)
+      .post('/api/auth/dev-login')
+      .send({ persona: 'merchant', partnerId: 'amex-ventures' })
+    const signals = await request(app)
+      .get('/api/partners/signals')
+      .set('authorization', `Bearer ${merchant.body.token}`)
+      .set('x-user-role', 'colleague')
+    expect(signals.body.items.length).toBeGreaterThan(0)
+    expect(signals.body.items.every((item: { partnerId: string }) => item.partnerId === 'amex-ventures')).toBe(true)
+
+    const tampered = `${login.body.token.slice(0, -4)}AAAA`
+    const rejected = await request(app).get('/api/auth/session').set('authorization', `Bearer ${tampered}`)
+    expect(rejected.status).toBe(401)
+  })
+
+  it('keeps verifying tokens across key rotation until they expire', async () => {
+    const identity = { id: 'auditor.dev', name: 'Auditor', roles: ['auditor' as const], partnerId: null }
+    const now = new Date()
+    const { token } = await sessions.issueSessionToken(identity, now)
+
+    const kid = sessions.rotateSessionSigningKey(now)
+    const { token: rotated } = await sessions.issueSessionToken(identity, now)
+    expect(decodeProtectedHeader(rotated).kid).toBe(kid)
+    expect(decodeProtectedHeader(token).kid).not.toBe(kid)
+
+    expect(await sessions.verifySessionToken(token, now)).toEqual(identity)
+    expect(await sessions.verifySessionToken(token, new Date(now.getTime() + 601_000))).toBeNull()
+  })
+  it('keeps dev login opt-in and refuses to enable it in production', async () => {
+    delete process.env.AUTH_DEV_LOGIN_ENABLED
+    vi.resetModules()
+    const defaults = await import('../services/sessionTokens.js')
+    expect(defaults.isDevLoginEnabled()).toBe(false)
+
+    process.env.AUTH_DEV_LOGIN_ENABLED = 'true'
+    process.env.NODE_ENV = 'production'
+    vi.resetModules()
+    try {
+      await expect(import('../services/sessionTokens.js')).rejects.toThrow(/AUTH_DEV_LOGIN_ENABLED/)
+    } finally {
+      process.env.NODE_ENV = 'test'
+    }
+  })
+})
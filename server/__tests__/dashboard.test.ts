@@ -96,6 +96,19 @@ describe('Ecosystem Intelligence API', () => {
     expect(response.body.narrative).toEqual(expect.any(String))
   })
 
+  it('echoes live analytics dimension filters and rejects unknown group-bys', async () => {
+    const filtered = await request(app).get('/api/dashboard/live').query({ region: 'emea', groupBy: 'partnerId' })
+
+    expect(filtered.status).toBe(200)
+    expect(filtered.body.filters).toEqual({ region: 'emea' })
+    expect(filtered.body.groupBy).toBe('partnerId')
+    expect(filtered.body.groups).toBeInstanceOf(Array)
+
+    const invalid = await request(app).get('/api/dashboard/live').query({ groupBy: 'country' })
+    expect(invalid.status).toBe(400)
+    expect(invalid.body.message).toBe('Validation failed')
+  })
+
   it('exposes Prometheus metrics', async () => {
     const response = await request(app).get('/metrics')
 
@@ -0,0 +1,127 @@
+import request, { type Test } from 'supertest'
+import { afterEach, beforeAll, describe, expect, it } from 'vitest'
+import { fraudAlerts, platformKPIs } from '../../shared/data/mockData.js'
+import { createApp } from '../app.js'
+import { databaseReady, dbPool } from '../db/client.js'
+import {
+  dashboardSnapshotSchema,
+  ecosystemTrendSchema,
+  fraudAlertSchema,
+  platformKpiSchema,
+} from '../schemas/dashboard.js'
+import {
+  getDashboardSnapshot,
+  postgresDashboardDataProvider,
+  resolveDashboardDataProvider,
+} from '../services/dashboardData.js'
+import { flushLiveAnalyticsEvents, recordLiveAnalyticsEvents } from '../services/liveAnalyticsHistory.js'
+import { createRegistryEntry } from '../services/partnerRegistry.js'
+import { resetPartnerSignals } from '../services/partnerSignals.js'
+import { asColleague, submitSignal } from './helpers.js'
+
+const app = createApp()
+const HOUR_MS = 3_600_000
+
+beforeAll(async () => {
+  await databaseReady
+})
+
+afterEach(async () => {
+  await resetPartnerSignals()
+  await dbPool.query('DELETE FROM live_analytics_events')
+  await dbPool.query('DELETE FROM live_analytics_rollups')
+})
+
+describe('dashboard data providers', () => {
+  it('computes KPIs, trends and fraud alerts from partner signals and live analytics history', async () => {
+    await createRegistryEntry('partner', { id: 'kpi-labs', name: 'KPI Labs' })
+    await createRegistryEntry('merchant', { id: 'kpi-market', name: 'KPI Market' })
+    const risk = await submitSignal(app, {
+      partnerId: 'kpi-labs',
+      merchantId: 'kpi-market',
+      signalType: 'risk',
+      description: 'Card-testing bursts against the checkout endpoint overnight.',
+      confidence: 0.97,
+    })
+
+    const now = Date.now()
+    recordLiveAnalyticsEvents([
+      { metricId: 'fraud_block_rate', timestamp: now - 26 * HOUR_MS, value: 64 },
+      { metricId: 'fraud_block_rate', timestamp: now - 2 * HOUR_MS, value: 78 },
+      { metricId: 'fraud_block_rate', timestamp: now - 2 * HOUR_MS + 60_000, value: 82 },
+    ])
+    await flushLiveAnalyticsEvents()
+
+    const kpis = await postgresDashboardDataProvider.getPlatformKPIs()
+    kpis.forEach((kpi) => platformKpiSchema.parse(kpi))
+    expect(kpis.find((kpi) => kpi.id === 'fraud-block-rate')).toMatchObject({
+      value: '80 bps',
+      delta: 25,
+      trend: 'up',
+      target: 'Hold above 70 bps',
+    })
+    expect(kpis.find((kpi) => kpi.id === 'network-spend')).toMatchObject({ value: 'No data yet', trend: 'steady' })
+    expect(kpis.find((kpi) => kpi.id === 'merchant-coverage')?.value).toMatch(/merchants reporting$/)
+
+    const trends = await postgresDashboardDataProvider.getEcosystemTrends()
+    trends.forEach((trend) => ecosystemTrendSchema.parse(trend))
+    const fraudTrend = trends.find((trend) => trend.id === 'fraud_block_rate')
+    expect(fraudTrend).toMatchObject({ label: 'Fraud Block Rate', baseline: 100 })
+    expect(fraudTrend?.values).toHaveLength(6)
+    expect(fraudTrend?.values.at(-1)).toBe(91)
+    expect(trends.find((trend) => trend.id === 'signals-risk')?.values.at(-1)).toBeGreaterThan(0)
+
+    const alerts = await postgresDashboardDataProvider.getFraudAlerts()
+    alerts.forEach((alert) => fraudAlertSchema.parse(alert))
+    expect(alerts.map((alert) => alert.confidence)).toEqual(
+      [...alerts].map((alert) => alert.confidence).sort((left, right) => right - left),
+    )
+    expect(alerts.find((alert) => alert.id === `signal-${risk.id}`)).toMatchObject({
+      id: `signal-${risk.id}`,
+      segment: 'KPI Market (reported by KPI Labs)',
+      confidence: 0.97,
+    })
+  })
+
+  it('only shows risk signals from the caller\'s own partner unless they may read every partner', async () => {
+    await createRegistryEntry('partner', { id: 'scope-labs', name: 'Scope Labs' })
+    await createRegistryEntry('partner', { id: 'other-labs', name: 'Other Labs' })
+    await createRegistryEntry('merchant', { id: 'scope-market', name: 'Scope Market' })
+    const risk = await submitSignal(app, {
+      partnerId: 'scope-labs',
+      merchantId: 'scope-market',
+      signalType: 'risk',
+      description: 'Chargeback ring testing stolen cards against the scope market checkout.',
+      confidence: 0.95,
+    })
+
+    const asSubmitter = (test: Test, partnerId: string) =>
+      test.set('x-user-role', 'merchant').set('x-user-id', `${partnerId}.ops`).set('x-partner-id', partnerId)
+    const alertIds = async (test: Test) => {
+      const response = await test
+      expect(response.status).toBe(200)
+      return (response.body.items ?? response.body.alerts).map((item: { id: string }) => item.id)
+    }
+    const signalId = `signal-${risk.id}`
+
+    expect(await alertIds(request(app).get('/api/dashboard/alerts'))).not.toContain(signalId)
+    expect(await alertIds(request(app).get('/api/dashboard/snapshot'))).not.toContain(signalId)
+    expect(await alertIds(asSubmitter(request(app).get('/api/dashboard/alerts'), 'other-labs'))).not.toContain(
+      signalId,
+    )
+    expect(await alertIds(asSubmitter(request(app).get('/api/dashboard/alerts'), 'scope-labs'))).toContain(signalId)
+    expect(await alertIds(asColleague(request(app).get('/api/dashboard/alerts')))).toContain(signalId)
+  })
+
+  it('selects the mock provider for demos and falls back to Postgres for unknown names', async () => {
+    const mock = resolveDashboardDataProvider('mock')
+    expect(mock.name).toBe('mock')
+    expect(await mock.getPlatformKPIs()).toEqual(platformKPIs)
+    expect(await mock.getFraudAlerts()).toEqual(fraudAlerts)
+    dashboardSnapshotSchema.parse(await getDashboardSnapshot(mock))
+
+    expect(resolveDashboardDataProvider(' Postgres ').name).toBe('postgres')
+    expect(resolveDashboardDataProvider('spreadsheet').name).toBe('postgres')
+    expect(resolveDashboardDataProvider(undefined).name).toBe('postgres')
+  })
+})
@@ -0,0 +1,106 @@
+import request from 'supertest'
+import { afterEach, beforeAll, describe, expect, it } from 'vitest'
+import { createApp } from '../app.js'
+import { databaseReady } from '../db/client.js'
+import { metricsRegistry } from '../metrics/registry.js'
+import { createRegistryEntry } from '../services/partnerRegistry.js'
+import { resetPartnerSignals } from '../services/partnerSignals.js'
+import { DistributedCache, invalidateCacheTags } from '../utils/distributedCache.js'
+import { asColleague, submitSignal } from './helpers.js'
+
+const app = createApp()
+
+beforeAll(async () => {
+  await databaseReady
+})
+
+afterEach(async () => {
+  await resetPartnerSignals()
+})
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+describe('distributed cache', () => {
+  it('coalesces concurrent misses and serves stale values while refreshing', async () => {
+    const cache = new DistributedCache<number>('cache-test', 150, { staleMs: 5_000 })
+    let computations = 0
+    const compute = async () => {
+      computations += 1
+      await sleep(10)
+      return computations
+    }
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => cache.getOrCompute('answer', compute)))
+    expect(results).toEqual([1, 1, 1, 1, 1])
+    expect(computations).toBe(1)
+
+    await sleep(170)
+    expect(await cache.getOrCompute('answer', compute)).toBe(1)
+    await sleep(30)
+    expect(computations).toBe(2)
+    expect(await cache.getOrCompute('answer', compute)).toBe(2)
+
+    const metrics = await metricsRegistry.getSingleMetricAsString('distributed_cache_requests_total')
+    expect(metrics).toContain('namespace="cache-test",layer="none",result="miss"} 5')
+    expect(metrics).toContain('namespace="cache-test",layer="memory",result="stale"} 1')
+    expect(metrics).toContain('namespace="cache-test",layer="memory",result="hit"} 1')
+    expect(await metricsRegistry.getSingleMetricAsString('distributed_cache_computations_total')).toContain(
+      'namespace="cache-test",outcome="coalesced"} 4',
+    )
+  })
+
+  it('does not store a result computed before an invalidation that landed mid-computation', async () => {
+    const cache = new DistributedCache<string>('race-test', 60_000)
+    let release: (value: string) => void = () => undefined
+    const slow = cache.getOrCompute('report', () => new Promise<string>((resolve) => (release = resolve)), {
+      tags: ['signals'],
+    })
+
+    await sleep(5)
+    await invalidateCacheTags('race-test', ['signals'])
+    release('before invalidation')
+    expect(await slow).toBe('before invalidation')
+    expect(await cache.get('report')).toBeUndefined()
+
+    const keyed = cache.getOrCompute('summary', async () => {
+      await cache.invalidate('summary')
+      return 'stale summary'
+    })
+    expect(await keyed).toBe('stale summary')
+    expect(await cache.getOrCompute('summary', async () => 'fresh summary')).toBe('fresh summary')
+    expect(await cache.get('summary')).toBe('fresh summary')
+  })
+
+  it('invalidates tagged entries across caches and refreshes dashboards after signal writes', async () => {
+    const first = new DistributedCache<string>('tag-test', 60_000)
+    const second = new DistributedCache<string>('tag-test', 60_000)
+    await first.set('a', 'tagged', { tags: ['signals'] })
+    await second.set('b', 'also tagged', { tags: ['signals', 'other'] })
+    await second.set('c', 'untagged')
+
+    await invalidateCacheTags('tag-test', ['signals'])
+    expect(await first.get('a')).toBeUndefined()
+    expect(await second.get('b')).toBeUndefined()
+    expect(await second.get('c')).toBe('untagged')
+    await second.clear()
+    expect(await second.get('c')).toBeUndefined()
+
+    await createRegistryEntry('partner', { id: 'cache-labs', name: 'Cache Labs' })
+    await createRegistryEntry('merchant', { id: 'cache-market', name: 'Cache Market' })
+    const before = await asColleague(request(app).get('/api/dashboard/alerts'))
+    expect(before.status).toBe(200)
+
+    const risk = await submitSignal(app, {
+      partnerId: 'cache-labs',
+      merchantId: 'cache-market',
+      signalType: 'risk',
+      description: 'Refund abuse ring cycling gift cards through the merchant portal.',
+      confidence: 0.99,
+    })
+
+    const after = await asColleague(request(app).get('/api/dashboard/alerts'))
+    expect(after.body.items.map((item: { id: string }) => item.id)).toContain(`signal-${risk.id}`)
+  })
+})
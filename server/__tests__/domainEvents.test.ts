@@ -0,0 +1,125 @@
+import request from 'supertest'
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import type { DomainEvent } from '../../shared/types/domain.js'
+import { createApp } from '../app.js'
+import { databaseReady, dbPool } from '../db/client.js'
+import { dispatchDomainEvents, domainEventTypes, subscribeToDomainEvents } from '../services/domainEvents.js'
+import { createRegistryEntry } from '../services/partnerRegistry.js'
+import { resetPartnerSignals } from '../services/partnerSignals.js'
+import { asColleague, submitSignal } from './helpers.js'
+
+const app = createApp()
+const cleanups: Array<() => void> = []
+
+beforeAll(async () => {
+  await databaseReady
+})
+
+beforeEach(async () => {
+  await createRegistryEntry('partner', { id: 'outbox-labs', name: 'Outbox Labs' })
+  await createRegistryEntry('merchant', { id: 'outbox-market', name: 'Outbox Market' })
+})
+
+afterEach(async () => {
+  cleanups.splice(0).forEach((cleanup) => cleanup())
+  await resetPartnerSignals()
+})
+
+type OutboxRow = {
+  type: string
+  status: string
+  attempts: number
+  completed_subscribers: string[]
+  last_error: string | null
+}
+
+async function listOutbox(signalId: string): Promise<OutboxRow[]> {
+  const result = await dbPool.query<OutboxRow>(
+    `SELECT type, status, attempts, completed_subscribers, last_error
+    FROM domain_events
+    WHERE aggregate_id = $1
+    ORDER BY occurred_at ASC`,
+    [signalId],
+  )
+  return result.rows
+}
+
+describe('domain events', () => {
+  it('records signal changes in the outbox and delivers typed events to subscribers', async () => {
+    const received: DomainEvent[] = []
+    cleanups.push(
+      subscribeToDomainEvents('test-recorder', domainEventTypes, (event) => {
+        received.push(event)
+      }),
+    )
+
+    const { id: signalId } = await submitSignal(app, { partnerId: 'outbox-labs', merchantId: 'outbox-market' })
+    const moved = await asColleague(request(app).patch(`/api/partners/signals/${signalId}/status`)).send({
+      status: 'in_review',
+    })
+    expect(moved.status).toBe(200)
+    const assigned = await asColleague(request(app).post(`/api/partners/signals/${signalId}/assignments`)).send({
+      reviewerId: 'qa.supervisor',
+      reviewerName: 'QA Supervisor',
+      reviewerRole: 'colleague',
+    })
+    expect(assigned.status).toBe(200)
+
+    const rejected = await asColleague(request(app).patch(`/api/partners/signals/${signalId}/status`)).send({
+      status: 'pending',
+    })
+    expect(rejected.status).toBe(409)
+
+    // Writes only start delivery; wait for it so the outbox is settled.
+    await dispatchDomainEvents()
+    const events = received.filter((event) => event.aggregateId === signalId)
+    expect(events.map((event) => event.type)).toEqual(['SignalCreated', 'SignalStatusChanged', 'ReviewerAssigned'])
+    expect(events[1]).toMatchObject({ payload: { previousStatus: 'pending', signal: { status: 'in_review' } } })
+    expect(events[2]).toMatchObject({ payload: { signal: { assignedReviewerId: 'qa.supervisor' } } })
+
+    const outbox = await listOutbox(signalId)
+    expect(outbox.map((row) => [row.type, row.status])).toEqual([
+      ['SignalCreated', 'dispatched'],
+      ['SignalStatusChanged', 'dispatched'],
+      ['ReviewerAssigned', 'dispatched'],
+    ])
+    expect(outbox[0].completed_subscribers).toEqual(
+      expect.arrayContaining(['partner-signal-backlog-metrics', 'shadow-approvals', 'test-recorder']),
+    )
+  })
+
+  it('retries only the subscribers that failed until the event is delivered', async () => {
+    let failuresLeft = 1
+    let flakyCalls = 0
+    let steadyCalls = 0
+    cleanups.push(
+      subscribeToDomainEvents('test-flaky', ['SignalCreated'], () => {
+        flakyCalls += 1
+        if (failuresLeft > 0) {
+          failuresLeft -= 1
+          throw new Error('downstream unavailable')
+        }
+      }),
+      subscribeToDomainEvents('test-steady', ['SignalCreated'], () => {
+        steadyCalls += 1
+      }),
+    )
+
+    const { id: signalId } = await submitSignal(app, { partnerId: 'outbox-labs', merchantId: 'outbox-market' })
+    await dispatchDomainEvents()
+    const [pending] = await listOutbox(signalId)
+    expect(pending).toMatchObject({ status: 'pending', attempts: 1, last_error: 'test-flaky: downstream unavailable' })
+    expect(pending.completed_subscribers).toContain('test-steady')
+
+    const early = await dispatchDomainEvents()
+    expect(early.attempted).toBe(0)
+
+    const retried = await dispatchDomainEvents(new Date(Date.now() + 60_000))
+    expect(retried).toMatchObject({ attempted: 1, dispatched: 1 })
+    expect(flakyCalls).toBe(2)
+    expect(steadyCalls).toBe(1)
+
+    const [delivered] = await listOutbox(signalId)
+    expect(delivered).toMatchObject({ status: 'dispatched', attempts: 2, last_error: null })
+  })
+})
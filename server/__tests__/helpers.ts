@@ -0,0 +1,39 @@
+import request, { type Test } from 'supertest'
+import type { Express } from 'express'
+import { expect } from 'vitest'
+import type { PartnerSignal } from '../../shared/types/domain.js'
+
+export interface TestUser {
+  id?: string
+  name?: string
+  /** Comma-separated `x-user-role` value, e.g. `colleague,admin`. */
+  roles?: string
+}
+
+/** Sends the request with the trusted identity headers of a reviewer, unless `user` says otherwise. */
+export function asColleague(test: Test, user: TestUser = {}): Test {
+  return test
+    .set('x-user-role', user.roles ?? 'colleague')
+    .set('x-user-id', user.id ?? 'qa.colleague')
+    .set('x-user-name', user.name ?? 'QA Analyst')
+}
+
+/** A reviewer who is also an admin, for registry and webhook management. */
+export function asAdmin(test: Test): Test {
+  return asColleague(test, { roles: 'colleague,admin' })
+}
+
+/** Submits a signal as a reviewer and expects it to be accepted. Its partner and merchant must be registered. */
+export async function submitSignal(
+  app: Express,
+  signal: { partnerId: string; merchantId: string } & Record<string, unknown>,
+): Promise<PartnerSignal> {
+  const response = await asColleague(request(app).post('/api/partners/signals')).send({
+    signalType: 'growth',
+    description: 'Basket sizes grew after the co-branded checkout experiment went live.',
+    confidence: 0.65,
+    ...signal,
+  })
+  expect(response.status).toBe(201)
+  return response.body as PartnerSignal
+}
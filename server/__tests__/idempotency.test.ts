@@ -0,0 +1,118 @@
+import request from 'supertest'
+import { afterEach, beforeAll, describe, expect, it } from 'vitest'
+import { createApp } from '../app.js'
+import { databaseReady } from '../db/client.js'
+import { claimIdempotencyKey, completeIdempotencyKey } from '../services/idempotencyKeys.js'
+import { createRegistryEntry } from '../services/partnerRegistry.js'
+import { resetPartnerSignals } from '../services/partnerSignals.js'
+import { asColleague } from './helpers.js'
+
+const app = createApp()
+const DAY_MS = 86_400_000
+
+beforeAll(async () => {
+  await databaseReady
+})
+
+afterEach(async () => {
+  await resetPartnerSignals()
+})
+
+describe('idempotency keys', () => {
+  it('replays partner signal writes sent with the same key and rejects a different body', async () => {
+    await createRegistryEntry('partner', { id: 'retry-labs', name: 'Retry Labs' })
+    await createRegistryEntry('merchant', { id: 'retry-market', name: 'Retry Market' })
+    const payload = {
+      partnerId: 'retry-labs',
+      merchantId: 'retry-market',
+      signalType: 'retention',
+      description: 'Subscription renewals climbed once the partner bundled concierge perks.',
+      confidence: 0.74,
+    }
+    const submit = (body: object) =>
+      asColleague(request(app).post('/api/partners/signals')).set('Idempotency-Key', 'submit-1').send(body)
+
+    const first = await submit(payload)
+    expect(first.status).toBe(201)
+    expect(first.headers['idempotent-replayed']).toBeUndefined()
+
+    const replay = await submit(payload)
+    expect(replay.status).toBe(201)
+    expect(replay.headers['idempotent-replayed']).toBe('true')
+    expect(replay.body).toEqual(first.body)
+
+    const mismatch = await submit({ ...payload, confidence: 0.2 })
+    expect(mismatch.status).toBe(422)
+
+    const otherUser = await request(app)
+      .post('/api/partners/signals')
+      .set('x-user-role', 'colleague')
+      .set('x-user-id', 'qa.other')
+      .set('Idempotency-Key', 'submit-1')
+      .send(payload)
+    expect(otherUser.status).toBe(201)
+    expect(otherUser.body.id).not.toBe(first.body.id)
+
+    const listed = await asColleague(request(app).get('/api/partners/signals')).query({ merchantId: 'retry-market' })
+    expect(listed.body.total).toBe(2)
+
+    const move = () =>
+      asColleague(request(app).patch(`/api/partners/signals/${first.body.id}/status`))
+        .set('Idempotency-Key', 'move-1')
+        .send({ status: 'in_review' })
+    const moved = await move()
+    const movedAgain = await move()
+    expect(moved.status).toBe(200)
+    expect(movedAgain.headers['idempotent-replayed']).toBe('true')
+    expect(movedAgain.body).toEqual(moved.body)
+    expect(movedAgain.headers.etag).toBe(moved.headers.etag)
+
+    const guarded = await move().set('if-match', moved.headers.etag)
+    expect(guarded.status).toBe(422)
+  })
+
+  it('replays the location of an import and keys the fingerprint on its content type', async () => {
+    const csv = 'partnerId,merchantId,signalType,description,confidence\nreplay-labs,replay-market,growth,Short,0.5'
+    const upload = (contentType: string) =>
+      asColleague(request(app).post('/api/partners/signals/import'))
+        .set('Idempotency-Key', 'import-1')
+        .set('content-type', contentType)
+        .send(csv)
+
+    const first = await upload('text/csv')
+    expect(first.headers.location).toBe(`/api/partners/signals/import/${first.body.id}`)
+
+    const replay = await upload('text/csv')
+    expect(replay.headers['idempotent-replayed']).toBe('true')
+    expect(replay.status).toBe(first.status)
+    expect(replay.headers.location).toBe(first.headers.location)
+    expect(replay.headers['content-type']).toBe(first.headers['content-type'])
+
+    const otherFormat = await upload('application/x-ndjson')
+    expect(otherFormat.status).toBe(422)
+  })
+
+  it('reports overlapping requests, recovers stale locks and forgets keys after the retention window', async () => {
+    const now = new Date()
+    expect(await claimIdempotencyKey('qa.claims', 'key-1', 'fingerprint-a', now)).toEqual({ outcome: 'claimed' })
+    expect(await claimIdempotencyKey('qa.claims', 'key-1', 'fingerprint-a', now)).toEqual({ outcome: 'in_progress' })
+    expect(await claimIdempotencyKey('qa.claims', 'key-1', 'fingerprint-b', now)).toEqual({ outcome: 'mismatch' })
+
+    const afterLockTimeout = new Date(now.getTime() + 120_000)
+    expect(await claimIdempotencyKey('qa.claims', 'key-1', 'fingerprint-a', afterLockTimeout)).toEqual({
+      outcome: 'claimed',
+    })
+
+    const response = { status: 202, body: { ok: true }, headers: { location: '/api/jobs/1' } }
+    await completeIdempotencyKey('qa.claims', 'key-1', 'fingerprint-a', response)
+    expect(await claimIdempotencyKey('qa.claims', 'key-1', 'fingerprint-a', afterLockTimeout)).toEqual({
+      outcome: 'replay',
+      response,
+    })
+
+    const afterRetention = new Date(now.getTime() + 2 * DAY_MS)
+    expect(await claimIdempotencyKey('qa.claims', 'key-1', 'fingerprint-b', afterRetention)).toEqual({
+      outcome: 'claimed',
+    })
+  })
+})
@@ -0,0 +1,264 @@
+import http from 'node:http'
+import net from 'node:net'
+import type { AddressInfo } from 'node:net'
+import request from 'supertest'
+import type { Express } from 'express'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+
+type AlertsModule = typeof import('../services/liveAnalyticsAlerts.js')
+
+interface CapturedRequest {
+  path: string
+  body: Record<string, unknown>
+}
+
+let app: Express
+let alerts: AlertsModule
+let ingestKafkaEventForTesting: typeof import('../services/liveAnalyticsKafka.js').ingestKafkaEventForTesting
+let httpServer: http.Server
+let smtpServer: net.Server
+let hookBase = ''
+
+const httpRequests: CapturedRequest[] = []
+const mails: Array<{ recipients: string[]; data: string }> = []
+const colleague = { 'x-user-role': 'colleague,senior-reviewer', 'x-user-id': 'ops-1', 'x-user-name': 'Ops Lead' }
+
+function listen(server: net.Server): Promise<number> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port))
+  })
+}
+
+function createSmtpStub(): net.Server {
+  return net.createServer((socket) => {
+    let buffer = ''
+    let recipients: string[] = []
+    let data: string[] | null = null
+
+    socket.write('220 stub ESMTP\r\n')
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8')
+      let newline = buffer.indexOf('\r\n')
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline)
+        buffer = buffer.slice(newline + 2)
+        newline = buffer.indexOf('\r\n')
+
+        if (data) {
+          if (line === '.') {
+            mails.push({ recipients, data: data.join('\n') })
+            data = null
+            recipients = []
+            socket.write('250 queued\r\n')
+          } else {
+            data.push(line)
+          }
+        } else if (line.startsWith('EHLO')) {
+          socket.write('250-stub\r\n250 8BITMIME\r\n')
+        } else if (line.startsWith('RCPT TO:')) {
+          recipients.push(line.slice(9, -1))
+          socket.write('250 ok\r\n')
+        } else if (line === 'DATA') {
+          data = []
+          socket.write('354 go ahead\r\n')
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n')
+        } else {
+          socket.write('250 ok\r\n')
+        }
+      }
+    })
+  })
+}
+
+beforeAll(async () => {
+  httpServer = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => {
+      body += chunk
+    })
+    req.on('end', () => {
+      httpRequests.push({ path: req.url ?? '', body: JSON.parse(body) as Record<string, unknown> })
+      if (req.url === '/redirect') {
+        res.writeHead(302, { location: '/hook' }).end()
+        return
+      }
+      res.writeHead(req.url === '/broken' ? 500 : 200).end()
+    })
+  })
+  smtpServer = createSmtpStub()
+  hookBase = `http://127.0.0.1:${await listen(httpServer)}`
+  const smtpPort = await listen(smtpServer)
+
+  vi.resetModules()
+  process.env.LIVE_ANALYTICS_KAFKA_BROKERS = 'localhost:9092'
+  process.env.ALERTS_SMTP_HOST = '127.0.0.1'
+  process.env.ALERTS_SMTP_PORT = String(smtpPort)
+  process.env.ALERTS_SMTP_FROM = 'alerts@example.com'
+  process.env.ALERTS_ALLOW_PRIVATE_URLS = 'true'
+
+  const { createApp } = await import('../app.js')
+  const { databaseReady } = await import('../db/client.js')
+  const kafka = await import('../services/liveAnalyticsKafka.js')
+  alerts = await import('../services/liveAnalyticsAlerts.js')
+  ingestKafkaEventForTesting = kafka.ingestKafkaEventForTesting
+  kafka.resetKafkaBuffersForTesting()
+
+  await databaseReady
+  app = createApp()
+})
+
+afterAll(async () => {
+  delete process.env.LIVE_ANALYTICS_KAFKA_BROKERS
+  delete process.env.ALERTS_SMTP_HOST
+  delete process.env.ALERTS_SMTP_PORT
+  delete process.env.ALERTS_SMTP_FROM
+  delete process.env.ALERTS_ALLOW_PRIVATE_URLS
+  await new Promise((resolve) => httpServer.close(resolve))
+  await new Promise((resolve) => smtpServer.close(resolve))
+})
+
+describe('live metric alerting', () => {
+  it('restricts rule management to colleagues and validates rules', async () => {
+    const forbidden = await request(app).get('/api/alerts/rules').set('x-user-role', 'merchant')
+    expect(forbidden.status).toBe(403)
+
+    const invalid = await request(app)
+      .post('/api/alerts/rules')
+      .set(colleague)
+      .send({ name: 'Bad', metricId: 'nope', sinks: [{ type: 'webhook', url: 'ftp://example.com' }] })
+    expect(invalid.status).toBe(400)
+    expect(invalid.body.issues.map((issue: { path: string[] }) => issue.path.join('.'))).toEqual(
+      expect.arrayContaining(['metricId', 'sinks.0.url']),
+    )
+  })
+
+  it('fires, dedupes, acknowledges and resolves alerts across grouped sinks', async () => {
+    const critical = await request(app)
+      .post('/api/alerts/rules')
+      .set(colleague)
+      .send({
+        name: 'Latency critical',
+        metricId: 'authorization_latency',
+        sinks: [
+          { type: 'webhook', url: `${hookBase}/hook` },
+          { type: 'slack', url: `${hookBase}/slack`, channel: '#payments-ops' },
+          { type: 'email', to: ['oncall@example.com'] },
+        ],
+      })
+    expect(critical.status).toBe(201)
+    expect(critical.body).toMatchObject({ minSeverity: 'critical', enabled: true, createdBy: 'ops-1' })
+
+    const warning = await request(app)
+      .post('/api/alerts/rules')
+      .set(colleague)
+      .send({
+        name: 'Latency warning',
+        metricId: 'authorization_latency',
+        minSeverity: 'warning',
+        sinks: [{ type: 'webhook', url: `${hookBase}/hook` }],
+      })
+    expect(warning.status).toBe(201)
+
+    const now = Date.now()
+    ingestKafkaEventForTesting({ metricId: 'authorization_latency', timestamp: now, value: 905 })
+
+    expect(await alerts.evaluateLiveAlertRules()).toEqual({ evaluated: 2, fired: 2, resolved: 0, notified: 2 })
+    const hooks = httpRequests.filter((entry) => entry.path === '/hook')
+    expect(hooks).toHaveLength(1)
+    expect(hooks[0].body.notifications).toHaveLength(2)
+    const slack = httpRequests.find((entry) => entry.path === '/slack')
+    expect(slack?.body).toMatchObject({ channel: '#payments-ops' })
+    expect(slack?.body.text).toContain('[FIRING CRITICAL] Latency critical: Authorization Latency at 905 ms')
+    expect(mails).toHaveLength(1)
+    expect(mails[0].recipients).toEqual(['oncall@example.com'])
+    expect(mails[0].data).toContain('Subject: Live metric alerts: 1 firing')
+
+    expect(await alerts.evaluateLiveAlertRules()).toMatchObject({ fired: 0, notified: 0 })
+    expect(httpRequests).toHaveLength(2)
+
+    const firing = await request(app).get('/api/alerts').query({ status: 'firing' }).set(colleague)
+    expect(firing.status).toBe(200)
+    expect(firing.body.items).toHaveLength(2)
+    const alert = firing.body.items.find((item: { ruleId: string }) => item.ruleId === critical.body.id)
+    expect(alert).toMatchObject({ severity: 'critical', value: 905, occurrences: 2, detector: 'static' })
+
+    const acknowledged = await request(app).post(`/api/alerts/${alert.id}/acknowledge`).set(colleague)
+    expect(acknowledged.status).toBe(200)
+    expect(acknowledged.body).toMatchObject({ status: 'acknowledged', acknowledgedBy: 'ops-1' })
+
+    ingestKafkaEventForTesting({ metricId: 'authorization_latency', timestamp: now + 5_000, value: 250 })
+    expect(await alerts.evaluateLiveAlertRules()).toMatchObject({ resolved: 2, notified: 2 })
+    const resolvedHook = httpRequests.filter((entry) => entry.path === '/hook').at(-1)
+    expect(resolvedHook?.body.notifications).toEqual([
+      expect.objectContaining({ kind: 'resolved', status: 'resolved' }),
+      expect.objectContaining({ kind: 'resolved', status: 'resolved' }),
+    ])
+    expect(mails.at(-1)?.data).toContain('[RESOLVED] Latency critical')
+
+    const late = await request(app).post(`/api/alerts/${alert.id}/acknowledge`).set(colleague)
+    expect(late.status).toBe(409)
+    expect(late.body.currentStatus).toBe('resolved')
+  })
+
+  it('retries undelivered notifications and manages rule lifecycle', async () => {
+    const created = await request(app)
+      .post('/api/alerts/rules')
+      .set(colleague)
+      .send({
+        name: 'Broken sink',
+        metricId: 'authorization_latency',
+        sinks: [{ type: 'webhook', url: `${hookBase}/broken` }],
+      })
+
+    ingestKafkaEventForTesting({ metricId: 'authorization_latency', timestamp: Date.now() + 10_000, value: 910 })
+    const first = await alerts.evaluateLiveAlertRules()
+    expect(first).toMatchObject({ fired: 3 })
+    expect(first.notified).toBe(2)
+
+    expect(await alerts.evaluateLiveAlertRules()).toMatchObject({ fired: 0, notified: 0 })
+    expect(httpRequests.filter((entry) => entry.path === '/broken')).toHaveLength(2)
+
+    const disabled = await request(app)
+      .patch(`/api/alerts/rules/${created.body.id}`)
+      .set(colleague)
+      .send({ enabled: false })
+    expect(disabled.body.enabled).toBe(false)
+
+    const [open] = await alerts.listLiveAlerts({ ruleId: created.body.id, status: 'firing' })
+    expect(open.lastNotifiedAt).toBeNull()
+
+    const removed = await request(app).delete(`/api/alerts/rules/${created.body.id}`).set(colleague)
+    expect(removed.status).toBe(204)
+    expect((await request(app).get(`/api/alerts/rules/${created.body.id}`).set(colleague)).status).toBe(404)
+    expect(await alerts.listLiveAlerts({ ruleId: created.body.id })).toEqual([])
+  })
+
+  it('does not follow redirects and keeps sinks off internal addresses unless allowed', async () => {
+    const sinks = await import('../services/liveAnalyticsAlertSinks.js')
+    const hooksBefore = httpRequests.filter((entry) => entry.path === '/hook').length
+    await expect(
+      sinks.dispatchLiveAlertNotifications({ type: 'webhook', url: `${hookBase}/redirect` }, []),
+    ).rejects.toThrow('Alert sink responded with 302')
+    expect(httpRequests.filter((entry) => entry.path === '/hook')).toHaveLength(hooksBefore)
+
+    vi.resetModules()
+    delete process.env.ALERTS_ALLOW_PRIVATE_URLS
+    const { liveAlertSinkSchema } = await import('../schemas/alerts.js')
+    const strictSinks = await import('../services/liveAnalyticsAlertSinks.js')
+
+    expect(liveAlertSinkSchema.safeParse({ type: 'webhook', url: 'https://alerts.example.com/hook' }).success).toBe(
+      true,
+    )
+    expect(liveAlertSinkSchema.safeParse({ type: 'webhook', url: 'http://alerts.example.com/hook' }).success).toBe(
+      false,
+    )
+    expect(liveAlertSinkSchema.safeParse({ type: 'slack', url: 'https://169.254.169.254/latest' }).success).toBe(false)
+
+    const requestsBefore = httpRequests.length
+    await expect(
+      strictSinks.dispatchLiveAlertNotifications({ type: 'webhook', url: `${hookBase}/hook` }, []),
+    ).rejects.toThrow('Alert sink resolves to a private address')
+    expect(httpRequests).toHaveLength(requestsBefore)
+  })
+})
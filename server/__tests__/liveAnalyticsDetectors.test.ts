@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import type { LiveMetricMetadata } from '../../shared/data/liveAnalytics.js'
+import type { LiveAnomalyDetectorConfig } from '../../shared/types/domain.js'
+import { detectAnomaly, registerLiveAnomalyDetector, type DetectorPoint } from '../services/liveAnalyticsDetectors.js'
+
+const DAY_MS = 86_400_000
+const now = Date.UTC(2026, 9, 18, 12)
+
+function metadata(
+  detector: LiveAnomalyDetectorConfig,
+  thresholds?: LiveMetricMetadata['thresholds'],
+): LiveMetricMetadata {
+  return {
+    id: 'test_metric',
+    label: 'Test Metric',
+    unit: 'ms',
+    format: 'duration',
+    aggregation: 'mean',
+    narrativeFocus: 'test',
+    thresholds,
+    detector,
+  }
+}
+
+function series(values: number[], stepMs = 5_000): DetectorPoint[] {
+  return values.map((value, index) => ({ timestamp: now - (values.length - 1 - index) * stepMs, value }))
+}
+
+const zscore: LiveAnomalyDetectorConfig = { kind: 'zscore', window: 12, minSamples: 8, warningZ: 2, criticalZ: 3 }
+const steady = [100, 102, 98, 101, 99, 100, 103, 97, 100, 101, 99, 100]
+
+describe('live analytics anomaly detectors', () => {
+  it('flags rolling z-score outliers with an expected band and confidence', () => {
+    const anomaly = detectAnomaly(metadata(zscore), series([...steady, 130]))
+
+    expect(anomaly).toMatchObject({ status: 'critical', breachedThreshold: 'upper', detector: 'zscore' })
+    expect(anomaly.expectedBand?.lower).toBeLessThan(100)
+    expect(anomaly.expectedBand?.upper).toBeGreaterThan(100)
+    expect(anomaly.expectedBand?.upper).toBeLessThan(130)
+    expect(anomaly.confidence).toBeGreaterThan(0.9)
+
+    const calm = detectAnomaly(metadata(zscore), series([...steady, 100]))
+    expect(calm).toMatchObject({ status: 'ok', detector: 'zscore' })
+  })
+
+  it('tracks drift with EWMA control bands and falls back to static thresholds on short history', () => {
+    const ewma = metadata(
+      { kind: 'ewma', alpha: 0.3, minSamples: 6, warningSigma: 2.5, criticalSigma: 3.5 },
+      { upperWarning: 500 },
+    )
+
+    expect(detectAnomaly(ewma, series([...steady, 70]))).toMatchObject({
+      status: 'critical',
+      breachedThreshold: 'lower',
+      detector: 'ewma',
+    })
+    expect(detectAnomaly(ewma, series([100, 101, 99]))).toMatchObject({ status: 'ok', detector: 'static' })
+  })
+
+  it('compares against the same time last day and week', () => {
+    const seasonal = metadata({
+      kind: 'seasonal',
+      periods: ['day', 'week'],
+      toleranceSeconds: 300,
+      warningRatio: 0.1,
+      criticalRatio: 0.25,
+    })
+    const points: DetectorPoint[] = [
+      { timestamp: now - 7 * DAY_MS + 60_000, value: 200 },
+      { timestamp: now - DAY_MS - 30_000, value: 220 },
+      { timestamp: now - 5_000, value: 250 },
+      { timestamp: now, value: 250 },
+    ]
+
+    const anomaly = detectAnomaly(seasonal, points)
+    expect(anomaly).toMatchObject({
+      status: 'warning',
+      detector: 'seasonal',
+      expectedBand: { lower: 189, upper: 231 },
+      confidence: 1,
+    })
+  })
+
+  it('keeps static guardrails in force and accepts replacement detectors', () => {
+    const guarded = metadata(zscore, { upperCritical: 100 })
+    expect(detectAnomaly(guarded, series([...steady, 101]))).toMatchObject({ status: 'critical', detector: 'static' })
+
+    const restore = registerLiveAnomalyDetector('zscore', () => ({
+      status: 'warning',
+      message: 'custom',
+      magnitude: 1,
+      detector: 'zscore',
+      expectedBand: { lower: 0, upper: 1 },
+      confidence: 0.5,
+    }))
+    const unguarded = metadata(zscore)
+    try {
+      expect(detectAnomaly(unguarded, series(steady))).toMatchObject({ message: 'custom' })
+    } finally {
+      restore()
+    }
+    expect(detectAnomaly(unguarded, series(steady))).toMatchObject({ status: 'ok', detector: 'zscore' })
+  })
+})
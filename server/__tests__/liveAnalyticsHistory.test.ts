@@ -0,0 +1,126 @@
+import request from 'supertest'
+import type { Express } from 'express'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+
+type HistoryModule = typeof import('../services/liveAnalyticsHistory.js')
+
+let app: Express
+let history: HistoryModule
+let ingestKafkaEventForTesting: typeof import('../services/liveAnalyticsKafka.js').ingestKafkaEventForTesting
+
+const base = Date.UTC(2026, 9, 18, 10, 0, 0)
+
+beforeAll(async () => {
+  vi.resetModules()
+  process.env.LIVE_ANALYTICS_KAFKA_BROKERS = 'localhost:9092'
+
+  const { createApp } = await import('../app.js')
+  const { databaseReady } = await import('../db/client.js')
+  const kafka = await import('../services/liveAnalyticsKafka.js')
+  history = await import('../services/liveAnalyticsHistory.js')
+  ingestKafkaEventForTesting = kafka.ingestKafkaEventForTesting
+  kafka.resetKafkaBuffersForTesting()
+
+  await databaseReady
+  app = createApp()
+  history.startLiveAnalyticsPersistence()
+})
+
+afterAll(async () => {
+  await history.stopLiveAnalyticsPersistence()
+  delete process.env.LIVE_ANALYTICS_KAFKA_BROKERS
+})
+
+const ingested = [
+  { partnerId: 'amex', offsetMs: 10_000, value: 40 },
+  { partnerId: 'visa', offsetMs: 20_000, value: 20 },
+  { partnerId: 'amex', offsetMs: 40_000, value: 50 },
+  { partnerId: 'amex', offsetMs: 70_000, value: 30 },
+  { partnerId: 'visa', offsetMs: 80_000, value: 10 },
+]
+
+describe('live analytics history', () => {
+  it('persists ingested events once and serves summed rollups', async () => {
+    const ingestAll = () => {
+      for (const event of ingested) {
+        ingestKafkaEventForTesting({
+          metricId: 'signal_activation',
+          timestamp: base + event.offsetMs,
+          value: event.value,
+          region: 'emea',
+          partnerId: event.partnerId,
+        })
+      }
+    }
+
+    ingestAll()
+    expect(await history.flushLiveAnalyticsEvents()).toBe(5)
+    ingestAll()
+    expect(await history.flushLiveAnalyticsEvents()).toBe(0)
+
+    const minute = await request(app).get('/api/dashboard/live/history').query({
+      metricId: 'signal_activation',
+      from: new Date(base).toISOString(),
+      to: new Date(base + 120_000).toISOString(),
+      resolution: '1m',
+    })
+
+    expect(minute.status).toBe(200)
+    expect(minute.body).toMatchObject({ metricId: 'signal_activation', resolution: '1m' })
+    expect(minute.body.points).toEqual([
+      { timestamp: new Date(base).toISOString(), value: 65, min: 60, max: 70, count: 3 },
+      { timestamp: new Date(base + 60_000).toISOString(), value: 40, min: 40, max: 40, count: 2 },
+    ])
+
+    const fiveMinute = await request(app).get('/api/dashboard/live/history').query({
+      metricId: 'signal_activation',
+      from: new Date(base).toISOString(),
+      to: new Date(base + 300_000).toISOString(),
+      resolution: '5m',
+    })
+    expect(fiveMinute.body.points).toEqual([
+      { timestamp: new Date(base).toISOString(), value: 55, min: 40, max: 70, count: 5 },
+    ])
+  })
+
+  it('filters raw events by dimension', async () => {
+    const response = await request(app).get('/api/dashboard/live/history').query({
+      metricId: 'signal_activation',
+      from: new Date(base).toISOString(),
+      to: new Date(base + 120_000).toISOString(),
+      resolution: 'raw',
+      partnerId: 'visa',
+    })
+
+    expect(response.status).toBe(200)
+    expect(response.body.filters).toEqual({ partnerId: 'visa' })
+    expect(response.body.points.map((point: { value: number }) => point.value)).toEqual([20, 10])
+  })
+
+  it('rejects unknown metrics and ranges too large for the resolution', async () => {
+    const unknown = await request(app).get('/api/dashboard/live/history').query({ metricId: 'nope' })
+    expect(unknown.status).toBe(400)
+
+    const tooWide = await request(app).get('/api/dashboard/live/history').query({
+      metricId: 'signal_activation',
+      from: new Date(base - 30 * 86_400_000).toISOString(),
+      to: new Date(base).toISOString(),
+      resolution: '1m',
+    })
+    expect(tooWide.status).toBe(400)
+    expect(tooWide.body.message).toContain('coarser resolution')
+  })
+
+  it('drops raw events and rollups past their retention windows', async () => {
+    expect(await history.applyLiveAnalyticsRetention(base + 49 * 3_600_000)).toEqual({ events: 5, rollups: 0 })
+    expect(await history.applyLiveAnalyticsRetention(base + 8 * 86_400_000)).toEqual({ events: 0, rollups: 4 })
+
+    const response = await request(app).get('/api/dashboard/live/history').query({
+      metricId: 'signal_activation',
+      from: new Date(base).toISOString(),
+      to: new Date(base + 300_000).toISOString(),
+      resolution: '5m',
+    })
+    expect(response.body.points).toHaveLength(1)
+  })
+})
@@ -51,6 +51,41 @@ describe('live analytics kafka buffer', () => {
     expect(events.length).toBe(0)
   })
 
+  it('keeps tagged series apart and reads nested or top-level dimensions', async () => {
+    const now = Date.now()
+    ingestKafkaEventForTesting({ metricId: 'signal_activation', timestamp: now, value: 40, dimensions: { region: 'emea' } })
+    ingestKafkaEventForTesting({ metric_id: 'signal_activation', timestamp: now, value: 25, partner_id: 'amex', tags: { region: 'apac' } })
+    ingestKafkaEventForTesting({ metricId: 'signal_activation', timestamp: now, value: 60 })
+
+    const events = await getKafkaStreamEvents()
+    expect(events).toHaveLength(3)
+    expect(events.map((event) => event.dimensions)).toEqual(
+      expect.arrayContaining([{ region: 'emea' }, { region: 'apac', partnerId: 'amex' }, undefined]),
+    )
+  })
+
+  it('builds filtered and grouped snapshots from tagged events', async () => {
+    const { getLiveAnalyticsSnapshot } = await import('../services/liveAnalytics.js')
+    const now = Date.now()
+    ingestKafkaEventForTesting({ metricId: 'signal_activation', timestamp: now, value: 40, region: 'emea', partnerId: 'amex' })
+    ingestKafkaEventForTesting({ metricId: 'signal_activation', timestamp: now, value: 25, region: 'emea', partnerId: 'visa' })
+    ingestKafkaEventForTesting({ metricId: 'signal_activation', timestamp: now, value: 10, region: 'apac', partnerId: 'amex' })
+    ingestKafkaEventForTesting({ metricId: 'authorization_latency', timestamp: now, value: 300, region: 'emea', partnerId: 'amex' })
+    ingestKafkaEventForTesting({ metricId: 'authorization_latency', timestamp: now, value: 500, region: 'emea', partnerId: 'visa' })
+
+    const snapshot = await getLiveAnalyticsSnapshot({ filters: { region: 'emea' }, groupBy: 'partnerId' })
+    const metric = (id: string, metrics = snapshot.metrics) => metrics.find((entry) => entry.id === id)
+
+    expect(snapshot.dimensions).toEqual({ region: ['apac', 'emea'], merchantCategory: [], partnerId: ['amex', 'visa'] })
+    expect(metric('signal_activation')?.value).toBe(65)
+    expect(metric('authorization_latency')?.value).toBe(400)
+    expect(metric('fraud_block_rate')).toMatchObject({ value: 0, trend: [], anomaly: null })
+
+    expect(snapshot.groups.map((group) => group.value)).toEqual(['amex', 'visa'])
+    expect(metric('signal_activation', snapshot.groups[0].metrics)?.value).toBe(40)
+    expect(metric('authorization_latency', snapshot.groups[1].metrics)?.value).toBe(500)
+  })
+
   it('decodes schema registry payloads when available', async () => {
     const now = Date.now()
     await loadModule({ schemaDecodedPayload: { metricId: 'authorization_latency', timestamp: now, value: 415 } })
@@ -0,0 +1,119 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+
+interface StreamReader {
+  waitFor: (pattern: RegExp) => Promise<RegExpMatchArray>
+  close: () => void
+}
+
+let server: http.Server
+let baseUrl: string
+let ingestKafkaEventForTesting: typeof import('../services/liveAnalyticsKafka.js').ingestKafkaEventForTesting
+let getLiveAnalyticsSubscriberCount: typeof import('../services/liveAnalyticsStream.js').getLiveAnalyticsSubscriberCount
+
+beforeAll(async () => {
+  vi.resetModules()
+  process.env.LIVE_ANALYTICS_KAFKA_BROKERS = 'localhost:9092'
+  process.env.LIVE_ANALYTICS_SSE_HEARTBEAT_MS = '1000'
+
+  const { createApp } = await import('../app.js')
+  const kafka = await import('../services/liveAnalyticsKafka.js')
+  ingestKafkaEventForTesting = kafka.ingestKafkaEventForTesting
+  getLiveAnalyticsSubscriberCount = (await import('../services/liveAnalyticsStream.js')).getLiveAnalyticsSubscriberCount
+  kafka.resetKafkaBuffersForTesting()
+
+  server = createApp().listen(0)
+  await new Promise<void>((resolve) => server.once('listening', () => resolve()))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()))
+  delete process.env.LIVE_ANALYTICS_KAFKA_BROKERS
+  delete process.env.LIVE_ANALYTICS_SSE_HEARTBEAT_MS
+})
+
+function openStream(headers: Record<string, string> = {}): Promise<StreamReader> {
+  return new Promise((resolve, reject) => {
+    const request = http.get(`${baseUrl}/api/dashboard/live/stream`, { headers }, (response) => {
+      expect(response.statusCode).toBe(200)
+      expect(response.headers['content-type']).toContain('text/event-stream')
+
+      let buffer = ''
+      let waiters: Array<() => void> = []
+      response.setEncoding('utf8')
+      response.on('data', (chunk: string) => {
+        buffer += chunk
+        const pending = waiters
+        waiters = []
+        pending.forEach((wake) => wake())
+      })
+
+      resolve({
+        waitFor(pattern) {
+          return new Promise((resolveMatch, rejectMatch) => {
+            const timeout = setTimeout(() => rejectMatch(new Error(`Timed out waiting for ${pattern}`)), 4_000)
+            const check = () => {
+              const match = buffer.match(pattern)
+              if (match) {
+                clearTimeout(timeout)
+                buffer = buffer.slice((match.index ?? 0) + match[0].length)
+                resolveMatch(match)
+                return
+              }
+              waiters.push(check)
+            }
+            check()
+          })
+        },
+        close() {
+          request.destroy()
+        },
+      })
+    })
+    request.on('error', reject)
+  })
+}
+
+describe('live analytics stream', () => {
+  it('pushes the current snapshot with an event id and heartbeats', async () => {
+    const stream = await openStream()
+    try {
+      await stream.waitFor(/retry: \d+\n\n/)
+      const [, id, data] = await stream.waitFor(/id: (\d+)\nevent: snapshot\ndata: (.+)\n\n/)
+
+      expect(Number(id)).toBeGreaterThan(0)
+      expect(JSON.parse(data)).toMatchObject({
+        generatedAt: expect.any(String),
+        metrics: expect.any(Array),
+        narrative: expect.any(String),
+      })
+
+      await stream.waitFor(/: heartbeat [^\n]+\n\n/)
+    } finally {
+      stream.close()
+    }
+  })
+
+  it('resumes from Last-Event-ID and pushes snapshots when new events arrive', async () => {
+    const first = await openStream()
+    const [, id] = await first.waitFor(/id: (\d+)\nevent: snapshot\n/)
+    first.close()
+
+    const resumed = await openStream({ 'Last-Event-ID': id })
+    try {
+      await resumed.waitFor(/retry: \d+\n\n/)
+      const now = Date.now()
+      ingestKafkaEventForTesting({ metricId: 'authorization_latency', timestamp: now, value: 905 })
+
+      const [, nextId] = await resumed.waitFor(/id: (\d+)\nevent: snapshot\ndata: .*"value":905[,}].*\n\n/)
+      expect(Number(nextId)).toBeGreaterThan(Number(id))
+    } finally {
+      resumed.close()
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(getLiveAnalyticsSubscriberCount()).toBe(0)
+  })
+})
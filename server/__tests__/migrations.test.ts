@@ -0,0 +1,100 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import type { Pool } from 'pg'
+import { DataType, newDb } from 'pg-mem'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  createMigration,
+  getMigrationStatus,
+  loadMigrations,
+  MigrationChecksumError,
+  migrateDown,
+  migrateUp,
+} from '../db/migrator.js'
+
+function createMemoryPool(): Pool {
+  const db = newDb({ autoCreateForeignKeyIndices: true })
+  for (const name of ['pg_advisory_lock', 'pg_advisory_unlock']) {
+    db.public.registerFunction({ name, args: [DataType.bigint], returns: DataType.bool, implementation: () => true })
+  }
+  const { Pool: MemoryPool } = db.adapters.createPg()
+  return new MemoryPool() as Pool
+}
+
+async function listColumns(pool: Pool, table: string): Promise<string[]> {
+  const result = await pool.query<{ column_name: string }>(
+    'SELECT column_name FROM information_schema.columns WHERE table_name = $1',
+    [table],
+  )
+  return result.rows.map((row) => row.column_name)
+}
+
+describe('Versioned migrations', () => {
+  let pool: Pool
+
+  beforeEach(() => {
+    pool = createMemoryPool()
+  })
+
+  afterEach(async () => {
+    await pool.end()
+  })
+
+  it('applies pending migrations once and records checksums', async () => {
+    const migrations = await loadMigrations()
+    const applied = await migrateUp(pool, { inMemory: true })
+
+    expect(applied.map((migration) => migration.version)).toEqual(migrations.map((migration) => migration.version))
+    expect(await migrateUp(pool, { inMemory: true })).toEqual([])
+
+    const statuses = await getMigrationStatus(pool)
+    expect(statuses.every((status) => status.state === 'applied')).toBe(true)
+    expect(statuses[0]).toMatchObject({ version: '0001', checksum: migrations[0].checksum })
+    expect(await listColumns(pool, 'partner_signal_audits')).toEqual(
+      expect.arrayContaining(['transition_rule', 'batch_id']),
+    )
+  })
+
+  it('rolls back to a target version and re-applies', async () => {
+    // Everything after the baseline, in the order the registry applies it, so new migrations need no edits here.
+    const laterVersions = (await loadMigrations()).map((migration) => migration.version).slice(1)
+    expect(laterVersions[0]).toBe('0002')
+    await migrateUp(pool, { inMemory: true })
+
+    const reverted = await migrateDown(pool, { inMemory: true, to: '0001' })
+    expect(reverted.map((migration) => migration.version)).toEqual([...laterVersions].reverse())
+    expect(await listColumns(pool, 'partner_signal_audits')).not.toContain('transition_rule')
+
+    const statuses = await getMigrationStatus(pool)
+    expect(statuses.filter((status) => status.state === 'pending').map((status) => status.version)).toEqual(
+      laterVersions,
+    )
+
+    const reapplied = await migrateUp(pool, { inMemory: true, to: '0002' })
+    expect(reapplied.map((migration) => migration.version)).toEqual(['0002'])
+  })
+
+  it('refuses to migrate when an applied migration was edited', async () => {
+    await migrateUp(pool, { inMemory: true })
+    await pool.query(`UPDATE schema_migrations SET checksum = 'tampered' WHERE version = '0002'`)
+
+    const statuses = await getMigrationStatus(pool)
+    expect(statuses.find((status) => status.version === '0002')?.state).toBe('checksum_mismatch')
+    await expect(migrateUp(pool, { inMemory: true })).rejects.toBeInstanceOf(MigrationChecksumError)
+  })
+
+  it('scaffolds the next numbered migration file', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'migrations-'))
+    try {
+      const first = await createMigration('Add partner registry', directory)
+      const second = await createMigration('add-merchant-index', directory)
+
+      expect(path.basename(first)).toBe('0001_add_partner_registry.ts')
+      expect(path.basename(second)).toBe('0002_add_merchant_index.ts')
+      expect(await readdir(directory)).toHaveLength(2)
+    } finally {
+      await rm(directory, { recursive: true, force: true })
+    }
+  })
+})
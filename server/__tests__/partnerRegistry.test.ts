@@ -0,0 +1,131 @@
+import request, { type Test } from 'supertest'
+import { afterEach, beforeAll, describe, expect, it } from 'vitest'
+import { createApp } from '../app.js'
+import { databaseReady } from '../db/client.js'
+import { resetPartnerSignals } from '../services/partnerSignals.js'
+import { asAdmin, submitSignal } from './helpers.js'
+
+const app = createApp()
+
+beforeAll(async () => {
+  await databaseReady
+})
+
+afterEach(async () => {
+  await resetPartnerSignals()
+})
+
+function asMerchant(test: Test, partnerId: string): Test {
+  return test.set('x-user-role', 'merchant').set('x-user-id', 'partner.ops').set('x-partner-id', partnerId)
+}
+
+async function register(kind: 'partners' | 'merchants', id: string, name: string) {
+  const response = await asAdmin(request(app).post(`/api/partners/registry/${kind}`)).send({ id, name })
+  expect(response.status).toBe(201)
+  return response.body as { id: string; name: string; active: boolean }
+}
+
+describe('partner and merchant registry', () => {
+  it('manages registry entries and keeps signal names in step with renames', async () => {
+    const partner = await register('partners', 'registry-labs', 'Registry Labs')
+    expect(partner).toMatchObject({ id: 'registry-labs', name: 'Registry Labs', active: true })
+
+    const duplicate = await asAdmin(request(app).post('/api/partners/registry/partners')).send({
+      id: 'registry-labs',
+      name: 'Registry Labs Again',
+    })
+    expect(duplicate.status).toBe(409)
+
+    const forbidden = await asMerchant(request(app).post('/api/partners/registry/merchants'), 'registry-labs').send({
+      id: 'sneaky-merchant',
+      name: 'Sneaky Merchant',
+    })
+    expect(forbidden.status).toBe(403)
+
+    const scoped = await asMerchant(request(app).get('/api/partners/registry/partners'), 'registry-labs')
+    expect(scoped.body.items.map((item: { id: string }) => item.id)).toEqual(['registry-labs'])
+
+    await register('merchants', 'registry-shop', 'Registry Shop')
+    const signal = await submitSignal(app, {
+      partnerId: 'registry-labs',
+      merchantId: 'registry-shop',
+      signalType: 'growth',
+      description: 'Registry-backed signal used to check that renames reach existing rows.',
+      confidence: 0.6,
+    })
+
+    const renamed = await asAdmin(request(app).patch('/api/partners/registry/merchants/registry-shop')).send({
+      name: 'Registry Shop & Co',
+    })
+    expect(renamed.body.name).toBe('Registry Shop & Co')
+    const refreshed = await asAdmin(request(app).get(`/api/partners/signals/${signal.id}`))
+    expect(refreshed.body.merchantName).toBe('Registry Shop & Co')
+
+    const inUse = await asAdmin(request(app).delete('/api/partners/registry/merchants/registry-shop'))
+    expect(inUse.status).toBe(409)
+
+    await register('merchants', 'unused-shop', 'Unused Shop')
+    const deleted = await asAdmin(request(app).delete('/api/partners/registry/merchants/unused-shop'))
+    expect(deleted.status).toBe(204)
+    const missing = await asAdmin(request(app).get('/api/partners/registry/merchants/unused-shop'))
+    expect(missing.status).toBe(404)
+  })
+
+  it('validates signal submissions against the registry and aggregates a merchant overview', async () => {
+    await register('partners', 'north-labs', 'North Labs')
+    await register('partners', 'south-labs', 'South Labs')
+    await register('merchants', 'harbor-cafe', 'Harbor Cafe')
+
+    const submit = (partnerId: string, merchantId: string, extra: Record<string, unknown> = {}) =>
+      asAdmin(request(app).post('/api/partners/signals')).send({
+        partnerId,
+        merchantId,
+        signalType: 'retention',
+        description: 'Repeat visits at the harbour location rose after the loyalty tie-in launched.',
+        confidence: 0.7,
+        ...extra,
+      })
+
+    const unknownPartner = await submit('ghost-labs', 'harbor-cafe')
+    expect(unknownPartner.status).toBe(422)
+    const unknownMerchant = await submit('north-labs', 'ghost-merchant')
+    expect(unknownMerchant.status).toBe(422)
+
+    const first = await submit('north-labs', 'harbor-cafe', { merchantName: 'harbour cafe (typo)' })
+    expect(first.status).toBe(201)
+    expect(first.body).toMatchObject({ partnerName: 'North Labs', merchantName: 'Harbor Cafe' })
+    const second = await submit('south-labs', 'harbor-cafe', { signalType: 'risk' })
+    expect(second.status).toBe(201)
+    await asAdmin(request(app).patch(`/api/partners/signals/${second.body.id}/status`)).send({
+      status: 'in_review',
+    })
+
+    const overview = await asAdmin(request(app).get('/api/partners/registry/merchants/harbor-cafe/overview'))
+    expect(overview.status).toBe(200)
+    expect(overview.body).toMatchObject({
+      merchant: { id: 'harbor-cafe', name: 'Harbor Cafe' },
+      stats: { total: 2, status: { pending: 1, in_review: 1 }, signalType: { retention: 1, risk: 1 } },
+      latestStatus: 'in_review',
+      lastSubmittedAt: second.body.submittedAt,
+    })
+    expect(overview.body.partners.map((partner: { id: string }) => partner.id).sort()).toEqual([
+      'north-labs',
+      'south-labs',
+    ])
+    expect(overview.body.recentSignals.map((signal: { id: string }) => signal.id)).toEqual([
+      second.body.id,
+      first.body.id,
+    ])
+
+    const scoped = await asMerchant(
+      request(app).get('/api/partners/registry/merchants/harbor-cafe/overview'),
+      'north-labs',
+    )
+    expect(scoped.body.stats.total).toBe(1)
+    expect(scoped.body.latestStatus).toBe('pending')
+
+    await asAdmin(request(app).patch('/api/partners/registry/merchants/harbor-cafe')).send({ active: false })
+    const inactive = await submit('north-labs', 'harbor-cafe')
+    expect(inactive.status).toBe(422)
+  })
+})
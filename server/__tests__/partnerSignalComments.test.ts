@@ -0,0 +1,109 @@
+import request from 'supertest'
+import { afterEach, beforeAll, describe, expect, it } from 'vitest'
+import { createApp } from '../app.js'
+import { databaseReady, dbPool } from '../db/client.js'
+import { resetPartnerSignals } from '../services/partnerSignals.js'
+import { asColleague } from './helpers.js'
+
+const app = createApp()
+
+beforeAll(async () => {
+  await databaseReady
+})
+
+afterEach(async () => {
+  await resetPartnerSignals()
+  await dbPool.query('TRUNCATE TABLE moderators RESTART IDENTITY CASCADE')
+})
+
+async function findSignal(partnerId: string): Promise<{ id: string }> {
+  const response = await asColleague(request(app).get('/api/partners/signals').query({ limit: 100 }))
+  return response.body.items.find((item: { partnerId: string }) => item.partnerId === partnerId)
+}
+
+describe('partner signal comments', () => {
+  it('threads replies, resolves mentions and keeps edit history', async () => {
+    await dbPool.query(
+      `INSERT INTO moderators (id, email, name, role, source, active, synced_at, metadata)
+       VALUES ($1, $2, $3, $4, $5, $6, NOW(), $7)`,
+      ['risk.lead', 'dana.risk@example.com', 'Dana Risk', 'colleague', 'scim', true, JSON.stringify({})],
+    )
+    const signal = await findSignal('merchant-partner-labs')
+    const path = `/api/partners/signals/${signal.id}/comments`
+
+    const root = await asColleague(request(app).post(path)).send({ body: 'Can @risk.lead take a look? cc @nobody' })
+    expect(root.status).toBe(201)
+    expect(root.body).toMatchObject({
+      parentId: null,
+      authorId: 'qa.colleague',
+      mentions: [{ id: 'risk.lead', name: 'Dana Risk' }],
+      editedAt: null,
+    })
+
+    const reply = await asColleague(request(app).post(path), { id: 'risk.lead' }).send({
+      body: 'On it, looping in @dana.risk.',
+      parentId: root.body.id,
+    })
+    expect(reply.status).toBe(201)
+    expect(reply.body).toMatchObject({ parentId: root.body.id, mentions: [{ id: 'risk.lead', name: 'Dana Risk' }] })
+
+    const orphan = await asColleague(request(app).post(path)).send({ body: 'Lost reply', parentId: 'missing' })
+    expect(orphan.status).toBe(422)
+
+    const edited = await asColleague(request(app).patch(`${path}/${root.body.id}`)).send({ body: 'Resolved offline.' })
+    expect(edited.status).toBe(200)
+    expect(edited.body).toMatchObject({ body: 'Resolved offline.', mentions: [], editedAt: expect.any(String) })
+    expect(edited.body.history).toEqual([
+      expect.objectContaining({
+        body: 'Can @risk.lead take a look? cc @nobody',
+        mentions: [{ id: 'risk.lead', name: 'Dana Risk' }],
+        editedBy: 'qa.colleague',
+      }),
+    ])
+
+    const listed = await asColleague(request(app).get(path))
+    expect(listed.status).toBe(200)
+    expect(listed.body.items.map((item: { id: string }) => item.id)).toEqual([root.body.id, reply.body.id])
+    expect(listed.body.items[0].history).toHaveLength(1)
+  })
+
+  it('limits edits to the author, soft deletes and respects signal scope and permissions', async () => {
+    const signal = await findSignal('merchant-partner-labs')
+    const path = `/api/partners/signals/${signal.id}/comments`
+    const created = await asColleague(request(app).post(path)).send({ body: 'Needs the merchant contract.' })
+
+    const otherReviewer = { id: 'other.reviewer' }
+    const foreignEdit = await asColleague(request(app).patch(`${path}/${created.body.id}`), otherReviewer).send({
+      body: 'Hijacked',
+    })
+    expect(foreignEdit.status).toBe(403)
+    const foreignDelete = await asColleague(request(app).delete(`${path}/${created.body.id}`), otherReviewer)
+    expect(foreignDelete.status).toBe(403)
+
+    const removed = await asColleague(request(app).delete(`${path}/${created.body.id}`))
+    expect(removed.status).toBe(204)
+    const listed = await asColleague(request(app).get(path))
+    expect(listed.body.items).toEqual([
+      expect.objectContaining({ id: created.body.id, body: '', deletedAt: expect.any(String) }),
+    ])
+    const editDeleted = await asColleague(request(app).patch(`${path}/${created.body.id}`)).send({ body: 'Back' })
+    expect(editDeleted.status).toBe(404)
+
+    const merchant = await request(app)
+      .post(path)
+      .set('x-user-role', 'merchant')
+      .set('x-user-id', 'labs.submitter')
+      .set('x-partner-id', 'merchant-partner-labs')
+      .send({ body: 'Contract attached.' })
+    expect(merchant.status).toBe(201)
+
+    const outOfScope = await request(app)
+      .get(path)
+      .set('x-user-role', 'merchant')
+      .set('x-partner-id', 'amex-ventures')
+    expect(outOfScope.status).toBe(404)
+
+    const auditor = await request(app).post(path).set('x-user-role', 'auditor').send({ body: 'Read only' })
+    expect(auditor.status).toBe(403)
+  })
+})
@@ -0,0 +1,86 @@
+import request from 'supertest'
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { createApp } from '../app.js'
+import { databaseReady } from '../db/client.js'
+import { createRegistryEntry } from '../services/partnerRegistry.js'
+import { resetPartnerSignals } from '../services/partnerSignals.js'
+import { asColleague, submitSignal } from './helpers.js'
+
+const app = createApp()
+
+beforeAll(async () => {
+  await databaseReady
+})
+
+beforeEach(async () => {
+  await createRegistryEntry('partner', { id: 'etag-labs', name: 'Etag Labs' })
+  await createRegistryEntry('merchant', { id: 'etag-market', name: 'Etag Market' })
+})
+
+afterEach(async () => {
+  await resetPartnerSignals()
+})
+
+const etagSignal = { partnerId: 'etag-labs', merchantId: 'etag-market' }
+
+describe('partner signal optimistic concurrency', () => {
+  it('versions signals behind an ETag and rejects status changes made against a stale copy', async () => {
+    const { id: signalId } = await submitSignal(app, etagSignal)
+
+    const read = await asColleague(request(app).get(`/api/partners/signals/${signalId}`))
+    expect(read.status).toBe(200)
+    expect(read.headers.etag).toBe('"v1"')
+    expect(read.body.version).toBe(1)
+
+    const unchanged = await asColleague(request(app).get(`/api/partners/signals/${signalId}`)).set(
+      'if-none-match',
+      '"v1"',
+    )
+    expect(unchanged.status).toBe(304)
+
+    const moved = await asColleague(request(app).patch(`/api/partners/signals/${signalId}/status`))
+      .set('if-match', '"v1"')
+      .send({ status: 'in_review' })
+    expect(moved.status).toBe(200)
+    expect(moved.headers.etag).toBe('"v2"')
+
+    const stale = await asColleague(request(app).patch(`/api/partners/signals/${signalId}/status`))
+      .set('if-match', '"v1"')
+      .send({ status: 'approved' })
+    expect(stale.status).toBe(412)
+    expect(stale.headers.etag).toBe('"v2"')
+    expect(stale.body.signal).toMatchObject({ id: signalId, status: 'in_review', version: 2 })
+
+    const latest = await asColleague(request(app).get(`/api/partners/signals/${signalId}`))
+    expect(latest.body).toMatchObject({ status: 'in_review', version: 2 })
+  })
+
+  it('applies the same precondition to reviewer assignments', async () => {
+    const { id: signalId } = await submitSignal(app, etagSignal)
+    const reviewer = { reviewerId: 'qa.supervisor', reviewerName: 'QA Supervisor', reviewerRole: 'colleague' }
+
+    const weak = await asColleague(request(app).post(`/api/partners/signals/${signalId}/assignments`))
+      .set('if-match', 'W/"v1"')
+      .send(reviewer)
+    expect(weak.status).toBe(412)
+
+    const wildcard = await asColleague(request(app).post(`/api/partners/signals/${signalId}/assignments`))
+      .set('if-match', '*')
+      .send(reviewer)
+    expect(wildcard.status).toBe(200)
+    expect(wildcard.body).toMatchObject({ assignedReviewerId: 'qa.supervisor', version: 2 })
+
+    const stale = await asColleague(request(app).post(`/api/partners/signals/${signalId}/assignments`))
+      .set('if-match', '"v1"')
+      .send({ ...reviewer, reviewerId: 'qa.other', reviewerName: 'QA Other' })
+    expect(stale.status).toBe(412)
+
+    const unconditional = await asColleague(request(app).post(`/api/partners/signals/${signalId}/assignments`)).send({
+      ...reviewer,
+      reviewerId: 'qa.other',
+      reviewerName: 'QA Other',
+    })
+    expect(unconditional.status).toBe(200)
+    expect(unconditional.headers.etag).toBe('"v3"')
+  })
+})
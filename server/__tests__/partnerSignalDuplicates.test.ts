@@ -0,0 +1,102 @@
+import request from 'supertest'
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { createApp } from '../app.js'
+import { databaseReady } from '../db/client.js'
+import { createRegistryEntry } from '../services/partnerRegistry.js'
+import { resetPartnerSignals } from '../services/partnerSignals.js'
+import { descriptionSimilarity } from '../services/partnerSignalDuplicates.js'
+import { asColleague, submitSignal } from './helpers.js'
+
+const app = createApp()
+
+beforeAll(async () => {
+  await databaseReady
+})
+
+beforeEach(async () => {
+  for (const [id, name] of [['dupe-labs', 'Dupe Labs'], ['echo-partners', 'Echo Partners']]) {
+    await createRegistryEntry('partner', { id, name })
+  }
+  for (const [id, name] of [['dupe-merchant', 'Dupe Merchant'], ['another-merchant', 'Another Merchant']]) {
+    await createRegistryEntry('merchant', { id, name })
+  }
+})
+
+afterEach(async () => {
+  await resetPartnerSignals()
+})
+
+function dupeSignal(description: string, overrides: { partnerId?: string; merchantId?: string } = {}) {
+  const partnerId = overrides.partnerId ?? 'dupe-labs'
+  return {
+    partnerId,
+    merchantId: overrides.merchantId ?? 'dupe-merchant',
+    signalType: 'risk',
+    description,
+    confidence: 0.7,
+    metadata: { source: partnerId },
+  }
+}
+
+const ORIGINAL = 'Chargeback volume for the merchant tripled over the last week across card-not-present sales.'
+const RESUBMITTED = 'Chargeback volume for the merchant tripled over the last week across card not present sales!'
+const UNRELATED = 'Refund requests spiked after a pricing change on premium plans.'
+
+describe('partner signal duplicates', () => {
+  it('scores shingled descriptions with Jaccard similarity', () => {
+    expect(descriptionSimilarity(ORIGINAL, ORIGINAL)).toBe(1)
+    expect(descriptionSimilarity(ORIGINAL, RESUBMITTED)).toBeGreaterThan(0.8)
+    expect(descriptionSimilarity(ORIGINAL, UNRELATED)).toBeLessThan(0.1)
+  })
+
+  it('flags resubmissions and merges them into the canonical signal', async () => {
+    const canonical = await submitSignal(app, dupeSignal(ORIGINAL))
+    const duplicate = await submitSignal(app, dupeSignal(RESUBMITTED, { partnerId: 'echo-partners' }))
+    const otherMerchant = await submitSignal(app, dupeSignal(RESUBMITTED, { merchantId: 'another-merchant' }))
+    const unrelated = await submitSignal(app, dupeSignal(UNRELATED))
+
+    expect(canonical.duplicateOfId).toBeNull()
+    expect(duplicate).toMatchObject({ duplicateOfId: canonical.id, duplicateScore: expect.any(Number) })
+    expect(otherMerchant.duplicateOfId).toBeNull()
+    expect(unrelated.duplicateOfId).toBeNull()
+
+    const comment = await asColleague(request(app).post(`/api/partners/signals/${duplicate.id}/comments`)).send({
+      body: 'Same chargeback spike as the earlier report.',
+    })
+    expect(comment.status).toBe(201)
+
+    const forbidden = await request(app)
+      .post(`/api/partners/signals/${duplicate.id}/merge`)
+      .set('x-user-role', 'merchant')
+      .set('x-partner-id', 'echo-partners')
+    expect(forbidden.status).toBe(403)
+
+    const notFlagged = await asColleague(request(app).post(`/api/partners/signals/${unrelated.id}/merge`))
+    expect(notFlagged.status).toBe(422)
+
+    const merged = await asColleague(request(app).post(`/api/partners/signals/${duplicate.id}/merge`)).send({
+      notes: 'Partner resubmission',
+    })
+    expect(merged.status).toBe(200)
+    expect(merged.body.duplicate).toMatchObject({ status: 'archived', mergedIntoId: canonical.id })
+    expect(merged.body.canonical.metadata).toMatchObject({
+      source: 'dupe-labs',
+      mergedSignals: [expect.objectContaining({ id: duplicate.id, partnerId: 'echo-partners' })],
+    })
+
+    const again = await asColleague(request(app).post(`/api/partners/signals/${duplicate.id}/merge`))
+    expect(again.status).toBe(409)
+
+    const audits = await asColleague(request(app).get(`/api/partners/signals/${canonical.id}/audits`))
+    const created = audits.body.items.filter((audit: { action: string }) => audit.action === 'created')
+    expect(created).toHaveLength(2)
+    expect(audits.body.items).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ action: 'merged', notes: `Merged duplicate ${duplicate.id}: Partner resubmission` }),
+      ]),
+    )
+
+    const comments = await asColleague(request(app).get(`/api/partners/signals/${canonical.id}/comments`))
+    expect(comments.body.items.map((item: { id: string }) => item.id)).toContain(comment.body.id)
+  })
+})
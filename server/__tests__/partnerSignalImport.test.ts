@@ -0,0 +1,176 @@
+import request, { type Test } from 'supertest'
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { createApp } from '../app.js'
+import { databaseReady, dbPool } from '../db/client.js'
+import { createRegistryEntry } from '../services/partnerRegistry.js'
+import { failStalePartnerSignalImports, getPartnerSignalImportJob } from '../services/partnerSignalImport.js'
+import { resetPartnerSignals } from '../services/partnerSignals.js'
+import { parseCsv } from '../utils/csv.js'
+import { asColleague, submitSignal } from './helpers.js'
+
+const app = createApp()
+
+beforeAll(async () => {
+  await databaseReady
+})
+
+beforeEach(async () => {
+  await createRegistryEntry('partner', { id: 'bulk-labs', name: 'Bulk Labs' })
+  for (const [index, label] of ['One', 'Two', 'Three'].entries()) {
+    await createRegistryEntry('merchant', { id: `bulk-${index + 1}`, name: `Bulk Merchant ${label}` })
+    await createRegistryEntry('merchant', { id: `ndjson-${index + 1}`, name: `NDJSON Merchant ${index + 1}` })
+  }
+})
+
+afterEach(async () => {
+  await resetPartnerSignals()
+})
+
+const CSV = [
+  'partner_id,partner_name,merchant_id,merchant_name,signal_type,description,confidence,metadata',
+  'bulk-labs,Bulk Labs,bulk-1,Bulk Merchant One,growth,"Basket size grew 12% after the loyalty relaunch, per POS data.",0.8,"{""region"":""emea""}"',
+  'bulk-labs,Bulk Labs,bulk-2,Bulk Merchant Two,risk,Too short,1.4,',
+  'bulk-labs,Bulk Labs,bulk-3,Bulk Merchant Three,retention,Churn among premium cardholders dropped after the fee waiver.,0.6,{oops',
+].join('\n')
+
+describe('partner signal import and export', () => {
+  it('dry-runs a CSV with per-row errors and imports the valid rows', async () => {
+    const dryRun = await asColleague(request(app).post('/api/partners/signals/import?dryRun=true'))
+      .set('content-type', 'text/csv')
+      .send(CSV)
+    expect(dryRun.status).toBe(200)
+    expect(dryRun.body).toMatchObject({ format: 'csv', totalRows: 3, validRows: 1, invalidRows: 2 })
+    expect(dryRun.body.errors.map((error: { line: number }) => error.line)).toEqual([3, 4])
+    expect(dryRun.body.errors[0].issues.map((issue: { path: string }) => issue.path)).toEqual(
+      expect.arrayContaining(['description', 'confidence']),
+    )
+
+    const before = await asColleague(request(app).get('/api/partners/signals').query({ q: 'Bulk Merchant' }))
+    expect(before.body.total).toBe(0)
+
+    const imported = await asColleague(request(app).post('/api/partners/signals/import'))
+      .set('content-type', 'text/csv')
+      .send(CSV)
+    expect(imported.status).toBe(201)
+    expect(imported.body).toMatchObject({ status: 'completed', totalRows: 3, importedRows: 1, failedRows: 2 })
+
+    const after = await asColleague(request(app).get('/api/partners/signals').query({ q: 'Bulk Merchant' }))
+    expect(after.body.items).toEqual([expect.objectContaining({ merchantId: 'bulk-1', metadata: { region: 'emea' } })])
+
+    const missingColumns = await asColleague(request(app).post('/api/partners/signals/import?dryRun=true'))
+      .set('content-type', 'text/csv')
+      .send('partnerId,description\nbulk-labs,Nothing else here')
+    expect(missingColumns.status).toBe(422)
+  })
+
+  it('runs NDJSON imports as background jobs scoped to the submitter and streams filtered exports', async () => {
+    const rows = [1, 2, 3].map((index) =>
+      JSON.stringify({
+        partnerId: 'merchant-partner-labs',
+        partnerName: 'Merchant Partner Labs',
+        merchantId: `ndjson-${index}`,
+        merchantName: `NDJSON Merchant ${index}`,
+        signalType: 'innovation',
+        description: `Pilot ${index} of tap-to-pay kiosks lifted throughput at peak hours.`,
+        confidence: 0.5,
+      }),
+    )
+    rows.push(JSON.stringify({ ...JSON.parse(rows[0]), partnerId: 'someone-else', merchantId: 'foreign' }))
+
+    const merchant = (test: Test) =>
+      test.set('x-user-role', 'merchant').set('x-user-id', 'partner.ops').set('x-partner-id', 'merchant-partner-labs')
+
+    const started = await merchant(request(app).post('/api/partners/signals/import?background=true'))
+      .set('content-type', 'application/x-ndjson')
+      .send(rows.join('\n'))
+    expect(started.status).toBe(202)
+    expect(started.headers.location).toBe(`/api/partners/signals/import/${started.body.id}`)
+
+    let job = started.body
+    for (let attempt = 0; attempt < 50 && job.status !== 'completed'; attempt += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 20))
+      job = (await merchant(request(app).get(started.headers.location))).body
+    }
+    expect(job).toMatchObject({ status: 'completed', processedRows: 4, importedRows: 3, failedRows: 1 })
+    expect(job.errors[0]).toMatchObject({
+      line: 4,
+      issues: [expect.objectContaining({ path: 'partnerId' }), expect.objectContaining({ path: 'merchantId' })],
+    })
+
+    const otherPartner = await request(app)
+      .get(started.headers.location)
+      .set('x-user-role', 'merchant')
+      .set('x-partner-id', 'amex-ventures')
+    expect(otherPartner.status).toBe(404)
+
+    const ndjson = await merchant(request(app).get('/api/partners/signals/export'))
+      .query({ format: 'ndjson', signalType: 'innovation', q: 'NDJSON' })
+    expect(ndjson.status).toBe(200)
+    expect(ndjson.headers['content-type']).toContain('application/x-ndjson')
+    const exported = ndjson.text.trim().split('\n').map((line) => JSON.parse(line))
+    expect(exported.map((signal: { merchantId: string }) => signal.merchantId).sort()).toEqual([
+      'ndjson-1',
+      'ndjson-2',
+      'ndjson-3',
+    ])
+
+    const csv = await asColleague(request(app).get('/api/partners/signals/export')).query({ q: 'NDJSON Merchant 2' })
+    expect(csv.headers['content-type']).toContain('text/csv')
+    expect(csv.headers['content-disposition']).toMatch(/attachment; filename="partner-signals-.*\.csv"/)
+    const [header, row, ...rest] = csv.text.trim().split('\r\n')
+    expect(header.startsWith('partnerId,partnerName,merchantId,merchantName,signalType,description')).toBe(true)
+    expect(row).toContain('ndjson-2')
+    expect(rest).toEqual([])
+  })
+
+  it('neutralises formula cells in CSV exports and restores them on import', async () => {
+    const description = '=HYPERLINK("https://evil.example/refunds","Open the refund abuse report")'
+    await submitSignal(app, {
+      partnerId: 'bulk-labs',
+      merchantId: 'bulk-1',
+      signalType: 'risk',
+      description,
+      confidence: 0.7,
+    })
+
+    const csv = await asColleague(request(app).get('/api/partners/signals/export')).query({ q: 'Bulk Merchant One' })
+    const [header, row] = parseCsv(csv.text)
+    expect(row[header.indexOf('description')]).toBe(`'${description}`)
+    expect(row[header.indexOf('confidence')]).toBe('0.7')
+
+    const imported = await asColleague(request(app).post('/api/partners/signals/import'))
+      .set('content-type', 'text/csv')
+      .send(csv.text)
+    expect(imported.body).toMatchObject({ status: 'completed', importedRows: 1 })
+
+    const listed = await asColleague(request(app).get('/api/partners/signals').query({ q: 'Bulk Merchant One' }))
+    expect(listed.body.items.map((item: { description: string }) => item.description)).toEqual([
+      description,
+      description,
+    ])
+  })
+
+  it('fails background jobs a stopped process left behind without touching recent ones', async () => {
+    const now = new Date()
+    const insertJob = (id: string, status: string, updatedAt: Date) =>
+      dbPool.query(
+        `INSERT INTO partner_signal_import_jobs (id, status, format, total_rows, created_by, created_at, updated_at)
+         VALUES ($1, $2, 'csv', 500, 'ops.importer', $3, $3)`,
+        [id, status, updatedAt.toISOString()],
+      )
+    const hourAgo = new Date(now.getTime() - 60 * 60_000)
+    await insertJob('stale-running', 'running', hourAgo)
+    await insertJob('stale-queued', 'queued', hourAgo)
+    await insertJob('stale-completed', 'completed', hourAgo)
+    await insertJob('fresh-running', 'running', new Date(now.getTime() - 60_000))
+
+    expect(await failStalePartnerSignalImports(now)).toBe(2)
+    expect(await getPartnerSignalImportJob('stale-running')).toMatchObject({
+      status: 'failed',
+      completedAt: now.toISOString(),
+    })
+    expect(await getPartnerSignalImportJob('stale-queued')).toMatchObject({ status: 'failed' })
+    expect(await getPartnerSignalImportJob('stale-completed')).toMatchObject({ status: 'completed' })
+    expect(await getPartnerSignalImportJob('fresh-running')).toMatchObject({ status: 'running', completedAt: null })
+  })
+})
@@ -0,0 +1,101 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+
+type KafkaModule = typeof import('../services/partnerSignalKafka.js')
+type SignalsModule = typeof import('../services/partnerSignals.js')
+
+let kafka: KafkaModule
+let signals: SignalsModule
+
+const submission = {
+  partnerId: 'stream-labs',
+  merchantId: 'stream-market',
+  signalType: 'risk',
+  description: 'Chargeback spike traced to a reseller pushing stolen cards through checkout.',
+  confidence: 0.82,
+}
+
+/** Confluent wire format: magic byte, four-byte schema id, then the encoded record (JSON here for the mock). */
+function registryEncoded(payload: unknown): Buffer {
+  return Buffer.concat([Buffer.from([0, 0, 0, 0, 7]), Buffer.from(JSON.stringify(payload))])
+}
+
+beforeAll(async () => {
+  vi.resetModules()
+  process.env.PARTNER_SIGNAL_KAFKA_SCHEMA_REGISTRY = 'true'
+  vi.doMock('../services/liveAnalyticsSchemaRegistry.js', () => ({
+    decodeWithSchemaRegistry: vi.fn(async (value: Buffer) =>
+      value[0] === 0 ? (JSON.parse(value.subarray(5).toString('utf8')) as unknown) : null,
+    ),
+  }))
+
+  const { databaseReady } = await import('../db/client.js')
+  const { createRegistryEntry } = await import('../services/partnerRegistry.js')
+  kafka = await import('../services/partnerSignalKafka.js')
+  signals = await import('../services/partnerSignals.js')
+
+  await databaseReady
+  await createRegistryEntry('partner', { id: 'stream-labs', name: 'Stream Labs' })
+  await createRegistryEntry('merchant', { id: 'stream-market', name: 'Stream Market' })
+})
+
+afterAll(async () => {
+  delete process.env.PARTNER_SIGNAL_KAFKA_SCHEMA_REGISTRY
+  vi.doUnmock('../services/liveAnalyticsSchemaRegistry.js')
+  await signals.resetPartnerSignals()
+})
+
+describe('partner signal kafka consumer', () => {
+  it('records each submission once per partner and key, including schema registry payloads', async () => {
+    const first = await kafka.processPartnerSignalMessageForTesting({
+      key: 'order-feed-1',
+      value: JSON.stringify(submission),
+    })
+    expect(first).toMatchObject({ outcome: 'recorded', signal: { partnerName: 'Stream Labs', status: 'pending' } })
+    if (first?.outcome !== 'recorded') {
+      throw new Error('expected the first delivery to be recorded')
+    }
+
+    const replay = await kafka.processPartnerSignalMessageForTesting({
+      key: 'ignored-when-header-present',
+      value: JSON.stringify({ ...submission, confidence: 0.1 }),
+      headers: { [kafka.PARTNER_SIGNAL_KAFKA_KEY_HEADER]: Buffer.from('order-feed-1') },
+    })
+    expect(replay).toMatchObject({ outcome: 'replayed', signal: { id: first.signal.id, confidence: 0.82 } })
+
+    const encoded = await kafka.processPartnerSignalMessageForTesting({
+      key: 'order-feed-2',
+      value: registryEncoded({ ...submission, signalType: 'growth' }),
+    })
+    expect(encoded).toMatchObject({ outcome: 'recorded', signal: { signalType: 'growth' } })
+
+    const page = await signals.listPartnerSignals({ partnerId: 'stream-labs', includeTotal: true })
+    expect(page.total).toBe(2)
+  })
+
+  it('dead-letters messages the sender has to fix', async () => {
+    const before = await signals.listPartnerSignals({ partnerId: 'stream-labs', includeTotal: true })
+    const results = await Promise.all([
+      kafka.processPartnerSignalMessageForTesting({ key: null, value: JSON.stringify(submission) }),
+      kafka.processPartnerSignalMessageForTesting({ key: 'broken', value: '{"partnerId": ' }),
+      kafka.processPartnerSignalMessageForTesting({
+        key: 'too-short',
+        value: JSON.stringify({ ...submission, description: 'Too short', confidence: 3 }),
+      }),
+      kafka.processPartnerSignalMessageForTesting({
+        key: 'ghost',
+        value: JSON.stringify({ ...submission, partnerId: 'ghost-labs' }),
+      }),
+    ])
+
+    expect(results.map((result) => result?.outcome === 'dead_lettered' && result.reason)).toEqual([
+      'missing_key',
+      'malformed',
+      'invalid_payload',
+      'unknown_partner',
+    ])
+    expect(results[2]).toMatchObject({ error: expect.stringContaining('description:') })
+
+    const after = await signals.listPartnerSignals({ partnerId: 'stream-labs', includeTotal: true })
+    expect(after.total).toBe(before.total)
+  })
+})
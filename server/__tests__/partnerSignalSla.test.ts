@@ -0,0 +1,136 @@
+import request from 'supertest'
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import type { PartnerSignal } from '../../shared/types/domain.js'
+import { createApp } from '../app.js'
+import { databaseReady, dbPool } from '../db/client.js'
+import { createRegistryEntry } from '../services/partnerRegistry.js'
+import { resetPartnerSignals } from '../services/partnerSignals.js'
+import { escalateOverduePartnerSignals } from '../services/partnerSignalSla.js'
+import { asColleague, submitSignal } from './helpers.js'
+
+const app = createApp()
+
+beforeAll(async () => {
+  await databaseReady
+})
+
+beforeEach(async () => {
+  await createRegistryEntry('partner', { id: 'sla-labs', name: 'SLA Labs' })
+  await createRegistryEntry('merchant', { id: 'sla-merchant', name: 'SLA Merchant' })
+})
+
+afterEach(async () => {
+  await resetPartnerSignals()
+  await dbPool.query('TRUNCATE TABLE moderators RESTART IDENTITY CASCADE')
+})
+
+async function insertModerator(id: string, name: string, groups: string[]): Promise<void> {
+  await dbPool.query(
+    `INSERT INTO moderators (id, email, name, role, source, active, synced_at, metadata)
+     VALUES ($1, $2, $3, $4, $5, $6, NOW(), $7)`,
+    [id, `${id}@example.com`, name, 'colleague', 'scim', true, JSON.stringify({ groups })],
+  )
+}
+
+async function submitSlaSignal(signalType: string, confidence: number) {
+  const signal = await submitSignal(app, { partnerId: 'sla-labs', merchantId: 'sla-merchant', signalType, confidence })
+  expect(signal.slaDueAt).toEqual(expect.any(String))
+  return signal as PartnerSignal & { slaDueAt: string }
+}
+
+async function changeStatus(id: string, status: string, notes: string) {
+  const response = await asColleague(request(app).patch(`/api/partners/signals/${id}/status`)).send({ status, notes })
+  expect(response.status).toBe(200)
+  return response.body as { slaDueAt: string; slaEscalatedAt: string | null }
+}
+
+describe('partner signal SLA escalation', () => {
+  it('stamps a due-by from the policy and reassigns breaches to a senior moderator', async () => {
+    await insertModerator('senior.sam', 'Sam Senior', ['ecosystem-senior-reviewers'])
+    const signal = await submitSlaSignal('risk', 0.92)
+
+    expect(signal.slaPolicyId).toBe('risk-high-confidence')
+    expect(new Date(signal.slaDueAt).getTime() - new Date(signal.submittedAt).getTime()).toBe(60 * 60_000)
+
+    const early = await escalateOverduePartnerSignals(new Date(new Date(signal.slaDueAt).getTime() - 1_000))
+    expect(early.escalated.map((item) => item.signal.id)).not.toContain(signal.id)
+
+    const breachedAt = new Date(new Date(signal.slaDueAt).getTime() + 1_000)
+    const sweep = await escalateOverduePartnerSignals(breachedAt)
+    const escalation = sweep.escalated.find((item) => item.signal.id === signal.id)
+    expect(escalation).toMatchObject({
+      target: 'senior_reviewer',
+      signal: { assignedReviewerId: 'senior.sam', slaEscalatedAt: breachedAt.toISOString() },
+    })
+
+    const again = await escalateOverduePartnerSignals(new Date(breachedAt.getTime() + 60_000))
+    expect(again.escalated.map((item) => item.signal.id)).not.toContain(signal.id)
+
+    const audits = await asColleague(request(app).get(`/api/partners/signals/${signal.id}/audits`))
+    expect(audits.body.items).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ action: 'sla_escalated', reviewerId: 'system@sla' }),
+        expect.objectContaining({ action: 'assigned', reviewerId: 'senior.sam' }),
+      ]),
+    )
+  })
+
+  it('escalates shadow-queue policies and falls back to the queue without a senior moderator', async () => {
+    await insertModerator('pilot.reviewer', 'Pilot Reviewer', ['ecosystem-shadow-approvers'])
+    const growth = await submitSlaSignal('growth', 0.4)
+    const risk = await submitSlaSignal('risk', 0.3)
+    expect(growth.slaPolicyId).toBe('standard')
+
+    const sweep = await escalateOverduePartnerSignals(new Date(new Date(growth.slaDueAt).getTime() + 1_000))
+    const targets = Object.fromEntries(sweep.escalated.map((item) => [item.signal.id, item.target]))
+    expect(targets[growth.id]).toBe('shadow_queue')
+    expect(targets[risk.id]).toBe('shadow_queue')
+
+    const queue = await asColleague(request(app).get('/api/partners/shadow-queue'))
+    expect(queue.body.items).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ signalId: growth.id, reviewerId: 'pilot.reviewer', status: 'escalated' }),
+      ]),
+    )
+
+    const detail = await asColleague(request(app).get(`/api/partners/signals/${growth.id}`))
+    expect(detail.body.slaEscalatedAt).toEqual(expect.any(String))
+  })
+
+  it('stops the clock while waiting on the partner and pushes the due-by out by the time spent waiting', async () => {
+    const signal = await submitSlaSignal('risk', 0.92)
+    await changeStatus(signal.id, 'needs_info', 'Please share the chargeback evidence.')
+
+    const waited = 3 * 60 * 60_000
+    await dbPool.query('UPDATE partner_signals SET sla_paused_at = $2 WHERE id = $1', [
+      signal.id,
+      new Date(Date.now() - waited).toISOString(),
+    ])
+    const paused = await escalateOverduePartnerSignals(new Date(new Date(signal.slaDueAt).getTime() + 1_000))
+    expect(paused.escalated.map((item) => item.signal.id)).not.toContain(signal.id)
+
+    const resumed = await changeStatus(signal.id, 'in_review', 'Evidence attached to the signal.')
+    const extension = new Date(resumed.slaDueAt).getTime() - new Date(signal.slaDueAt).getTime()
+    expect(extension).toBeGreaterThanOrEqual(waited)
+    expect(extension).toBeLessThan(waited + 60_000)
+
+    const afterProvide = await escalateOverduePartnerSignals(new Date(new Date(signal.slaDueAt).getTime() + 1_000))
+    expect(afterProvide.escalated.map((item) => item.signal.id)).not.toContain(signal.id)
+  })
+
+  it('starts a fresh SLA window on reopen so the signal can be escalated again', async () => {
+    const signal = await submitSlaSignal('risk', 0.3)
+    const breachedAt = new Date(new Date(signal.slaDueAt).getTime() + 1_000)
+    const first = await escalateOverduePartnerSignals(breachedAt)
+    expect(first.escalated.map((item) => item.signal.id)).toContain(signal.id)
+
+    await changeStatus(signal.id, 'rejected', 'Not enough evidence.')
+    const reopenedAt = Date.now()
+    const reopened = await changeStatus(signal.id, 'in_review', 'Partner sent new evidence.')
+    expect(reopened.slaEscalatedAt).toBeNull()
+    expect(new Date(reopened.slaDueAt).getTime()).toBeGreaterThanOrEqual(reopenedAt + 4 * 60 * 60_000)
+
+    const second = await escalateOverduePartnerSignals(new Date(new Date(reopened.slaDueAt).getTime() + 1_000))
+    expect(second.escalated.map((item) => item.signal.id)).toContain(signal.id)
+  })
+})
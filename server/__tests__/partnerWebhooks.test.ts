@@ -0,0 +1,231 @@
+import crypto from 'node:crypto'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import request, { type Test } from 'supertest'
+import type { Express } from 'express'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { asAdmin } from './helpers.js'
+
+// `rebound.partner.test` looks public to the up-front check but resolves to loopback when the socket connects.
+vi.mock('node:dns/promises', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:dns/promises')>()
+  const lookup = ((hostname: string, options: object) =>
+    hostname === 'rebound.partner.test'
+      ? Promise.resolve([{ address: '93.184.216.34', family: 4 }])
+      : actual.lookup(hostname, options)) as typeof actual.lookup
+  return { ...actual, default: { ...actual, lookup }, lookup }
+})
+vi.mock('node:dns', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:dns')>()
+  const lookup = ((hostname: string, options: object, callback: (...args: unknown[]) => void) =>
+    hostname === 'rebound.partner.test'
+      ? callback(null, [{ address: '127.0.0.1', family: 4 }])
+      : actual.lookup(hostname, options, callback)) as typeof actual.lookup
+  return { ...actual, default: { ...actual, lookup }, lookup }
+})
+
+type WebhooksModule = typeof import('../services/partnerWebhooks.js')
+
+interface CapturedDelivery {
+  path: string
+  headers: http.IncomingHttpHeaders
+  body: string
+}
+
+let app: Express
+let webhooks: WebhooksModule
+let server: http.Server
+let baseUrl = ''
+const received: CapturedDelivery[] = []
+
+async function findSignal(partnerId: string): Promise<{ id: string; status: string }> {
+  const response = await asAdmin(request(app).get('/api/partners/signals').query({ limit: 100 }))
+  return response.body.items.find((item: { partnerId: string }) => item.partnerId === partnerId)
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => {
+      body += chunk
+    })
+    req.on('end', () => {
+      received.push({ path: req.url ?? '', headers: req.headers, body })
+      res.writeHead(req.url === '/down' ? 503 : 204).end()
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  vi.resetModules()
+  process.env.PARTNER_WEBHOOK_MAX_ATTEMPTS = '2'
+  process.env.PARTNER_WEBHOOK_RETRY_BASE_MS = '1000'
+  process.env.PARTNER_WEBHOOK_ALLOW_PRIVATE_URLS = 'true'
+
+  const { createApp } = await import('../app.js')
+  const { databaseReady } = await import('../db/client.js')
+  webhooks = await import('../services/partnerWebhooks.js')
+
+  await databaseReady
+  app = createApp()
+})
+
+afterAll(async () => {
+  delete process.env.PARTNER_WEBHOOK_MAX_ATTEMPTS
+  delete process.env.PARTNER_WEBHOOK_RETRY_BASE_MS
+  delete process.env.PARTNER_WEBHOOK_ALLOW_PRIVATE_URLS
+  await new Promise((resolve) => server.close(resolve))
+})
+
+describe('partner webhook subscriptions', () => {
+  it('delivers signed status change events from the outbox', async () => {
+    const forbidden = await request(app).get('/api/partners/webhooks').set('x-user-role', 'reviewer')
+    expect(forbidden.status).toBe(403)
+
+    const created = await asAdmin(request(app).post('/api/partners/webhooks')).send({
+      partnerId: 'merchant-partner-labs',
+      url: `${baseUrl}/ok`,
+      events: ['signal.status_changed', 'signal.status_changed'],
+    })
+    expect(created.status).toBe(201)
+    expect(created.body).toMatchObject({ events: ['signal.status_changed'], active: true, createdBy: 'qa.colleague' })
+    expect(created.body.secret).toMatch(/^whsec_/)
+
+    const listed = await asAdmin(request(app).get('/api/partners/webhooks'))
+    expect(listed.body.items).toHaveLength(1)
+    expect(listed.body.items[0]).not.toHaveProperty('secret')
+
+    const signal = await findSignal('merchant-partner-labs')
+    const other = await findSignal('amex-ventures')
+    await asAdmin(request(app).patch(`/api/partners/signals/${signal.id}/status`)).send({ status: 'in_review' })
+    await asAdmin(request(app).post(`/api/partners/signals/${other.id}/assignments`)).send({
+      reviewerId: 'qa.colleague',
+      reviewerName: 'QA Analyst',
+      reviewerRole: 'colleague',
+    })
+
+    expect(await webhooks.dispatchPartnerWebhooks()).toEqual({
+      attempted: 1,
+      delivered: 1,
+      retrying: 0,
+      deadLettered: 0,
+    })
+    expect(received).toHaveLength(1)
+
+    const [delivery] = received
+    const timestamp = Number(delivery.headers['x-webhook-timestamp'])
+    expect(delivery.headers['x-webhook-event']).toBe('signal.status_changed')
+    expect(delivery.headers['x-webhook-signature']).toBe(
+      `v1=${crypto.createHmac('sha256', created.body.secret).update(`${timestamp}.${delivery.body}`).digest('hex')}`,
+    )
+    expect(JSON.parse(delivery.body)).toMatchObject({
+      type: 'signal.status_changed',
+      data: { previousStatus: 'pending', signal: { id: signal.id, status: 'in_review' } },
+    })
+
+    const log = await asAdmin(request(app).get(`/api/partners/webhooks/${created.body.id}/deliveries`))
+    expect(log.status).toBe(200)
+    expect(log.body.items).toEqual([
+      expect.objectContaining({ status: 'delivered', attempts: 1, lastStatusCode: 204, signalId: signal.id }),
+    ])
+  })
+
+  it('retries with backoff, dead-letters exhausted deliveries and supports redelivery', async () => {
+    const created = await asAdmin(request(app).post('/api/partners/webhooks')).send({
+      partnerId: 'risk-partners',
+      url: `${baseUrl}/down`,
+      events: ['signal.assigned'],
+    })
+    const signal = await findSignal('risk-partners')
+    await asAdmin(request(app).post(`/api/partners/signals/${signal.id}/assignments`)).send({
+      reviewerId: 'qa.colleague',
+      reviewerName: 'QA Analyst',
+      reviewerRole: 'colleague',
+    })
+
+    const now = new Date(Date.now() + 1_000)
+    expect(await webhooks.dispatchPartnerWebhooks(now)).toMatchObject({ attempted: 1, retrying: 1 })
+    const [pending] = await webhooks.listPartnerWebhookDeliveries(created.body.id)
+    expect(pending).toMatchObject({ status: 'pending', attempts: 1, lastStatusCode: 503 })
+    expect(pending.nextAttemptAt).toBe(new Date(now.getTime() + 1_000).toISOString())
+
+    expect(await webhooks.dispatchPartnerWebhooks(now)).toMatchObject({ attempted: 0 })
+    expect(await webhooks.dispatchPartnerWebhooks(new Date(now.getTime() + 1_000))).toMatchObject({
+      attempted: 1,
+      deadLettered: 1,
+    })
+
+    const log = await asAdmin(request(app).get(`/api/partners/webhooks/${created.body.id}/deliveries`)).query({
+      status: 'dead_letter',
+    })
+    expect(log.body.items).toEqual([
+      expect.objectContaining({
+        status: 'dead_letter',
+        attempts: 2,
+        nextAttemptAt: null,
+        eventType: 'signal.assigned',
+      }),
+    ])
+
+    const redelivered = await asAdmin(
+      request(app).post(`/api/partners/webhooks/${created.body.id}/deliveries/${pending.id}/redeliver`),
+    )
+    expect(redelivered.status).toBe(202)
+    expect(redelivered.body).toMatchObject({ status: 'pending', attempts: 0 })
+
+    const removed = await asAdmin(request(app).delete(`/api/partners/webhooks/${created.body.id}`))
+    expect(removed.status).toBe(204)
+    expect(await webhooks.listPartnerWebhookDeliveries(created.body.id)).toEqual([])
+  })
+
+  it('lets partner submitters manage only their own partner subscriptions', async () => {
+    const asPartner = (test: Test) =>
+      test.set('x-user-role', 'merchant').set('x-user-id', 'amex.ops').set('x-partner-id', 'amex-ventures')
+
+    const own = await asPartner(request(app).post('/api/partners/webhooks')).send({
+      url: `${baseUrl}/amex`,
+      events: ['signal.created'],
+    })
+    expect(own.status).toBe(201)
+    expect(own.body).toMatchObject({ partnerId: 'amex-ventures', createdBy: 'amex.ops' })
+
+    const foreign = await asPartner(request(app).post('/api/partners/webhooks')).send({
+      partnerId: 'risk-partners',
+      url: `${baseUrl}/steal`,
+      events: ['signal.created'],
+    })
+    expect(foreign.status).toBe(403)
+
+    const staff = await asAdmin(request(app).post('/api/partners/webhooks')).send({
+      partnerId: 'risk-partners',
+      url: `${baseUrl}/risk`,
+      events: ['signal.created'],
+    })
+    expect(staff.status).toBe(201)
+
+    const listed = await asPartner(request(app).get('/api/partners/webhooks')).query({ partnerId: 'risk-partners' })
+    expect(listed.body.items.map((item: { id: string }) => item.id)).toEqual([own.body.id])
+    expect((await asPartner(request(app).get(`/api/partners/webhooks/${staff.body.id}`))).status).toBe(404)
+    expect((await asPartner(request(app).delete(`/api/partners/webhooks/${staff.body.id}`))).status).toBe(404)
+    expect((await asPartner(request(app).get(`/api/partners/webhooks/${staff.body.id}/deliveries`))).status).toBe(404)
+
+    const everyPartner = await asAdmin(request(app).get('/api/partners/webhooks'))
+    expect(everyPartner.body.items.map((item: { id: string }) => item.id)).toEqual(
+      expect.arrayContaining([own.body.id, staff.body.id]),
+    )
+  })
+
+  it('pins deliveries to the checked address when a name is re-pointed at a private one', async () => {
+    const { fetch } = await import('undici')
+    const { publicAddressDispatcher, resolvesToPrivateAddress } = await import('../utils/network.js')
+
+    expect(await resolvesToPrivateAddress('rebound.partner.test')).toBe(false)
+    await expect(
+      fetch(`http://rebound.partner.test:${new URL(baseUrl).port}/rebound`, {
+        method: 'POST',
+        dispatcher: publicAddressDispatcher,
+      }),
+    ).rejects.toMatchObject({ cause: { code: 'EPRIVATEADDRESS' } })
+    expect(received.filter((delivery) => delivery.path === '/rebound')).toHaveLength(0)
+  })
+})
@@ -5,7 +5,10 @@ import request, { type Test } from 'supertest'
 import { afterEach, beforeAll, describe, expect, it } from 'vitest'
 import { createApp } from '../app.js'
 import { databaseReady, dbPool } from '../db/client.js'
+import { dispatchDomainEvents } from '../services/domainEvents.js'
+import { createRegistryEntry } from '../services/partnerRegistry.js'
 import { resetPartnerSignals } from '../services/partnerSignals.js'
+import { asColleague } from './helpers.js'
 
 const app = createApp()
 
@@ -18,13 +21,13 @@ afterEach(async () => {
   await dbPool.query('TRUNCATE TABLE moderators RESTART IDENTITY CASCADE')
 })
 
-function asColleague(test: Test): Test {
-  return test.set('x-user-role', 'colleague').set('x-user-id', 'qa.colleague').set('x-user-name', 'QA Analyst')
+function asMerchant(test: Test, partnerId: string): Test {
+  return test.set('x-user-role', 'merchant').set('x-partner-id', partnerId)
 }
 
 describe('Partner Signals API', () => {
   it('returns the curated partner signal backlog', async () => {
-    const response = await request(app).get('/api/partners/signals')
+    const response = await asColleague(request(app).get('/api/partners/signals'))
 
     expect(response.status).toBe(200)
     expect(response.body.items).toBeInstanceOf(Array)
@@ -37,9 +40,7 @@ describe('Partner Signals API', () => {
   })
 
   it('filters partner signals by signalType when requested', async () => {
-    const response = await request(app)
-      .get('/api/partners/signals')
-      .query({ signalType: 'growth' })
+    const response = await asColleague(request(app).get('/api/partners/signals').query({ signalType: 'growth' }))
 
     expect(response.status).toBe(200)
     expect(response.body.items).toBeInstanceOf(Array)
@@ -50,7 +51,7 @@ describe('Partner Signals API', () => {
   })
 
   it('filters partner signals by status when requested', async () => {
-    const listResponse = await request(app).get('/api/partners/signals')
+    const listResponse = await asColleague(request(app).get('/api/partners/signals'))
     const pendingSignal = listResponse.body.items.find(
       (item: { status: string }) => item.status === 'pending',
     )
@@ -63,9 +64,7 @@ describe('Partner Signals API', () => {
         .send({ status: 'archived', notes: 'archiving for test' }),
     )
 
-    const response = await request(app)
-      .get('/api/partners/signals')
-      .query({ status: 'archived' })
+    const response = await asColleague(request(app).get('/api/partners/signals').query({ status: 'archived' }))
 
     expect(response.status).toBe(200)
     expect(response.body.items).toBeInstanceOf(Array)
@@ -75,15 +74,96 @@ describe('Partner Signals API', () => {
     }
   })
 
+  it('pages through partner signals with an opaque cursor', async () => {
+    const firstPage = await asColleague(request(app).get('/api/partners/signals').query({ limit: 2 }))
+
+    expect(firstPage.status).toBe(200)
+    expect(firstPage.body.items).toHaveLength(2)
+    expect(firstPage.body.total).toBe(3)
+    expect(firstPage.body.nextCursor).toEqual(expect.any(String))
+
+    const secondPage = await asColleague(
+      request(app)
+        .get('/api/partners/signals')
+        .query({ limit: 2, cursor: firstPage.body.nextCursor }),
+    )
+
+    expect(secondPage.status).toBe(200)
+    expect(secondPage.body.items).toHaveLength(1)
+    expect(secondPage.body.nextCursor).toBeNull()
+
+    const seenIds = new Set(firstPage.body.items.map((item: { id: string }) => item.id))
+    expect(seenIds.has(secondPage.body.items[0].id)).toBe(false)
+  })
+
+  it('sorts partner signals by the requested key', async () => {
+    const response = await asColleague(
+      request(app)
+        .get('/api/partners/signals')
+        .query({ sort: 'confidence', order: 'asc' }),
+    )
+
+    expect(response.status).toBe(200)
+    const confidences = response.body.items.map((item: { confidence: number }) => item.confidence)
+    expect(confidences).toEqual([...confidences].sort((a, b) => a - b))
+
+    const byAssignment = await asColleague(
+      request(app)
+        .get('/api/partners/signals')
+        .query({ sort: 'assignedAt', limit: 2 }),
+    )
+
+    expect(byAssignment.status).toBe(200)
+    expect(byAssignment.body.items[0].assignedAt).not.toBeNull()
+
+    const lastPage = await asColleague(
+      request(app)
+        .get('/api/partners/signals')
+        .query({ sort: 'assignedAt', limit: 2, cursor: byAssignment.body.nextCursor }),
+    )
+
+    expect(lastPage.status).toBe(200)
+    expect(lastPage.body.items[0].assignedAt).toBeNull()
+  })
+
+  it('searches partner, merchant, and description text', async () => {
+    const merchantMatch = await asColleague(request(app).get('/api/partners/signals').query({ q: 'nextrade' }))
+
+    expect(merchantMatch.status).toBe(200)
+    expect(merchantMatch.body.total).toBe(1)
+    expect(merchantMatch.body.items[0].merchantName).toBe('NexTrade Markets')
+
+    const descriptionMatch = await asColleague(request(app).get('/api/partners/signals').query({ q: 'kiosk checkout' }))
+
+    expect(descriptionMatch.status).toBe(200)
+    expect(descriptionMatch.body.items.map((item: { id: string }) => item.id)).toEqual(['ps-amex-002'])
+  })
+
+  it('rejects cursors that do not match the requested sort', async () => {
+    const firstPage = await asColleague(request(app).get('/api/partners/signals').query({ limit: 1 }))
+
+    const response = await asColleague(
+      request(app)
+        .get('/api/partners/signals')
+        .query({ limit: 1, sort: 'confidence', cursor: firstPage.body.nextCursor }),
+    )
+
+    expect(response.status).toBe(400)
+    expect(response.body.message).toBe('Invalid pagination cursor')
+  })
+
   it('returns aggregate stats for partner signals', async () => {
-    const response = await request(app).get('/api/partners/signals/stats')
+    const response = await asColleague(request(app).get('/api/partners/signals/stats'))
 
     expect(response.status).toBe(200)
     expect(response.body).toMatchObject({
       total: expect.any(Number),
       status: {
         pending: expect.any(Number),
+        in_review: expect.any(Number),
+        needs_info: expect.any(Number),
         approved: expect.any(Number),
+        rejected: expect.any(Number),
         archived: expect.any(Number),
       },
       signalType: expect.objectContaining({
@@ -93,6 +173,8 @@ describe('Partner Signals API', () => {
   })
 
   it('accepts a new partner insight when payload passes validation', async () => {
+    await createRegistryEntry('partner', { id: 'ecosystem-labs', name: 'Ecosystem Labs' })
+    await createRegistryEntry('merchant', { id: 'dig-8821', name: 'Digital Bazaar' })
     const payload = {
       partnerId: 'ecosystem-labs',
       partnerName: 'Ecosystem Labs',
@@ -108,7 +190,7 @@ describe('Partner Signals API', () => {
       },
     }
 
-  const response = await request(app).post('/api/partners/signals').send(payload)
+    const response = await asMerchant(request(app).post('/api/partners/signals').send(payload), payload.partnerId)
 
     expect(response.status).toBe(201)
     expect(response.body).toMatchObject({
@@ -138,7 +220,7 @@ describe('Partner Signals API', () => {
   })
 
   it('updates partner signal status', async () => {
-    const listResponse = await request(app).get('/api/partners/signals')
+    const listResponse = await asColleague(request(app).get('/api/partners/signals'))
     const targetId = listResponse.body.items.find((item: { status: string }) => item.status === 'pending')?.id
 
     expect(targetId).toBeDefined()
@@ -155,16 +237,73 @@ describe('Partner Signals API', () => {
       status: 'approved',
     })
 
-    const detailResponse = await request(app).get(`/api/partners/signals/${targetId}`)
+    const detailResponse = await asColleague(request(app).get(`/api/partners/signals/${targetId}`))
     expect(detailResponse.status).toBe(200)
     expect(detailResponse.body.status).toBe('approved')
   })
 
+  it('rejects illegal status transitions with the allowed next states', async () => {
+    const listResponse = await asColleague(request(app).get('/api/partners/signals').query({ status: 'pending' }))
+    const targetId = listResponse.body.items[0].id
+
+    const archiveResponse = await asColleague(
+      request(app).patch(`/api/partners/signals/${targetId}/status`).send({ status: 'archived' }),
+    )
+    expect(archiveResponse.status).toBe(200)
+
+    const reviveResponse = await asColleague(
+      request(app).patch(`/api/partners/signals/${targetId}/status`).send({ status: 'approved' }),
+    )
+
+    expect(reviveResponse.status).toBe(409)
+    expect(reviveResponse.body).toMatchObject({ currentStatus: 'archived', allowedNextStates: [] })
+
+    const auditResponse = await asColleague(request(app).get(`/api/partners/signals/${targetId}/audits`))
+    const statusAudit = auditResponse.body.items.find((item: { action: string }) => item.action === 'status_change')
+    expect(statusAudit).toMatchObject({ fromStatus: 'pending', toStatus: 'archived', transitionRule: 'archive' })
+  })
+
+  it('requires notes for guarded transitions and honours per-role rules', async () => {
+    const listResponse = await asColleague(request(app).get('/api/partners/signals').query({ status: 'pending' }))
+    const { id: targetId, partnerId } = listResponse.body.items[0]
+
+    const missingNotes = await asColleague(
+      request(app).patch(`/api/partners/signals/${targetId}/status`).send({ status: 'needs_info' }),
+    )
+    expect(missingNotes.status).toBe(422)
+
+    const requestInfo = await asColleague(
+      request(app)
+        .patch(`/api/partners/signals/${targetId}/status`)
+        .send({ status: 'needs_info', notes: 'Please share the pilot sample size.' }),
+    )
+    expect(requestInfo.status).toBe(200)
+    expect(requestInfo.body.status).toBe('needs_info')
+
+    const merchantRejection = await asMerchant(
+      request(app)
+        .patch(`/api/partners/signals/${targetId}/status`)
+        .send({ status: 'rejected', notes: 'Self-rejecting' }),
+      partnerId,
+    )
+    expect(merchantRejection.status).toBe(403)
+    expect(merchantRejection.body.allowedNextStates).toEqual(['in_review'])
+
+    const merchantResponse = await asMerchant(
+      request(app)
+        .patch(`/api/partners/signals/${targetId}/status`)
+        .send({ status: 'in_review', notes: 'Sample size is 1,200 stores.' }),
+      partnerId,
+    )
+    expect(merchantResponse.status).toBe(200)
+    expect(merchantResponse.body.status).toBe('in_review')
+  })
+
   it('returns audit history for a signal', async () => {
-    const listResponse = await request(app).get('/api/partners/signals')
+    const listResponse = await asColleague(request(app).get('/api/partners/signals'))
     const targetId = listResponse.body.items[0].id
 
-    const response = await request(app).get(`/api/partners/signals/${targetId}/audits`)
+    const response = await asColleague(request(app).get(`/api/partners/signals/${targetId}/audits`))
 
     expect(response.status).toBe(200)
     expect(response.body.items).toBeInstanceOf(Array)
@@ -175,7 +314,7 @@ describe('Partner Signals API', () => {
   })
 
   it('allows colleagues to assign reviewers', async () => {
-    const listResponse = await request(app).get('/api/partners/signals')
+    const listResponse = await asColleague(request(app).get('/api/partners/signals'))
     const targetId = listResponse.body.items.find((item: { assignedReviewerId: string | null }) => !item.assignedReviewerId)?.id
 
     expect(targetId).toBeDefined()
@@ -204,13 +343,58 @@ describe('Partner Signals API', () => {
     expect(assignmentsResponse.body.items[0]).toMatchObject({ reviewerId: 'qa.supervisor', active: true })
   })
 
+  it('applies bulk status changes with per-item results and a shared batch id', async () => {
+    const response = await asColleague(
+      request(app)
+        .post('/api/partners/signals/bulk')
+        .send({ action: 'status', status: 'in_review', ids: ['ps-amex-002', 'ps-amex-001', 'ps-missing'] }),
+    ).set('x-user-role', 'colleague,senior-reviewer')
+
+    expect(response.status).toBe(200)
+    expect(response.body).toMatchObject({ batchId: expect.any(String), succeeded: 1, failed: 2 })
+    expect(response.body.items).toEqual([
+      expect.objectContaining({ id: 'ps-amex-002', ok: true, signal: expect.objectContaining({ status: 'in_review' }) }),
+      expect.objectContaining({
+        id: 'ps-amex-001',
+        ok: false,
+        error: expect.objectContaining({ code: 'invalid_transition', allowedNextStates: ['archived'] }),
+      }),
+      expect.objectContaining({ id: 'ps-missing', ok: false, error: expect.objectContaining({ code: 'not_found' }) }),
+    ])
+
+    const assignResponse = await asColleague(
+      request(app)
+        .post('/api/partners/signals/bulk')
+        .send({
+          action: 'assign',
+          ids: ['ps-amex-001', 'ps-amex-002'],
+          reviewerId: 'qa.supervisor',
+          reviewerName: 'QA Supervisor',
+          reviewerRole: 'colleague',
+        }),
+    ).set('x-user-role', 'colleague,senior-reviewer')
+
+    expect(assignResponse.status).toBe(200)
+    expect(assignResponse.body.succeeded).toBe(2)
+
+    const audits = await asColleague(request(app).get('/api/partners/signals/ps-amex-002/audits'))
+    const batchIds = audits.body.items.map((audit: { batchId: string | null }) => audit.batchId)
+    expect(batchIds).toEqual(expect.arrayContaining([response.body.batchId, assignResponse.body.batchId]))
+
+    const merchantResponse = await request(app)
+      .post('/api/partners/signals/bulk')
+      .send({ action: 'status', status: 'archived', ids: ['ps-amex-002'] })
+    expect(merchantResponse.status).toBe(403)
+  })
+
   it('blocks merchants from moderation endpoints', async () => {
-    const listResponse = await request(app).get('/api/partners/signals')
-    const targetId = listResponse.body.items[0].id
+    const listResponse = await asColleague(request(app).get('/api/partners/signals'))
+    const { id: targetId, partnerId } = listResponse.body.items[0]
 
-    const response = await request(app)
-      .patch(`/api/partners/signals/${targetId}/status`)
-      .send({ status: 'archived' })
+    const response = await asMerchant(
+      request(app).patch(`/api/partners/signals/${targetId}/status`).send({ status: 'archived' }),
+      partnerId,
+    )
 
     expect(response.status).toBe(403)
   })
@@ -221,6 +405,8 @@ describe('Partner Signals API', () => {
        VALUES ($1,$2,$3,$4,$5,$6,NOW(),$7)` ,
       ['pilot.reviewer', 'pilot@example.com', 'Pilot Reviewer', 'colleague', 'scim', true, { groups: ['ecosystem-shadow-approvers'] }],
     )
+    await createRegistryEntry('partner', { id: 'shadow-labs', name: 'Shadow Labs' })
+    await createRegistryEntry('merchant', { id: 'shadow-merchant', name: 'Shadow Merchant' })
 
     const payload = {
       partnerId: 'shadow-labs',
@@ -235,8 +421,10 @@ describe('Partner Signals API', () => {
       },
     }
 
-    const createResponse = await request(app).post('/api/partners/signals').send(payload)
+    const createResponse = await asMerchant(request(app).post('/api/partners/signals').send(payload), payload.partnerId)
     expect(createResponse.status).toBe(201)
+    // The shadow queue is filled by a domain event subscriber, which runs after the write returns.
+    await dispatchDomainEvents()
 
     const queueResponse = await asColleague(request(app).get('/api/partners/shadow-queue'))
     expect(queueResponse.status).toBe(200)
@@ -254,4 +442,85 @@ describe('Partner Signals API', () => {
     expect(decisionResponse.status).toBe(200)
     expect(decisionResponse.body).toMatchObject({ status: 'acknowledged', decisionById: 'qa.colleague' })
   })
+
+  it('scopes partner submitters to their own signals', async () => {
+    const own = await asMerchant(request(app).get('/api/partners/signals'), 'amex-ventures')
+    expect(own.status).toBe(200)
+    expect(own.body.total).toBe(own.body.items.length)
+    expect(own.body.items.length).toBeGreaterThan(0)
+    for (const item of own.body.items) {
+      expect(item.partnerId).toBe('amex-ventures')
+    }
+
+    const stats = await asMerchant(request(app).get('/api/partners/signals/stats'), 'amex-ventures')
+    expect(stats.body.total).toBe(own.body.total)
+
+    const all = await asColleague(request(app).get('/api/partners/signals'))
+    const foreign = all.body.items.find((item: { partnerId: string }) => item.partnerId !== 'amex-ventures')
+    const detail = await asMerchant(request(app).get(`/api/partners/signals/${foreign.id}`), 'amex-ventures')
+    expect(detail.status).toBe(404)
+    const audits = await asMerchant(request(app).get(`/api/partners/signals/${foreign.id}/audits`), 'amex-ventures')
+    expect(audits.status).toBe(404)
+
+    const anonymous = await request(app).get('/api/partners/signals')
+    expect(anonymous.status).toBe(200)
+    expect(anonymous.body).toMatchObject({ items: [], total: 0 })
+
+    const spoofed = await asMerchant(
+      request(app).post('/api/partners/signals').send({
+        partnerId: foreign.partnerId,
+        partnerName: 'Impostor',
+        merchantId: 'imp-1',
+        merchantName: 'Impostor Store',
+        signalType: 'growth',
+        description: 'Submitting on behalf of another partner should never be accepted by the API.',
+        confidence: 0.5,
+      }),
+      'amex-ventures',
+    )
+    expect(spoofed.status).toBe(403)
+  })
+
+  it('grants endpoints by permission rather than by persona', async () => {
+    const statusAs = async (test: Test, roles: string) =>
+      (await test.set('x-user-role', roles).set('x-user-id', `qa.${roles}`)).status
+
+    const auditorList = await request(app).get('/api/partners/signals').set('x-user-role', 'auditor')
+    expect(auditorList.body.total).toBe(3)
+    const targetId = auditorList.body.items[0].id
+    expect(await statusAs(request(app).get(`/api/partners/signals/${targetId}/audits`), 'auditor')).toBe(200)
+    expect(await statusAs(request(app).get(`/api/partners/signals/${targetId}/assignments`), 'auditor')).toBe(403)
+    const archive = request(app).patch(`/api/partners/signals/${targetId}/status`).send({ status: 'archived' })
+    expect(await statusAs(archive, 'auditor')).toBe(403)
+
+    const bulk = { action: 'status', status: 'in_review', ids: ['ps-amex-002'] }
+    expect(await statusAs(request(app).post('/api/partners/signals/bulk').send(bulk), 'reviewer')).toBe(403)
+    expect(await statusAs(request(app).post('/api/partners/signals/bulk').send(bulk), 'senior-reviewer')).toBe(200)
+
+    expect(await statusAs(request(app).get('/api/partners/webhooks'), 'senior-reviewer')).toBe(403)
+    expect(await statusAs(request(app).get('/api/partners/webhooks'), 'reviewer,admin')).toBe(200)
+  })
+
+  it('rejects webhook URLs that are not https or point at internal addresses', async () => {
+    const register = (url: string) =>
+      request(app)
+        .post('/api/partners/webhooks')
+        .set('x-user-role', 'admin')
+        .set('x-user-id', 'qa.admin')
+        .send({ partnerId: 'amex-ventures', url, events: ['signal.created'] })
+
+    for (const url of [
+      'http://hooks.example.com/signals',
+      'https://localhost/hook',
+      'https://127.0.0.1:8443/hook',
+      'https://10.20.30.40/hook',
+      'https://169.254.169.254/latest/meta-data',
+      'https://[::1]/hook',
+      'https://[::ffff:192.168.1.5]/hook',
+    ]) {
+      expect((await register(url)).status, url).toBe(400)
+    }
+
+    expect((await register('https://hooks.example.com/signals')).status).toBe(201)
+  })
 })
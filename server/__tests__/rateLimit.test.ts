@@ -0,0 +1,127 @@
+import request from 'supertest'
+import type { Application } from 'express'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+
+type MetricsModule = typeof import('../metrics/registry.js')
+type SignalsModule = typeof import('../services/partnerSignals.js')
+
+let app: Application
+let createApp: () => Application
+let metrics: MetricsModule
+let signals: SignalsModule
+
+beforeAll(async () => {
+  vi.resetModules()
+  process.env.RATE_LIMIT_SIGNAL_SUBMIT_PER_USER = '2'
+  process.env.RATE_LIMIT_SIGNAL_SUBMIT_PER_PARTNER = '3'
+  process.env.RATE_LIMIT_SIGNAL_SUBMIT_PER_IP = '2'
+  process.env.TRUST_PROXY = '1'
+
+  createApp = (await import('../app.js')).createApp
+  const { databaseReady } = await import('../db/client.js')
+  const { createRegistryEntry } = await import('../services/partnerRegistry.js')
+  metrics = await import('../metrics/registry.js')
+  signals = await import('../services/partnerSignals.js')
+  app = createApp()
+
+  await databaseReady
+  await createRegistryEntry('merchant', { id: 'throttle-market', name: 'Throttle Market' })
+  await createRegistryEntry('partner', { id: 'throttle-labs', name: 'Throttle Labs' })
+  await createRegistryEntry('partner', { id: 'throttle-co', name: 'Throttle Co' })
+  for (const id of ['throttle-ip-1', 'throttle-ip-2', 'throttle-ip-3']) {
+    await createRegistryEntry('partner', { id, name: id })
+  }
+})
+
+afterAll(async () => {
+  delete process.env.RATE_LIMIT_SIGNAL_SUBMIT_PER_USER
+  delete process.env.RATE_LIMIT_SIGNAL_SUBMIT_PER_PARTNER
+  delete process.env.RATE_LIMIT_SIGNAL_SUBMIT_PER_IP
+  delete process.env.TRUST_PROXY
+  await signals.resetPartnerSignals()
+})
+
+let nextAddress = 1
+
+function submitAs(userId: string, partnerId: string, forwardedFor = `192.0.2.${nextAddress++}`, target = app) {
+  return request(target)
+    .post('/api/partners/signals')
+    .set('x-forwarded-for', forwardedFor)
+    .set('x-user-role', 'merchant')
+    .set('x-user-id', userId)
+    .set('x-partner-id', partnerId)
+    .send({
+      partnerId,
+      merchantId: 'throttle-market',
+      signalType: 'risk',
+      description: 'Card testing bursts are hitting the checkout from a rotating pool of addresses.',
+      confidence: 0.6,
+    })
+}
+
+async function throttledCount(key: string): Promise<number> {
+  const metric = await metrics.metricsRegistry.getSingleMetric('http_requests_throttled_total')?.get()
+  return metric?.values.find((value) => value.labels.key === key)?.value ?? 0
+}
+
+describe('rate limiting', () => {
+  it('throttles a user once their bucket is empty and reports it in RateLimit headers', async () => {
+    const first = await submitAs('throttle.one', 'throttle-labs')
+    expect(first.status).toBe(201)
+    expect(first.headers).toMatchObject({
+      'ratelimit-limit': '2',
+      'ratelimit-remaining': '1',
+      'ratelimit-policy': '2;w=60',
+    })
+
+    const second = await submitAs('throttle.one', 'throttle-labs')
+    expect(second.status).toBe(201)
+    expect(second.headers['ratelimit-remaining']).toBe('0')
+
+    const third = await submitAs('throttle.one', 'throttle-labs')
+    expect(third.status).toBe(429)
+    expect(Number(third.headers['retry-after'])).toBeGreaterThanOrEqual(1)
+    expect(third.body.message).toMatch(/Too many requests/)
+    expect(await throttledCount('user')).toBe(1)
+
+    const page = await signals.listPartnerSignals({ merchantId: 'throttle-market', includeTotal: true })
+    expect(page.total).toBe(2)
+  })
+
+  it('shares one bucket between the users of a partner', async () => {
+    expect((await submitAs('throttle.two', 'throttle-co')).status).toBe(201)
+    expect((await submitAs('throttle.two', 'throttle-co')).status).toBe(201)
+
+    const colleague = await submitAs('throttle.three', 'throttle-co')
+    expect(colleague.status).toBe(201)
+    expect(colleague.headers['ratelimit-remaining']).toBe('0')
+
+    const rejected = await submitAs('throttle.three', 'throttle-co')
+    expect(rejected.status).toBe(429)
+    expect(rejected.headers['ratelimit-limit']).toBe('3')
+    expect(await throttledCount('partner')).toBe(1)
+
+    expect((await submitAs('throttle.four', 'throttle-labs')).status).toBe(201)
+  })
+  it('keys IP buckets on X-Forwarded-For only behind a trusted proxy and takes no tokens on rejection', async () => {
+    expect((await submitAs('ip.one', 'throttle-ip-1', '203.0.113.9')).status).toBe(201)
+    expect((await submitAs('ip.two', 'throttle-ip-2', '203.0.113.9')).status).toBe(201)
+
+    const sameAddress = await submitAs('ip.three', 'throttle-ip-3', '203.0.113.9')
+    expect(sameAddress.status).toBe(429)
+    expect(await throttledCount('ip')).toBe(1)
+
+    // The rejection took nothing from ip.three's user bucket, so one of its two tokens is left after this request.
+    const otherAddress = await submitAs('ip.three', 'throttle-ip-3', '203.0.113.10')
+    expect(otherAddress.status).toBe(201)
+    expect(otherAddress.headers['ratelimit-remaining']).toBe('1')
+
+    delete process.env.TRUST_PROXY
+    const direct = createApp()
+    expect((await submitAs('ip.four', 'throttle-ip-1', '198.51.100.1', direct)).status).toBe(201)
+    expect((await submitAs('ip.five', 'throttle-ip-2', '198.51.100.2', direct)).status).toBe(201)
+    const spoofed = await submitAs('ip.six', 'throttle-ip-3', '198.51.100.3', direct)
+    expect(spoofed.status).toBe(429)
+    expect(await throttledCount('ip')).toBe(2)
+  })
+})
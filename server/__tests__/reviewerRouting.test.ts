@@ -0,0 +1,108 @@
+import request from 'supertest'
+import { afterEach, beforeAll, describe, expect, it } from 'vitest'
+import { createApp } from '../app.js'
+import { databaseReady, dbPool } from '../db/client.js'
+import { createRegistryEntry } from '../services/partnerRegistry.js'
+import { resetPartnerSignals } from '../services/partnerSignals.js'
+import { rankReviewerCandidates } from '../services/reviewerRouting.js'
+
+const app = createApp()
+
+beforeAll(async () => {
+  await databaseReady
+})
+
+afterEach(async () => {
+  await resetPartnerSignals()
+  await dbPool.query('TRUNCATE TABLE moderators RESTART IDENTITY CASCADE')
+})
+
+async function insertModerator(id: string, metadata: Record<string, unknown>): Promise<void> {
+  await dbPool.query(
+    `INSERT INTO moderators (id, email, name, role, source, active, synced_at, metadata)
+     VALUES ($1, $2, $3, $4, $5, $6, NOW(), $7)`,
+    [id, `${id}@example.com`, id, 'colleague', 'scim', true, JSON.stringify(metadata)],
+  )
+}
+
+describe('reviewer routing', () => {
+  it('scores specialty, spare capacity and shift hours and skips unavailable reviewers', () => {
+    // 15:00 UTC is 10:00 in New York and 00:00 in Tokyo.
+    const now = new Date('2026-03-10T15:00:00Z')
+    const ranked = rankReviewerCandidates(
+      [
+        { id: 'away', metadata: { specialties: ['risk'], outOfOffice: true }, activeAssignments: 0 },
+        { id: 'full', metadata: { specialties: ['risk'], maxConcurrentAssignments: 2 }, activeAssignments: 2 },
+        { id: 'generalist', metadata: {}, activeAssignments: 0 },
+        {
+          id: 'tokyo',
+          metadata: { specialties: 'risk', timezone: 'Asia/Tokyo', shiftStart: '09:00', shiftEnd: '18:00' },
+          activeAssignments: 1,
+        },
+        {
+          id: 'new-york',
+          metadata: { specialties: ['risk'], timezone: 'America/New_York', shiftStart: '09:00', shiftEnd: '18:00' },
+          activeAssignments: 1,
+        },
+      ],
+      { signal: { signalType: 'risk', confidence: 0.8 }, now },
+    )
+
+    expect(ranked?.candidate.id).toBe('new-york')
+    expect(ranked?.explanation.excluded).toEqual([
+      { reviewerId: 'away', reason: 'out_of_office' },
+      { reviewerId: 'full', reason: 'at_capacity' },
+    ])
+    expect(ranked?.explanation.factors.map((factor) => factor.name)).toEqual(['specialty', 'load', 'shift'])
+
+    const returned = rankReviewerCandidates(
+      [{ id: 'back', metadata: { outOfOffice: true, outOfOfficeUntil: '2026-03-09T00:00:00Z' }, activeAssignments: 0 }],
+      { now },
+    )
+    expect(returned?.candidate.id).toBe('back')
+  })
+
+  it('auto-assigns submissions to the matching specialist and records why', async () => {
+    await insertModerator('risk.rae', { specialties: ['risk'], maxConcurrentAssignments: 5 })
+    await insertModerator('compliance.cy', { specialties: ['compliance'] })
+    await insertModerator('ooo.olly', { specialties: ['compliance'], outOfOffice: true })
+    await createRegistryEntry('partner', { id: 'routing-labs', name: 'Routing Labs' })
+    await createRegistryEntry('merchant', { id: 'routing-merchant', name: 'Routing Merchant' })
+
+    const submit = (signalType: string) =>
+      request(app)
+        .post('/api/partners/signals')
+        .set('x-user-role', 'merchant')
+        .set('x-user-id', 'merchant.user')
+        .set('x-partner-id', 'routing-labs')
+        .send({
+          partnerId: 'routing-labs',
+          partnerName: 'Routing Labs',
+          merchantId: 'routing-merchant',
+          merchantName: 'Routing Merchant',
+          signalType,
+          description: 'Signal used to exercise skill-aware reviewer routing.',
+          confidence: 0.7,
+        })
+
+    const risk = await submit('risk')
+    const compliance = await submit('compliance')
+    expect(risk.status).toBe(201)
+    expect(risk.body.assignedReviewerId).toBe('risk.rae')
+    expect(compliance.body.assignedReviewerId).toBe('compliance.cy')
+
+    const audits = await request(app)
+      .get(`/api/partners/signals/${risk.body.id}/audits`)
+      .set('x-user-role', 'colleague')
+      .set('x-user-id', 'qa.colleague')
+    expect(audits.body.items).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          action: 'assigned',
+          reviewerId: 'risk.rae',
+          notes: expect.stringContaining('Auto-assigned at submission'),
+        }),
+      ]),
+    )
+  })
+})
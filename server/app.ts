@@ -10,6 +10,20 @@ import { attachRequestUser } from './middleware/auth.js'
 import { context, propagation, SpanStatusCode, trace } from '@opentelemetry/api'
 import { metricsRegistry } from './metrics/registry.js'
 
+/**
+ * `TRUST_PROXY` is `true`, a hop count, or the proxy addresses and subnets Express accepts (e.g. `loopback`). Off by
+ * default, so `X-Forwarded-For` cannot be spoofed to dodge per-IP limits when nothing sits in front of the API.
+ */
+function readTrustProxy(value: string | undefined): boolean | number | string {
+  if (!value || value === 'false') {
+    return false
+  }
+  if (value === 'true') {
+    return true
+  }
+  return /^\d+$/.test(value) ? Number(value) : value
+}
+
 export function createApp(): Application {
   const app = express()
 
@@ -18,18 +32,38 @@ export function createApp(): Application {
     credentials: false,
     allowedHeaders: [
       'content-type',
+      'authorization',
+      'x-id-token',
       'traceparent',
       'tracestate',
       'x-request-id',
       'x-user-role',
       'x-user-id',
       'x-user-name',
+      'x-partner-id',
+      'last-event-id',
+      'idempotency-key',
+      'if-match',
+      'if-none-match',
+    ],
+    exposedHeaders: [
+      'traceparent',
+      'tracestate',
+      'x-request-id',
+      'x-trace-id',
+      'idempotent-replayed',
+      'etag',
+      'ratelimit-limit',
+      'ratelimit-remaining',
+      'ratelimit-reset',
+      'ratelimit-policy',
+      'retry-after',
     ],
-    exposedHeaders: ['traceparent', 'tracestate', 'x-request-id', 'x-trace-id'],
   }
 
   app.disable('x-powered-by')
   app.set('etag', false)
+  app.set('trust proxy', readTrustProxy(process.env.TRUST_PROXY))
   app.use(cors(corsOptions))
   app.use(express.json())
   app.use(attachRequestUser)
@@ -1,8 +1,10 @@
 import crypto from 'node:crypto'
 import { Pool, type PoolConfig } from 'pg'
-import { newDb } from 'pg-mem'
+import { DataType, newDb } from 'pg-mem'
 import { partnerSignals as seedSignals } from '../../shared/data/partnerSignals.js'
+import { computePartnerSignalSlaDueAt, resolvePartnerSignalSlaPolicy } from '../../shared/data/partnerSignalSla.js'
 import { logger } from '../utils/logger.js'
+import { getMigrationStatus, migrateDown, migrateUp, type Migration, type MigrationStatus } from './migrator.js'
 
 const isTestEnvironment = process.env.NODE_ENV === 'test'
 
@@ -31,6 +33,15 @@ const basePoolConfig = resolvePoolConfig()
 function createPool(): Pool {
   if (isTestEnvironment) {
     const inMemoryDb = newDb({ autoCreateForeignKeyIndices: true })
+    for (const name of ['pg_advisory_lock', 'pg_advisory_unlock']) {
+      inMemoryDb.public.registerFunction({
+        name,
+        args: [DataType.bigint],
+        returns: DataType.bool,
+        implementation: () => true,
+        impure: true,
+      })
+    }
     const { Pool: MemoryPool } = inMemoryDb.adapters.createPg()
     return new MemoryPool()
   }
@@ -96,100 +107,6 @@ async function ensureDatabaseExists(): Promise<void> {
   }
 }
 
-async function applyMigrations(): Promise<void> {
-  const migrations: string[] = [
-    `CREATE TABLE IF NOT EXISTS partner_signals (
-      id TEXT PRIMARY KEY,
-      partner_id TEXT NOT NULL,
-      partner_name TEXT NOT NULL,
-      merchant_id TEXT NOT NULL,
-      merchant_name TEXT NOT NULL,
-      signal_type TEXT NOT NULL,
-      description TEXT NOT NULL,
-      confidence DOUBLE PRECISION NOT NULL,
-      metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
-      submitted_at TIMESTAMPTZ NOT NULL,
-      status TEXT NOT NULL DEFAULT 'pending',
-      assigned_reviewer_id TEXT,
-      assigned_reviewer_name TEXT,
-      assigned_reviewer_role TEXT,
-      assigned_at TIMESTAMPTZ
-    )`,
-    `CREATE TABLE IF NOT EXISTS partner_signal_assignments (
-      id UUID PRIMARY KEY,
-      signal_id TEXT NOT NULL REFERENCES partner_signals(id) ON DELETE CASCADE,
-      reviewer_id TEXT NOT NULL,
-      reviewer_name TEXT NOT NULL,
-      reviewer_role TEXT NOT NULL,
-      assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-      active BOOLEAN NOT NULL DEFAULT TRUE
-    )`,
-    `CREATE TABLE IF NOT EXISTS partner_signal_audits (
-      id UUID PRIMARY KEY,
-      signal_id TEXT NOT NULL REFERENCES partner_signals(id) ON DELETE CASCADE,
-      reviewer_id TEXT NOT NULL,
-      reviewer_name TEXT NOT NULL,
-      reviewer_role TEXT NOT NULL,
-      action TEXT NOT NULL,
-      from_status TEXT,
-      to_status TEXT,
-      notes TEXT,
-      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
-    )`,
-    `CREATE TABLE IF NOT EXISTS moderators (
-      id TEXT PRIMARY KEY,
-      email TEXT,
-      name TEXT NOT NULL,
-      role TEXT NOT NULL DEFAULT 'colleague',
-      source TEXT NOT NULL DEFAULT 'manual',
-      active BOOLEAN NOT NULL DEFAULT TRUE,
-      synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-      metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
-      CONSTRAINT uq_moderators_email UNIQUE (email)
-    )`,
-    `CREATE TABLE IF NOT EXISTS partner_signal_shadow_queue (
-      id UUID PRIMARY KEY,
-      signal_id TEXT NOT NULL REFERENCES partner_signals(id) ON DELETE CASCADE,
-      reviewer_id TEXT NOT NULL,
-      reviewer_name TEXT NOT NULL,
-      reviewer_role TEXT NOT NULL,
-      tier TEXT NOT NULL DEFAULT 'pilot',
-      status TEXT NOT NULL DEFAULT 'pending',
-      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-      decision_at TIMESTAMPTZ,
-      decision_by_id TEXT,
-      decision_by_name TEXT,
-      notes TEXT
-    )`,
-    `CREATE INDEX IF NOT EXISTS idx_partner_signals_submitted_at ON partner_signals(submitted_at DESC)`,
-    `CREATE INDEX IF NOT EXISTS idx_partner_signals_status ON partner_signals(status)`,
-    `CREATE INDEX IF NOT EXISTS idx_signal_assignments_signal_id ON partner_signal_assignments(signal_id)`,
-    `CREATE INDEX IF NOT EXISTS idx_signal_audits_signal_id ON partner_signal_audits(signal_id)`,
-    `CREATE INDEX IF NOT EXISTS idx_signal_audits_created_at ON partner_signal_audits(created_at DESC)`,
-    `CREATE INDEX IF NOT EXISTS idx_moderators_active ON moderators(active)`,
-    `CREATE UNIQUE INDEX IF NOT EXISTS uq_shadow_queue_signal_reviewer ON partner_signal_shadow_queue(signal_id, reviewer_id)`,
-    `CREATE INDEX IF NOT EXISTS idx_shadow_queue_status ON partner_signal_shadow_queue(status)`,
-    `CREATE INDEX IF NOT EXISTS idx_shadow_queue_tier ON partner_signal_shadow_queue(tier)`
-  ]
-
-  for (const statement of migrations) {
-    await dbPool.query(statement)
-  }
-
-  if (!isTestEnvironment) {
-    await dbPool.query(`ALTER TABLE partner_signals
-    ALTER COLUMN metadata TYPE JSONB USING metadata::JSONB`)
-  }
-  await dbPool.query(`ALTER TABLE partner_signals
-    ADD COLUMN IF NOT EXISTS assigned_reviewer_id TEXT`)
-  await dbPool.query(`ALTER TABLE partner_signals
-    ADD COLUMN IF NOT EXISTS assigned_reviewer_name TEXT`)
-  await dbPool.query(`ALTER TABLE partner_signals
-    ADD COLUMN IF NOT EXISTS assigned_reviewer_role TEXT`)
-  await dbPool.query(`ALTER TABLE partner_signals
-    ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ`)
-}
-
 async function seedPartnerSignals(): Promise<void> {
   const result = await dbPool.query<{ count: string }>('SELECT COUNT(*)::text as count FROM partner_signals')
   const currentCount = Number.parseInt(result.rows[0]?.count ?? '0', 10)
@@ -203,6 +120,17 @@ async function seedPartnerSignals(): Promise<void> {
   try {
     await client.query('BEGIN')
 
+    for (const signal of seedSignals) {
+      await client.query('INSERT INTO partners (id, name) VALUES ($1, $2) ON CONFLICT (id) DO NOTHING', [
+        signal.partnerId,
+        signal.partnerName,
+      ])
+      await client.query('INSERT INTO merchants (id, name) VALUES ($1, $2) ON CONFLICT (id) DO NOTHING', [
+        signal.merchantId,
+        signal.merchantName,
+      ])
+    }
+
     for (const signal of seedSignals) {
       const assignment = signal.assignedReviewerId
         ? {
@@ -212,6 +140,7 @@ async function seedPartnerSignals(): Promise<void> {
             assignedAt: signal.assignedAt ?? signal.submittedAt,
           }
         : null
+      const slaPolicy = resolvePartnerSignalSlaPolicy(signal.signalType, signal.confidence)
 
       await client.query(
         `INSERT INTO partner_signals (
@@ -229,8 +158,10 @@ async function seedPartnerSignals(): Promise<void> {
           assigned_reviewer_id,
           assigned_reviewer_name,
           assigned_reviewer_role,
-          assigned_at
-        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15)` ,
+          assigned_at,
+          sla_policy_id,
+          sla_due_at
+        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17)` ,
         [
           signal.id,
           signal.partnerId,
@@ -247,6 +178,8 @@ async function seedPartnerSignals(): Promise<void> {
           assignment?.reviewerName ?? null,
           assignment?.reviewerRole ?? null,
           assignment?.assignedAt ?? null,
+          slaPolicy.id,
+          computePartnerSignalSlaDueAt(slaPolicy, signal.submittedAt),
         ],
       )
 
@@ -341,20 +274,36 @@ async function seedPartnerSignals(): Promise<void> {
 
 export interface MigrateOptions {
   seed?: boolean
+  to?: string
 }
 
-export async function migrateDatabase(options: MigrateOptions = {}): Promise<void> {
-  const { seed = false } = options
+export async function migrateDatabase(options: MigrateOptions = {}): Promise<Migration[]> {
+  const { seed = false, to } = options
 
   await ensureDatabaseExists()
-  await applyMigrations()
+  const applied = await migrateUp(dbPool, { inMemory: isTestEnvironment, to })
 
   if (seed) {
     await seedPartnerSignals()
   }
+
+  return applied
+}
+
+export async function rollbackDatabase(options: { to?: string } = {}): Promise<Migration[]> {
+  return migrateDown(dbPool, { inMemory: isTestEnvironment, to: options.to })
+}
+
+export async function getDatabaseMigrationStatus(): Promise<MigrationStatus[]> {
+  await ensureDatabaseExists()
+  return getMigrationStatus(dbPool, { inMemory: isTestEnvironment })
 }
 
 async function initialize(): Promise<void> {
+  if (process.env.PARTNER_DB_AUTO_MIGRATE === 'false') {
+    return
+  }
+
   try {
     const shouldSeed = process.env.PARTNER_DB_AUTO_SEED !== 'false'
     await migrateDatabase({ seed: shouldSeed })
@@ -369,9 +318,16 @@ export async function reseedPartnerSignals(): Promise<void> {
   try {
     await client.query('BEGIN')
   await client.query('TRUNCATE TABLE partner_signal_shadow_queue RESTART IDENTITY CASCADE')
+    await client.query('TRUNCATE TABLE partner_signal_submission_keys RESTART IDENTITY CASCADE')
     await client.query('TRUNCATE TABLE partner_signal_audits RESTART IDENTITY CASCADE')
     await client.query('TRUNCATE TABLE partner_signal_assignments RESTART IDENTITY CASCADE')
+    await client.query('TRUNCATE TABLE partner_signal_comment_revisions RESTART IDENTITY CASCADE')
+    await client.query('TRUNCATE TABLE partner_signal_comments RESTART IDENTITY CASCADE')
     await client.query('TRUNCATE TABLE partner_signals RESTART IDENTITY CASCADE')
+    await client.query('TRUNCATE TABLE partners RESTART IDENTITY CASCADE')
+    await client.query('TRUNCATE TABLE merchants RESTART IDENTITY CASCADE')
+    await client.query('TRUNCATE TABLE domain_events RESTART IDENTITY CASCADE')
+    await client.query('TRUNCATE TABLE idempotency_keys RESTART IDENTITY CASCADE')
     await client.query('COMMIT')
   } catch (error) {
     await client.query('ROLLBACK')
@@ -0,0 +1,89 @@
+import type { MigrationStatement } from '../migrator.js'
+
+export const up: MigrationStatement[] = [
+  `CREATE TABLE IF NOT EXISTS partner_signals (
+    id TEXT PRIMARY KEY,
+    partner_id TEXT NOT NULL,
+    partner_name TEXT NOT NULL,
+    merchant_id TEXT NOT NULL,
+    merchant_name TEXT NOT NULL,
+    signal_type TEXT NOT NULL,
+    description TEXT NOT NULL,
+    confidence DOUBLE PRECISION NOT NULL,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    submitted_at TIMESTAMPTZ NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    assigned_reviewer_id TEXT,
+    assigned_reviewer_name TEXT,
+    assigned_reviewer_role TEXT,
+    assigned_at TIMESTAMPTZ
+  )`,
+  `CREATE TABLE IF NOT EXISTS partner_signal_assignments (
+    id UUID PRIMARY KEY,
+    signal_id TEXT NOT NULL REFERENCES partner_signals(id) ON DELETE CASCADE,
+    reviewer_id TEXT NOT NULL,
+    reviewer_name TEXT NOT NULL,
+    reviewer_role TEXT NOT NULL,
+    assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    active BOOLEAN NOT NULL DEFAULT TRUE
+  )`,
+  `CREATE TABLE IF NOT EXISTS partner_signal_audits (
+    id UUID PRIMARY KEY,
+    signal_id TEXT NOT NULL REFERENCES partner_signals(id) ON DELETE CASCADE,
+    reviewer_id TEXT NOT NULL,
+    reviewer_name TEXT NOT NULL,
+    reviewer_role TEXT NOT NULL,
+    action TEXT NOT NULL,
+    from_status TEXT,
+    to_status TEXT,
+    notes TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE TABLE IF NOT EXISTS moderators (
+    id TEXT PRIMARY KEY,
+    email TEXT,
+    name TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'colleague',
+    source TEXT NOT NULL DEFAULT 'manual',
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    CONSTRAINT uq_moderators_email UNIQUE (email)
+  )`,
+  `CREATE TABLE IF NOT EXISTS partner_signal_shadow_queue (
+    id UUID PRIMARY KEY,
+    signal_id TEXT NOT NULL REFERENCES partner_signals(id) ON DELETE CASCADE,
+    reviewer_id TEXT NOT NULL,
+    reviewer_name TEXT NOT NULL,
+    reviewer_role TEXT NOT NULL,
+    tier TEXT NOT NULL DEFAULT 'pilot',
+    status TEXT NOT NULL DEFAULT 'pending',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    decision_at TIMESTAMPTZ,
+    decision_by_id TEXT,
+    decision_by_name TEXT,
+    notes TEXT
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_partner_signals_submitted_at ON partner_signals(submitted_at DESC)`,
+  `CREATE INDEX IF NOT EXISTS idx_partner_signals_status ON partner_signals(status)`,
+  `CREATE INDEX IF NOT EXISTS idx_signal_assignments_signal_id ON partner_signal_assignments(signal_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_signal_audits_signal_id ON partner_signal_audits(signal_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_signal_audits_created_at ON partner_signal_audits(created_at DESC)`,
+  `CREATE INDEX IF NOT EXISTS idx_moderators_active ON moderators(active)`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS uq_shadow_queue_signal_reviewer ON partner_signal_shadow_queue(signal_id, reviewer_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_shadow_queue_status ON partner_signal_shadow_queue(status)`,
+  `CREATE INDEX IF NOT EXISTS idx_shadow_queue_tier ON partner_signal_shadow_queue(tier)`,
+  { sql: `ALTER TABLE partner_signals ALTER COLUMN metadata TYPE JSONB USING metadata::JSONB`, skipInMemory: true },
+  `ALTER TABLE partner_signals ADD COLUMN IF NOT EXISTS assigned_reviewer_id TEXT`,
+  `ALTER TABLE partner_signals ADD COLUMN IF NOT EXISTS assigned_reviewer_name TEXT`,
+  `ALTER TABLE partner_signals ADD COLUMN IF NOT EXISTS assigned_reviewer_role TEXT`,
+  `ALTER TABLE partner_signals ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ`,
+]
+
+export const down: MigrationStatement[] = [
+  `DROP TABLE IF EXISTS partner_signal_shadow_queue`,
+  `DROP TABLE IF EXISTS moderators`,
+  `DROP TABLE IF EXISTS partner_signal_audits`,
+  `DROP TABLE IF EXISTS partner_signal_assignments`,
+  `DROP TABLE IF EXISTS partner_signals`,
+]
@@ -0,0 +1,9 @@
+import type { MigrationStatement } from '../migrator.js'
+
+export const up: MigrationStatement[] = [
+  `ALTER TABLE partner_signal_audits ADD COLUMN IF NOT EXISTS transition_rule TEXT`,
+]
+
+export const down: MigrationStatement[] = [
+  `ALTER TABLE partner_signal_audits DROP COLUMN IF EXISTS transition_rule`,
+]
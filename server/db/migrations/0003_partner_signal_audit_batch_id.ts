@@ -0,0 +1,11 @@
+import type { MigrationStatement } from '../migrator.js'
+
+export const up: MigrationStatement[] = [
+  `ALTER TABLE partner_signal_audits ADD COLUMN IF NOT EXISTS batch_id TEXT`,
+  `CREATE INDEX IF NOT EXISTS idx_signal_audits_batch_id ON partner_signal_audits(batch_id)`,
+]
+
+export const down: MigrationStatement[] = [
+  `DROP INDEX IF EXISTS idx_signal_audits_batch_id`,
+  `ALTER TABLE partner_signal_audits DROP COLUMN IF EXISTS batch_id`,
+]
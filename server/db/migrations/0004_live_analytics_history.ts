@@ -0,0 +1,42 @@
+import type { MigrationStatement } from '../migrator.js'
+
+export const up: MigrationStatement[] = [
+  `CREATE TABLE IF NOT EXISTS live_analytics_events (
+    id TEXT PRIMARY KEY,
+    metric_id TEXT NOT NULL,
+    series_key TEXT NOT NULL,
+    region TEXT,
+    merchant_category TEXT,
+    partner_id TEXT,
+    value DOUBLE PRECISION NOT NULL,
+    recorded_at TIMESTAMPTZ NOT NULL,
+    ingested_at TIMESTAMPTZ NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_live_events_metric_recorded ON live_analytics_events(metric_id, recorded_at)`,
+  `CREATE INDEX IF NOT EXISTS idx_live_events_recorded ON live_analytics_events(recorded_at)`,
+  `CREATE TABLE IF NOT EXISTS live_analytics_rollups (
+    resolution TEXT NOT NULL,
+    series_key TEXT NOT NULL,
+    bucket_start TIMESTAMPTZ NOT NULL,
+    metric_id TEXT NOT NULL,
+    region TEXT,
+    merchant_category TEXT,
+    partner_id TEXT,
+    sample_count INTEGER NOT NULL,
+    value_sum DOUBLE PRECISION NOT NULL,
+    value_min DOUBLE PRECISION NOT NULL,
+    value_max DOUBLE PRECISION NOT NULL,
+    value_last DOUBLE PRECISION NOT NULL,
+    last_recorded_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (resolution, series_key, bucket_start)
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_live_rollups_metric_bucket ON live_analytics_rollups(metric_id, resolution, bucket_start)`,
+]
+
+export const down: MigrationStatement[] = [
+  `DROP INDEX IF EXISTS idx_live_rollups_metric_bucket`,
+  `DROP TABLE IF EXISTS live_analytics_rollups`,
+  `DROP INDEX IF EXISTS idx_live_events_recorded`,
+  `DROP INDEX IF EXISTS idx_live_events_metric_recorded`,
+  `DROP TABLE IF EXISTS live_analytics_events`,
+]
@@ -0,0 +1,44 @@
+import type { MigrationStatement } from '../migrator.js'
+
+export const up: MigrationStatement[] = [
+  `CREATE TABLE IF NOT EXISTS live_alert_rules (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    metric_id TEXT NOT NULL,
+    min_severity TEXT NOT NULL DEFAULT 'critical',
+    filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    sinks JSONB NOT NULL DEFAULT '[]'::jsonb,
+    repeat_interval_seconds INTEGER NOT NULL DEFAULT 3600,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE TABLE IF NOT EXISTS live_alerts (
+    id TEXT PRIMARY KEY,
+    rule_id TEXT NOT NULL REFERENCES live_alert_rules(id) ON DELETE CASCADE,
+    metric_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'firing',
+    severity TEXT NOT NULL,
+    value DOUBLE PRECISION NOT NULL,
+    threshold_value DOUBLE PRECISION,
+    message TEXT NOT NULL,
+    detector TEXT NOT NULL,
+    occurrences INTEGER NOT NULL DEFAULT 1,
+    started_at TIMESTAMPTZ NOT NULL,
+    last_seen_at TIMESTAMPTZ NOT NULL,
+    last_notified_at TIMESTAMPTZ,
+    acknowledged_at TIMESTAMPTZ,
+    acknowledged_by TEXT,
+    resolved_at TIMESTAMPTZ
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_live_alerts_rule_status ON live_alerts(rule_id, status)`,
+  `CREATE INDEX IF NOT EXISTS idx_live_alerts_started ON live_alerts(started_at)`,
+]
+
+export const down: MigrationStatement[] = [
+  `DROP INDEX IF EXISTS idx_live_alerts_started`,
+  `DROP INDEX IF EXISTS idx_live_alerts_rule_status`,
+  `DROP TABLE IF EXISTS live_alerts`,
+  `DROP TABLE IF EXISTS live_alert_rules`,
+]
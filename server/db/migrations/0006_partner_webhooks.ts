@@ -0,0 +1,44 @@
+import type { MigrationStatement } from '../migrator.js'
+
+export const up: MigrationStatement[] = [
+  `CREATE TABLE IF NOT EXISTS partner_webhook_subscriptions (
+    id TEXT PRIMARY KEY,
+    partner_id TEXT NOT NULL,
+    url TEXT NOT NULL,
+    events JSONB NOT NULL DEFAULT '[]'::jsonb,
+    secret TEXT NOT NULL,
+    description TEXT,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_partner_webhook_subscriptions_partner ON partner_webhook_subscriptions(partner_id)`,
+  `CREATE TABLE IF NOT EXISTS partner_webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    subscription_id TEXT NOT NULL REFERENCES partner_webhook_subscriptions(id) ON DELETE CASCADE,
+    event_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    signal_id TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ,
+    last_attempt_at TIMESTAMPTZ,
+    last_status_code INTEGER,
+    last_error TEXT,
+    delivered_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_partner_webhook_deliveries_due ON partner_webhook_deliveries(status, next_attempt_at)`,
+  `CREATE INDEX IF NOT EXISTS idx_partner_webhook_deliveries_subscription
+    ON partner_webhook_deliveries(subscription_id, created_at)`,
+]
+
+export const down: MigrationStatement[] = [
+  `DROP INDEX IF EXISTS idx_partner_webhook_deliveries_subscription`,
+  `DROP INDEX IF EXISTS idx_partner_webhook_deliveries_due`,
+  `DROP TABLE IF EXISTS partner_webhook_deliveries`,
+  `DROP INDEX IF EXISTS idx_partner_webhook_subscriptions_partner`,
+  `DROP TABLE IF EXISTS partner_webhook_subscriptions`,
+]
@@ -0,0 +1,36 @@
+import type { MigrationStatement } from '../migrator.js'
+
+export const up: MigrationStatement[] = [
+  `CREATE TABLE IF NOT EXISTS partner_signal_comments (
+    id TEXT PRIMARY KEY,
+    signal_id TEXT NOT NULL REFERENCES partner_signals(id) ON DELETE CASCADE,
+    parent_id TEXT,
+    author_id TEXT NOT NULL,
+    author_name TEXT NOT NULL,
+    author_role TEXT NOT NULL,
+    body TEXT NOT NULL,
+    mentions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    edited_at TIMESTAMPTZ,
+    deleted_at TIMESTAMPTZ
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_partner_signal_comments_signal ON partner_signal_comments(signal_id, created_at)`,
+  `CREATE TABLE IF NOT EXISTS partner_signal_comment_revisions (
+    id TEXT PRIMARY KEY,
+    comment_id TEXT NOT NULL REFERENCES partner_signal_comments(id) ON DELETE CASCADE,
+    body TEXT NOT NULL,
+    mentions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    edited_by TEXT NOT NULL,
+    edited_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_partner_signal_comment_revisions_comment
+    ON partner_signal_comment_revisions(comment_id, edited_at)`,
+]
+
+export const down: MigrationStatement[] = [
+  `DROP INDEX IF EXISTS idx_partner_signal_comment_revisions_comment`,
+  `DROP TABLE IF EXISTS partner_signal_comment_revisions`,
+  `DROP INDEX IF EXISTS idx_partner_signal_comments_signal`,
+  `DROP TABLE IF EXISTS partner_signal_comments`,
+]
@@ -0,0 +1,15 @@
+import type { MigrationStatement } from '../migrator.js'
+
+export const up: MigrationStatement[] = [
+  `ALTER TABLE partner_signals ADD COLUMN IF NOT EXISTS sla_policy_id TEXT`,
+  `ALTER TABLE partner_signals ADD COLUMN IF NOT EXISTS sla_due_at TIMESTAMPTZ`,
+  `ALTER TABLE partner_signals ADD COLUMN IF NOT EXISTS sla_escalated_at TIMESTAMPTZ`,
+  `CREATE INDEX IF NOT EXISTS idx_partner_signals_sla_due ON partner_signals(sla_due_at)`,
+]
+
+export const down: MigrationStatement[] = [
+  `DROP INDEX IF EXISTS idx_partner_signals_sla_due`,
+  `ALTER TABLE partner_signals DROP COLUMN IF EXISTS sla_escalated_at`,
+  `ALTER TABLE partner_signals DROP COLUMN IF EXISTS sla_due_at`,
+  `ALTER TABLE partner_signals DROP COLUMN IF EXISTS sla_policy_id`,
+]
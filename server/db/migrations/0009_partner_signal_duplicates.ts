@@ -0,0 +1,16 @@
+import type { MigrationStatement } from '../migrator.js'
+
+export const up: MigrationStatement[] = [
+  `ALTER TABLE partner_signals ADD COLUMN IF NOT EXISTS duplicate_of_id TEXT`,
+  `ALTER TABLE partner_signals ADD COLUMN IF NOT EXISTS duplicate_score DOUBLE PRECISION`,
+  `ALTER TABLE partner_signals ADD COLUMN IF NOT EXISTS merged_into_id TEXT`,
+  `CREATE INDEX IF NOT EXISTS idx_partner_signals_duplicate_lookup
+     ON partner_signals(merchant_id, signal_type, submitted_at)`,
+]
+
+export const down: MigrationStatement[] = [
+  `DROP INDEX IF EXISTS idx_partner_signals_duplicate_lookup`,
+  `ALTER TABLE partner_signals DROP COLUMN IF EXISTS merged_into_id`,
+  `ALTER TABLE partner_signals DROP COLUMN IF EXISTS duplicate_score`,
+  `ALTER TABLE partner_signals DROP COLUMN IF EXISTS duplicate_of_id`,
+]
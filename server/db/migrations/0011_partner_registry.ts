@@ -0,0 +1,31 @@
+import type { MigrationStatement } from '../migrator.js'
+
+export const up: MigrationStatement[] = [
+  `CREATE TABLE IF NOT EXISTS partners (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE TABLE IF NOT EXISTS merchants (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `INSERT INTO partners (id, name)
+    SELECT partner_id, MAX(partner_name) FROM partner_signals GROUP BY partner_id
+    ON CONFLICT (id) DO NOTHING`,
+  `INSERT INTO merchants (id, name)
+    SELECT merchant_id, MAX(merchant_name) FROM partner_signals GROUP BY merchant_id
+    ON CONFLICT (id) DO NOTHING`,
+  `CREATE INDEX IF NOT EXISTS idx_partner_signals_merchant ON partner_signals(merchant_id, submitted_at)`,
+]
+
+export const down: MigrationStatement[] = [
+  `DROP INDEX IF EXISTS idx_partner_signals_merchant`,
+  `DROP TABLE IF EXISTS merchants`,
+  `DROP TABLE IF EXISTS partners`,
+]
@@ -0,0 +1,25 @@
+import type { MigrationStatement } from '../migrator.js'
+
+export const up: MigrationStatement[] = [
+  `CREATE TABLE IF NOT EXISTS domain_events (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    aggregate_id TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    completed_subscribers JSONB NOT NULL DEFAULT '[]'::jsonb,
+    next_attempt_at TIMESTAMPTZ,
+    last_error TEXT,
+    occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    dispatched_at TIMESTAMPTZ
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_domain_events_due ON domain_events(status, next_attempt_at)`,
+  `CREATE INDEX IF NOT EXISTS idx_domain_events_aggregate ON domain_events(aggregate_id, occurred_at)`,
+]
+
+export const down: MigrationStatement[] = [
+  `DROP INDEX IF EXISTS idx_domain_events_aggregate`,
+  `DROP INDEX IF EXISTS idx_domain_events_due`,
+  `DROP TABLE IF EXISTS domain_events`,
+]
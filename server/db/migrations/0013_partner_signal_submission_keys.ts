@@ -0,0 +1,15 @@
+import type { MigrationStatement } from '../migrator.js'
+
+export const up: MigrationStatement[] = [
+  `CREATE TABLE IF NOT EXISTS partner_signal_submission_keys (
+    partner_id TEXT NOT NULL,
+    submission_key TEXT NOT NULL,
+    signal_id TEXT NOT NULL REFERENCES partner_signals(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (partner_id, submission_key)
+  )`,
+]
+
+export const down: MigrationStatement[] = [
+  `DROP TABLE IF EXISTS partner_signal_submission_keys`,
+]
@@ -0,0 +1,9 @@
+import type { MigrationStatement } from '../migrator.js'
+
+export const up: MigrationStatement[] = [
+  `ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS response_headers JSONB`,
+]
+
+export const down: MigrationStatement[] = [
+  `ALTER TABLE idempotency_keys DROP COLUMN IF EXISTS response_headers`,
+]
@@ -0,0 +1,9 @@
+import type { MigrationStatement } from '../migrator.js'
+
+export const up: MigrationStatement[] = [
+  `ALTER TABLE partner_signals ADD COLUMN IF NOT EXISTS sla_paused_at TIMESTAMPTZ`,
+]
+
+export const down: MigrationStatement[] = [
+  `ALTER TABLE partner_signals DROP COLUMN IF EXISTS sla_paused_at`,
+]
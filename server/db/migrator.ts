@@ -0,0 +1,280 @@
+import crypto from 'node:crypto'
+import { readdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import type { Pool, PoolClient } from 'pg'
+import { logger } from '../utils/logger.js'
+
+export type MigrationStatement = string | { sql: string; skipInMemory: true }
+
+export interface MigrationModule {
+  up: MigrationStatement[]
+  down: MigrationStatement[]
+}
+
+export interface Migration extends MigrationModule {
+  version: string
+  name: string
+  checksum: string
+}
+
+export type MigrationState = 'applied' | 'pending' | 'checksum_mismatch' | 'missing'
+
+export interface MigrationStatus {
+  version: string
+  name: string
+  state: MigrationState
+  checksum: string | null
+  appliedAt: string | null
+}
+
+export interface MigratorOptions {
+  directory?: string
+  inMemory?: boolean
+}
+
+type SchemaMigrationRow = {
+  version: string
+  name: string
+  checksum: string
+  applied_at: string | Date
+}
+
+const dirname = path.dirname(fileURLToPath(import.meta.url))
+export const MIGRATIONS_DIRECTORY = path.join(dirname, 'migrations')
+const MIGRATION_FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.(ts|js)$/
+const MIGRATION_LOCK_KEY = 7262019001
+
+export class MigrationChecksumError extends Error {
+  readonly versions: string[]
+
+  constructor(versions: string[]) {
+    super(`Applied migrations were modified after they ran: ${versions.join(', ')}`)
+    this.name = 'MigrationChecksumError'
+    this.versions = versions
+  }
+}
+
+function statementSql(statement: MigrationStatement): string {
+  return typeof statement === 'string' ? statement : statement.sql
+}
+
+function computeChecksum(module: MigrationModule): string {
+  const payload = JSON.stringify({ up: module.up.map(statementSql), down: module.down.map(statementSql) })
+  return crypto.createHash('sha256').update(payload).digest('hex')
+}
+
+export async function loadMigrations(directory = MIGRATIONS_DIRECTORY): Promise<Migration[]> {
+  const files = (await readdir(directory)).filter((file) => MIGRATION_FILE_PATTERN.test(file)).sort()
+  const migrations: Migration[] = []
+
+  for (const file of files) {
+    const [, version, name] = MIGRATION_FILE_PATTERN.exec(file) ?? []
+    if (migrations.some((migration) => migration.version === version)) {
+      throw new Error(`Duplicate migration version ${version} (${file})`)
+    }
+
+    const module = (await import(pathToFileURL(path.join(directory, file)).href)) as Partial<MigrationModule>
+    if (!Array.isArray(module.up) || !Array.isArray(module.down)) {
+      throw new Error(`Migration ${file} must export "up" and "down" statement arrays`)
+    }
+
+    const definition = { up: module.up, down: module.down }
+    migrations.push({ version, name, checksum: computeChecksum(definition), ...definition })
+  }
+
+  return migrations
+}
+
+async function ensureMigrationTable(client: PoolClient): Promise<void> {
+  const existing = await client.query(
+    `SELECT 1 FROM information_schema.tables WHERE table_name = 'schema_migrations'`,
+  )
+  if (existing.rows.length > 0) {
+    return
+  }
+
+  await client.query(`CREATE TABLE IF NOT EXISTS schema_migrations (
+    version TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    execution_ms INTEGER NOT NULL DEFAULT 0
+  )`)
+}
+
+async function listAppliedMigrations(client: PoolClient): Promise<SchemaMigrationRow[]> {
+  const result = await client.query<SchemaMigrationRow>(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version ASC',
+  )
+  return result.rows
+}
+
+async function withMigrationLock<T>(pool: Pool, handler: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect()
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY])
+    try {
+      await ensureMigrationTable(client)
+      return await handler(client)
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY])
+    }
+  } finally {
+    client.release()
+  }
+}
+
+async function runStatements(
+  client: PoolClient,
+  migration: Migration,
+  direction: 'up' | 'down',
+  inMemory: boolean,
+): Promise<number> {
+  const startedAt = Date.now()
+
+  try {
+    await client.query('BEGIN')
+    for (const statement of migration[direction]) {
+      if (typeof statement !== 'string' && statement.skipInMemory && inMemory) {
+        continue
+      }
+      await client.query(statementSql(statement))
+    }
+
+    if (direction === 'up') {
+      await client.query(
+        `INSERT INTO schema_migrations (version, name, checksum, applied_at, execution_ms)
+         VALUES ($1,$2,$3,$4,$5)`,
+        [migration.version, migration.name, migration.checksum, new Date().toISOString(), Date.now() - startedAt],
+      )
+    } else {
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version])
+    }
+
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  }
+
+  return Date.now() - startedAt
+}
+
+function buildStatus(migrations: Migration[], applied: SchemaMigrationRow[]): MigrationStatus[] {
+  const appliedByVersion = new Map(applied.map((row) => [row.version, row]))
+  const statuses: MigrationStatus[] = migrations.map((migration) => {
+    const row = appliedByVersion.get(migration.version)
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: !row ? 'pending' : row.checksum === migration.checksum ? 'applied' : 'checksum_mismatch',
+      checksum: migration.checksum,
+      appliedAt: row ? new Date(row.applied_at).toISOString() : null,
+    }
+  })
+
+  for (const row of applied) {
+    if (!migrations.some((migration) => migration.version === row.version)) {
+      statuses.push({
+        version: row.version,
+        name: row.name,
+        state: 'missing',
+        checksum: row.checksum,
+        appliedAt: new Date(row.applied_at).toISOString(),
+      })
+    }
+  }
+
+  return statuses.sort((left, right) => left.version.localeCompare(right.version))
+}
+
+export async function getMigrationStatus(pool: Pool, options: MigratorOptions = {}): Promise<MigrationStatus[]> {
+  const migrations = await loadMigrations(options.directory)
+  return withMigrationLock(pool, async (client) => buildStatus(migrations, await listAppliedMigrations(client)))
+}
+
+export async function migrateUp(pool: Pool, options: MigratorOptions & { to?: string } = {}): Promise<Migration[]> {
+  const migrations = await loadMigrations(options.directory)
+
+  return withMigrationLock(pool, async (client) => {
+    const statuses = buildStatus(migrations, await listAppliedMigrations(client))
+    const mismatched = statuses.filter((status) => status.state === 'checksum_mismatch')
+    if (mismatched.length > 0) {
+      throw new MigrationChecksumError(mismatched.map((status) => status.version))
+    }
+
+    const pendingVersions = new Set(
+      statuses
+        .filter((status) => status.state === 'pending' && (!options.to || status.version <= options.to))
+        .map((status) => status.version),
+    )
+    const applied: Migration[] = []
+
+    for (const migration of migrations) {
+      if (!pendingVersions.has(migration.version)) {
+        continue
+      }
+
+      const durationMs = await runStatements(client, migration, 'up', options.inMemory ?? false)
+      logger.info({ version: migration.version, migration: migration.name, durationMs }, 'Applied migration')
+      applied.push(migration)
+    }
+
+    return applied
+  })
+}
+
+export async function migrateDown(pool: Pool, options: MigratorOptions & { to?: string } = {}): Promise<Migration[]> {
+  const migrations = await loadMigrations(options.directory)
+
+  return withMigrationLock(pool, async (client) => {
+    const applied = await listAppliedMigrations(client)
+    const target = options.to
+    const targets = (target === undefined ? applied.slice(-1) : applied.filter((row) => row.version > target)).reverse()
+    const reverted: Migration[] = []
+
+    for (const row of targets) {
+      const migration = migrations.find((candidate) => candidate.version === row.version)
+      if (!migration) {
+        throw new Error(`Cannot revert migration ${row.version}_${row.name}: file is missing`)
+      }
+
+      const durationMs = await runStatements(client, migration, 'down', options.inMemory ?? false)
+      logger.info({ version: migration.version, migration: migration.name, durationMs }, 'Reverted migration')
+      reverted.push(migration)
+    }
+
+    return reverted
+  })
+}
+
+export async function createMigration(name: string, directory = MIGRATIONS_DIRECTORY): Promise<string> {
+  const slug = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+
+  if (!slug) {
+    throw new Error('Migration name must contain letters or digits')
+  }
+
+  const migrations = await loadMigrations(directory)
+  const lastVersion = migrations.length > 0 ? Number.parseInt(migrations[migrations.length - 1].version, 10) : 0
+  const version = String(lastVersion + 1).padStart(4, '0')
+  const filePath = path.join(directory, `${version}_${slug}.ts`)
+
+  await writeFile(
+    filePath,
+    `import type { MigrationStatement } from '../migrator.js'
+
+export const up: MigrationStatement[] = []
+
+export const down: MigrationStatement[] = []
+`,
+    { flag: 'wx' },
+  )
+
+  return filePath
+}
@@ -1,6 +1,15 @@
 import { createApp } from './app.js'
 import { databaseReady } from './db/client.js'
 import { startMetricsSchedulers, stopMetricsSchedulers } from './metrics/scheduler.js'
+import { startDomainEventKafkaPublisher, stopDomainEventKafkaPublisher } from './services/domainEventKafka.js'
+import { startDomainEventDispatcher, stopDomainEventDispatcher } from './services/domainEvents.js'
+import { startIdempotencyKeyPurge, stopIdempotencyKeyPurge } from './services/idempotencyKeys.js'
+import { startLiveAlertEvaluator, stopLiveAlertEvaluator } from './services/liveAnalyticsAlerts.js'
+import { startLiveAnalyticsPersistence, stopLiveAnalyticsPersistence } from './services/liveAnalyticsHistory.js'
+import { failStalePartnerSignalImports, stopPartnerSignalImports } from './services/partnerSignalImport.js'
+import { startPartnerSignalKafkaConsumer, stopPartnerSignalKafkaConsumer } from './services/partnerSignalKafka.js'
+import { startPartnerSignalSlaScheduler, stopPartnerSignalSlaScheduler } from './services/partnerSignalSla.js'
+import { startPartnerWebhookDispatcher, stopPartnerWebhookDispatcher } from './services/partnerWebhooks.js'
 import { initTelemetry } from './telemetry.js'
 import { logger } from './utils/logger.js'
 
@@ -11,6 +20,17 @@ async function bootstrap() {
   const port = Number.parseInt(process.env.PORT ?? '5050', 10)
   const app = createApp()
   startMetricsSchedulers()
+  startPartnerSignalSlaScheduler()
+  startLiveAnalyticsPersistence()
+  startLiveAlertEvaluator()
+  startPartnerWebhookDispatcher()
+  startDomainEventKafkaPublisher()
+  startDomainEventDispatcher()
+  startPartnerSignalKafkaConsumer()
+  startIdempotencyKeyPurge()
+  failStalePartnerSignalImports().catch((error: unknown) => {
+    logger.warn({ err: error }, 'partner-signal-import-recovery-failed')
+  })
 
   app.listen(port, () => {
     logger.info({ port }, '⚡️ Ecosystem Intelligence API listening')
@@ -22,5 +42,13 @@ void bootstrap()
 for (const signal of ['SIGTERM', 'SIGINT'] as const) {
   process.once(signal, () => {
     stopMetricsSchedulers()
+    stopIdempotencyKeyPurge()
+    void stopPartnerSignalSlaScheduler()
+    void stopLiveAnalyticsPersistence()
+    void stopLiveAlertEvaluator()
+    void stopPartnerWebhookDispatcher()
+    void stopDomainEventDispatcher().then(() => stopDomainEventKafkaPublisher())
+    void stopPartnerSignalImports()
+    void stopPartnerSignalKafkaConsumer()
   })
 }
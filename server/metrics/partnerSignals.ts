@@ -1,4 +1,6 @@
 import { Gauge, Histogram } from 'prom-client'
+import { openPartnerSignalStatuses } from '../../shared/data/partnerSignalWorkflow.js'
+import type { PartnerSignalStatus } from '../../shared/types/domain.js'
 import { dbPool } from '../db/client.js'
 import { logger } from '../utils/logger.js'
 import { metricsRegistry } from './registry.js'
@@ -58,7 +60,7 @@ let snapshot: PartnerSignalMetricsSnapshot = {
 export async function refreshPartnerSignalBacklogMetrics(): Promise<void> {
   try {
     const result = await dbPool.query<{
-      status: string
+      status: PartnerSignalStatus
       submitted_at: string | Date
     }>(
       `SELECT status,
@@ -70,7 +72,7 @@ export async function refreshPartnerSignalBacklogMetrics(): Promise<void> {
     const now = Date.now()
 
     for (const row of result.rows) {
-      if (row.status === 'pending') {
+      if (openPartnerSignalStatuses.includes(row.status)) {
         const submittedAt = new Date(row.submitted_at).getTime()
         if (!Number.isNaN(submittedAt)) {
           const ageMinutes = (now - submittedAt) / 1000 / 60
@@ -1,10 +1,14 @@
 import type { NextFunction, Request, Response } from 'express'
-import type { ReviewerRole } from '../../shared/types/domain.js'
+import { parseAccessRoles, resolvePermissions, toReviewerRole } from '../../shared/data/permissions.js'
+import type { AccessRole, ReviewerRole } from '../../shared/types/domain.js'
 
 import { verifyIdentityToken } from '../services/idpVerifier.js'
+import { verifySessionToken, type SessionIdentity } from '../services/sessionTokens.js'
 
 const IDP_REQUIRED = process.env.IDP_REQUIRE_TOKEN === 'true'
 const IDP_ENABLED = process.env.ENABLE_IDP_INTEGRATION === 'true'
+// `headers` trusts X-User-* from a gateway that has already authenticated the caller; `session` ignores them.
+const TRUST_IDENTITY_HEADERS = process.env.AUTH_MODE === 'headers'
 
 type HeaderValue = string | string[] | undefined
 
@@ -20,12 +24,13 @@ function normalizeHeader(value: HeaderValue): string | undefined {
   return value
 }
 
-function parseRole(role: string | undefined): ReviewerRole {
-  if (role === 'merchant' || role === 'colleague') {
-    return role
-  }
+function parseRoles(value: string | undefined): AccessRole[] {
+  const roles = parseAccessRoles(value)
+  return roles.length > 0 ? roles : ['partner-submitter']
+}
 
-  return 'merchant'
+function parsePartnerId(value: string | undefined): string | null {
+  return value && value.trim().length > 0 ? value.trim() : null
 }
 
 function buildDisplayName(name: string | undefined, role: ReviewerRole): string {
@@ -36,29 +41,36 @@ function buildDisplayName(name: string | undefined, role: ReviewerRole): string
   return role === 'colleague' ? 'AMEX Colleague' : 'Merchant Partner'
 }
 
-export async function attachRequestUser(req: Request, res: Response, next: NextFunction): Promise<void> {
-  try {
-    const headerRole = normalizeHeader(req.headers['x-user-role'])
-    const headerId = normalizeHeader(req.headers['x-user-id'])
-    const headerName = normalizeHeader(req.headers['x-user-name'])
+function readHeaderIdentity(req: Request): SessionIdentity {
+  const roles = parseRoles(normalizeHeader(req.headers['x-user-role']))
+  const role = toReviewerRole(roles)
+  const headerId = normalizeHeader(req.headers['x-user-id'])
 
-    const fallbackRole = parseRole(headerRole)
-    const fallbackId = headerId && headerId.trim().length > 0 ? headerId.trim() : `anon-${fallbackRole}`
-    const fallbackName = buildDisplayName(headerName, fallbackRole)
+  return {
+    id: headerId && headerId.trim().length > 0 ? headerId.trim() : `anon-${role}`,
+    name: buildDisplayName(normalizeHeader(req.headers['x-user-name']), role),
+    roles,
+    partnerId: parsePartnerId(normalizeHeader(req.headers['x-partner-id'])),
+  }
+}
 
-    let resolvedId = fallbackId
-    let resolvedName = fallbackName
-    let resolvedRole = fallbackRole
+const anonymousIdentity: SessionIdentity = {
+  id: 'anonymous',
+  name: 'Anonymous',
+  roles: [],
+  partnerId: null,
+}
 
-    if (IDP_ENABLED) {
-      const token = extractBearerToken(req) ?? normalizeHeader(req.headers['x-id-token'])
+export async function attachRequestUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const bearerToken = extractBearerToken(req)
+    let identity = bearerToken ? await verifySessionToken(bearerToken) : null
+
+    if (!identity && IDP_ENABLED) {
+      const token = bearerToken ?? normalizeHeader(req.headers['x-id-token'])
       if (token) {
-        const identity = await verifyIdentityToken(token)
-        if (identity) {
-          resolvedId = identity.id
-          resolvedName = identity.name
-          resolvedRole = identity.role
-        } else if (IDP_REQUIRED) {
+        identity = await verifyIdentityToken(token)
+        if (!identity && IDP_REQUIRED) {
           res.status(401).json({ message: 'Unable to verify identity token' })
           return
         }
@@ -66,12 +78,20 @@ export async function attachRequestUser(req: Request, res: Response, next: NextF
         res.status(401).json({ message: 'Identity token required' })
         return
       }
+    } else if (!identity && bearerToken) {
+      res.status(401).json({ message: 'Session token is invalid or expired' })
+      return
     }
 
+    identity ??= TRUST_IDENTITY_HEADERS ? readHeaderIdentity(req) : anonymousIdentity
+
     req.user = {
-      id: resolvedId,
-      name: resolvedName,
-      role: resolvedRole,
+      id: identity.id,
+      name: identity.name,
+      role: toReviewerRole(identity.roles),
+      roles: identity.roles,
+      permissions: resolvePermissions(identity.roles),
+      partnerId: identity.partnerId,
     }
 
     next()
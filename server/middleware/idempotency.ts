@@ -0,0 +1,119 @@
+import crypto from 'node:crypto'
+import type { NextFunction, Request, Response } from 'express'
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+} from '../services/idempotencyKeys.js'
+import { logger } from '../utils/logger.js'
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key'
+export const IDEMPOTENT_REPLAY_HEADER = 'idempotent-replayed'
+const MAX_KEY_LENGTH = 255
+const idempotentMethods = new Set(['POST', 'PATCH'])
+/** Headers that change what a request means: a different `If-Match` or import format is a different request. */
+const fingerprintedHeaders = ['if-match', 'content-type']
+/** Headers the client reads from a write response, so a replay has to carry them too. */
+const replayedHeaders = ['location', 'etag', 'content-type']
+
+/** Same method, URL, preconditions and body produce the same fingerprint; JSON key order is not normalised. */
+function fingerprintRequest(req: Request): string {
+  const body = typeof req.body === 'string' || Buffer.isBuffer(req.body) ? req.body : JSON.stringify(req.body ?? null)
+  const headers = fingerprintedHeaders.map((name) => `${name}: ${req.get(name) ?? ''}\n`).join('')
+  return crypto.createHash('sha256').update(`${req.method} ${req.originalUrl}\n${headers}`).update(body).digest('hex')
+}
+
+function readReplayedHeaders(res: Response): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const name of replayedHeaders) {
+    const value = res.getHeader(name)
+    if (value !== undefined) {
+      headers[name] = Array.isArray(value) ? value.join(', ') : String(value)
+    }
+  }
+  return headers
+}
+
+/**
+ * Stores the JSON response before it is sent, so a client that retries as soon as it sees the reply finds the key
+ * completed rather than in progress. Requests that end without a JSON body release the key instead.
+ */
+function recordResponse(res: Response, scope: string, key: string, fingerprint: string): void {
+  const json = res.json.bind(res)
+  let settled = false
+  const logFailure = (error: unknown) => {
+    logger.warn({ err: error, scope }, 'idempotency-key-settle-failed')
+  }
+
+  res.json = (body: unknown) => {
+    settled = true
+    const status = res.statusCode
+    const response = { status, body: body ?? null, headers: readReplayedHeaders(res) }
+    const work =
+      status < 500 ? completeIdempotencyKey(scope, key, fingerprint, response) : releaseIdempotencyKey(scope, key)
+    void work.catch(logFailure).finally(() => json(body))
+    return res
+  }
+
+  res.on('close', () => {
+    if (!settled) {
+      settled = true
+      releaseIdempotencyKey(scope, key).catch(logFailure)
+    }
+  })
+}
+
+/**
+ * Honours an `Idempotency-Key` header on POST and PATCH. Keys are scoped to the calling user; a retry with the same
+ * key and request gets the stored response and its `Location`, `ETag` and `Content-Type` headers back with
+ * `Idempotent-Replayed: true`, a different body or precondition gets 422, and a retry that overlaps the original
+ * request gets 409. Server errors are not stored, so those can be retried.
+ */
+export function idempotentRequests() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = req.get(IDEMPOTENCY_KEY_HEADER)?.trim()
+    if (!idempotentMethods.has(req.method) || !key) {
+      next()
+      return
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      res.status(400).json({ message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` })
+      return
+    }
+
+    const scope = req.user.id
+    const fingerprint = fingerprintRequest(req)
+
+    claimIdempotencyKey(scope, key, fingerprint)
+      .then((claim) => {
+        if (claim.outcome === 'mismatch') {
+          res.status(422).json({ message: 'Idempotency-Key was already used with a different request' })
+          return
+        }
+
+        if (claim.outcome === 'in_progress') {
+          res.status(409).json({ message: 'A request with this Idempotency-Key is still being processed' })
+          return
+        }
+
+        if (claim.outcome === 'replay') {
+          res.setHeader(IDEMPOTENT_REPLAY_HEADER, 'true')
+          for (const [name, value] of Object.entries(claim.response.headers)) {
+            res.setHeader(name, value)
+          }
+          res.status(claim.response.status)
+          if (claim.response.body === null || claim.response.body === undefined) {
+            res.end()
+          } else {
+            res.json(claim.response.body)
+          }
+          return
+        }
+
+        recordResponse(res, scope, key, fingerprint)
+        next()
+      })
+      .catch(next)
+  }
+}
@@ -0,0 +1,108 @@
+import type { NextFunction, Request, Response } from 'express'
+import { Counter } from 'prom-client'
+import { metricsRegistry } from '../metrics/registry.js'
+import { readPositiveInt } from '../utils/env.js'
+import { logger } from '../utils/logger.js'
+import { consumeTokens, type TokenBucketLimit, type TokenBucketResult } from '../utils/tokenBucket.js'
+
+const enabled = process.env.RATE_LIMIT_ENABLED !== 'false'
+
+export type RateLimitKey = 'user' | 'partner' | 'ip'
+
+/** One token bucket per key type; a request has to get a token from every bucket that applies to it. */
+export type RateLimitPolicy = Partial<Record<RateLimitKey, TokenBucketLimit>>
+
+const rateLimitKeys: RateLimitKey[] = ['user', 'partner', 'ip']
+
+const throttledCounter = new Counter({
+  name: 'http_requests_throttled_total',
+  help: 'Requests rejected with 429 by the rate limiter, by policy and the key whose bucket was empty',
+  labelNames: ['policy', 'key'] as const,
+  registers: [metricsRegistry],
+})
+
+type RateLimitOutcome = { key: RateLimitKey; limit: TokenBucketLimit; result: TokenBucketResult }
+
+/** A bucket of `fallback` requests (or the positive integer in `value`) that refills over a minute. */
+export function requestsPerMinute(value: string | undefined, fallback: number): TokenBucketLimit {
+  return { capacity: readPositiveInt(value, fallback), windowMs: 60_000 }
+}
+
+function resolveKeyValue(req: Request, key: RateLimitKey): string | null {
+  switch (key) {
+    case 'user':
+      return req.user.id
+    case 'partner':
+      return req.user.partnerId
+    case 'ip':
+      return req.ip ?? req.socket.remoteAddress ?? null
+  }
+}
+
+/**
+ * Takes a token from every bucket that applies, or from none if any is empty. Reports the bucket that keeps the
+ * request waiting longest when rejected, and the one closest to empty otherwise.
+ */
+async function consumePolicy(name: string, policy: RateLimitPolicy, req: Request): Promise<RateLimitOutcome | null> {
+  const applicable = rateLimitKeys.flatMap((key) => {
+    const limit = policy[key]
+    const value = limit ? resolveKeyValue(req, key) : null
+    return limit && value ? [{ key, limit, bucket: `${name}:${key}:${value}` }] : []
+  })
+
+  const results = await consumeTokens(applicable.map(({ bucket, limit }) => ({ key: bucket, limit })))
+  let tightest: RateLimitOutcome | null = null
+  for (const [index, { key, limit }] of applicable.entries()) {
+    const result = results[index]
+    const tighter = result.allowed
+      ? result.remaining < (tightest?.result.remaining ?? Infinity)
+      : result.retryAfterMs > (tightest?.result.retryAfterMs ?? -1)
+    if (tighter) {
+      tightest = { key, limit, result }
+    }
+  }
+
+  return tightest
+}
+
+function setRateLimitHeaders(res: Response, { limit, result }: RateLimitOutcome): void {
+  res.setHeader('ratelimit-limit', String(result.limit))
+  res.setHeader('ratelimit-remaining', String(result.remaining))
+  res.setHeader('ratelimit-reset', String(Math.ceil(result.resetMs / 1000)))
+  res.setHeader('ratelimit-policy', `${limit.capacity};w=${Math.ceil(limit.windowMs / 1000)}`)
+}
+
+/**
+ * Token-bucket limiting for one route, keyed by the calling user, their partner and the client IP. Every response
+ * carries `RateLimit-*` headers for the bucket closest to empty; an empty bucket returns 429 with `Retry-After`.
+ * Set `RATE_LIMIT_ENABLED=false` to turn every policy off.
+ */
+export function rateLimit(name: string, policy: RateLimitPolicy) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!enabled) {
+      next()
+      return
+    }
+
+    consumePolicy(name, policy, req)
+      .then((outcome) => {
+        if (!outcome) {
+          next()
+          return
+        }
+
+        setRateLimitHeaders(res, outcome)
+        if (outcome.result.allowed) {
+          next()
+          return
+        }
+
+        const retryAfterSeconds = Math.max(1, Math.ceil(outcome.result.retryAfterMs / 1000))
+        throttledCounter.inc({ policy: name, key: outcome.key })
+        logger.warn({ policy: name, key: outcome.key, userId: req.user.id }, 'rate-limit-exceeded')
+        res.setHeader('retry-after', String(retryAfterSeconds))
+        res.status(429).json({ message: `Too many requests; retry in ${retryAfterSeconds} seconds` })
+      })
+      .catch(next)
+  }
+}
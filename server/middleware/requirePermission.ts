@@ -0,0 +1,29 @@
+import type { NextFunction, Request, Response } from 'express'
+import type { Permission } from '../../shared/types/domain.js'
+
+export function hasPermission(user: Express.UserProfile | undefined, permission: Permission): boolean {
+  return user?.permissions.includes(permission) ?? false
+}
+
+export function requirePermission(...requiredPermissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!requiredPermissions.every((permission) => hasPermission(req.user, permission))) {
+      res.status(403).json({ message: 'Insufficient permissions' })
+      return
+    }
+
+    next()
+  }
+}
+
+/**
+ * Partner id the caller's signal access is restricted to, or undefined when they may see every partner.
+ * Callers without cross-partner access and without a partner identity are scoped to an id that matches nothing.
+ */
+export function resolvePartnerScope(user: Express.UserProfile): string | undefined {
+  if (hasPermission(user, 'signals:read:all')) {
+    return undefined
+  }
+
+  return user.partnerId ?? ''
+}
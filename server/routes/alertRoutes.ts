@@ -0,0 +1,130 @@
+import { Router } from 'express'
+import { asyncHandler } from '../utils/asyncHandler.js'
+import { requirePermission } from '../middleware/requirePermission.js'
+import {
+  liveAlertFilterSchema,
+  liveAlertListSchema,
+  liveAlertRuleInputSchema,
+  liveAlertRuleListSchema,
+  liveAlertRuleSchema,
+  liveAlertRuleUpdateSchema,
+  liveAlertSchema,
+} from '../schemas/alerts.js'
+import {
+  acknowledgeLiveAlert,
+  createLiveAlertRule,
+  deleteLiveAlertRule,
+  getLiveAlert,
+  getLiveAlertRule,
+  listLiveAlertRules,
+  listLiveAlerts,
+  LiveAlertStateError,
+  updateLiveAlertRule,
+} from '../services/liveAnalyticsAlerts.js'
+
+export function createAlertRouter(): Router {
+  const router = Router()
+
+  router.use(requirePermission('alerts:manage'))
+
+  router.get(
+    '/rules',
+    asyncHandler(async (_req, res) => {
+      res.json(liveAlertRuleListSchema.parse({ items: await listLiveAlertRules() }))
+    }),
+  )
+
+  router.post(
+    '/rules',
+    asyncHandler(async (req, res) => {
+      const input = liveAlertRuleInputSchema.parse(req.body)
+      const created = liveAlertRuleSchema.parse(await createLiveAlertRule(input, req.user.id))
+      res.status(201).json(created)
+    }),
+  )
+
+  router.get(
+    '/rules/:id',
+    asyncHandler(async (req, res) => {
+      const rule = await getLiveAlertRule(req.params.id)
+      if (!rule) {
+        res.status(404).json({ message: 'Alert rule not found' })
+        return
+      }
+
+      res.json(liveAlertRuleSchema.parse(rule))
+    }),
+  )
+
+  router.patch(
+    '/rules/:id',
+    asyncHandler(async (req, res) => {
+      const changes = liveAlertRuleUpdateSchema.parse(req.body)
+      const updated = await updateLiveAlertRule(req.params.id, changes)
+      if (!updated) {
+        res.status(404).json({ message: 'Alert rule not found' })
+        return
+      }
+
+      res.json(liveAlertRuleSchema.parse(updated))
+    }),
+  )
+
+  router.delete(
+    '/rules/:id',
+    asyncHandler(async (req, res) => {
+      if (!(await deleteLiveAlertRule(req.params.id))) {
+        res.status(404).json({ message: 'Alert rule not found' })
+        return
+      }
+
+      res.status(204).end()
+    }),
+  )
+
+  router.get(
+    '/',
+    asyncHandler(async (req, res) => {
+      const filters = liveAlertFilterSchema.parse(req.query)
+      res.json(liveAlertListSchema.parse({ items: await listLiveAlerts(filters) }))
+    }),
+  )
+
+  router.get(
+    '/:id',
+    asyncHandler(async (req, res) => {
+      const alert = await getLiveAlert(req.params.id)
+      if (!alert) {
+        res.status(404).json({ message: 'Alert not found' })
+        return
+      }
+
+      res.json(liveAlertSchema.parse(alert))
+    }),
+  )
+
+  router.post(
+    '/:id/acknowledge',
+    asyncHandler(async (req, res) => {
+      let alert
+      try {
+        alert = await acknowledgeLiveAlert(req.params.id, req.user.id)
+      } catch (error) {
+        if (error instanceof LiveAlertStateError) {
+          res.status(409).json({ message: error.message, currentStatus: error.currentStatus })
+          return
+        }
+        throw error
+      }
+
+      if (!alert) {
+        res.status(404).json({ message: 'Alert not found' })
+        return
+      }
+
+      res.json(liveAlertSchema.parse(alert))
+    }),
+  )
+
+  return router
+}
@@ -1,10 +1,14 @@
 import { Router } from 'express'
+import { createAlertRouter } from './alertRoutes.js'
+import { createAuthRouter } from './authRoutes.js'
 import { createDashboardRouter } from './dashboardRoutes.js'
 import { createPartnerRouter } from './partnerRoutes.js'
 
 export function createApiRouter(): Router {
   const router = Router()
 
+  router.use('/alerts', createAlertRouter())
+  router.use('/auth', createAuthRouter())
   router.use('/dashboard', createDashboardRouter())
   router.use('/partners', createPartnerRouter())
 
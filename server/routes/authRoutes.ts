@@ -0,0 +1,45 @@
+import { Router } from 'express'
+import { parseAccessRoles, resolvePermissions, toReviewerRole } from '../../shared/data/permissions.js'
+import { asyncHandler } from '../utils/asyncHandler.js'
+import { authenticatedUserSchema, authSessionSchema, devLoginRequestSchema } from '../schemas/auth.js'
+import { isDevLoginEnabled, issueSessionToken } from '../services/sessionTokens.js'
+
+const personaNames = { merchant: 'Merchant Partner', colleague: 'AMEX Colleague' } as const
+
+export function createAuthRouter(): Router {
+  const router = Router()
+
+  router.post(
+    '/dev-login',
+    asyncHandler(async (req, res) => {
+      if (!isDevLoginEnabled()) {
+        res.status(404).json({ message: 'Dev login is disabled' })
+        return
+      }
+
+      const input = devLoginRequestSchema.parse(req.body ?? {})
+      const roles = input.roles ?? parseAccessRoles(input.persona)
+      const identity = {
+        id: input.id ?? `${input.persona}.dev`,
+        name: input.name ?? personaNames[input.persona],
+        roles,
+        partnerId: input.partnerId ?? null,
+      }
+      const { token, expiresAt } = await issueSessionToken(identity)
+
+      res.status(201).json(
+        authSessionSchema.parse({
+          token,
+          expiresAt: expiresAt.toISOString(),
+          user: { ...identity, role: toReviewerRole(roles), permissions: resolvePermissions(roles) },
+        }),
+      )
+    }),
+  )
+
+  router.get('/session', (req, res) => {
+    res.json(authenticatedUserSchema.parse(req.user))
+  })
+
+  return router
+}
@@ -1,14 +1,7 @@
 import { Router } from 'express'
 import { asyncHandler } from '../utils/asyncHandler.js'
-import {
-  getDashboardSnapshot,
-  getEcosystemTrends,
-  getFraudAlerts,
-  getGrowthOpportunities,
-  getPlatformKPIs,
-  getWorkflowPlaybooks,
-  getInnovationIdeas,
-} from '../../shared/api/index.js'
+import { resolvePartnerScope } from '../middleware/requirePermission.js'
+import { getInnovationIdeas } from '../../shared/api/index.js'
 import {
   dashboardSnapshotSchema,
   ecosystemTrendListSchema,
@@ -23,148 +16,225 @@ import {
   GrowthOpportunityListPayload,
   InnovationIdeasListPayload,
   LiveAnalyticsSnapshotPayload,
+  liveAnalyticsHistoryQuerySchema,
+  liveAnalyticsHistorySchema,
+  liveAnalyticsQuerySchema,
   liveAnalyticsSnapshotSchema,
   PlatformKpiListPayload,
   WorkflowPlaybookListPayload,
 } from '../schemas/dashboard.js'
 import { DistributedCache } from '../utils/distributedCache.js'
+import {
+  DASHBOARD_CACHE_NAMESPACE,
+  getDashboardSnapshot,
+  PARTNER_SIGNAL_CACHE_TAG,
+  resolveDashboardDataProvider,
+} from '../services/dashboardData.js'
 import { getLiveAnalyticsSnapshot } from '../services/liveAnalytics.js'
+import { hasDimensions, liveAnalyticsQueryKey } from '../services/liveAnalyticsDimensions.js'
+import { getLiveAnalyticsHistory, LiveAnalyticsHistoryRangeError } from '../services/liveAnalyticsHistory.js'
+import {
+  getLiveAnalyticsReplay,
+  subscribeToLiveAnalytics,
+  type LiveAnalyticsStreamEvent,
+} from '../services/liveAnalyticsStream.js'
+import { readPositiveInt } from '../utils/env.js'
+import { openEventStream } from '../utils/sse.js'
+import { logger } from '../utils/logger.js'
 
 const FIVE_MINUTES = 1000 * 60 * 5
 
-const snapshotCache = new DistributedCache<DashboardSnapshotPayload>('dashboard', FIVE_MINUTES)
-const kpiCache = new DistributedCache<PlatformKpiListPayload>('dashboard', FIVE_MINUTES)
-const trendCache = new DistributedCache<EcosystemTrendListPayload>('dashboard', FIVE_MINUTES)
-const opportunityCache = new DistributedCache<GrowthOpportunityListPayload>('dashboard', FIVE_MINUTES)
-const alertCache = new DistributedCache<FraudAlertListPayload>('dashboard', FIVE_MINUTES)
-const playbookCache = new DistributedCache<WorkflowPlaybookListPayload>('dashboard', FIVE_MINUTES)
-const ideaCache = new DistributedCache<InnovationIdeasListPayload>('dashboard', FIVE_MINUTES)
+const partnerSignalTags = { tags: [PARTNER_SIGNAL_CACHE_TAG] }
+
+function createDashboardCache<T>(): DistributedCache<T> {
+  return new DistributedCache<T>(DASHBOARD_CACHE_NAMESPACE, FIVE_MINUTES, { staleMs: FIVE_MINUTES })
+}
+
+const snapshotCache = createDashboardCache<DashboardSnapshotPayload>()
+const kpiCache = createDashboardCache<PlatformKpiListPayload>()
+const trendCache = createDashboardCache<EcosystemTrendListPayload>()
+const opportunityCache = createDashboardCache<GrowthOpportunityListPayload>()
+const alertCache = createDashboardCache<FraudAlertListPayload>()
+const playbookCache = createDashboardCache<WorkflowPlaybookListPayload>()
+const ideaCache = createDashboardCache<InnovationIdeasListPayload>()
 const liveCache = new DistributedCache<LiveAnalyticsSnapshotPayload>('live-analytics', 5000)
+const STREAM_HEARTBEAT_MS = Math.max(1_000, readPositiveInt(process.env.LIVE_ANALYTICS_SSE_HEARTBEAT_MS, 15_000))
+const STREAM_RETRY_MS = 5_000
+
+/** Alerts name individual partner signals, so their cache entries are kept apart per partner scope. */
+function partnerScopeKey(partnerId: string | undefined): string {
+  return partnerId === undefined ? 'all' : `partner:${partnerId}`
+}
+
+function parseLastEventId(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    return undefined
+  }
+
+  return Number.parseInt(value, 10)
+}
 
 export function createDashboardRouter(): Router {
   const router = Router()
+  const provider = resolveDashboardDataProvider()
 
   router.get(
     '/snapshot',
-    asyncHandler(async (_req, res) => {
-      const cached = await snapshotCache.get('snapshot')
-      if (cached) {
-        return res.json(cached)
-      }
-
-      const payload = dashboardSnapshotSchema.parse(await getDashboardSnapshot())
-      await snapshotCache.set('snapshot', payload)
-      res.json(payload)
+    asyncHandler(async (req, res) => {
+      const partnerId = resolvePartnerScope(req.user)
+      res.json(
+        await snapshotCache.getOrCompute(
+          `snapshot:${provider.name}:${partnerScopeKey(partnerId)}`,
+          async () => dashboardSnapshotSchema.parse(await getDashboardSnapshot(provider, partnerId)),
+          partnerSignalTags,
+        ),
+      )
     }),
   )
 
   router.get(
     '/kpis',
     asyncHandler(async (_req, res) => {
-      const cached = await kpiCache.get('kpis')
-      if (cached) {
-        return res.json(cached)
-      }
-
-      const payload = platformKpiListSchema.parse({
-        items: await getPlatformKPIs(),
-      })
-      await kpiCache.set('kpis', payload)
-      res.json(payload)
+      res.json(
+        await kpiCache.getOrCompute(
+          `kpis:${provider.name}`,
+          async () => platformKpiListSchema.parse({ items: await provider.getPlatformKPIs() }),
+          partnerSignalTags,
+        ),
+      )
     }),
   )
 
   router.get(
     '/trends',
     asyncHandler(async (_req, res) => {
-      const cached = await trendCache.get('trends')
-      if (cached) {
-        return res.json(cached)
-      }
-
-      const payload = ecosystemTrendListSchema.parse({
-        items: await getEcosystemTrends(),
-      })
-      await trendCache.set('trends', payload)
-      res.json(payload)
+      res.json(
+        await trendCache.getOrCompute(
+          `trends:${provider.name}`,
+          async () => ecosystemTrendListSchema.parse({ items: await provider.getEcosystemTrends() }),
+          partnerSignalTags,
+        ),
+      )
     }),
   )
 
   router.get(
     '/opportunities',
     asyncHandler(async (_req, res) => {
-      const cached = await opportunityCache.get('opportunities')
-      if (cached) {
-        return res.json(cached)
-      }
-
-      const payload = growthOpportunityListSchema.parse({
-        items: await getGrowthOpportunities(),
-      })
-      await opportunityCache.set('opportunities', payload)
-      res.json(payload)
+      res.json(
+        await opportunityCache.getOrCompute(
+          `opportunities:${provider.name}`,
+          async () => growthOpportunityListSchema.parse({ items: await provider.getGrowthOpportunities() }),
+        ),
+      )
     }),
   )
 
   router.get(
     '/alerts',
-    asyncHandler(async (_req, res) => {
-      const cached = await alertCache.get('alerts')
-      if (cached) {
-        return res.json(cached)
-      }
-
-      const payload = fraudAlertListSchema.parse({
-        items: await getFraudAlerts(),
-      })
-      await alertCache.set('alerts', payload)
-      res.json(payload)
+    asyncHandler(async (req, res) => {
+      const partnerId = resolvePartnerScope(req.user)
+      res.json(
+        await alertCache.getOrCompute(
+          `alerts:${provider.name}:${partnerScopeKey(partnerId)}`,
+          async () => fraudAlertListSchema.parse({ items: await provider.getFraudAlerts(partnerId) }),
+          partnerSignalTags,
+        ),
+      )
     }),
   )
 
   router.get(
     '/playbooks',
     asyncHandler(async (_req, res) => {
-      const cached = await playbookCache.get('playbooks')
-      if (cached) {
-        return res.json(cached)
-      }
-
-      const payload = workflowPlaybookListSchema.parse({
-        items: await getWorkflowPlaybooks(),
-      })
-      await playbookCache.set('playbooks', payload)
-      res.json(payload)
+      res.json(
+        await playbookCache.getOrCompute(
+          `playbooks:${provider.name}`,
+          async () => workflowPlaybookListSchema.parse({ items: await provider.getWorkflowPlaybooks() }),
+        ),
+      )
     }),
   )
 
   router.get(
     '/ideas',
     asyncHandler(async (_req, res) => {
-      const cached = await ideaCache.get('ideas')
-      if (cached) {
-        return res.json(cached)
-      }
-
-      const payload = innovationIdeasListSchema.parse({
-        items: await getInnovationIdeas(),
-      })
-      await ideaCache.set('ideas', payload)
-      res.json(payload)
+      res.json(
+        await ideaCache.getOrCompute(
+          'ideas',
+          async () => innovationIdeasListSchema.parse({ items: await getInnovationIdeas() }),
+        ),
+      )
     }),
   )
 
   router.get(
     '/live',
-    asyncHandler(async (_req, res) => {
-      const cached = await liveCache.get('snapshot')
-      if (cached) {
-        return res.json(cached)
+    asyncHandler(async (req, res) => {
+      const query = liveAnalyticsQuerySchema.parse(req.query)
+      res.json(
+        await liveCache.getOrCompute(`snapshot:${liveAnalyticsQueryKey(query)}`, async () =>
+          liveAnalyticsSnapshotSchema.parse(await getLiveAnalyticsSnapshot(query)),
+        ),
+      )
+    }),
+  )
+
+  router.get(
+    '/live/history',
+    asyncHandler(async (req, res) => {
+      const { metricId, from, to, resolution, ...filters } = liveAnalyticsHistoryQuerySchema.parse(req.query)
+
+      try {
+        const history = await getLiveAnalyticsHistory({ metricId, from, to, resolution, filters })
+        res.json(liveAnalyticsHistorySchema.parse(history))
+      } catch (error) {
+        if (error instanceof LiveAnalyticsHistoryRangeError) {
+          res.status(400).json({ message: error.message })
+          return
+        }
+        throw error
+      }
+    }),
+  )
+
+  router.get(
+    '/live/stream',
+    asyncHandler(async (req, res) => {
+      const { lastEventId: lastEventIdParam, ...filters } = req.query
+      const query = liveAnalyticsQuerySchema.parse(filters)
+      const scoped = hasDimensions(query.filters) || query.groupBy !== null
+      const stream = openEventStream(req, res, { heartbeatMs: STREAM_HEARTBEAT_MS, retryMs: STREAM_RETRY_MS })
+      const lastEventId = parseLastEventId(req.get('last-event-id') ?? lastEventIdParam)
+      let lastSentId = 0
+      let pending = Promise.resolve()
+
+      const forward = (event: LiveAnalyticsStreamEvent) => {
+        if (event.id <= lastSentId) {
+          return
+        }
+
+        lastSentId = event.id
+        if (!scoped) {
+          stream.send({ id: event.id, event: 'snapshot', data: liveAnalyticsSnapshotSchema.parse(event.snapshot) })
+          return
+        }
+
+        pending = pending
+          .then(async () => {
+            const snapshot = liveAnalyticsSnapshotSchema.parse(await getLiveAnalyticsSnapshot(query))
+            stream.send({ id: event.id, event: 'snapshot', data: snapshot })
+          })
+          .catch((error: unknown) => {
+            logger.warn({ err: error }, 'live-analytics-stream-scoped-snapshot-failed')
+          })
       }
 
-      const snapshot = liveAnalyticsSnapshotSchema.parse(await getLiveAnalyticsSnapshot())
-      await liveCache.set('snapshot', snapshot)
-      res.json(snapshot)
+      stream.onClose(subscribeToLiveAnalytics(forward))
+
+      for (const event of await getLiveAnalyticsReplay(lastEventId)) {
+        forward(event)
+      }
     }),
   )
 
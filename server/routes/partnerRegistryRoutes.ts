@@ -0,0 +1,155 @@
+import { Router } from 'express'
+import type { RegistryKind } from '../../shared/types/domain.js'
+import { asyncHandler } from '../utils/asyncHandler.js'
+import { requirePermission, resolvePartnerScope } from '../middleware/requirePermission.js'
+import {
+  merchantOverviewSchema,
+  registryEntryFilterSchema,
+  registryEntryInputSchema,
+  registryEntryListSchema,
+  registryEntrySchema,
+  registryEntryUpdateSchema,
+} from '../schemas/partners.js'
+import {
+  createRegistryEntry,
+  deleteRegistryEntry,
+  getRegistryEntry,
+  listMerchantPartners,
+  listRegistryEntries,
+  PartnerRegistryError,
+  updateRegistryEntry,
+} from '../services/partnerRegistry.js'
+import { listPartnerSignals, listPartnerSignalStats } from '../services/partnerSignals.js'
+
+const registryErrorStatus: Record<PartnerRegistryError['reason'], number> = {
+  already_exists: 409,
+  in_use: 409,
+  unknown_partner: 422,
+  unknown_merchant: 422,
+}
+
+const RECENT_SIGNAL_LIMIT = 10
+
+function registerCrudRoutes(router: Router, kind: RegistryKind, path: string, label: string): void {
+  router.get(
+    path,
+    asyncHandler(async (req, res) => {
+      const filters = registryEntryFilterSchema.parse(req.query)
+      const partnerId = resolvePartnerScope(req.user)
+      const items = await listRegistryEntries(kind, {
+        ...filters,
+        ids: kind === 'partner' && partnerId !== undefined ? [partnerId] : undefined,
+      })
+      res.json(registryEntryListSchema.parse({ items }))
+    }),
+  )
+
+  router.post(
+    path,
+    requirePermission('registry:manage'),
+    asyncHandler(async (req, res) => {
+      const input = registryEntryInputSchema.parse(req.body)
+      try {
+        const created = await createRegistryEntry(kind, input)
+        res.status(201).json(registryEntrySchema.parse(created))
+      } catch (error) {
+        if (error instanceof PartnerRegistryError) {
+          res.status(registryErrorStatus[error.reason]).json({ message: error.message })
+          return
+        }
+        throw error
+      }
+    }),
+  )
+
+  router.get(
+    `${path}/:id`,
+    asyncHandler(async (req, res) => {
+      const partnerId = resolvePartnerScope(req.user)
+      const entry = kind === 'partner' && partnerId !== undefined && partnerId !== req.params.id
+        ? null
+        : await getRegistryEntry(kind, req.params.id)
+      if (!entry) {
+        res.status(404).json({ message: `${label} not found` })
+        return
+      }
+
+      res.json(registryEntrySchema.parse(entry))
+    }),
+  )
+
+  router.patch(
+    `${path}/:id`,
+    requirePermission('registry:manage'),
+    asyncHandler(async (req, res) => {
+      const changes = registryEntryUpdateSchema.parse(req.body)
+      const updated = await updateRegistryEntry(kind, req.params.id, changes)
+      if (!updated) {
+        res.status(404).json({ message: `${label} not found` })
+        return
+      }
+
+      res.json(registryEntrySchema.parse(updated))
+    }),
+  )
+
+  router.delete(
+    `${path}/:id`,
+    requirePermission('registry:manage'),
+    asyncHandler(async (req, res) => {
+      try {
+        if (!(await deleteRegistryEntry(kind, req.params.id))) {
+          res.status(404).json({ message: `${label} not found` })
+          return
+        }
+      } catch (error) {
+        if (error instanceof PartnerRegistryError) {
+          res.status(registryErrorStatus[error.reason]).json({ message: error.message })
+          return
+        }
+        throw error
+      }
+
+      res.status(204).end()
+    }),
+  )
+}
+
+export function createPartnerRegistryRouter(): Router {
+  const router = Router()
+
+  router.get(
+    '/merchants/:id/overview',
+    asyncHandler(async (req, res) => {
+      const merchant = await getRegistryEntry('merchant', req.params.id)
+      if (!merchant) {
+        res.status(404).json({ message: 'Merchant not found' })
+        return
+      }
+
+      const partnerId = resolvePartnerScope(req.user)
+      const [stats, recent, partners] = await Promise.all([
+        listPartnerSignalStats(partnerId, merchant.id),
+        listPartnerSignals({ merchantId: merchant.id, partnerId, limit: RECENT_SIGNAL_LIMIT, includeTotal: false }),
+        listMerchantPartners(merchant.id, partnerId),
+      ])
+      const latest = recent.items[0] ?? null
+
+      res.json(
+        merchantOverviewSchema.parse({
+          merchant,
+          stats,
+          latestStatus: latest?.status ?? null,
+          lastSubmittedAt: latest?.submittedAt ?? null,
+          partners,
+          recentSignals: recent.items,
+        }),
+      )
+    }),
+  )
+
+  registerCrudRoutes(router, 'partner', '/partners', 'Partner')
+  registerCrudRoutes(router, 'merchant', '/merchants', 'Merchant')
+
+  return router
+}
@@ -1,20 +1,35 @@
-import { Router } from 'express'
+import express, { Router, type Response } from 'express'
+import type { PartnerSignal, PartnerSignalTransferFormat } from '../../shared/types/domain.js'
 import { asyncHandler } from '../utils/asyncHandler.js'
 import {
   assignPartnerSignalReviewer,
+  bulkModeratePartnerSignals,
+  decodePartnerSignalCursor,
   getPartnerSignal,
   listPartnerSignalAssignments,
   listPartnerSignalAudits,
   listPartnerSignalStats,
   listPartnerSignals,
+  mergePartnerSignals,
+  PartnerSignalMergeError,
+  PartnerSignalTransitionError,
+  PartnerSignalVersionConflictError,
   recordPartnerSignal,
   updatePartnerSignalStatus,
 } from '../services/partnerSignals.js'
 import {
   partnerSignalAssignmentListSchema,
   partnerSignalAssignmentRequestSchema,
+  partnerSignalBulkRequestSchema,
+  partnerSignalBulkResultSchema,
+  partnerSignalExportQuerySchema,
+  partnerSignalImportJobSchema,
+  partnerSignalImportQuerySchema,
+  partnerSignalImportValidationSchema,
   partnerSignalInputSchema,
-  partnerSignalListSchema,
+  partnerSignalMergeRequestSchema,
+  partnerSignalMergeResultSchema,
+  partnerSignalPageSchema,
   partnerSignalSchema,
   partnerSignalFilterSchema,
   partnerSignalStatusSchema,
@@ -24,23 +39,150 @@ import {
   shadowQueueItemSchema,
   shadowQueueListSchema,
 } from '../schemas/partners.js'
-import { requireRole } from '../middleware/requireRole.js'
+import { idempotentRequests } from '../middleware/idempotency.js'
+import { rateLimit, requestsPerMinute } from '../middleware/rateLimit.js'
+import { hasPermission, requirePermission, resolvePartnerScope } from '../middleware/requirePermission.js'
+import { partnerSignalExportContentTypes, streamPartnerSignalExport } from '../services/partnerSignalExport.js'
+import {
+  getPartnerSignalImportJob,
+  PartnerSignalImportError,
+  startPartnerSignalImport,
+  validatePartnerSignalImport,
+} from '../services/partnerSignalImport.js'
+import { invalidatePartnerSignalDashboards } from '../services/dashboardData.js'
+import { PartnerRegistryError } from '../services/partnerRegistry.js'
+import { createPartnerRegistryRouter } from './partnerRegistryRoutes.js'
+import { createPartnerSignalCommentRouter } from './partnerSignalCommentRoutes.js'
+import { createPartnerWebhookRouter } from './partnerWebhookRoutes.js'
 import {
   isShadowQueueEnabled,
   listShadowApprovalQueue,
   recordShadowQueueDecision,
 } from '../services/shadowApprovalQueue.js'
 
+const transitionErrorStatus: Record<PartnerSignalTransitionError['reason'], number> = {
+  invalid_transition: 409,
+  forbidden_role: 403,
+  notes_required: 422,
+}
+
+const mergeErrorStatus: Record<PartnerSignalMergeError['reason'], number> = {
+  canonical_required: 422,
+  same_signal: 422,
+  already_merged: 409,
+}
+
+const importErrorStatus: Record<PartnerSignalImportError['reason'], number> = {
+  empty: 422,
+  missing_columns: 422,
+  too_many_rows: 413,
+}
+
+const importContentTypes: Record<string, PartnerSignalTransferFormat> = {
+  'text/csv': 'csv',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+}
+
+const importBodyParser = express.text({
+  type: ['text/csv', 'text/plain', 'application/x-ndjson', 'application/ndjson'],
+  limit: process.env.PARTNER_SIGNAL_IMPORT_MAX_BYTES ?? '10mb',
+})
+
+const submitRateLimit = rateLimit('partner-signal-submit', {
+  user: requestsPerMinute(process.env.RATE_LIMIT_SIGNAL_SUBMIT_PER_USER, 30),
+  partner: requestsPerMinute(process.env.RATE_LIMIT_SIGNAL_SUBMIT_PER_PARTNER, 120),
+  ip: requestsPerMinute(process.env.RATE_LIMIT_SIGNAL_SUBMIT_PER_IP, 60),
+})
+
+const importRateLimit = rateLimit('partner-signal-import', {
+  user: requestsPerMinute(process.env.RATE_LIMIT_SIGNAL_IMPORT_PER_USER, 5),
+  partner: requestsPerMinute(process.env.RATE_LIMIT_SIGNAL_IMPORT_PER_PARTNER, 10),
+  ip: requestsPerMinute(process.env.RATE_LIMIT_SIGNAL_IMPORT_PER_IP, 10),
+})
+
+function waitForDrain(res: Response): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off('drain', done)
+      res.off('close', done)
+      resolve()
+    }
+    res.once('drain', done)
+    res.once('close', done)
+  })
+}
+
+function signalEtag(signal: PartnerSignal): string {
+  return `"v${signal.version}"`
+}
+
+/**
+ * Versions named by an `If-Match` header. `undefined` means there is no precondition (no header, or `*`); weak and
+ * unrecognised tags never match, so a header made only of those yields an empty list and always fails.
+ */
+function readIfMatchVersions(header: string | undefined): number[] | undefined {
+  if (header === undefined || header.trim() === '*') {
+    return undefined
+  }
+
+  return header
+    .split(',')
+    .map((tag) => /^"v(\d+)"$/.exec(tag.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => Number(match[1]))
+}
+
+function sendSignal(res: Response, signal: PartnerSignal): void {
+  res.setHeader('etag', signalEtag(signal))
+  res.json(partnerSignalSchema.parse(signal))
+}
+
+function sendVersionConflict(res: Response, error: PartnerSignalVersionConflictError): void {
+  res.setHeader('etag', signalEtag(error.current))
+  res.status(412).json({ message: error.message, signal: partnerSignalSchema.parse(error.current) })
+}
+
+async function isSignalInScope(user: Express.UserProfile, id: string): Promise<boolean> {
+  const partnerId = resolvePartnerScope(user)
+  return partnerId === undefined || (await getPartnerSignal(id, partnerId)) !== null
+}
+
 export function createPartnerRouter(): Router {
   const router = Router()
 
+  router.use((req, res, next) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.on('finish', () => {
+        if (res.statusCode < 400) {
+          void invalidatePartnerSignalDashboards()
+        }
+      })
+    }
+    next()
+  })
+
+  // Throttled ahead of idempotency replays and body parsing, so a flood is turned away before it costs anything.
+  router.post('/signals', submitRateLimit)
+  // Parsed ahead of the idempotency check so import fingerprints cover the uploaded file.
+  router.post('/signals/import', importRateLimit, importBodyParser)
+  router.use(idempotentRequests())
+
   router.get(
     '/signals',
+    requirePermission('signals:read'),
     asyncHandler(async (req, res) => {
-      const { signalType, status } = partnerSignalFilterSchema.parse(req.query)
-      const payload = partnerSignalListSchema.parse({
-        items: await listPartnerSignals(signalType, status),
-      })
+      const { cursor, ...filters } = partnerSignalFilterSchema.parse(req.query)
+      const decodedCursor = cursor ? decodePartnerSignalCursor(cursor) : null
+
+      if (cursor && (!decodedCursor || decodedCursor.sort !== filters.sort || decodedCursor.order !== filters.order)) {
+        res.status(400).json({ message: 'Invalid pagination cursor' })
+        return
+      }
+
+      const payload = partnerSignalPageSchema.parse(
+        await listPartnerSignals({ ...filters, partnerId: resolvePartnerScope(req.user), cursor: decodedCursor }),
+      )
 
       res.json(payload)
     }),
@@ -48,68 +190,261 @@ export function createPartnerRouter(): Router {
 
   router.post(
     '/signals',
+    requirePermission('signals:submit'),
     asyncHandler(async (req, res) => {
       const input = partnerSignalInputSchema.parse(req.body)
-      const created = partnerSignalSchema.parse(
-        await recordPartnerSignal({
+      const partnerId = resolvePartnerScope(req.user)
+      if (partnerId !== undefined && partnerId !== input.partnerId) {
+        res.status(403).json({ message: 'Signals can only be submitted for your own partner' })
+        return
+      }
+
+      const selfAssign = hasPermission(req.user, 'signals:assign')
+      let created
+      try {
+        created = await recordPartnerSignal({
           ...input,
-          assignedReviewerId: input.assignedReviewerId ?? (req.user.role === 'colleague' ? req.user.id : undefined),
-          assignedReviewerName: input.assignedReviewerName ?? (req.user.role === 'colleague' ? req.user.name : undefined),
-          assignedReviewerRole: input.assignedReviewerRole ?? (req.user.role === 'colleague' ? req.user.role : undefined),
-        }),
-      )
+          assignedReviewerId: input.assignedReviewerId ?? (selfAssign ? req.user.id : undefined),
+          assignedReviewerName: input.assignedReviewerName ?? (selfAssign ? req.user.name : undefined),
+          assignedReviewerRole: input.assignedReviewerRole ?? (selfAssign ? req.user.role : undefined),
+        })
+      } catch (error) {
+        if (error instanceof PartnerRegistryError) {
+          res.status(422).json({ message: error.message })
+          return
+        }
+        throw error
+      }
 
-      res.status(201).json(created)
+      res.status(201).json(partnerSignalSchema.parse(created))
     }),
   )
 
   router.get(
     '/signals/stats',
-    asyncHandler(async (_req, res) => {
-      const stats = partnerSignalStatsSchema.parse(await listPartnerSignalStats())
+    requirePermission('signals:read'),
+    asyncHandler(async (req, res) => {
+      const stats = partnerSignalStatsSchema.parse(await listPartnerSignalStats(resolvePartnerScope(req.user)))
       res.json(stats)
     }),
   )
 
+  router.post(
+    '/signals/import',
+    requirePermission('signals:submit'),
+    asyncHandler(async (req, res) => {
+      const query = partnerSignalImportQuerySchema.parse(req.query)
+      const format = query.format ?? importContentTypes[req.get('content-type')?.split(';')[0].trim() ?? '']
+      if (!format || typeof req.body !== 'string') {
+        res.status(415).json({ message: 'Send the import as text/csv or application/x-ndjson' })
+        return
+      }
+
+      const partnerScope = resolvePartnerScope(req.user)
+      let imported
+      try {
+        imported = await validatePartnerSignalImport(req.body, format, partnerScope)
+      } catch (error) {
+        if (error instanceof PartnerSignalImportError) {
+          res.status(importErrorStatus[error.reason]).json({ message: error.message })
+          return
+        }
+        throw error
+      }
+
+      if (query.dryRun) {
+        res.json(partnerSignalImportValidationSchema.parse(imported.validation))
+        return
+      }
+
+      const job = await startPartnerSignalImport(imported, {
+        createdBy: req.user.id,
+        partnerScope,
+        background: query.background,
+      })
+      const finished = job.status === 'completed' || job.status === 'failed'
+      res
+        .status(finished ? 201 : 202)
+        .location(`/api/partners/signals/import/${job.id}`)
+        .json(partnerSignalImportJobSchema.parse(job))
+    }),
+  )
+
+  router.get(
+    '/signals/import/:jobId',
+    requirePermission('signals:submit'),
+    asyncHandler(async (req, res) => {
+      const job = await getPartnerSignalImportJob(req.params.jobId, resolvePartnerScope(req.user))
+      if (!job) {
+        res.status(404).json({ message: 'Import job not found' })
+        return
+      }
+
+      res.json(partnerSignalImportJobSchema.parse(job))
+    }),
+  )
+
+  router.get(
+    '/signals/export',
+    requirePermission('signals:read'),
+    asyncHandler(async (req, res) => {
+      const { format, ...filters } = partnerSignalExportQuerySchema.parse(req.query)
+      const chunks = streamPartnerSignalExport(format, { ...filters, partnerId: resolvePartnerScope(req.user) })
+
+      res.status(200)
+      res.setHeader('content-type', partnerSignalExportContentTypes[format])
+      res.setHeader(
+        'content-disposition',
+        `attachment; filename="partner-signals-${new Date().toISOString().slice(0, 10)}.${format}"`,
+      )
+
+      for await (const chunk of chunks) {
+        if (res.destroyed) {
+          break
+        }
+        if (!res.write(chunk)) {
+          await waitForDrain(res)
+        }
+      }
+
+      res.end()
+    }),
+  )
+
+  router.post(
+    '/signals/bulk',
+    requirePermission('signals:bulk'),
+    asyncHandler(async (req, res) => {
+      const { ids, ...action } = partnerSignalBulkRequestSchema.parse(req.body)
+      const result = await bulkModeratePartnerSignals(ids, action, {
+        reviewerId: req.user.id,
+        reviewerName: req.user.name,
+        reviewerRole: req.user.role,
+      })
+
+      res.json(partnerSignalBulkResultSchema.parse(result))
+    }),
+  )
+
   router.get(
     '/signals/:id',
+    requirePermission('signals:read'),
     asyncHandler(async (req, res) => {
       const { id } = req.params
-      const signal = await getPartnerSignal(id)
+      const signal = await getPartnerSignal(id, resolvePartnerScope(req.user))
       if (!signal) {
         res.status(404).json({ message: 'Signal not found' })
         return
       }
 
-      res.json(partnerSignalSchema.parse(signal))
+      res.setHeader('etag', signalEtag(signal))
+      if (req.fresh) {
+        res.status(304).end()
+        return
+      }
+
+      sendSignal(res, signal)
     }),
   )
 
   router.patch(
     '/signals/:id/status',
-    requireRole('colleague'),
+    requirePermission('signals:transition'),
     asyncHandler(async (req, res) => {
       const { id } = req.params
       const { status, notes } = partnerSignalStatusSchema.parse(req.body)
-      const updated = await updatePartnerSignalStatus(id, status, {
-        reviewerId: req.user.id,
-        reviewerName: req.user.name,
-        reviewerRole: req.user.role,
-        notes,
-      })
+
+      if (!(await isSignalInScope(req.user, id))) {
+        res.status(404).json({ message: 'Signal not found' })
+        return
+      }
+
+      let updated
+      try {
+        updated = await updatePartnerSignalStatus(
+          id,
+          status,
+          {
+            reviewerId: req.user.id,
+            reviewerName: req.user.name,
+            reviewerRole: req.user.role,
+            notes,
+          },
+          readIfMatchVersions(req.get('if-match')),
+        )
+      } catch (error) {
+        if (error instanceof PartnerSignalVersionConflictError) {
+          sendVersionConflict(res, error)
+          return
+        }
+
+        if (error instanceof PartnerSignalTransitionError) {
+          res.status(transitionErrorStatus[error.reason]).json({
+            message: error.reason === 'forbidden_role' ? 'Insufficient permissions' : error.message,
+            currentStatus: error.currentStatus,
+            allowedNextStates: error.allowedNextStates,
+          })
+          return
+        }
+        throw error
+      }
+
       if (!updated) {
         res.status(404).json({ message: 'Signal not found' })
         return
       }
 
-      res.json(partnerSignalSchema.parse(updated))
+      sendSignal(res, updated)
+    }),
+  )
+
+  router.post(
+    '/signals/:id/merge',
+    requirePermission('signals:merge'),
+    asyncHandler(async (req, res) => {
+      const { id } = req.params
+      const { canonicalId, notes } = partnerSignalMergeRequestSchema.parse(req.body ?? {})
+
+      if (!(await isSignalInScope(req.user, id))) {
+        res.status(404).json({ message: 'Signal not found' })
+        return
+      }
+
+      let result
+      try {
+        result = await mergePartnerSignals(id, canonicalId ?? null, {
+          reviewerId: req.user.id,
+          reviewerName: req.user.name,
+          reviewerRole: req.user.role,
+          notes,
+        })
+      } catch (error) {
+        if (error instanceof PartnerSignalMergeError) {
+          res.status(mergeErrorStatus[error.reason]).json({ message: error.message })
+          return
+        }
+        throw error
+      }
+
+      if (!result) {
+        res.status(404).json({ message: 'Signal not found' })
+        return
+      }
+
+      res.json(partnerSignalMergeResultSchema.parse(result))
     }),
   )
 
   router.get(
     '/signals/:id/audits',
+    requirePermission('signals:audit:read'),
     asyncHandler(async (req, res) => {
       const { id } = req.params
+      if (!(await isSignalInScope(req.user, id))) {
+        res.status(404).json({ message: 'Signal not found' })
+        return
+      }
+
       const audits = await listPartnerSignalAudits(id)
       res.json(partnerSignalAuditListSchema.parse({ items: audits }))
     }),
@@ -117,7 +452,7 @@ export function createPartnerRouter(): Router {
 
   router.get(
     '/signals/:id/assignments',
-    requireRole('colleague'),
+    requirePermission('signals:assign'),
     asyncHandler(async (req, res) => {
       const { id } = req.params
       const assignments = await listPartnerSignalAssignments(id)
@@ -127,24 +462,34 @@ export function createPartnerRouter(): Router {
 
   router.post(
     '/signals/:id/assignments',
-    requireRole('colleague'),
+    requirePermission('signals:assign'),
     asyncHandler(async (req, res) => {
       const { id } = req.params
       const payload = partnerSignalAssignmentRequestSchema.parse(req.body)
-      const updated = await assignPartnerSignalReviewer(id, payload)
+
+      let updated
+      try {
+        updated = await assignPartnerSignalReviewer(id, payload, readIfMatchVersions(req.get('if-match')))
+      } catch (error) {
+        if (error instanceof PartnerSignalVersionConflictError) {
+          sendVersionConflict(res, error)
+          return
+        }
+        throw error
+      }
 
       if (!updated) {
         res.status(404).json({ message: 'Signal not found' })
         return
       }
 
-      res.json(partnerSignalSchema.parse(updated))
+      sendSignal(res, updated)
     }),
   )
 
   router.get(
     '/shadow-queue',
-    requireRole('colleague'),
+    requirePermission('shadow-queue:review'),
     asyncHandler(async (req, res) => {
       if (!isShadowQueueEnabled()) {
         res.json(shadowQueueListSchema.parse({ items: [] }))
@@ -159,7 +504,7 @@ export function createPartnerRouter(): Router {
 
   router.post(
     '/shadow-queue/:id/decision',
-    requireRole('colleague'),
+    requirePermission('shadow-queue:review'),
     asyncHandler(async (req, res) => {
       if (!isShadowQueueEnabled()) {
         res.status(404).json({ message: 'Shadow approval queue is disabled' })
@@ -178,5 +523,11 @@ export function createPartnerRouter(): Router {
     }),
   )
 
+  router.use('/signals/:id/comments', requirePermission('signals:read'), createPartnerSignalCommentRouter())
+
+  router.use('/webhooks', requirePermission('webhooks:manage'), createPartnerWebhookRouter())
+
+  router.use('/registry', requirePermission('signals:read'), createPartnerRegistryRouter())
+
   return router
 }
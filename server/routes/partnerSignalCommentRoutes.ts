@@ -0,0 +1,122 @@
+import { Router } from 'express'
+import { asyncHandler } from '../utils/asyncHandler.js'
+import {
+  partnerSignalCommentInputSchema,
+  partnerSignalCommentListSchema,
+  partnerSignalCommentSchema,
+  partnerSignalCommentUpdateSchema,
+} from '../schemas/partners.js'
+import { requirePermission, resolvePartnerScope } from '../middleware/requirePermission.js'
+import { getPartnerSignal } from '../services/partnerSignals.js'
+import {
+  createPartnerSignalComment,
+  deletePartnerSignalComment,
+  listPartnerSignalComments,
+  PartnerSignalCommentError,
+  updatePartnerSignalComment,
+} from '../services/partnerSignalComments.js'
+
+const commentErrorStatus: Record<PartnerSignalCommentError['reason'], number> = {
+  forbidden: 403,
+  invalid_parent: 422,
+}
+
+export function createPartnerSignalCommentRouter(): Router {
+  const router = Router({ mergeParams: true })
+
+  router.use(
+    asyncHandler(async (req, res, next) => {
+      const { id } = req.params as { id: string }
+      if (!(await getPartnerSignal(id, resolvePartnerScope(req.user)))) {
+        res.status(404).json({ message: 'Signal not found' })
+        return
+      }
+
+      next()
+    }),
+  )
+
+  router.get(
+    '/',
+    asyncHandler(async (req, res) => {
+      const { id } = req.params as { id: string }
+      res.json(partnerSignalCommentListSchema.parse({ items: await listPartnerSignalComments(id) }))
+    }),
+  )
+
+  router.post(
+    '/',
+    requirePermission('signals:comment'),
+    asyncHandler(async (req, res) => {
+      const { id } = req.params as { id: string }
+      const input = partnerSignalCommentInputSchema.parse(req.body)
+
+      try {
+        const created = await createPartnerSignalComment(id, input, {
+          id: req.user.id,
+          name: req.user.name,
+          role: req.user.role,
+        })
+        res.status(201).json(partnerSignalCommentSchema.parse(created))
+      } catch (error) {
+        if (error instanceof PartnerSignalCommentError) {
+          res.status(commentErrorStatus[error.reason]).json({ message: error.message })
+          return
+        }
+        throw error
+      }
+    }),
+  )
+
+  router.patch(
+    '/:commentId',
+    requirePermission('signals:comment'),
+    asyncHandler(async (req, res) => {
+      const { id, commentId } = req.params as { id: string; commentId: string }
+      const { body } = partnerSignalCommentUpdateSchema.parse(req.body)
+
+      let updated
+      try {
+        updated = await updatePartnerSignalComment(id, commentId, body, req.user.id)
+      } catch (error) {
+        if (error instanceof PartnerSignalCommentError) {
+          res.status(commentErrorStatus[error.reason]).json({ message: error.message })
+          return
+        }
+        throw error
+      }
+
+      if (!updated) {
+        res.status(404).json({ message: 'Comment not found' })
+        return
+      }
+
+      res.json(partnerSignalCommentSchema.parse(updated))
+    }),
+  )
+
+  router.delete(
+    '/:commentId',
+    requirePermission('signals:comment'),
+    asyncHandler(async (req, res) => {
+      const { id, commentId } = req.params as { id: string; commentId: string }
+
+      try {
+        if (!(await deletePartnerSignalComment(id, commentId, req.user.id))) {
+          res.status(404).json({ message: 'Comment not found' })
+          return
+        }
+      } catch (error) {
+        if (error instanceof PartnerSignalCommentError) {
+          res.status(commentErrorStatus[error.reason]).json({ message: error.message })
+          return
+        }
+        throw error
+      }
+
+      res.status(204).end()
+    }),
+  )
+
+  return router
+}
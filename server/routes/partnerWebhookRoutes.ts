@@ -0,0 +1,151 @@
+import { Router, type Request } from 'express'
+import type { PartnerWebhookSubscription } from '../../shared/types/domain.js'
+import { resolvePartnerScope } from '../middleware/requirePermission.js'
+import { asyncHandler } from '../utils/asyncHandler.js'
+import {
+  partnerWebhookDeliveryFilterSchema,
+  partnerWebhookDeliveryListSchema,
+  partnerWebhookDeliverySchema,
+  partnerWebhookSubscriptionFilterSchema,
+  partnerWebhookSubscriptionInputSchema,
+  partnerWebhookSubscriptionListSchema,
+  partnerWebhookSubscriptionSchema,
+  partnerWebhookSubscriptionUpdateSchema,
+  partnerWebhookSubscriptionWithSecretSchema,
+} from '../schemas/partners.js'
+import {
+  createPartnerWebhookSubscription,
+  deletePartnerWebhookSubscription,
+  getPartnerWebhookSubscription,
+  listPartnerWebhookDeliveries,
+  listPartnerWebhookSubscriptions,
+  redeliverPartnerWebhook,
+  rotatePartnerWebhookSecret,
+  updatePartnerWebhookSubscription,
+} from '../services/partnerWebhooks.js'
+
+/** Partner callers only reach their own partner's subscriptions; staff with cross-partner access reach every one. */
+async function findScopedSubscription(req: Request): Promise<PartnerWebhookSubscription | null> {
+  const subscription = await getPartnerWebhookSubscription(req.params.id)
+  const partnerId = resolvePartnerScope(req.user)
+  return subscription && (partnerId === undefined || subscription.partnerId === partnerId) ? subscription : null
+}
+
+export function createPartnerWebhookRouter(): Router {
+  const router = Router()
+
+  router.get(
+    '/',
+    asyncHandler(async (req, res) => {
+      const { partnerId } = partnerWebhookSubscriptionFilterSchema.parse(req.query)
+      const items = await listPartnerWebhookSubscriptions(resolvePartnerScope(req.user) ?? partnerId)
+      res.json(partnerWebhookSubscriptionListSchema.parse({ items }))
+    }),
+  )
+
+  router.post(
+    '/',
+    asyncHandler(async (req, res) => {
+      const input = partnerWebhookSubscriptionInputSchema.parse(req.body)
+      const scope = resolvePartnerScope(req.user)
+      if (scope !== undefined && (!scope || (input.partnerId !== undefined && input.partnerId !== scope))) {
+        res.status(403).json({ message: 'Webhooks can only be registered for your own partner' })
+        return
+      }
+
+      const partnerId = scope ?? input.partnerId
+      if (!partnerId) {
+        res.status(422).json({ message: 'partnerId is required' })
+        return
+      }
+
+      const created = await createPartnerWebhookSubscription({ ...input, partnerId }, req.user.id)
+      res.status(201).json(partnerWebhookSubscriptionWithSecretSchema.parse(created))
+    }),
+  )
+
+  router.get(
+    '/:id',
+    asyncHandler(async (req, res) => {
+      const subscription = await findScopedSubscription(req)
+      if (!subscription) {
+        res.status(404).json({ message: 'Webhook subscription not found' })
+        return
+      }
+
+      res.json(partnerWebhookSubscriptionSchema.parse(subscription))
+    }),
+  )
+
+  router.patch(
+    '/:id',
+    asyncHandler(async (req, res) => {
+      const changes = partnerWebhookSubscriptionUpdateSchema.parse(req.body)
+      const updated = (await findScopedSubscription(req))
+        ? await updatePartnerWebhookSubscription(req.params.id, changes)
+        : null
+      if (!updated) {
+        res.status(404).json({ message: 'Webhook subscription not found' })
+        return
+      }
+
+      res.json(partnerWebhookSubscriptionSchema.parse(updated))
+    }),
+  )
+
+  router.delete(
+    '/:id',
+    asyncHandler(async (req, res) => {
+      if (!(await findScopedSubscription(req)) || !(await deletePartnerWebhookSubscription(req.params.id))) {
+        res.status(404).json({ message: 'Webhook subscription not found' })
+        return
+      }
+
+      res.status(204).end()
+    }),
+  )
+
+  router.post(
+    '/:id/secret',
+    asyncHandler(async (req, res) => {
+      const rotated = (await findScopedSubscription(req)) ? await rotatePartnerWebhookSecret(req.params.id) : null
+      if (!rotated) {
+        res.status(404).json({ message: 'Webhook subscription not found' })
+        return
+      }
+
+      res.json(partnerWebhookSubscriptionWithSecretSchema.parse(rotated))
+    }),
+  )
+
+  router.get(
+    '/:id/deliveries',
+    asyncHandler(async (req, res) => {
+      const filters = partnerWebhookDeliveryFilterSchema.parse(req.query)
+      if (!(await findScopedSubscription(req))) {
+        res.status(404).json({ message: 'Webhook subscription not found' })
+        return
+      }
+
+      const items = await listPartnerWebhookDeliveries(req.params.id, filters)
+      res.json(partnerWebhookDeliveryListSchema.parse({ items }))
+    }),
+  )
+
+  router.post(
+    '/:id/deliveries/:deliveryId/redeliver',
+    asyncHandler(async (req, res) => {
+      const delivery = (await findScopedSubscription(req))
+        ? await redeliverPartnerWebhook(req.params.id, req.params.deliveryId)
+        : null
+      if (!delivery) {
+        res.status(404).json({ message: 'Webhook delivery not found' })
+        return
+      }
+
+      res.status(202).json(partnerWebhookDeliverySchema.parse(delivery))
+    }),
+  )
+
+  return router
+}
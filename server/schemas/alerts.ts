@@ -0,0 +1,101 @@
+import { z } from 'zod'
+import { liveMetricMetadataById } from '../../shared/data/liveAnalytics.js'
+import { hasPublicHost } from '../utils/network.js'
+import { liveDimensionsSchema } from './dashboard.js'
+
+// Same rule as partner webhooks: plain http and internal receivers are only for local development.
+const allowPrivateUrls = process.env.NODE_ENV === 'development' || process.env.ALERTS_ALLOW_PRIVATE_URLS === 'true'
+
+const httpUrlSchema = z
+  .string()
+  .url('url must be a valid URL')
+  .refine((value) => (allowPrivateUrls ? /^https?:\/\//i : /^https:\/\//i).test(value), {
+    message: allowPrivateUrls ? 'url must use http or https' : 'url must use https',
+  })
+  .refine((value) => allowPrivateUrls || hasPublicHost(value), {
+    message: 'url must not point at a loopback, link-local or private address',
+  })
+
+export const liveAlertSeveritySchema = z.enum(['warning', 'critical'])
+
+export const liveAlertStatusSchema = z.enum(['firing', 'acknowledged', 'resolved'])
+
+export const liveAlertSinkSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('webhook'),
+    url: httpUrlSchema,
+    headers: z.record(z.string(), z.string().max(1024)).optional(),
+  }),
+  z.object({
+    type: z.literal('slack'),
+    url: httpUrlSchema,
+    channel: z.string().trim().min(1).max(80).optional(),
+  }),
+  z.object({
+    type: z.literal('email'),
+    to: z.array(z.string().email('to must contain email addresses')).min(1).max(20),
+  }),
+])
+
+const liveAlertRuleFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(120),
+  metricId: z.string().refine((value) => liveMetricMetadataById.has(value), { message: 'Unknown live metric' }),
+  minSeverity: liveAlertSeveritySchema,
+  filters: liveDimensionsSchema,
+  sinks: z.array(liveAlertSinkSchema).min(1, 'sinks must include at least one destination').max(10),
+  repeatIntervalSeconds: z.number().int().min(60).max(7 * 86_400),
+  enabled: z.boolean(),
+})
+
+export const liveAlertRuleInputSchema = liveAlertRuleFieldsSchema.extend({
+  minSeverity: liveAlertSeveritySchema.default('critical'),
+  filters: liveDimensionsSchema.default({}),
+  repeatIntervalSeconds: z.number().int().min(60).max(7 * 86_400).default(3_600),
+  enabled: z.boolean().default(true),
+})
+
+export const liveAlertRuleUpdateSchema = liveAlertRuleFieldsSchema
+  .partial()
+  .refine((changes) => Object.keys(changes).length > 0, { message: 'At least one field must be provided' })
+
+export const liveAlertRuleSchema = liveAlertRuleFieldsSchema.extend({
+  id: z.string(),
+  createdBy: z.string(),
+  createdAt: z.string().datetime({ message: 'createdAt must be an ISO timestamp' }),
+  updatedAt: z.string().datetime({ message: 'updatedAt must be an ISO timestamp' }),
+})
+
+export const liveAlertRuleListSchema = z.object({
+  items: z.array(liveAlertRuleSchema),
+})
+
+export const liveAlertSchema = z.object({
+  id: z.string(),
+  ruleId: z.string(),
+  ruleName: z.string(),
+  metricId: z.string(),
+  filters: liveDimensionsSchema,
+  status: liveAlertStatusSchema,
+  severity: liveAlertSeveritySchema,
+  value: z.number(),
+  thresholdValue: z.number().nullable(),
+  message: z.string(),
+  detector: z.enum(['static', 'zscore', 'ewma', 'seasonal']),
+  occurrences: z.number().int().nonnegative(),
+  startedAt: z.string().datetime(),
+  lastSeenAt: z.string().datetime(),
+  lastNotifiedAt: z.string().datetime().nullable(),
+  acknowledgedAt: z.string().datetime().nullable(),
+  acknowledgedBy: z.string().nullable(),
+  resolvedAt: z.string().datetime().nullable(),
+})
+
+export const liveAlertListSchema = z.object({
+  items: z.array(liveAlertSchema),
+})
+
+export const liveAlertFilterSchema = z.object({
+  status: liveAlertStatusSchema.optional(),
+  ruleId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+})
@@ -0,0 +1,28 @@
+import { z } from 'zod'
+import { accessRoles, allPermissions } from '../../shared/data/permissions.js'
+import type { AccessRole, Permission } from '../../shared/types/domain.js'
+
+const accessRoleSchema = z.enum(accessRoles as [AccessRole, ...AccessRole[]])
+
+export const devLoginRequestSchema = z.object({
+  persona: z.enum(['merchant', 'colleague']).default('merchant'),
+  roles: z.array(accessRoleSchema).min(1).max(accessRoles.length).optional(),
+  id: z.string().trim().min(1).max(120).optional(),
+  name: z.string().trim().min(1).max(120).optional(),
+  partnerId: z.string().trim().min(1).max(120).nullable().optional(),
+})
+
+export const authenticatedUserSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  role: z.enum(['merchant', 'colleague']),
+  roles: z.array(accessRoleSchema),
+  permissions: z.array(z.enum(allPermissions as [Permission, ...Permission[]])),
+  partnerId: z.string().nullable(),
+})
+
+export const authSessionSchema = z.object({
+  token: z.string(),
+  expiresAt: z.string(),
+  user: authenticatedUserSchema,
+})
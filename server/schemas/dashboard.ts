@@ -86,15 +86,87 @@ export const liveMetricSchema = z.object({
       thresholdValue: z.number().optional(),
       message: z.string(),
       magnitude: z.number(),
+      detector: z.enum(['static', 'zscore', 'ewma', 'seasonal']),
+      expectedBand: z
+        .object({
+          lower: z.number().nullable(),
+          upper: z.number().nullable(),
+        })
+        .nullable(),
+      confidence: z.number().min(0).max(1),
     })
     .nullable(),
 })
 
+export const liveDimensionKeySchema = z.enum(['region', 'merchantCategory', 'partnerId'])
+
+const liveDimensionValueSchema = z.string().trim().min(1).max(64)
+
+export const liveDimensionsSchema = z.object({
+  region: liveDimensionValueSchema.optional(),
+  merchantCategory: liveDimensionValueSchema.optional(),
+  partnerId: liveDimensionValueSchema.optional(),
+})
+
+export const liveAnalyticsQuerySchema = liveDimensionsSchema
+  .extend({
+    groupBy: liveDimensionKeySchema.optional(),
+  })
+  .transform(({ groupBy, ...filters }) => ({
+    filters: Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined)) as z.infer<
+      typeof liveDimensionsSchema
+    >,
+    groupBy: groupBy ?? null,
+  }))
+
+export const liveAnalyticsHistoryQuerySchema = liveDimensionsSchema
+  .extend({
+    metricId: z.string().trim().min(1),
+    from: z.string().datetime({ message: 'from must be an ISO timestamp' }).optional(),
+    to: z.string().datetime({ message: 'to must be an ISO timestamp' }).optional(),
+    resolution: z.enum(['raw', '1m', '5m', '1h']).optional(),
+  })
+  .refine((query) => !query.from || !query.to || Date.parse(query.from) < Date.parse(query.to), {
+    message: 'from must be earlier than to',
+    path: ['from'],
+  })
+
+export const liveAnalyticsHistorySchema = z.object({
+  metricId: z.string(),
+  resolution: z.enum(['raw', '1m', '5m', '1h']),
+  from: z.string().datetime(),
+  to: z.string().datetime(),
+  filters: liveDimensionsSchema,
+  points: z.array(
+    z.object({
+      timestamp: z.string().datetime(),
+      value: z.number(),
+      min: z.number(),
+      max: z.number(),
+      count: z.number().int(),
+    }),
+  ),
+})
+
+export const liveMetricGroupSchema = z.object({
+  dimension: liveDimensionKeySchema,
+  value: z.string(),
+  metrics: z.array(liveMetricSchema),
+})
+
 export const liveAnalyticsSnapshotSchema = z.object({
   generatedAt: z.string(),
   windowSeconds: z.number(),
   metrics: z.array(liveMetricSchema),
   narrative: z.string(),
+  filters: liveDimensionsSchema,
+  groupBy: liveDimensionKeySchema.nullable(),
+  groups: z.array(liveMetricGroupSchema),
+  dimensions: z.object({
+    region: z.array(z.string()),
+    merchantCategory: z.array(z.string()),
+    partnerId: z.array(z.string()),
+  }),
 })
 
 export const dashboardSnapshotSchema = z.object({
@@ -118,6 +190,8 @@ export const fraudAlertListSchema = apiListResponse(fraudAlertSchema)
 export const workflowPlaybookListSchema = apiListResponse(workflowPlaybookSchema)
 export const innovationIdeasListSchema = apiListResponse(innovationIdeaSchema)
 
+export type LiveAnalyticsHistoryPayload = z.infer<typeof liveAnalyticsHistorySchema>
+export type LiveAnalyticsQueryPayload = z.infer<typeof liveAnalyticsQuerySchema>
 export type LiveAnalyticsSnapshotPayload = z.infer<typeof liveAnalyticsSnapshotSchema>
 
 export type DashboardSnapshotPayload = z.infer<typeof dashboardSnapshotSchema>
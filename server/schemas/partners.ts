@@ -1,12 +1,15 @@
 import { z } from 'zod'
+import { hasPublicHost } from '../utils/network.js'
 
 export const reviewerRoleSchema = z.enum(['merchant', 'colleague'])
 
+export const signalStatusSchema = z.enum(['pending', 'in_review', 'needs_info', 'approved', 'rejected', 'archived'])
+
 export const partnerSignalInputSchema = z.object({
   partnerId: z.string().min(1, 'partnerId is required'),
-  partnerName: z.string().min(1, 'partnerName is required'),
+  partnerName: z.string().optional(),
   merchantId: z.string().min(1, 'merchantId is required'),
-  merchantName: z.string().min(1, 'merchantName is required'),
+  merchantName: z.string().optional(),
   signalType: z.enum(['growth', 'risk', 'retention', 'innovation', 'compliance']),
   description: z.string().min(20, 'description must highlight the partner insight'),
   confidence: z.number().min(0).max(1),
@@ -18,33 +21,131 @@ export const partnerSignalInputSchema = z.object({
 
 export const partnerSignalSchema = partnerSignalInputSchema.extend({
   id: z.string(),
+  partnerName: z.string(),
+  merchantName: z.string(),
   submittedAt: z.string().datetime({ message: 'submittedAt must be an ISO timestamp' }),
-  status: z.enum(['pending', 'approved', 'archived']),
+  status: signalStatusSchema,
   assignedReviewerId: z.string().nullable(),
   assignedReviewerName: z.string().nullable(),
   assignedReviewerRole: reviewerRoleSchema.nullable(),
   assignedAt: z.string().datetime({ message: 'assignedAt must be an ISO timestamp' }).nullable(),
+  slaPolicyId: z.string().nullable(),
+  slaDueAt: z.string().datetime({ message: 'slaDueAt must be an ISO timestamp' }).nullable(),
+  slaEscalatedAt: z.string().datetime({ message: 'slaEscalatedAt must be an ISO timestamp' }).nullable(),
+  duplicateOfId: z.string().nullable(),
+  duplicateScore: z.number().min(0).max(1).nullable(),
+  mergedIntoId: z.string().nullable(),
+  version: z.number().int().positive(),
 })
 
 export const partnerSignalListSchema = z.object({
   items: z.array(partnerSignalSchema),
 })
 
+export const partnerSignalPageSchema = partnerSignalListSchema.extend({
+  nextCursor: z.string().nullable(),
+  total: z.number().int().nonnegative(),
+})
+
+export const partnerSignalSortKeySchema = z.enum(['submittedAt', 'confidence', 'assignedAt'])
+
 export const partnerSignalFilterSchema = z.object({
   signalType: z.enum(['growth', 'risk', 'retention', 'innovation', 'compliance']).optional(),
-  status: z.enum(['pending', 'approved', 'archived']).optional(),
+  status: signalStatusSchema.optional(),
+  merchantId: z.string().min(1).optional(),
+  q: z.string().trim().max(200).optional(),
+  sort: partnerSignalSortKeySchema.default('submittedAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  cursor: z.string().min(1).optional(),
+})
+
+export const partnerSignalTransferFormatSchema = z.enum(['csv', 'ndjson'])
+
+export const partnerSignalExportQuerySchema = partnerSignalFilterSchema
+  .omit({ limit: true, cursor: true })
+  .extend({ format: partnerSignalTransferFormatSchema.default('csv') })
+
+export const partnerSignalImportQuerySchema = z.object({
+  format: partnerSignalTransferFormatSchema.optional(),
+  dryRun: z.stringbool().default(false),
+  background: z.stringbool().default(false),
+})
+
+const partnerSignalImportRowErrorSchema = z.object({
+  line: z.number().int().positive(),
+  issues: z.array(z.object({ path: z.string(), message: z.string() })),
+})
+
+export const partnerSignalImportValidationSchema = z.object({
+  format: partnerSignalTransferFormatSchema,
+  totalRows: z.number().int().nonnegative(),
+  validRows: z.number().int().nonnegative(),
+  invalidRows: z.number().int().nonnegative(),
+  errors: z.array(partnerSignalImportRowErrorSchema),
+})
+
+export const partnerSignalImportJobSchema = z.object({
+  id: z.string(),
+  status: z.enum(['queued', 'running', 'completed', 'failed']),
+  format: partnerSignalTransferFormatSchema,
+  totalRows: z.number().int().nonnegative(),
+  processedRows: z.number().int().nonnegative(),
+  importedRows: z.number().int().nonnegative(),
+  failedRows: z.number().int().nonnegative(),
+  errors: z.array(partnerSignalImportRowErrorSchema),
+  createdBy: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  completedAt: z.string().datetime().nullable(),
 })
 
 export const partnerSignalStatusSchema = z.object({
-  status: z.enum(['pending', 'approved', 'archived']),
+  status: signalStatusSchema,
   notes: z.string().max(500).optional(),
 })
 
+export const partnerSignalMergeRequestSchema = z.object({
+  canonicalId: z.string().min(1).optional(),
+  notes: z.string().max(500).optional(),
+})
+
+export const partnerSignalMergeResultSchema = z.object({
+  canonical: partnerSignalSchema,
+  duplicate: partnerSignalSchema,
+})
+
+const bulkSignalIdsSchema = z
+  .array(z.string().min(1))
+  .min(1, 'ids must include at least one signal')
+  .max(100, 'ids cannot exceed 100 signals')
+  .transform((ids) => Array.from(new Set(ids)))
+
+export const partnerSignalBulkRequestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('status'),
+    ids: bulkSignalIdsSchema,
+    status: signalStatusSchema,
+    notes: z.string().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal('assign'),
+    ids: bulkSignalIdsSchema,
+    reviewerId: z.string().min(1, 'reviewerId is required'),
+    reviewerName: z.string().min(1, 'reviewerName is required'),
+    reviewerRole: reviewerRoleSchema,
+    notes: z.string().max(500).optional(),
+  }),
+])
+
 export const partnerSignalStatsSchema = z.object({
   total: z.number(),
   status: z.object({
     pending: z.number(),
+    in_review: z.number(),
+    needs_info: z.number(),
     approved: z.number(),
+    rejected: z.number(),
     archived: z.number(),
   }),
   signalType: z.object({
@@ -79,17 +180,78 @@ export const partnerSignalAuditSchema = z.object({
   reviewerId: z.string(),
   reviewerName: z.string(),
   reviewerRole: reviewerRoleSchema,
-  action: z.enum(['created', 'status_change', 'assigned']),
-  fromStatus: z.enum(['pending', 'approved', 'archived']).nullable(),
-  toStatus: z.enum(['pending', 'approved', 'archived']).nullable(),
+  action: z.enum(['created', 'status_change', 'assigned', 'sla_escalated', 'merged']),
+  fromStatus: signalStatusSchema.nullable(),
+  toStatus: signalStatusSchema.nullable(),
+  transitionRule: z.string().nullable(),
+  batchId: z.string().nullable(),
   notes: z.string().nullable(),
   createdAt: z.string().datetime(),
 })
 
+export const partnerSignalBulkResultSchema = z.object({
+  batchId: z.string(),
+  succeeded: z.number().int().nonnegative(),
+  failed: z.number().int().nonnegative(),
+  items: z.array(
+    z.object({
+      id: z.string(),
+      ok: z.boolean(),
+      signal: partnerSignalSchema.nullable(),
+      error: z
+        .object({
+          code: z.string(),
+          message: z.string(),
+          allowedNextStates: z.array(signalStatusSchema).optional(),
+        })
+        .nullable(),
+    }),
+  ),
+})
+
 export const partnerSignalAuditListSchema = z.object({
   items: z.array(partnerSignalAuditSchema),
 })
 
+export const partnerSignalCommentInputSchema = z.object({
+  body: z.string().trim().min(1, 'body is required').max(4000),
+  parentId: z.string().min(1).nullable().optional(),
+})
+
+export const partnerSignalCommentUpdateSchema = partnerSignalCommentInputSchema.pick({ body: true })
+
+const partnerSignalCommentMentionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+})
+
+export const partnerSignalCommentSchema = z.object({
+  id: z.string(),
+  signalId: z.string(),
+  parentId: z.string().nullable(),
+  authorId: z.string(),
+  authorName: z.string(),
+  authorRole: reviewerRoleSchema,
+  body: z.string(),
+  mentions: z.array(partnerSignalCommentMentionSchema),
+  history: z.array(
+    z.object({
+      body: z.string(),
+      mentions: z.array(partnerSignalCommentMentionSchema),
+      editedBy: z.string(),
+      editedAt: z.string().datetime(),
+    }),
+  ),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  editedAt: z.string().datetime().nullable(),
+  deletedAt: z.string().datetime().nullable(),
+})
+
+export const partnerSignalCommentListSchema = z.object({
+  items: z.array(partnerSignalCommentSchema),
+})
+
 export const shadowApprovalStatusSchema = z.enum(['pending', 'acknowledged', 'escalated'])
 
 export const shadowQueueItemSchema = z.object({
@@ -98,7 +260,7 @@ export const shadowQueueItemSchema = z.object({
   signalPartnerName: z.string(),
   signalMerchantName: z.string(),
   signalType: z.enum(['growth', 'risk', 'retention', 'innovation', 'compliance']),
-  signalStatus: z.enum(['pending', 'approved', 'archived']),
+  signalStatus: signalStatusSchema,
   submittedAt: z.string().datetime(),
   reviewerId: z.string(),
   reviewerName: z.string(),
@@ -125,11 +287,165 @@ export const partnerSignalAssignmentListSchema = z.object({
   items: z.array(partnerSignalAssignmentSchema),
 })
 
+export const partnerWebhookEventTypeSchema = z.enum(['signal.created', 'signal.status_changed', 'signal.assigned'])
+
+export const partnerWebhookDeliveryStatusSchema = z.enum(['pending', 'delivered', 'dead_letter'])
+
+// Plain http and internal hosts are only for local receivers; elsewhere the dispatcher must not be usable for SSRF.
+const allowPrivateWebhookUrls =
+  process.env.NODE_ENV === 'development' || process.env.PARTNER_WEBHOOK_ALLOW_PRIVATE_URLS === 'true'
+
+const partnerWebhookUrlSchema = z
+  .string()
+  .url('url must be a valid URL')
+  .refine((value) => (allowPrivateWebhookUrls ? /^https?:\/\//i : /^https:\/\//i).test(value), {
+    message: allowPrivateWebhookUrls ? 'url must use http or https' : 'url must use https',
+  })
+  .refine((value) => allowPrivateWebhookUrls || hasPublicHost(value), {
+    message: 'url must not point at a loopback, link-local or private address',
+  })
+
+const partnerWebhookEventsSchema = z
+  .array(partnerWebhookEventTypeSchema)
+  .min(1, 'events must include at least one event type')
+  .transform((events) => Array.from(new Set(events)))
+
+export const partnerWebhookSubscriptionInputSchema = z.object({
+  partnerId: z.string().min(1, 'partnerId is required').optional(),
+  url: partnerWebhookUrlSchema,
+  events: partnerWebhookEventsSchema,
+  description: z.string().max(200).nullable().default(null),
+  active: z.boolean().default(true),
+})
+
+export const partnerWebhookSubscriptionUpdateSchema = z
+  .object({
+    url: partnerWebhookUrlSchema,
+    events: partnerWebhookEventsSchema,
+    description: z.string().max(200).nullable(),
+    active: z.boolean(),
+  })
+  .partial()
+  .refine((changes) => Object.keys(changes).length > 0, { message: 'At least one field must be provided' })
+
+export const partnerWebhookSubscriptionSchema = z.object({
+  id: z.string(),
+  partnerId: z.string(),
+  url: z.string(),
+  events: z.array(partnerWebhookEventTypeSchema),
+  description: z.string().nullable(),
+  active: z.boolean(),
+  createdBy: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+})
+
+export const partnerWebhookSubscriptionWithSecretSchema = partnerWebhookSubscriptionSchema.extend({
+  secret: z.string(),
+})
+
+export const partnerWebhookSubscriptionListSchema = z.object({
+  items: z.array(partnerWebhookSubscriptionSchema),
+})
+
+export const partnerWebhookSubscriptionFilterSchema = z.object({
+  partnerId: z.string().min(1).optional(),
+})
+
+export const partnerWebhookDeliverySchema = z.object({
+  id: z.string(),
+  subscriptionId: z.string(),
+  eventId: z.string(),
+  eventType: partnerWebhookEventTypeSchema,
+  signalId: z.string(),
+  status: partnerWebhookDeliveryStatusSchema,
+  attempts: z.number().int().nonnegative(),
+  nextAttemptAt: z.string().datetime().nullable(),
+  lastAttemptAt: z.string().datetime().nullable(),
+  lastStatusCode: z.number().int().nullable(),
+  lastError: z.string().nullable(),
+  deliveredAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  payload: z.object({
+    id: z.string(),
+    type: partnerWebhookEventTypeSchema,
+    occurredAt: z.string().datetime(),
+    data: z.object({
+      signal: partnerSignalSchema,
+      previousStatus: signalStatusSchema.nullable(),
+    }),
+  }),
+})
+
+export const partnerWebhookDeliveryListSchema = z.object({
+  items: z.array(partnerWebhookDeliverySchema),
+})
+
+export const partnerWebhookDeliveryFilterSchema = z.object({
+  status: partnerWebhookDeliveryStatusSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+})
+
+const registryNameSchema = z.string().trim().min(1, 'name is required').max(200)
+
+export const registryEntryInputSchema = z.object({
+  id: z
+    .string()
+    .trim()
+    .min(1, 'id is required')
+    .max(100)
+    .regex(/^[^\s/]+$/, 'id cannot contain spaces or slashes'),
+  name: registryNameSchema,
+  active: z.boolean().default(true),
+})
+
+export const registryEntryUpdateSchema = z
+  .object({
+    name: registryNameSchema,
+    active: z.boolean(),
+  })
+  .partial()
+  .refine((changes) => Object.keys(changes).length > 0, { message: 'At least one field must be provided' })
+
+export const registryEntryFilterSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  active: z.stringbool().optional(),
+})
+
+export const registryEntrySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  active: z.boolean(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+})
+
+export const registryEntryListSchema = z.object({
+  items: z.array(registryEntrySchema),
+})
+
+export const merchantOverviewSchema = z.object({
+  merchant: registryEntrySchema,
+  stats: partnerSignalStatsSchema,
+  latestStatus: signalStatusSchema.nullable(),
+  lastSubmittedAt: z.string().datetime().nullable(),
+  partners: z.array(z.object({ id: z.string(), name: z.string(), total: z.number().int().nonnegative() })),
+  recentSignals: z.array(partnerSignalSchema),
+})
+
 export type PartnerSignalInputPayload = z.infer<typeof partnerSignalInputSchema>
 export type PartnerSignalPayload = z.infer<typeof partnerSignalSchema>
 export type PartnerSignalListPayload = z.infer<typeof partnerSignalListSchema>
+export type PartnerSignalPagePayload = z.infer<typeof partnerSignalPageSchema>
 export type PartnerSignalFilterPayload = z.infer<typeof partnerSignalFilterSchema>
 export type PartnerSignalStatusPayload = z.infer<typeof partnerSignalStatusSchema>
+export type PartnerSignalExportQueryPayload = z.infer<typeof partnerSignalExportQuerySchema>
+export type PartnerSignalImportValidationPayload = z.infer<typeof partnerSignalImportValidationSchema>
+export type PartnerSignalImportJobPayload = z.infer<typeof partnerSignalImportJobSchema>
+export type PartnerSignalMergeRequestPayload = z.infer<typeof partnerSignalMergeRequestSchema>
+export type PartnerSignalMergeResultPayload = z.infer<typeof partnerSignalMergeResultSchema>
+export type PartnerSignalBulkRequestPayload = z.infer<typeof partnerSignalBulkRequestSchema>
+export type PartnerSignalBulkResultPayload = z.infer<typeof partnerSignalBulkResultSchema>
 export type PartnerSignalStatsPayload = z.infer<typeof partnerSignalStatsSchema>
 export type PartnerSignalAssignmentRequestPayload = z.infer<typeof partnerSignalAssignmentRequestSchema>
 export type PartnerSignalAssignmentPayload = z.infer<typeof partnerSignalAssignmentSchema>
@@ -139,3 +455,7 @@ export type PartnerSignalAuditListPayload = z.infer<typeof partnerSignalAuditLis
 export type ShadowQueueItemPayload = z.infer<typeof shadowQueueItemSchema>
 export type ShadowQueueListPayload = z.infer<typeof shadowQueueListSchema>
 export type ShadowQueueDecisionPayload = z.infer<typeof shadowQueueDecisionSchema>
+export type RegistryEntryInputPayload = z.infer<typeof registryEntryInputSchema>
+export type RegistryEntryUpdatePayload = z.infer<typeof registryEntryUpdateSchema>
+export type RegistryEntryPayload = z.infer<typeof registryEntrySchema>
+export type MerchantOverviewPayload = z.infer<typeof merchantOverviewSchema>
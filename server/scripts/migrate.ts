@@ -1,17 +1,79 @@
 #!/usr/bin/env node
 import process from 'node:process'
-import { migrateDatabase, dbPool } from '../db/client.js'
+import { createMigration } from '../db/migrator.js'
 import { logger } from '../utils/logger.js'
 
+process.env.PARTNER_DB_AUTO_MIGRATE = 'false'
+
+const usage = 'Usage: db:migrate [status | up [--to <version>] [--seed] | down [--to <version>] | create <name>]'
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name)
+  if (index === -1) {
+    return undefined
+  }
+
+  const value = args[index + 1]
+  if (!value || value.startsWith('--')) {
+    throw new Error(`${name} requires a value. ${usage}`)
+  }
+  return value
+}
+
+function normalizeVersion(value: string | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+
+  if (!/^\d{1,4}$/.test(value)) {
+    throw new Error(`Invalid migration version "${value}". ${usage}`)
+  }
+  return value.padStart(4, '0')
+}
+
 async function main(): Promise<void> {
-  const args = new Set(process.argv.slice(2))
-  const shouldSeed = args.has('--seed') || args.has('--with-seed')
+  const args = process.argv.slice(2)
+  const command = args[0] && !args[0].startsWith('--') ? args[0] : 'up'
+
+  if (command === 'create') {
+    const name = args.slice(1).join(' ')
+    const filePath = await createMigration(name)
+    logger.info({ filePath }, 'Created migration')
+    return
+  }
 
-  logger.info({ seed: shouldSeed }, 'Starting database migration')
+  const { dbPool, getDatabaseMigrationStatus, migrateDatabase, rollbackDatabase } = await import('../db/client.js')
 
   try {
-    await migrateDatabase({ seed: shouldSeed })
-    logger.info('Database migration completed successfully')
+    switch (command) {
+      case 'status': {
+        const statuses = await getDatabaseMigrationStatus()
+        for (const status of statuses) {
+          logger.info(
+            { version: status.version, appliedAt: status.appliedAt },
+            `${status.version}_${status.name}: ${status.state}`,
+          )
+        }
+        if (statuses.some((status) => status.state === 'checksum_mismatch' || status.state === 'missing')) {
+          process.exitCode = 1
+        }
+        break
+      }
+      case 'up': {
+        const shouldSeed = args.includes('--seed') || args.includes('--with-seed')
+        logger.info({ seed: shouldSeed }, 'Starting database migration')
+        const applied = await migrateDatabase({ seed: shouldSeed, to: normalizeVersion(readOption(args, '--to')) })
+        logger.info({ applied: applied.map((migration) => migration.version) }, 'Database migration completed successfully')
+        break
+      }
+      case 'down': {
+        const reverted = await rollbackDatabase({ to: normalizeVersion(readOption(args, '--to')) })
+        logger.info({ reverted: reverted.map((migration) => migration.version) }, 'Database rollback completed successfully')
+        break
+      }
+      default:
+        throw new Error(`Unknown command "${command}". ${usage}`)
+    }
   } finally {
     await dbPool.end()
   }
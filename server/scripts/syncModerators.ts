@@ -33,12 +33,26 @@ interface ScimUser {
   }
   emails?: Array<{ value: string; primary?: boolean }>
   active?: boolean
+  timezone?: string
   groups?: Array<{ value?: string; display?: string }>
+  [extension: string]: unknown
+}
+
+interface ScimReviewerExtension {
+  specialties?: string[] | string
+  maxConcurrentAssignments?: number
+  timezone?: string
+  shiftStart?: string
+  shiftEnd?: string
+  outOfOffice?: boolean
+  outOfOfficeUntil?: string
 }
 
 const baseUrl = process.env.IDP_SCIM_BASE_URL
 const token = process.env.IDP_SCIM_TOKEN
 const groupIds = parseList(process.env.IDP_SCIM_GROUP_IDS)
+const reviewerExtension =
+  process.env.IDP_SCIM_REVIEWER_EXTENSION ?? 'urn:ietf:params:scim:schemas:extension:ecosystem:2.0:Reviewer'
 const dryRun = process.argv.includes('--dry-run')
 
 async function main(): Promise<void> {
@@ -125,6 +139,26 @@ function mapUserToModerator(user: ScimUser): UpsertModeratorInput {
     metadata.groups = user.groups.map((group) => group.display ?? group.value).filter(Boolean)
   }
 
+  const routing = (user[reviewerExtension] ?? {}) as ScimReviewerExtension
+  const timezone = routing.timezone ?? user.timezone
+  if (routing.specialties !== undefined) {
+    metadata.specialties = Array.isArray(routing.specialties) ? routing.specialties : parseList(routing.specialties)
+  }
+  if (routing.maxConcurrentAssignments !== undefined) {
+    metadata.maxConcurrentAssignments = routing.maxConcurrentAssignments
+  }
+  if (timezone) {
+    metadata.timezone = timezone
+  }
+  if (routing.shiftStart && routing.shiftEnd) {
+    metadata.shiftStart = routing.shiftStart
+    metadata.shiftEnd = routing.shiftEnd
+  }
+  metadata.outOfOffice = routing.outOfOffice === true
+  if (routing.outOfOfficeUntil) {
+    metadata.outOfOfficeUntil = routing.outOfOfficeUntil
+  }
+
   return {
     id: user.id,
     name,
@@ -0,0 +1,415 @@
+import { trace } from '@opentelemetry/api'
+import {
+  getEcosystemTrends,
+  getFraudAlerts,
+  getGrowthOpportunities,
+  getPlatformKPIs,
+  getWorkflowPlaybooks,
+} from '../../shared/api/dashboard.js'
+import { liveMetricDefinitionById, liveMetricDefinitions } from '../../shared/data/liveAnalytics.js'
+import type {
+  DashboardSnapshot,
+  EcosystemTrend,
+  FraudAlert,
+  GrowthOpportunity,
+  PartnerSignal,
+  PlatformKPI,
+  WorkflowPlaybook,
+} from '../../shared/types/domain.js'
+import { dbPool } from '../db/client.js'
+import { invalidateCacheTags } from '../utils/distributedCache.js'
+import { readPositiveInt } from '../utils/env.js'
+import { logger } from '../utils/logger.js'
+import { withSpan } from '../utils/tracing.js'
+import { getLiveAnalyticsSnapshot } from './liveAnalytics.js'
+
+const tracer = trace.getTracer('dashboard-data')
+
+const DAY_MS = 24 * 3_600_000
+const TREND_BUCKETS = 6
+const TREND_BUCKET_MS = 30 * DAY_MS
+const MAX_ALERTS = 6
+const OPEN_STATUSES: PartnerSignal['status'][] = ['pending', 'in_review', 'needs_info']
+
+const signalTypeLabels: Record<PartnerSignal['signalType'], string> = {
+  growth: 'Growth Signals',
+  risk: 'Risk Signals',
+  retention: 'Retention Signals',
+  innovation: 'Innovation Signals',
+  compliance: 'Compliance Signals',
+}
+
+const riskActions: Partial<Record<PartnerSignal['status'], string>> = {
+  pending: 'Assign a reviewer and confirm the report with the partner before the SLA window closes.',
+  in_review: 'Contain exposure at the merchant while the assigned reviewer confirms the report.',
+  needs_info: 'Chase the partner for the evidence the reviewer requested; the signal is waiting on them.',
+}
+
+const kpiWindowMs = readPositiveInt(process.env.DASHBOARD_KPI_WINDOW_DAYS, 30) * DAY_MS
+
+export const DASHBOARD_CACHE_NAMESPACE = 'dashboard'
+/** Tag on cached dashboard payloads that are derived from partner signals. */
+export const PARTNER_SIGNAL_CACHE_TAG = 'partner-signals'
+
+export type DashboardDataProviderName = 'mock' | 'postgres'
+
+/**
+ * Source for the executive dashboard panels. Every method resolves to the shapes in `server/schemas/dashboard.ts`.
+ * `getFraudAlerts` names individual partner signals, so it takes the caller's partner scope from
+ * `resolvePartnerScope`; undefined means every partner.
+ */
+export interface DashboardDataProvider {
+  readonly name: DashboardDataProviderName
+  getPlatformKPIs(): Promise<PlatformKPI[]>
+  getEcosystemTrends(): Promise<EcosystemTrend[]>
+  getGrowthOpportunities(): Promise<GrowthOpportunity[]>
+  getFraudAlerts(partnerId?: string): Promise<FraudAlert[]>
+  getWorkflowPlaybooks(): Promise<WorkflowPlaybook[]>
+}
+
+type LiveBucketRow = { metric_id: string; series_key: string } & Record<string, unknown>
+
+type RiskSignalRow = {
+  id: string
+  partner_name: string
+  merchant_name: string
+  description: string
+  confidence: number
+  status: PartnerSignal['status']
+}
+
+/** `boundaries` of length n + 1 describe n consecutive half-open windows, oldest first. */
+function bucketBoundaries(end: number, bucketMs: number, buckets: number): string[] {
+  return Array.from({ length: buckets + 1 }, (_, index) =>
+    new Date(end - (buckets - index) * bucketMs).toISOString(),
+  )
+}
+
+function bucketColumns(column: string, expression: string, boundaries: string[], alias: string): string[] {
+  return boundaries.slice(1).map(
+    (_, index) =>
+      `SUM(CASE WHEN ${column} >= $${index + 1} AND ${column} < $${index + 2} THEN ${expression} ELSE 0 END)` +
+      ` AS ${alias}_${index}`,
+  )
+}
+
+function percentChange(current: number, previous: number): number {
+  if (previous === 0) {
+    return current === 0 ? 0 : 100
+  }
+  return Math.round(((current - previous) / previous) * 1000) / 10
+}
+
+function toTrend(delta: number): PlatformKPI['trend'] {
+  if (Math.abs(delta) < 0.5) {
+    return 'steady'
+  }
+  return delta > 0 ? 'up' : 'down'
+}
+
+function formatNumber(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    maximumFractionDigits: 1,
+    notation: Math.abs(value) >= 100_000 ? 'compact' : 'standard',
+  }).format(value)
+}
+
+/**
+ * Averages live metric rollups per window. Untagged totals win when a metric publishes them; otherwise volume
+ * metrics add up the per-series averages and rate metrics weight every sample equally, matching `/live`.
+ */
+async function loadLiveMetricBuckets(boundaries: string[]): Promise<Map<string, Array<number | null>>> {
+  const buckets = boundaries.length - 1
+  const result = await dbPool.query<LiveBucketRow>(
+    `SELECT metric_id, series_key,
+            ${[
+              ...bucketColumns('bucket_start', 'value_sum', boundaries, 'sum'),
+              ...bucketColumns('bucket_start', 'sample_count', boundaries, 'count'),
+            ].join(',\n            ')}
+       FROM live_analytics_rollups
+      WHERE resolution = '1h' AND bucket_start >= $1 AND bucket_start < $${boundaries.length}
+      GROUP BY metric_id, series_key`,
+    boundaries,
+  )
+
+  const rowsByMetric = new Map<string, LiveBucketRow[]>()
+  for (const row of result.rows) {
+    rowsByMetric.set(row.metric_id, [...(rowsByMetric.get(row.metric_id) ?? []), row])
+  }
+
+  const averages = new Map<string, Array<number | null>>()
+  for (const [metricId, rows] of rowsByMetric) {
+    const definition = liveMetricDefinitionById.get(metricId)
+    if (!definition) {
+      continue
+    }
+
+    const untagged = rows.filter((row) => row.series_key === metricId)
+    const series = untagged.length > 0 ? untagged : rows
+    averages.set(
+      metricId,
+      Array.from({ length: buckets }, (_, index) => {
+        let sum = 0
+        let count = 0
+        let total = 0
+        for (const row of series) {
+          const rowSum = Number(row[`sum_${index}`] ?? 0)
+          const rowCount = Number(row[`count_${index}`] ?? 0)
+          sum += rowSum
+          count += rowCount
+          total += rowCount > 0 ? rowSum / rowCount : 0
+        }
+        if (count === 0) {
+          return null
+        }
+        return definition.aggregation === 'sum' ? total : sum / count
+      }),
+    )
+  }
+
+  return averages
+}
+
+async function loadSignalTypeBuckets(boundaries: string[]): Promise<Map<PartnerSignal['signalType'], number[]>> {
+  const result = await dbPool.query<{ signal_type: PartnerSignal['signalType'] } & Record<string, unknown>>(
+    `SELECT signal_type, ${bucketColumns('submitted_at', '1', boundaries, 'total').join(', ')}
+       FROM partner_signals
+      WHERE submitted_at >= $1 AND submitted_at < $${boundaries.length}
+      GROUP BY signal_type`,
+    boundaries,
+  )
+
+  return new Map(
+    result.rows.map((row) => [
+      row.signal_type,
+      Array.from({ length: boundaries.length - 1 }, (_, index) => Number(row[`total_${index}`] ?? 0)),
+    ]),
+  )
+}
+
+function liveMetricKpi(id: string, metricId: string, windows: Map<string, Array<number | null>>): PlatformKPI {
+  const definition = liveMetricDefinitionById.get(metricId)
+  const [previous, current] = windows.get(metricId) ?? [null, null]
+  const thresholds = definition?.thresholds
+  const unit = definition?.unit ?? ''
+  const target =
+    thresholds?.lowerWarning !== undefined
+      ? `Hold above ${formatNumber(thresholds.lowerWarning)} ${unit}`
+      : thresholds?.upperWarning !== undefined
+        ? `Keep below ${formatNumber(thresholds.upperWarning)} ${unit}`
+        : 'No threshold configured'
+
+  if (current === null || current === undefined) {
+    return { id, label: definition?.label ?? metricId, value: 'No data yet', delta: 0, target, trend: 'steady' }
+  }
+
+  const delta = previous === null || previous === undefined ? 0 : percentChange(current, previous)
+  return {
+    id,
+    label: definition?.label ?? metricId,
+    value: `${formatNumber(current)} ${unit}`,
+    delta,
+    target,
+    trend: toTrend(delta),
+  }
+}
+
+async function getPostgresPlatformKPIs(): Promise<PlatformKPI[]> {
+  return withSpan(tracer, 'dashboardData.kpis', async () => {
+    const now = Date.now()
+    const [windowStart, currentStart] = bucketBoundaries(now, kpiWindowMs, 2)
+    const windowDays = Math.round(kpiWindowMs / DAY_MS)
+
+    const [coverage, registered, resolved, open, liveWindows] = await Promise.all([
+      dbPool.query<{ current: number; previous: number }>(
+        `SELECT COUNT(DISTINCT CASE WHEN submitted_at >= $2 THEN merchant_id END)::int AS current,
+                COUNT(DISTINCT CASE WHEN submitted_at < $2 THEN merchant_id END)::int AS previous
+           FROM partner_signals
+          WHERE submitted_at >= $1`,
+        [windowStart, currentStart],
+      ),
+      dbPool.query<{ total: number }>('SELECT COUNT(*)::int AS total FROM merchants WHERE active = TRUE'),
+      dbPool.query<{ current: number; previous: number }>(
+        `SELECT SUM(CASE WHEN created_at >= $2 THEN 1 ELSE 0 END)::int AS current,
+                SUM(CASE WHEN created_at < $2 THEN 1 ELSE 0 END)::int AS previous
+           FROM partner_signal_audits
+          WHERE created_at >= $1 AND to_status IN ('approved', 'rejected')`,
+        [windowStart, currentStart],
+      ),
+      dbPool.query<{ total: number }>(
+        `SELECT COUNT(*)::int AS total FROM partner_signals WHERE status IN (${OPEN_STATUSES.map(
+          (_, index) => `$${index + 1}`,
+        ).join(', ')})`,
+        OPEN_STATUSES,
+      ),
+      loadLiveMetricBuckets(bucketBoundaries(now, DAY_MS, 2)),
+    ])
+
+    const merchants = coverage.rows[0] ?? { current: 0, previous: 0 }
+    const merchantDelta = percentChange(merchants.current, merchants.previous)
+    const resolutions = { current: resolved.rows[0]?.current ?? 0, previous: resolved.rows[0]?.previous ?? 0 }
+    const resolutionDelta = percentChange(resolutions.current, resolutions.previous)
+
+    return [
+      {
+        id: 'merchant-coverage',
+        label: 'Merchant Coverage',
+        value: `${formatNumber(merchants.current)} merchants reporting`,
+        delta: merchantDelta,
+        target: `${formatNumber(registered.rows[0]?.total ?? 0)} registered merchants`,
+        trend: toTrend(merchantDelta),
+      },
+      {
+        id: 'signal-resolution',
+        label: 'Signals Resolved',
+        value: `${formatNumber(resolutions.current)} in ${windowDays} days`,
+        delta: resolutionDelta,
+        target: `${formatNumber(open.rows[0]?.total ?? 0)} signals still open`,
+        trend: toTrend(resolutionDelta),
+      },
+      liveMetricKpi('fraud-block-rate', 'fraud_block_rate', liveWindows),
+      liveMetricKpi('network-spend', 'network_spend_velocity', liveWindows),
+    ]
+  })
+}
+
+/** Index points per 30-day bucket: live metrics against their catalog baseline, signal volume against its mean. */
+async function getPostgresEcosystemTrends(): Promise<EcosystemTrend[]> {
+  return withSpan(tracer, 'dashboardData.trends', async () => {
+    const boundaries = bucketBoundaries(Date.now(), TREND_BUCKET_MS, TREND_BUCKETS)
+    const [liveBuckets, signalBuckets] = await Promise.all([
+      loadLiveMetricBuckets(boundaries),
+      loadSignalTypeBuckets(boundaries),
+    ])
+
+    const trends: EcosystemTrend[] = []
+    for (const definition of liveMetricDefinitions) {
+      const values = liveBuckets.get(definition.id)
+      if (!values) {
+        continue
+      }
+      trends.push({
+        id: definition.id,
+        label: definition.label,
+        values: values.map((value) => (value === null ? 0 : Math.round((value / definition.baseline) * 100))),
+        baseline: 100,
+      })
+    }
+
+    for (const [signalType, counts] of signalBuckets) {
+      const mean = counts.reduce((sum, count) => sum + count, 0) / counts.length
+      trends.push({
+        id: `signals-${signalType}`,
+        label: signalTypeLabels[signalType] ?? signalType,
+        values: counts.map((count) => (mean === 0 ? 0 : Math.round((count / mean) * 100))),
+        baseline: 100,
+      })
+    }
+
+    return trends
+  })
+}
+
+/** Open `risk` signals within the partner scope and critical live anomalies, most confident first. */
+async function getPostgresFraudAlerts(partnerId?: string): Promise<FraudAlert[]> {
+  return withSpan(tracer, 'dashboardData.alerts', async () => {
+    const params: unknown[] = [...OPEN_STATUSES]
+    const statusList = OPEN_STATUSES.map((_, index) => `$${index + 1}`).join(', ')
+    const partnerClause = partnerId === undefined ? '' : ` AND partner_id = $${params.push(partnerId)}`
+    const [riskSignals, snapshot] = await Promise.all([
+      dbPool.query<RiskSignalRow>(
+        `SELECT id, partner_name, merchant_name, description, confidence, status
+           FROM partner_signals
+          WHERE signal_type = 'risk' AND status IN (${statusList})${partnerClause}
+          ORDER BY confidence DESC, submitted_at DESC
+          LIMIT ${MAX_ALERTS}`,
+        params,
+      ),
+      getLiveAnalyticsSnapshot().catch((error: unknown) => {
+        logger.warn({ err: error }, 'dashboard-live-anomalies-unavailable')
+        return null
+      }),
+    ])
+
+    const alerts: FraudAlert[] = riskSignals.rows.map((row) => ({
+      id: `signal-${row.id}`,
+      segment: `${row.merchant_name} (reported by ${row.partner_name})`,
+      anomaly: row.description,
+      confidence: Number(row.confidence),
+      recommendedAction: riskActions[row.status] ?? 'Review the signal in the partner signal queue.',
+    }))
+
+    for (const metric of snapshot?.metrics ?? []) {
+      if (metric.anomaly?.status !== 'critical') {
+        continue
+      }
+      alerts.push({
+        id: `live-${metric.id}`,
+        segment: `Live network: ${metric.label}`,
+        anomaly: metric.anomaly.message,
+        confidence: metric.anomaly.confidence,
+        recommendedAction:
+          `Check the ${metric.anomaly.detector} detector finding against the live history ` +
+          `and page the owner of ${liveMetricDefinitionById.get(metric.id)?.narrativeFocus ?? metric.label}.`,
+      })
+    }
+
+    return alerts.sort((left, right) => right.confidence - left.confidence).slice(0, MAX_ALERTS)
+  })
+}
+
+/** Seeded constants from `shared/data/mockData.ts`, kept for demos and offline development. */
+export const mockDashboardDataProvider: DashboardDataProvider = {
+  name: 'mock',
+  getPlatformKPIs,
+  getEcosystemTrends,
+  getGrowthOpportunities,
+  getFraudAlerts,
+  getWorkflowPlaybooks,
+}
+
+/** Computes KPIs, trends and alerts from Postgres; opportunities and playbooks are curated content and stay seeded. */
+export const postgresDashboardDataProvider: DashboardDataProvider = {
+  name: 'postgres',
+  getPlatformKPIs: getPostgresPlatformKPIs,
+  getEcosystemTrends: getPostgresEcosystemTrends,
+  getGrowthOpportunities,
+  getFraudAlerts: getPostgresFraudAlerts,
+  getWorkflowPlaybooks,
+}
+
+const providers: Record<DashboardDataProviderName, DashboardDataProvider> = {
+  mock: mockDashboardDataProvider,
+  postgres: postgresDashboardDataProvider,
+}
+
+export function resolveDashboardDataProvider(
+  name: string | undefined = process.env.DASHBOARD_DATA_PROVIDER,
+): DashboardDataProvider {
+  const key = (name ?? '').trim().toLowerCase() || 'postgres'
+  if (key in providers) {
+    return providers[key as DashboardDataProviderName]
+  }
+
+  logger.warn({ provider: name }, 'dashboard-data-provider-unknown')
+  return postgresDashboardDataProvider
+}
+
+export async function getDashboardSnapshot(
+  provider: DashboardDataProvider,
+  partnerId?: string,
+): Promise<DashboardSnapshot> {
+  const [kpis, trends, opportunities, alerts, playbooks] = await Promise.all([
+    provider.getPlatformKPIs(),
+    provider.getEcosystemTrends(),
+    provider.getGrowthOpportunities(),
+    provider.getFraudAlerts(partnerId),
+    provider.getWorkflowPlaybooks(),
+  ])
+
+  return { kpis, trends, opportunities, alerts, playbooks, generatedAt: new Date().toISOString() }
+}
+
+export function invalidatePartnerSignalDashboards(): Promise<void> {
+  return invalidateCacheTags(DASHBOARD_CACHE_NAMESPACE, [PARTNER_SIGNAL_CACHE_TAG])
+}
@@ -0,0 +1,72 @@
+import { Kafka, type Producer } from 'kafkajs'
+import { logger } from '../utils/logger.js'
+import { domainEventTypes, subscribeToDomainEvents } from './domainEvents.js'
+import { createKafkaConfig } from './liveAnalyticsKafka.js'
+
+const topic = process.env.DOMAIN_EVENTS_KAFKA_TOPIC?.trim() ?? ''
+const clientId = process.env.DOMAIN_EVENTS_KAFKA_CLIENT_ID ?? 'ecosystem-domain-events'
+
+let kafka: Kafka | null = null
+let producerPromise: Promise<Producer> | null = null
+let unsubscribe: (() => void) | null = null
+
+async function connectProducer(client: Kafka): Promise<Producer> {
+  const producer = client.producer({ idempotent: true, maxInFlightRequests: 1 })
+  await producer.connect()
+  return producer
+}
+
+async function getProducer(): Promise<Producer> {
+  if (!kafka) {
+    throw new Error('Domain event Kafka publisher is not started')
+  }
+
+  producerPromise ??= connectProducer(kafka).catch((error: unknown) => {
+    producerPromise = null
+    throw error
+  })
+  return producerPromise
+}
+
+/**
+ * Mirrors every domain event onto `DOMAIN_EVENTS_KAFKA_TOPIC`, keyed by signal id so per-signal ordering holds within
+ * a partition. Uses the live analytics broker settings; a no-op unless both the topic and brokers are configured.
+ */
+export function startDomainEventKafkaPublisher(): void {
+  if (!topic || unsubscribe) {
+    return
+  }
+
+  const config = createKafkaConfig(clientId)
+  if (!config) {
+    logger.warn({ topic }, 'domain-events-kafka-missing-brokers')
+    return
+  }
+
+  kafka = new Kafka(config)
+  unsubscribe = subscribeToDomainEvents('kafka-publisher', domainEventTypes, async (event) => {
+    const producer = await getProducer()
+    await producer.send({
+      topic,
+      messages: [
+        {
+          key: event.aggregateId,
+          value: JSON.stringify(event),
+          headers: { 'event-id': event.id, 'event-type': event.type },
+        },
+      ],
+    })
+  })
+}
+
+export async function stopDomainEventKafkaPublisher(): Promise<void> {
+  unsubscribe?.()
+  unsubscribe = null
+
+  const pending = producerPromise
+  producerPromise = null
+  kafka = null
+
+  const producer = await pending?.catch(() => null)
+  await producer?.disconnect()
+}
@@ -0,0 +1,248 @@
+import crypto from 'node:crypto'
+import type { PoolClient } from 'pg'
+import { trace } from '@opentelemetry/api'
+import type { DomainEvent, DomainEventPayloads, DomainEventType } from '../../shared/types/domain.js'
+import { dbPool } from '../db/client.js'
+import { toIsoString } from '../utils/dates.js'
+import { readPositiveInt } from '../utils/env.js'
+import { logger } from '../utils/logger.js'
+import { withSpan } from '../utils/tracing.js'
+
+const tracer = trace.getTracer('domain-events-service')
+
+const dispatcherEnabled = process.env.DOMAIN_EVENTS_ENABLED !== 'false'
+const pollIntervalMs = Math.max(250, readPositiveInt(process.env.DOMAIN_EVENTS_POLL_MS, 2_000))
+const maxAttempts = readPositiveInt(process.env.DOMAIN_EVENTS_MAX_ATTEMPTS, 8)
+const retryBaseMs = readPositiveInt(process.env.DOMAIN_EVENTS_RETRY_BASE_MS, 5_000)
+const retryMaxMs = readPositiveInt(process.env.DOMAIN_EVENTS_RETRY_MAX_MS, 600_000)
+const DISPATCH_BATCH_SIZE = 100
+const CLAIM_LEASE_MS = 60_000
+const MAX_ERROR_LENGTH = 500
+
+export type DomainEventStatus = 'pending' | 'dispatched' | 'failed'
+
+export const domainEventTypes: readonly DomainEventType[] = ['SignalCreated', 'SignalStatusChanged', 'ReviewerAssigned']
+
+export type DomainEventHandler<T extends DomainEventType> = (event: DomainEvent<T>) => Promise<void> | void
+
+type Subscriber = {
+  name: string
+  types: ReadonlySet<DomainEventType>
+  handler: (event: DomainEvent) => Promise<void> | void
+}
+
+type DomainEventRow = {
+  id: string
+  type: DomainEventType
+  aggregate_id: string
+  payload: DomainEventPayloads[DomainEventType]
+  status: DomainEventStatus
+  attempts: number
+  completed_subscribers: string[] | null
+  occurred_at: string | Date
+}
+
+export interface DomainEventDispatchResult {
+  attempted: number
+  dispatched: number
+  retrying: number
+  failed: number
+}
+
+const subscribers = new Map<string, Subscriber>()
+
+let dispatching: Promise<DomainEventDispatchResult> | null = null
+let queuedDispatch: Promise<DomainEventDispatchResult> | null = null
+let dispatchTimer: NodeJS.Timeout | null = null
+
+function mapEvent(row: DomainEventRow): DomainEvent {
+  return {
+    id: row.id,
+    type: row.type,
+    aggregateId: row.aggregate_id,
+    occurredAt: toIsoString(row.occurred_at),
+    payload: row.payload,
+  } as DomainEvent
+}
+
+export function domainEventRetryDelayMs(attempts: number): number {
+  return Math.min(retryMaxMs, retryBaseMs * 2 ** Math.max(0, attempts - 1))
+}
+
+/**
+ * Registers a named in-process subscriber. Names are recorded per event once the handler succeeds, so a retry only
+ * re-runs the subscribers that failed; handlers must still tolerate seeing an event twice.
+ */
+export function subscribeToDomainEvents<T extends DomainEventType>(
+  name: string,
+  types: readonly T[],
+  handler: DomainEventHandler<T>,
+): () => void {
+  if (subscribers.has(name)) {
+    throw new Error(`Domain event subscriber "${name}" is already registered`)
+  }
+
+  subscribers.set(name, {
+    name,
+    types: new Set<DomainEventType>(types),
+    handler: handler as Subscriber['handler'],
+  })
+  return () => {
+    subscribers.delete(name)
+  }
+}
+
+/**
+ * Appends an event to the `domain_events` outbox on the caller's transaction, so subscribers only ever hear about
+ * changes that committed.
+ */
+export async function recordDomainEvent<T extends DomainEventType>(
+  client: PoolClient,
+  type: T,
+  payload: DomainEventPayloads[T],
+): Promise<string> {
+  const id = crypto.randomUUID()
+  const occurredAt = new Date()
+  await client.query(
+    `INSERT INTO domain_events (id, type, aggregate_id, payload, next_attempt_at, occurred_at)
+    VALUES ($1, $2, $3, $4, $5, $6)`,
+    [id, type, payload.signal.id, JSON.stringify(payload), occurredAt, occurredAt],
+  )
+  return id
+}
+
+async function claimEvent(row: DomainEventRow, now: Date): Promise<boolean> {
+  // Same lease trick as the webhook outbox: a crashed dispatcher's claim lapses once next_attempt_at passes.
+  const result = await dbPool.query(
+    `UPDATE domain_events
+    SET attempts = attempts + 1, next_attempt_at = $2
+    WHERE id = $1 AND status = 'pending' AND attempts = $3`,
+    [row.id, new Date(now.getTime() + CLAIM_LEASE_MS), row.attempts],
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+async function deliverEvent(row: DomainEventRow, now: Date): Promise<DomainEventStatus | 'retrying'> {
+  const event = mapEvent(row)
+  const completed = [...(row.completed_subscribers ?? [])]
+  const errors: string[] = []
+
+  for (const subscriber of subscribers.values()) {
+    if (!subscriber.types.has(event.type) || completed.includes(subscriber.name)) {
+      continue
+    }
+
+    try {
+      await subscriber.handler(event)
+      completed.push(subscriber.name)
+    } catch (error) {
+      errors.push(`${subscriber.name}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  if (errors.length === 0) {
+    await dbPool.query(
+      `UPDATE domain_events
+      SET status = 'dispatched', completed_subscribers = $2, dispatched_at = $3,
+        next_attempt_at = NULL, last_error = NULL
+      WHERE id = $1`,
+      [row.id, JSON.stringify(completed), new Date()],
+    )
+    return 'dispatched'
+  }
+
+  const attempts = Number(row.attempts) + 1
+  const exhausted = attempts >= maxAttempts
+  await dbPool.query(
+    `UPDATE domain_events
+    SET status = $2, completed_subscribers = $3, next_attempt_at = $4, last_error = $5
+    WHERE id = $1`,
+    [
+      row.id,
+      exhausted ? 'failed' : 'pending',
+      JSON.stringify(completed),
+      exhausted ? null : new Date(now.getTime() + domainEventRetryDelayMs(attempts)),
+      errors.join('; ').slice(0, MAX_ERROR_LENGTH),
+    ],
+  )
+
+  if (exhausted) {
+    logger.warn({ eventId: row.id, type: row.type, attempts, errors }, 'domain-event-failed')
+    return 'failed'
+  }
+  return 'retrying'
+}
+
+async function runDispatch(now: Date): Promise<DomainEventDispatchResult> {
+  const result: DomainEventDispatchResult = { attempted: 0, dispatched: 0, retrying: 0, failed: 0 }
+  const due = await dbPool.query<DomainEventRow>(
+    `SELECT id, type, aggregate_id, payload, status, attempts, completed_subscribers, occurred_at
+    FROM domain_events
+    WHERE status = 'pending' AND next_attempt_at <= $1
+    ORDER BY occurred_at ASC, id ASC
+    LIMIT $2`,
+    [now, DISPATCH_BATCH_SIZE],
+  )
+
+  for (const row of due.rows) {
+    if (!(await claimEvent(row, now))) {
+      continue
+    }
+
+    result.attempted += 1
+    const outcome = await deliverEvent(row, now)
+    if (outcome === 'dispatched') {
+      result.dispatched += 1
+    } else if (outcome === 'failed') {
+      result.failed += 1
+    } else {
+      result.retrying += 1
+    }
+  }
+
+  return result
+}
+
+/**
+ * Hands every due outbox event to its subscribers. A call made while a run is in flight queues one follow-up run
+ * rather than joining the current one, so events committed just before the call are never skipped.
+ */
+export function dispatchDomainEvents(now?: Date): Promise<DomainEventDispatchResult> {
+  if (dispatching) {
+    queuedDispatch ??= dispatching
+      .catch(() => undefined)
+      .then(() => {
+        queuedDispatch = null
+        return dispatchDomainEvents(now)
+      })
+    return queuedDispatch
+  }
+
+  dispatching = withSpan(tracer, 'domainEvents.dispatch', () => runDispatch(now ?? new Date())).finally(() => {
+    dispatching = null
+  })
+  return dispatching
+}
+
+export function startDomainEventDispatcher(): void {
+  if (!dispatcherEnabled || dispatchTimer) {
+    return
+  }
+
+  dispatchTimer = setInterval(() => {
+    dispatchDomainEvents().catch((error: unknown) => {
+      logger.warn({ err: error }, 'domain-event-dispatch-failed')
+    })
+  }, pollIntervalMs)
+  dispatchTimer.unref()
+}
+
+export async function stopDomainEventDispatcher(): Promise<void> {
+  if (dispatchTimer) {
+    clearInterval(dispatchTimer)
+    dispatchTimer = null
+  }
+
+  await queuedDispatch?.catch(() => undefined)
+  await dispatching?.catch(() => undefined)
+}
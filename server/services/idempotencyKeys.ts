@@ -0,0 +1,210 @@
+import { dbPool } from '../db/client.js'
+import { readPositiveInt } from '../utils/env.js'
+import { logger } from '../utils/logger.js'
+import { getRedisClient } from '../utils/redis.js'
+
+const retentionMs = readPositiveInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS, 24) * 3_600_000
+const lockTimeoutMs = readPositiveInt(process.env.IDEMPOTENCY_KEY_LOCK_TIMEOUT_MS, 60_000)
+const purgeIntervalMs = readPositiveInt(process.env.IDEMPOTENCY_KEY_PURGE_MS, 3_600_000)
+const isTestEnvironment = process.env.NODE_ENV === 'test'
+const REDIS_PREFIX = 'idempotency'
+
+export interface IdempotentResponse {
+  status: number
+  body: unknown
+  /** Response headers a client relies on, such as `location` and `etag`, replayed along with the body. */
+  headers: Record<string, string>
+}
+
+export type IdempotencyClaim =
+  | { outcome: 'claimed' }
+  | { outcome: 'replay'; response: IdempotentResponse }
+  | { outcome: 'mismatch' }
+  | { outcome: 'in_progress' }
+
+type IdempotencyKeyRow = {
+  fingerprint: string
+  status: 'in_progress' | 'completed'
+  response_status: number | null
+  response_body: unknown
+  response_headers: Record<string, string> | null
+  locked_at: string | Date
+  expires_at: string | Date
+}
+
+type CachedResponse = IdempotentResponse & { fingerprint: string }
+
+let purgeTimer: NodeJS.Timeout | null = null
+
+function redisKey(scope: string, key: string): string {
+  return `${REDIS_PREFIX}:${scope}:${key}`
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505'
+}
+
+async function readCachedResponse(scope: string, key: string): Promise<CachedResponse | null> {
+  const redis = getRedisClient()
+  if (!redis) {
+    return null
+  }
+
+  try {
+    const cached = await redis.get(redisKey(scope, key))
+    return cached ? (JSON.parse(cached) as CachedResponse) : null
+  } catch (error) {
+    logger.warn({ err: error }, 'idempotency-redis-read-failed')
+    return null
+  }
+}
+
+async function writeCachedResponse(scope: string, key: string, entry: CachedResponse, ttlMs: number): Promise<void> {
+  const redis = getRedisClient()
+  if (!redis) {
+    return
+  }
+
+  try {
+    await redis.set(redisKey(scope, key), JSON.stringify(entry), 'PX', ttlMs)
+  } catch (error) {
+    logger.warn({ err: error }, 'idempotency-redis-write-failed')
+  }
+}
+
+function resolveExisting(row: IdempotencyKeyRow, fingerprint: string): IdempotencyClaim | null {
+  if (row.fingerprint !== fingerprint) {
+    return { outcome: 'mismatch' }
+  }
+
+  if (row.status === 'completed' && row.response_status !== null) {
+    return {
+      outcome: 'replay',
+      response: { status: Number(row.response_status), body: row.response_body, headers: row.response_headers ?? {} },
+    }
+  }
+
+  return null
+}
+
+/**
+ * Reserves `key` for one request. Completed keys replay their stored response, a different request body under the
+ * same key is a mismatch, and a key still being processed is reported as in progress until its lock times out.
+ */
+export async function claimIdempotencyKey(
+  scope: string,
+  key: string,
+  fingerprint: string,
+  now = new Date(),
+): Promise<IdempotencyClaim> {
+  const cached = await readCachedResponse(scope, key)
+  if (cached) {
+    return cached.fingerprint === fingerprint
+      ? { outcome: 'replay', response: { status: cached.status, body: cached.body, headers: cached.headers ?? {} } }
+      : { outcome: 'mismatch' }
+  }
+
+  // Expired keys are dead weight; clearing this one first lets the insert below take it over.
+  await dbPool.query('DELETE FROM idempotency_keys WHERE scope = $1 AND idempotency_key = $2 AND expires_at <= $3', [
+    scope,
+    key,
+    now,
+  ])
+
+  try {
+    await dbPool.query(
+      `INSERT INTO idempotency_keys (scope, idempotency_key, fingerprint, status, locked_at, created_at, expires_at)
+      VALUES ($1, $2, $3, 'in_progress', $4, $4, $5)`,
+      [scope, key, fingerprint, now, new Date(now.getTime() + retentionMs)],
+    )
+    return { outcome: 'claimed' }
+  } catch (error) {
+    if (!isUniqueViolation(error)) {
+      throw error
+    }
+  }
+
+  const existing = await dbPool.query<IdempotencyKeyRow>(
+    `SELECT fingerprint, status, response_status, response_body, response_headers, locked_at, expires_at
+    FROM idempotency_keys
+    WHERE scope = $1 AND idempotency_key = $2`,
+    [scope, key],
+  )
+  const row = existing.rows[0]
+  if (!row) {
+    return { outcome: 'in_progress' }
+  }
+
+  const resolved = resolveExisting(row, fingerprint)
+  if (resolved) {
+    return resolved
+  }
+
+  // The request holding the lock never finished (crash or lost connection); let this retry take it over.
+  const takeover = await dbPool.query(
+    `UPDATE idempotency_keys
+    SET locked_at = $3
+    WHERE scope = $1 AND idempotency_key = $2 AND status = 'in_progress' AND locked_at <= $4`,
+    [scope, key, now, new Date(now.getTime() - lockTimeoutMs)],
+  )
+  return (takeover.rowCount ?? 0) > 0 ? { outcome: 'claimed' } : { outcome: 'in_progress' }
+}
+
+export async function completeIdempotencyKey(
+  scope: string,
+  key: string,
+  fingerprint: string,
+  response: IdempotentResponse,
+): Promise<void> {
+  const result = await dbPool.query<{ expires_at: string | Date }>(
+    `UPDATE idempotency_keys
+    SET status = 'completed', response_status = $3, response_body = $4, response_headers = $5
+    WHERE scope = $1 AND idempotency_key = $2
+    RETURNING expires_at`,
+    [
+      scope,
+      key,
+      response.status,
+      response.body === undefined ? null : JSON.stringify(response.body),
+      JSON.stringify(response.headers),
+    ],
+  )
+
+  const expiresAt = result.rows[0] ? new Date(result.rows[0].expires_at).getTime() : 0
+  if (expiresAt > Date.now()) {
+    await writeCachedResponse(scope, key, { ...response, fingerprint }, expiresAt - Date.now())
+  }
+}
+
+/** Drops an in-progress claim so the client can retry, e.g. after a 5xx that should not be replayed. */
+export async function releaseIdempotencyKey(scope: string, key: string): Promise<void> {
+  await dbPool.query(
+    `DELETE FROM idempotency_keys WHERE scope = $1 AND idempotency_key = $2 AND status = 'in_progress'`,
+    [scope, key],
+  )
+}
+
+export async function purgeExpiredIdempotencyKeys(now = new Date()): Promise<number> {
+  const result = await dbPool.query('DELETE FROM idempotency_keys WHERE expires_at <= $1', [now])
+  return result.rowCount ?? 0
+}
+
+export function startIdempotencyKeyPurge(): void {
+  if (isTestEnvironment || purgeTimer) {
+    return
+  }
+
+  purgeTimer = setInterval(() => {
+    purgeExpiredIdempotencyKeys().catch((error: unknown) => {
+      logger.warn({ err: error }, 'idempotency-purge-failed')
+    })
+  }, purgeIntervalMs)
+  purgeTimer.unref()
+}
+
+export function stopIdempotencyKeyPurge(): void {
+  if (purgeTimer) {
+    clearInterval(purgeTimer)
+    purgeTimer = null
+  }
+}
@@ -1,11 +1,13 @@
 import { createRemoteJWKSet, jwtVerify, type JWTPayload } from 'jose'
-import type { ReviewerRole } from '../../shared/types/domain.js'
+import { parseAccessRoles, toReviewerRole } from '../../shared/data/permissions.js'
+import type { AccessRole } from '../../shared/types/domain.js'
 import { logger } from '../utils/logger.js'
 
 interface VerifiedIdentity {
   id: string
   name: string
-  role: ReviewerRole
+  roles: AccessRole[]
+  partnerId: string | null
 }
 
 const ENABLED = process.env.ENABLE_IDP_INTEGRATION === 'true'
@@ -16,7 +18,14 @@ const ROLE_CLAIM = process.env.IDP_ROLE_CLAIM ?? 'role'
 const USER_ID_CLAIM = process.env.IDP_USER_ID_CLAIM ?? 'sub'
 const USER_NAME_CLAIM = process.env.IDP_USER_NAME_CLAIM ?? 'name'
 const GROUPS_CLAIM = process.env.IDP_GROUPS_CLAIM ?? 'groups'
-const MODERATOR_GROUPS = parseCsv(process.env.IDP_MODERATOR_GROUPS)
+const PARTNER_ID_CLAIM = process.env.IDP_PARTNER_ID_CLAIM ?? 'partner_id'
+const ROLE_GROUPS: Record<AccessRole, string[]> = {
+  'partner-submitter': parseCsv(process.env.IDP_PARTNER_SUBMITTER_GROUPS),
+  reviewer: [...parseCsv(process.env.IDP_REVIEWER_GROUPS), ...parseCsv(process.env.IDP_MODERATOR_GROUPS)],
+  'senior-reviewer': parseCsv(process.env.IDP_SENIOR_REVIEWER_GROUPS),
+  admin: parseCsv(process.env.IDP_ADMIN_GROUPS),
+  auditor: parseCsv(process.env.IDP_AUDITOR_GROUPS),
+}
 const JWKS_ROTATE_MS = Math.max(60_000, (Number.parseInt(process.env.IDP_JWKS_ROTATE_MINUTES ?? '60', 10) || 60) * 60_000)
 
 let remoteJwks: ReturnType<typeof createRemoteJWKSet> | null = null
@@ -56,17 +65,21 @@ function mapPayloadToIdentity(payload: JWTPayload): VerifiedIdentity | null {
     return null
   }
 
-  const explicitRole = parseRole(readClaim(payload, ROLE_CLAIM))
+  const explicitRoles = parseAccessRoles(normalizeToArray(readClaim(payload, ROLE_CLAIM)))
   const groups = normalizeToArray(readClaim(payload, GROUPS_CLAIM))
-  const isModerator = groups.some((group) => MODERATOR_GROUPS.includes(group))
-  const role: ReviewerRole = explicitRole ?? (isModerator ? 'colleague' : 'merchant')
+  const groupRoles = (Object.keys(ROLE_GROUPS) as AccessRole[]).filter((role) =>
+    groups.some((group) => ROLE_GROUPS[role].includes(group)),
+  )
+  const mapped = [...new Set([...explicitRoles, ...groupRoles])]
+  const roles: AccessRole[] = mapped.length > 0 ? mapped : ['partner-submitter']
 
-  const name = readStringClaim(payload, USER_NAME_CLAIM) ?? buildDisplayName(role)
+  const name = readStringClaim(payload, USER_NAME_CLAIM) ?? buildDisplayName(roles)
 
   return {
     id,
     name,
-    role,
+    roles,
+    partnerId: readStringClaim(payload, PARTNER_ID_CLAIM),
   }
 }
 
@@ -129,22 +142,6 @@ function normalizeToArray(value: unknown): string[] {
   return []
 }
 
-function parseRole(value: unknown): ReviewerRole | null {
-  if (typeof value !== 'string') {
-    return null
-  }
-
-  const normalized = value.toLowerCase()
-  if (normalized.includes('colleague') || normalized.includes('moderator')) {
-    return 'colleague'
-  }
-  if (normalized.includes('merchant')) {
-    return 'merchant'
-  }
-
-  return null
-}
-
 function parseCsv(value: string | undefined): string[] {
   if (!value) {
     return []
@@ -156,6 +153,6 @@ function parseCsv(value: string | undefined): string[] {
     .filter(Boolean)
 }
 
-function buildDisplayName(role: ReviewerRole): string {
-  return role === 'colleague' ? 'AMEX Colleague' : 'Merchant Partner'
+function buildDisplayName(roles: AccessRole[]): string {
+  return toReviewerRole(roles) === 'colleague' ? 'AMEX Colleague' : 'Merchant Partner'
 }
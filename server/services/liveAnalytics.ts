@@ -1,34 +1,54 @@
-import { readFile } from 'node:fs/promises'
+import { readFile, stat } from 'node:fs/promises'
 import path from 'node:path'
 import { fileURLToPath } from 'node:url'
 import { logger } from '../utils/logger.js'
 import {
   composeNarrative,
-  evaluateAnomaly,
   resolveDirection,
 } from './liveAnalyticsShared.js'
+import { detectAnomaly } from './liveAnalyticsDetectors.js'
 import type {
+  LiveAnalyticsQuery,
   LiveAnalyticsSnapshot,
   LiveMetric,
+  LiveMetricGroup,
   LiveMetricTrendPoint,
 } from '../../shared/types/domain.js'
-import { liveMetricCatalog } from '../../shared/data/liveAnalytics.js'
+import { liveMetricCatalog, type LiveMetricMetadata } from '../../shared/data/liveAnalytics.js'
 import { generateSyntheticSnapshot } from './liveAnalyticsSynthetic.js'
 import { getKafkaStreamEvents, isKafkaLiveAnalyticsEnabled } from './liveAnalyticsKafka.js'
 import { normalizeRawEvent } from './liveAnalyticsNormalizer.js'
 import type { RawStreamEvent, StreamEvent } from './liveAnalyticsTypes.js'
+import {
+  aggregateSeries,
+  collectDimensionValues,
+  defaultLiveAnalyticsQuery,
+  emptyDimensionValues,
+  hasDimensions,
+  liveAnalyticsQueryKey,
+  matchesDimensionFilters,
+} from './liveAnalyticsDimensions.js'
 
 const dirname = path.dirname(fileURLToPath(import.meta.url))
 const TREND_POINTS = 10
 const DEFAULT_WINDOW_SECONDS = 120
 const CACHE_TTL_MS = 3_000
+const MAX_CACHED_QUERIES = 50
 const STREAM_PATH = process.env.LIVE_ANALYTICS_STREAM_PATH ?? path.resolve(dirname, '../../storage/live-analytics-stream.ndjson')
 const STREAM_URL = process.env.LIVE_ANALYTICS_STREAM_URL
 const STREAM_POLL_MS = Math.max(2_000, (Number.parseInt(process.env.LIVE_ANALYTICS_STREAM_POLL_SECONDS ?? '', 10) || 15) * 1000)
 
-let cache: { loadedAt: number; snapshot: LiveAnalyticsSnapshot | null } = {
-  loadedAt: 0,
-  snapshot: null,
+export interface ResolvedLiveAnalyticsSnapshot {
+  fingerprint: string
+  snapshot: LiveAnalyticsSnapshot
+}
+
+const cache = new Map<string, ResolvedLiveAnalyticsSnapshot>()
+const sourceListeners = new Set<(events: StreamEvent[]) => void>()
+
+let fileStreamCache: { signature: string; events: StreamEvent[] } = {
+  signature: '',
+  events: [],
 }
 
 let remoteStreamCache: { loadedAt: number; events: StreamEvent[] } = {
@@ -36,16 +56,60 @@ let remoteStreamCache: { loadedAt: number; events: StreamEvent[] } = {
   events: [],
 }
 
-export async function getLiveAnalyticsSnapshot(): Promise<LiveAnalyticsSnapshot> {
-  const now = Date.now()
-  if (cache.snapshot && now - cache.loadedAt < CACHE_TTL_MS) {
-    return cache.snapshot
+export function onLiveAnalyticsSourceEvents(listener: (events: StreamEvent[]) => void): () => void {
+  sourceListeners.add(listener)
+  return () => {
+    sourceListeners.delete(listener)
+  }
+}
+
+function notifySourceListeners(events: StreamEvent[]): void {
+  for (const listener of sourceListeners) {
+    listener(events)
   }
+}
+
+export async function getLiveAnalyticsSnapshot(
+  query: LiveAnalyticsQuery = defaultLiveAnalyticsQuery,
+): Promise<LiveAnalyticsSnapshot> {
+  return (await resolveLiveAnalyticsSnapshot(query)).snapshot
+}
 
+export async function resolveLiveAnalyticsSnapshot(
+  query: LiveAnalyticsQuery = defaultLiveAnalyticsQuery,
+): Promise<ResolvedLiveAnalyticsSnapshot> {
+  const now = Date.now()
   const events = await loadStreamEvents()
-  const snapshot = buildSnapshot(events, now)
-  cache = { loadedAt: now, snapshot }
-  return snapshot
+  const fingerprint = events.length > 0 ? fingerprintEvents(events) : `synthetic:${Math.floor(now / CACHE_TTL_MS)}`
+  const key = liveAnalyticsQueryKey(query)
+
+  const cached = cache.get(key)
+  if (cached && cached.fingerprint === fingerprint) {
+    return cached
+  }
+
+  const resolved = { fingerprint, snapshot: buildSnapshot(events, now, query) }
+  cache.delete(key)
+  cache.set(key, resolved)
+  if (cache.size > MAX_CACHED_QUERIES) {
+    const oldest = cache.keys().next().value
+    if (oldest !== undefined) {
+      cache.delete(oldest)
+    }
+  }
+
+  return resolved
+}
+
+function fingerprintEvents(events: StreamEvent[]): string {
+  let latest = 0
+  let total = 0
+  for (const event of events) {
+    latest = Math.max(latest, event.timestamp)
+    total += event.value
+  }
+
+  return `events:${events.length}:${latest}:${Math.round(total * 100)}`
 }
 
 async function loadStreamEvents(): Promise<StreamEvent[]> {
@@ -82,6 +146,7 @@ async function loadStreamEvents(): Promise<StreamEvent[]> {
       const events = parseStreamPayload(text)
       if (events.length > 0) {
         remoteStreamCache = { loadedAt: now, events }
+        notifySourceListeners(events)
         return events
       }
     } catch (error) {
@@ -90,11 +155,22 @@ async function loadStreamEvents(): Promise<StreamEvent[]> {
   }
 
   try {
+    const stats = await stat(STREAM_PATH)
+    const signature = `${stats.mtimeMs}:${stats.size}`
+    if (signature === fileStreamCache.signature) {
+      return fileStreamCache.events
+    }
+
     const raw = await readFile(STREAM_PATH, 'utf8')
     const events = parseStreamPayload(raw)
+    fileStreamCache = { signature, events }
+    notifySourceListeners(events)
     return events
   } catch (error) {
-  logger.warn({ err: error }, 'live-analytics-stream-read-failed')
+    if (fileStreamCache.signature !== 'unavailable') {
+      logger.warn({ err: error }, 'live-analytics-stream-read-failed')
+    }
+    fileStreamCache = { signature: 'unavailable', events: [] }
     return []
   }
 }
@@ -138,17 +214,67 @@ function safeJsonParse(line: string): RawStreamEvent | null {
   }
 }
 
-function buildSnapshot(events: StreamEvent[], now: number): LiveAnalyticsSnapshot {
+function buildSnapshot(events: StreamEvent[], now: number, query: LiveAnalyticsQuery): LiveAnalyticsSnapshot {
   const windowSeconds = Number.parseInt(process.env.LIVE_ANALYTICS_WINDOW_SECONDS ?? '', 10) || DEFAULT_WINDOW_SECONDS
   const fallback = generateSyntheticSnapshot(windowSeconds)
-  const fallbackById = new Map<string, LiveMetric>(
-    fallback.metrics.map((metric: LiveMetric) => [metric.id, metric] as const),
-  )
 
   if (events.length === 0) {
-    return fallback
+    return { ...fallback, filters: query.filters, groupBy: query.groupBy }
+  }
+
+  const filtered = hasDimensions(query.filters)
+  const scoped = filtered ? events.filter((event) => matchesDimensionFilters(event, query.filters)) : events
+  const fallbackById = filtered
+    ? null
+    : new Map<string, LiveMetric>(fallback.metrics.map((metric: LiveMetric) => [metric.id, metric] as const))
+  const summary = buildMetrics(scoped, now, windowSeconds, fallbackById)
+
+  const groups: LiveMetricGroup[] = []
+  if (query.groupBy) {
+    const dimension = query.groupBy
+    const values = [...new Set(scoped.map((event) => event.dimensions?.[dimension]))]
+      .filter((value): value is string => value !== undefined)
+      .sort()
+
+    for (const value of values) {
+      const members = scoped.filter((event) => event.dimensions?.[dimension] === value)
+      groups.push({ dimension, value, metrics: buildMetrics(members, now, windowSeconds, null).metrics })
+    }
+  }
+
+  const generatedAt = summary.latest > 0 ? new Date(summary.latest).toISOString() : fallback.generatedAt
+  const derivedWindow =
+    summary.latest > 0 ? Math.max(1, Math.round((summary.latest - summary.earliest) / 1000)) : fallback.windowSeconds
+
+  return {
+    generatedAt,
+    windowSeconds: derivedWindow,
+    metrics: summary.metrics,
+    narrative: composeNarrative(summary.metrics),
+    filters: query.filters,
+    groupBy: query.groupBy,
+    groups,
+    dimensions: events.some((event) => hasDimensions(event.dimensions))
+      ? collectDimensionValues(events)
+      : emptyDimensionValues(),
+  }
+}
+
+function selectMetricSeries(events: StreamEvent[], metadata: LiveMetricMetadata): StreamEvent[] {
+  const untagged = events.filter((event) => !hasDimensions(event.dimensions))
+  if (untagged.length > 0) {
+    return untagged.sort((a, b) => a.timestamp - b.timestamp)
   }
 
+  return aggregateSeries(events, metadata.aggregation)
+}
+
+function buildMetrics(
+  events: StreamEvent[],
+  now: number,
+  windowSeconds: number,
+  fallbackById: Map<string, LiveMetric> | null,
+): { metrics: LiveMetric[]; latest: number; earliest: number } {
   const grouped = new Map<string, StreamEvent[]>()
   for (const event of events) {
     const bucket = grouped.get(event.metricId)
@@ -165,10 +291,10 @@ function buildSnapshot(events: StreamEvent[], now: number): LiveAnalyticsSnapsho
   const metrics = liveMetricCatalog.map<LiveMetric>((metadata) => {
     const group = grouped.get(metadata.id)
     if (!group || group.length === 0) {
-      return fallbackById.get(metadata.id)!
+      return fallbackById?.get(metadata.id) ?? buildNoDataMetric(metadata)
     }
 
-    const sorted = group.sort((a, b) => a.timestamp - b.timestamp)
+    const sorted = selectMetricSeries(group, metadata)
     const latestTimestamp = sorted.at(-1)!.timestamp
     const windowStart = latestTimestamp - windowSeconds * 1000
     const clipped = sorted.filter((event) => event.timestamp >= windowStart)
@@ -191,7 +317,7 @@ function buildSnapshot(events: StreamEvent[], now: number): LiveAnalyticsSnapsho
     }))
 
     const thresholds = metadata.thresholds
-    const anomaly = evaluateAnomaly(latestValue, thresholds)
+    const anomaly = detectAnomaly(metadata, sorted)
 
     return {
       id: metadata.id,
@@ -207,14 +333,20 @@ function buildSnapshot(events: StreamEvent[], now: number): LiveAnalyticsSnapsho
     }
   })
 
-  const generatedAt = globalLatest > 0 ? new Date(globalLatest).toISOString() : fallback.generatedAt
-  const derivedWindow = globalLatest > 0 ? Math.max(1, Math.round((globalLatest - globalEarliest) / 1000)) : fallback.windowSeconds
-  const narrative = composeNarrative(metrics)
+  return { metrics, latest: globalLatest, earliest: globalEarliest }
+}
 
+function buildNoDataMetric(metadata: LiveMetricMetadata): LiveMetric {
   return {
-    generatedAt,
-    windowSeconds: derivedWindow,
-    metrics,
-    narrative,
+    id: metadata.id,
+    label: metadata.label,
+    unit: metadata.unit,
+    format: metadata.format,
+    value: 0,
+    delta: 0,
+    direction: 'steady',
+    trend: [],
+    thresholds: metadata.thresholds,
+    anomaly: null,
   }
-}
\ No newline at end of file
+}
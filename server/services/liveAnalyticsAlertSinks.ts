@@ -0,0 +1,182 @@
+import nodemailer from 'nodemailer'
+import type SMTPTransport from 'nodemailer/lib/smtp-transport/index.js'
+import { Counter } from 'prom-client'
+import { fetch } from 'undici'
+import { liveMetricMetadataById } from '../../shared/data/liveAnalytics.js'
+import type { LiveAlertNotification, LiveAlertSink } from '../../shared/types/domain.js'
+import { metricsRegistry } from '../metrics/registry.js'
+import { readPositiveInt } from '../utils/env.js'
+import { publicAddressDispatcher, resolvesToPrivateAddress } from '../utils/network.js'
+import { formatNumber } from './liveAnalyticsShared.js'
+
+type LiveAlertSinkType = LiveAlertSink['type']
+
+export type LiveAlertSinkSender<T extends LiveAlertSinkType = LiveAlertSinkType> = (
+  sink: Extract<LiveAlertSink, { type: T }>,
+  notifications: LiveAlertNotification[],
+) => Promise<void>
+
+type SinkRegistry = { [T in LiveAlertSinkType]: LiveAlertSinkSender<T> }
+
+const httpTimeoutMs = readPositiveInt(process.env.ALERTS_HTTP_TIMEOUT_MS, 5_000)
+const allowPrivateUrls = process.env.NODE_ENV === 'development' || process.env.ALERTS_ALLOW_PRIVATE_URLS === 'true'
+
+const notificationCounter = new Counter({
+  name: 'live_alert_notifications_total',
+  help: 'Live metric alert notifications dispatched, by sink type and outcome',
+  labelNames: ['sink', 'outcome'] as const,
+  registers: [metricsRegistry],
+})
+
+const kindLabels: Record<LiveAlertNotification['kind'], string> = {
+  firing: 'FIRING',
+  escalated: 'ESCALATED',
+  reminder: 'STILL FIRING',
+  resolved: 'RESOLVED',
+}
+
+function readSmtpConfig(): (SMTPTransport.Options & { from: string }) | null {
+  const host = process.env.ALERTS_SMTP_HOST
+  if (!host) {
+    return null
+  }
+
+  const secure = process.env.ALERTS_SMTP_SECURE === 'true'
+  const user = process.env.ALERTS_SMTP_USER || undefined
+  return {
+    host,
+    port: readPositiveInt(process.env.ALERTS_SMTP_PORT, secure ? 465 : 587),
+    secure,
+    requireTLS: process.env.ALERTS_SMTP_STARTTLS === 'true',
+    auth: user ? { user, pass: process.env.ALERTS_SMTP_PASSWORD ?? '' } : undefined,
+    from: process.env.ALERTS_SMTP_FROM ?? 'alerts@localhost',
+    connectionTimeout: httpTimeoutMs,
+    greetingTimeout: httpTimeoutMs,
+    socketTimeout: httpTimeoutMs,
+  }
+}
+
+function describeScope(notification: LiveAlertNotification): string {
+  const entries = Object.entries(notification.alert.filters)
+  return entries.length > 0 ? ` [${entries.map(([key, value]) => `${key}=${value}`).join(', ')}]` : ''
+}
+
+export function formatLiveAlertLine(notification: LiveAlertNotification): string {
+  const { alert } = notification
+  const metadata = liveMetricMetadataById.get(alert.metricId)
+  const value = `${formatNumber(alert.value)} ${metadata?.unit ?? ''}`.trim()
+  const severity = notification.kind === 'resolved' ? '' : ` ${alert.severity.toUpperCase()}`
+
+  return (
+    `[${kindLabels[notification.kind]}${severity}] ${alert.ruleName}: ${metadata?.label ?? alert.metricId}` +
+    `${describeScope(notification)} at ${value} — ${alert.message}`
+  )
+}
+
+export function formatLiveAlertSummary(notifications: LiveAlertNotification[]): string {
+  const counts = new Map<string, number>()
+  for (const notification of notifications) {
+    const label = notification.kind === 'resolved' ? 'resolved' : 'firing'
+    counts.set(label, (counts.get(label) ?? 0) + 1)
+  }
+
+  return `Live metric alerts: ${[...counts].map(([label, count]) => `${count} ${label}`).join(', ')}`
+}
+
+/** Stable identity for a sink so breaches routed to the same destination share one message. */
+export function liveAlertSinkKey(sink: LiveAlertSink): string {
+  if (sink.type === 'email') {
+    return `email:${[...sink.to].map((address) => address.toLowerCase()).sort().join(',')}`
+  }
+
+  return sink.type === 'slack' ? `slack:${sink.url}#${sink.channel ?? ''}` : `webhook:${sink.url}`
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  // Rules are validated when saved, but a public name can be re-pointed at an internal address since.
+  if (!allowPrivateUrls && (await resolvesToPrivateAddress(new URL(url).hostname))) {
+    throw new Error('Alert sink resolves to a private address')
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    redirect: 'manual',
+    dispatcher: allowPrivateUrls ? undefined : publicAddressDispatcher,
+    headers: { ...headers, 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(httpTimeoutMs),
+  })
+  await response.body?.cancel()
+
+  if (!response.ok) {
+    throw new Error(`Alert sink responded with ${response.status}`)
+  }
+}
+
+const webhookSender: LiveAlertSinkSender<'webhook'> = (sink, notifications) =>
+  postJson(
+    sink.url,
+    {
+      summary: formatLiveAlertSummary(notifications),
+      notifications: notifications.map(({ kind, alert }) => ({ kind, ...alert })),
+      sentAt: new Date().toISOString(),
+    },
+    sink.headers,
+  )
+
+const slackSender: LiveAlertSinkSender<'slack'> = (sink, notifications) =>
+  postJson(sink.url, {
+    ...(sink.channel ? { channel: sink.channel } : {}),
+    text: [`*${formatLiveAlertSummary(notifications)}*`, ...notifications.map(formatLiveAlertLine)].join('\n'),
+  })
+
+const emailSender: LiveAlertSinkSender<'email'> = async (sink, notifications) => {
+  const config = readSmtpConfig()
+  if (!config) {
+    throw new Error('ALERTS_SMTP_HOST is not configured')
+  }
+
+  const { from, ...options } = config
+  const transport = nodemailer.createTransport(options)
+  try {
+    await transport.sendMail({
+      from,
+      to: sink.to,
+      subject: formatLiveAlertSummary(notifications),
+      text: notifications.map(formatLiveAlertLine).join('\n'),
+    })
+  } finally {
+    transport.close()
+  }
+}
+
+const registry: SinkRegistry = {
+  webhook: webhookSender,
+  slack: slackSender,
+  email: emailSender,
+}
+
+export function registerLiveAlertSink<T extends LiveAlertSinkType>(
+  type: T,
+  sender: LiveAlertSinkSender<T>,
+): () => void {
+  const previous = registry[type]
+  Object.assign(registry, { [type]: sender })
+  return () => {
+    Object.assign(registry, { [type]: previous })
+  }
+}
+
+export async function dispatchLiveAlertNotifications(
+  sink: LiveAlertSink,
+  notifications: LiveAlertNotification[],
+): Promise<void> {
+  const sender = registry[sink.type] as LiveAlertSinkSender
+  try {
+    await sender(sink as never, notifications)
+    notificationCounter.inc({ sink: sink.type, outcome: 'sent' }, notifications.length)
+  } catch (error) {
+    notificationCounter.inc({ sink: sink.type, outcome: 'failed' }, notifications.length)
+    throw error
+  }
+}
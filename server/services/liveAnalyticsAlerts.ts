@@ -0,0 +1,566 @@
+import crypto from 'node:crypto'
+import type { PoolClient } from 'pg'
+import { trace } from '@opentelemetry/api'
+import type {
+  LiveAlert,
+  LiveAlertNotification,
+  LiveAlertRule,
+  LiveAlertRuleInput,
+  LiveAlertSeverity,
+  LiveAlertSink,
+  LiveAlertStatus,
+  LiveAnomalyDetectorKind,
+  LiveDimensions,
+  LiveMetric,
+  LiveMetricAnomaly,
+} from '../../shared/types/domain.js'
+import { dbPool } from '../db/client.js'
+import { toIsoString } from '../utils/dates.js'
+import { readPositiveInt } from '../utils/env.js'
+import { logger } from '../utils/logger.js'
+import { withSpan } from '../utils/tracing.js'
+import { resolveLiveAnalyticsSnapshot } from './liveAnalytics.js'
+import { dispatchLiveAlertNotifications, liveAlertSinkKey } from './liveAnalyticsAlertSinks.js'
+import { liveAnalyticsQueryKey } from './liveAnalyticsDimensions.js'
+import { onKafkaStreamEvents } from './liveAnalyticsKafka.js'
+
+const tracer = trace.getTracer('live-analytics-alerts')
+
+const severityRank: Record<LiveMetricAnomaly['status'], number> = {
+  ok: 0,
+  warning: 1,
+  critical: 2,
+}
+
+const alertsEnabled = process.env.ALERTS_ENABLED !== 'false'
+const evaluationIntervalMs = Math.max(1_000, readPositiveInt(process.env.ALERTS_EVALUATION_INTERVAL_MS, 15_000))
+const EVENT_DEBOUNCE_MS = 1_000
+
+const RULE_COLUMNS = `id,
+  name,
+  metric_id,
+  min_severity,
+  filters,
+  sinks,
+  repeat_interval_seconds,
+  enabled,
+  created_by,
+  created_at,
+  updated_at`
+
+const ALERT_COLUMNS = `a.id,
+  a.rule_id,
+  r.name AS rule_name,
+  r.filters,
+  a.metric_id,
+  a.status,
+  a.severity,
+  a.value,
+  a.threshold_value,
+  a.message,
+  a.detector,
+  a.occurrences,
+  a.started_at,
+  a.last_seen_at,
+  a.last_notified_at,
+  a.acknowledged_at,
+  a.acknowledged_by,
+  a.resolved_at`
+
+type LiveAlertRuleRow = {
+  id: string
+  name: string
+  metric_id: string
+  min_severity: LiveAlertSeverity
+  filters: LiveDimensions | null
+  sinks: LiveAlertSink[] | null
+  repeat_interval_seconds: number
+  enabled: boolean
+  created_by: string
+  created_at: string | Date
+  updated_at: string | Date
+}
+
+type LiveAlertRow = {
+  id: string
+  rule_id: string
+  rule_name: string
+  filters: LiveDimensions | null
+  metric_id: string
+  status: LiveAlertStatus
+  severity: LiveAlertSeverity
+  value: number
+  threshold_value: number | null
+  message: string
+  detector: LiveAnomalyDetectorKind
+  occurrences: number
+  started_at: string | Date
+  last_seen_at: string | Date
+  last_notified_at: string | Date | null
+  acknowledged_at: string | Date | null
+  acknowledged_by: string | null
+  resolved_at: string | Date | null
+}
+
+export interface LiveAlertListOptions {
+  status?: LiveAlertStatus
+  ruleId?: string
+  limit?: number
+}
+
+export interface LiveAlertEvaluationResult {
+  evaluated: number
+  fired: number
+  resolved: number
+  notified: number
+}
+
+export class LiveAlertStateError extends Error {
+  readonly currentStatus: LiveAlertStatus
+
+  constructor(currentStatus: LiveAlertStatus) {
+    super(`Cannot acknowledge an alert that is ${currentStatus}`)
+    this.name = 'LiveAlertStateError'
+    this.currentStatus = currentStatus
+  }
+}
+
+let evaluating: Promise<LiveAlertEvaluationResult> | null = null
+let evaluationTimer: NodeJS.Timeout | null = null
+let debounceTimer: NodeJS.Timeout | null = null
+let detachKafka: (() => void) | null = null
+
+function toNullableIsoString(value: string | Date | null): string | null {
+  return value === null ? null : toIsoString(value)
+}
+
+function mapRule(row: LiveAlertRuleRow): LiveAlertRule {
+  return {
+    id: row.id,
+    name: row.name,
+    metricId: row.metric_id,
+    minSeverity: row.min_severity,
+    filters: row.filters ?? {},
+    sinks: row.sinks ?? [],
+    repeatIntervalSeconds: Number(row.repeat_interval_seconds),
+    enabled: row.enabled,
+    createdBy: row.created_by,
+    createdAt: toIsoString(row.created_at),
+    updatedAt: toIsoString(row.updated_at),
+  }
+}
+
+function mapAlert(row: LiveAlertRow): LiveAlert {
+  return {
+    id: row.id,
+    ruleId: row.rule_id,
+    ruleName: row.rule_name,
+    metricId: row.metric_id,
+    filters: row.filters ?? {},
+    status: row.status,
+    severity: row.severity,
+    value: Number(row.value),
+    thresholdValue: row.threshold_value === null ? null : Number(row.threshold_value),
+    message: row.message,
+    detector: row.detector,
+    occurrences: Number(row.occurrences),
+    startedAt: toIsoString(row.started_at),
+    lastSeenAt: toIsoString(row.last_seen_at),
+    lastNotifiedAt: toNullableIsoString(row.last_notified_at),
+    acknowledgedAt: toNullableIsoString(row.acknowledged_at),
+    acknowledgedBy: row.acknowledged_by,
+    resolvedAt: toNullableIsoString(row.resolved_at),
+  }
+}
+
+export async function listLiveAlertRules(): Promise<LiveAlertRule[]> {
+  const result = await dbPool.query<LiveAlertRuleRow>(
+    `SELECT ${RULE_COLUMNS} FROM live_alert_rules ORDER BY created_at ASC, id ASC`,
+  )
+  return result.rows.map(mapRule)
+}
+
+export async function getLiveAlertRule(id: string): Promise<LiveAlertRule | null> {
+  const result = await dbPool.query<LiveAlertRuleRow>(`SELECT ${RULE_COLUMNS} FROM live_alert_rules WHERE id = $1`, [
+    id,
+  ])
+  return result.rows[0] ? mapRule(result.rows[0]) : null
+}
+
+export async function createLiveAlertRule(input: LiveAlertRuleInput, createdBy: string): Promise<LiveAlertRule> {
+  return withSpan(tracer, 'liveAlerts.createRule', async () => {
+    const result = await dbPool.query<LiveAlertRuleRow>(
+      `INSERT INTO live_alert_rules (
+        id, name, metric_id, min_severity, filters, sinks, repeat_interval_seconds, enabled, created_by,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
+      RETURNING ${RULE_COLUMNS}`,
+      [
+        crypto.randomUUID(),
+        input.name,
+        input.metricId,
+        input.minSeverity,
+        JSON.stringify(input.filters),
+        JSON.stringify(input.sinks),
+        input.repeatIntervalSeconds,
+        input.enabled,
+        createdBy,
+      ],
+    )
+    return mapRule(result.rows[0])
+  })
+}
+
+export async function updateLiveAlertRule(
+  id: string,
+  changes: Partial<LiveAlertRuleInput>,
+): Promise<LiveAlertRule | null> {
+  return withSpan(tracer, 'liveAlerts.updateRule', async () => {
+    const existing = await getLiveAlertRule(id)
+    if (!existing) {
+      return null
+    }
+
+    const next = { ...existing, ...changes }
+    const result = await dbPool.query<LiveAlertRuleRow>(
+      `UPDATE live_alert_rules
+      SET name = $2,
+        metric_id = $3,
+        min_severity = $4,
+        filters = $5,
+        sinks = $6,
+        repeat_interval_seconds = $7,
+        enabled = $8,
+        updated_at = NOW()
+      WHERE id = $1
+      RETURNING ${RULE_COLUMNS}`,
+      [
+        id,
+        next.name,
+        next.metricId,
+        next.minSeverity,
+        JSON.stringify(next.filters),
+        JSON.stringify(next.sinks),
+        next.repeatIntervalSeconds,
+        next.enabled,
+      ],
+    )
+    return result.rows[0] ? mapRule(result.rows[0]) : null
+  })
+}
+
+export async function deleteLiveAlertRule(id: string): Promise<boolean> {
+  const result = await dbPool.query('DELETE FROM live_alert_rules WHERE id = $1', [id])
+  return (result.rowCount ?? 0) > 0
+}
+
+export async function listLiveAlerts(options: LiveAlertListOptions = {}): Promise<LiveAlert[]> {
+  const conditions: string[] = []
+  const values: unknown[] = []
+  if (options.status) {
+    values.push(options.status)
+    conditions.push(`a.status = $${values.length}`)
+  }
+  if (options.ruleId) {
+    values.push(options.ruleId)
+    conditions.push(`a.rule_id = $${values.length}`)
+  }
+  values.push(options.limit ?? 50)
+
+  const result = await dbPool.query<LiveAlertRow>(
+    `SELECT ${ALERT_COLUMNS}
+    FROM live_alerts a
+    JOIN live_alert_rules r ON r.id = a.rule_id
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY a.started_at DESC, a.id DESC
+    LIMIT $${values.length}`,
+    values,
+  )
+  return result.rows.map(mapAlert)
+}
+
+async function selectAlert(client: PoolClient | typeof dbPool, id: string): Promise<LiveAlert | null> {
+  const result = await client.query<LiveAlertRow>(
+    `SELECT ${ALERT_COLUMNS} FROM live_alerts a JOIN live_alert_rules r ON r.id = a.rule_id WHERE a.id = $1`,
+    [id],
+  )
+  return result.rows[0] ? mapAlert(result.rows[0]) : null
+}
+
+export async function getLiveAlert(id: string): Promise<LiveAlert | null> {
+  return selectAlert(dbPool, id)
+}
+
+export async function acknowledgeLiveAlert(id: string, acknowledgedBy: string): Promise<LiveAlert | null> {
+  return withSpan(tracer, 'liveAlerts.acknowledge', async () => {
+    const alert = await getLiveAlert(id)
+    if (!alert || alert.status === 'acknowledged') {
+      return alert
+    }
+    if (alert.status !== 'firing') {
+      throw new LiveAlertStateError(alert.status)
+    }
+
+    await dbPool.query(
+      `UPDATE live_alerts
+      SET status = 'acknowledged', acknowledged_at = NOW(), acknowledged_by = $2
+      WHERE id = $1 AND status = 'firing'`,
+      [id, acknowledgedBy],
+    )
+    return getLiveAlert(id)
+  })
+}
+
+function breachSeverity(metric: LiveMetric | undefined, rule: LiveAlertRule): LiveAlertSeverity | null {
+  const status = metric?.anomaly?.status
+  if (!status || status === 'ok' || severityRank[status] < severityRank[rule.minSeverity]) {
+    return null
+  }
+  return status
+}
+
+interface PendingNotification extends LiveAlertNotification {
+  sinks: LiveAlertSink[]
+}
+
+async function applyRule(
+  client: PoolClient,
+  rule: LiveAlertRule,
+  metric: LiveMetric | undefined,
+  open: LiveAlert | undefined,
+  now: Date,
+): Promise<PendingNotification | null> {
+  const severity = breachSeverity(metric, rule)
+
+  if (!severity || !metric?.anomaly) {
+    if (!open) {
+      return null
+    }
+    await client.query(`UPDATE live_alerts SET status = 'resolved', resolved_at = $2 WHERE id = $1`, [open.id, now])
+    const resolved = await selectAlert(client, open.id)
+    return resolved ? { kind: 'resolved', alert: resolved, sinks: rule.sinks } : null
+  }
+
+  const { anomaly } = metric
+  if (!open) {
+    const id = crypto.randomUUID()
+    await client.query(
+      `INSERT INTO live_alerts (
+        id, rule_id, metric_id, status, severity, value, threshold_value, message, detector, occurrences,
+        started_at, last_seen_at
+      ) VALUES ($1, $2, $3, 'firing', $4, $5, $6, $7, $8, 1, $9, $9)`,
+      [
+        id,
+        rule.id,
+        rule.metricId,
+        severity,
+        metric.value,
+        anomaly.thresholdValue ?? null,
+        anomaly.message,
+        anomaly.detector,
+        now,
+      ],
+    )
+    const created = await selectAlert(client, id)
+    return created ? { kind: 'firing', alert: created, sinks: rule.sinks } : null
+  }
+
+  const escalated = severityRank[severity] > severityRank[open.severity]
+  await client.query(
+    `UPDATE live_alerts
+    SET severity = $2,
+      value = $3,
+      threshold_value = $4,
+      message = $5,
+      detector = $6,
+      occurrences = occurrences + 1,
+      last_seen_at = $7,
+      status = $8
+    WHERE id = $1`,
+    [
+      open.id,
+      severity,
+      metric.value,
+      anomaly.thresholdValue ?? null,
+      anomaly.message,
+      anomaly.detector,
+      now,
+      escalated ? 'firing' : open.status,
+    ],
+  )
+  const updated = await selectAlert(client, open.id)
+  if (!updated) {
+    return null
+  }
+
+  if (escalated) {
+    return { kind: 'escalated', alert: updated, sinks: rule.sinks }
+  }
+  if (updated.status !== 'firing') {
+    return null
+  }
+  if (!updated.lastNotifiedAt) {
+    return { kind: 'firing', alert: updated, sinks: rule.sinks }
+  }
+  if (now.getTime() - Date.parse(updated.lastNotifiedAt) >= rule.repeatIntervalSeconds * 1000) {
+    return { kind: 'reminder', alert: updated, sinks: rule.sinks }
+  }
+  return null
+}
+
+async function dispatch(pending: PendingNotification[], now: Date): Promise<number> {
+  const groups = new Map<string, { sink: LiveAlertSink; notifications: LiveAlertNotification[] }>()
+  for (const { sinks, ...notification } of pending) {
+    for (const sink of sinks) {
+      const key = liveAlertSinkKey(sink)
+      const group = groups.get(key) ?? { sink, notifications: [] }
+      group.notifications.push(notification)
+      groups.set(key, group)
+    }
+  }
+
+  const delivered = new Set<string>()
+  await Promise.all(
+    [...groups.values()].map(async ({ sink, notifications }) => {
+      try {
+        await dispatchLiveAlertNotifications(sink, notifications)
+        for (const notification of notifications) {
+          delivered.add(notification.alert.id)
+        }
+      } catch (error) {
+        logger.warn({ err: error, sink: sink.type, alerts: notifications.length }, 'live-alert-dispatch-failed')
+      }
+    }),
+  )
+
+  if (delivered.size > 0) {
+    const ids = [...delivered]
+    await dbPool.query(
+      `UPDATE live_alerts SET last_notified_at = $1 WHERE id IN (${ids.map((_, index) => `$${index + 2}`).join(',')})`,
+      [now, ...ids],
+    )
+  }
+  return delivered.size
+}
+
+async function runEvaluation(now: Date): Promise<LiveAlertEvaluationResult> {
+  const rules = (await listLiveAlertRules()).filter((rule) => rule.enabled)
+  const result: LiveAlertEvaluationResult = { evaluated: 0, fired: 0, resolved: 0, notified: 0 }
+  if (rules.length === 0) {
+    return result
+  }
+
+  const snapshots = new Map<string, Awaited<ReturnType<typeof resolveLiveAnalyticsSnapshot>>>()
+  for (const rule of rules) {
+    const query = { filters: rule.filters, groupBy: null }
+    const key = liveAnalyticsQueryKey(query)
+    if (!snapshots.has(key)) {
+      snapshots.set(key, await resolveLiveAnalyticsSnapshot(query))
+    }
+  }
+
+  const pending: PendingNotification[] = []
+  const client = await dbPool.connect()
+  try {
+    await client.query('BEGIN')
+    const open = await client.query<LiveAlertRow>(
+      `SELECT ${ALERT_COLUMNS}
+      FROM live_alerts a
+      JOIN live_alert_rules r ON r.id = a.rule_id
+      WHERE a.status <> 'resolved'`,
+    )
+    const openByRule = new Map(open.rows.map((row) => [row.rule_id, mapAlert(row)]))
+
+    for (const rule of rules) {
+      const resolved = snapshots.get(liveAnalyticsQueryKey({ filters: rule.filters, groupBy: null }))
+      // Synthetic fallback data must never page anyone; leave alert state untouched until real events arrive.
+      if (!resolved || resolved.fingerprint.startsWith('synthetic:')) {
+        continue
+      }
+
+      result.evaluated += 1
+      const metric = resolved.snapshot.metrics.find((entry) => entry.id === rule.metricId)
+      const notification = await applyRule(client, rule, metric, openByRule.get(rule.id), now)
+      if (notification) {
+        result.fired += notification.kind === 'firing' && notification.alert.occurrences === 1 ? 1 : 0
+        result.resolved += notification.kind === 'resolved' ? 1 : 0
+        pending.push(notification)
+      }
+    }
+
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+
+  result.notified = pending.length > 0 ? await dispatch(pending, now) : 0
+  return result
+}
+
+/**
+ * Evaluates every enabled rule against the current live snapshot for its filters. One alert stays open
+ * per rule while the metric is in breach, so repeated breaches only bump its occurrence count; notifications
+ * bound for the same sink in a single pass are grouped into one message.
+ */
+export function evaluateLiveAlertRules(now = new Date()): Promise<LiveAlertEvaluationResult> {
+  if (evaluating) {
+    return evaluating
+  }
+
+  evaluating = withSpan(tracer, 'liveAlerts.evaluate', () => runEvaluation(now)).finally(() => {
+    evaluating = null
+  })
+  return evaluating
+}
+
+async function runScheduledEvaluation(): Promise<void> {
+  try {
+    const result = await evaluateLiveAlertRules()
+    if (result.fired > 0 || result.resolved > 0) {
+      logger.info(result, 'live-alerts-evaluated')
+    }
+  } catch (error) {
+    logger.warn({ err: error }, 'live-alerts-evaluation-failed')
+  }
+}
+
+export function startLiveAlertEvaluator(): void {
+  if (!alertsEnabled || evaluationTimer) {
+    return
+  }
+
+  detachKafka = onKafkaStreamEvents(() => {
+    if (debounceTimer) {
+      return
+    }
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null
+      void runScheduledEvaluation()
+    }, EVENT_DEBOUNCE_MS)
+    debounceTimer.unref()
+  })
+
+  evaluationTimer = setInterval(() => {
+    void runScheduledEvaluation()
+  }, evaluationIntervalMs)
+  evaluationTimer.unref()
+}
+
+export async function stopLiveAlertEvaluator(): Promise<void> {
+  detachKafka?.()
+  detachKafka = null
+
+  if (debounceTimer) {
+    clearTimeout(debounceTimer)
+    debounceTimer = null
+  }
+  if (evaluationTimer) {
+    clearInterval(evaluationTimer)
+    evaluationTimer = null
+  }
+
+  await evaluating?.catch(() => undefined)
+}
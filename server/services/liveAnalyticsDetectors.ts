@@ -0,0 +1,262 @@
+import type { LiveMetricMetadata } from '../../shared/data/liveAnalytics.js'
+import type {
+  LiveAnomalyDetectorConfig,
+  LiveAnomalyDetectorKind,
+  LiveMetricAnomaly,
+  LiveMetricThresholds,
+} from '../../shared/types/domain.js'
+import { evaluateAnomaly, formatNumber, roundMagnitude } from './liveAnalyticsShared.js'
+
+export interface DetectorPoint {
+  timestamp: number
+  value: number
+}
+
+export interface DetectorInput {
+  value: number
+  timestamp: number
+  history: DetectorPoint[]
+  thresholds?: LiveMetricThresholds
+  unit: string
+}
+
+export type LiveAnomalyDetector<K extends LiveAnomalyDetectorKind = LiveAnomalyDetectorKind> = (
+  input: DetectorInput,
+  config: Extract<LiveAnomalyDetectorConfig, { kind: K }>,
+) => LiveMetricAnomaly | null
+
+type DetectorRegistry = { [K in LiveAnomalyDetectorKind]: LiveAnomalyDetector<K> }
+
+const MIN_DEVIATION = 1e-6
+const SEASONAL_PERIOD_MS = { day: 86_400_000, week: 604_800_000 } as const
+const statusRank = { ok: 0, warning: 1, critical: 2 } as const
+
+interface Band {
+  center: number
+  warning: number
+  critical: number
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function standardDeviation(values: number[], average: number): number {
+  if (values.length < 2) {
+    return 0
+  }
+
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1)
+  return Math.sqrt(variance)
+}
+
+// Abramowitz-Stegun approximation, accurate to ~1e-7.
+function erf(value: number): number {
+  const sign = value < 0 ? -1 : 1
+  const x = Math.abs(value)
+  const t = 1 / (1 + 0.3275911 * x)
+  const polynomial = ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t
+  return sign * (1 - polynomial * Math.exp(-x * x))
+}
+
+function roundConfidence(value: number): number {
+  return Math.round(Math.min(1, Math.max(0, value)) * 100) / 100
+}
+
+function classifyAgainstBand(
+  input: DetectorInput,
+  detector: LiveAnomalyDetectorKind,
+  band: Band,
+  score: number,
+  describe: (direction: 'above' | 'below') => string,
+  confidence: number,
+): LiveMetricAnomaly {
+  const { value } = input
+  const expectedBand = {
+    lower: Math.round((band.center - band.warning) * 100) / 100,
+    upper: Math.round((band.center + band.warning) * 100) / 100,
+  }
+  const breachedThreshold = value >= band.center ? 'upper' : 'lower'
+  const sign = breachedThreshold === 'upper' ? 1 : -1
+  const criticalEdge = band.center + sign * band.critical
+  const warningEdge = band.center + sign * band.warning
+  const direction = breachedThreshold === 'upper' ? 'above' : 'below'
+
+  if (Math.abs(value - band.center) >= band.critical) {
+    return {
+      status: 'critical',
+      breachedThreshold,
+      thresholdValue: Math.round(criticalEdge * 100) / 100,
+      message: describe(direction),
+      magnitude: roundMagnitude(value - criticalEdge),
+      detector,
+      expectedBand,
+      confidence: roundConfidence(confidence),
+    }
+  }
+
+  if (Math.abs(value - band.center) >= band.warning) {
+    return {
+      status: 'warning',
+      breachedThreshold,
+      thresholdValue: Math.round(warningEdge * 100) / 100,
+      message: describe(direction),
+      magnitude: roundMagnitude(value - warningEdge),
+      detector,
+      expectedBand,
+      confidence: roundConfidence(confidence),
+    }
+  }
+
+  return {
+    status: 'ok',
+    breachedThreshold: undefined,
+    thresholdValue: Math.round(warningEdge * 100) / 100,
+    message: `Within expected band (${formatNumber(expectedBand.lower)}–${formatNumber(expectedBand.upper)})`,
+    magnitude: roundMagnitude(warningEdge - value),
+    detector,
+    expectedBand,
+    confidence: roundConfidence(confidence * (1 - score / 2)),
+  }
+}
+
+const staticDetector: LiveAnomalyDetector<'static'> = (input) => evaluateAnomaly(input.value, input.thresholds)
+
+const zScoreDetector: LiveAnomalyDetector<'zscore'> = (input, config) => {
+  const sample = input.history.slice(-config.window).map((point) => point.value)
+  if (sample.length < config.minSamples) {
+    return null
+  }
+
+  const average = mean(sample)
+  const deviation = Math.max(standardDeviation(sample, average), Math.abs(average) * 0.001, MIN_DEVIATION)
+  const z = (input.value - average) / deviation
+  const sampleWeight = Math.min(1, sample.length / config.window)
+  const breached = Math.abs(z) >= config.warningZ
+
+  return classifyAgainstBand(
+    input,
+    'zscore',
+    { center: average, warning: config.warningZ * deviation, critical: config.criticalZ * deviation },
+    Math.min(1, Math.abs(z) / config.warningZ),
+    (direction) => `${Math.abs(z).toFixed(1)}σ ${direction} rolling mean (${formatNumber(average)})`,
+    sampleWeight * (breached ? erf(Math.abs(z) / Math.SQRT2) : 1),
+  )
+}
+
+const ewmaDetector: LiveAnomalyDetector<'ewma'> = (input, config) => {
+  if (input.history.length < config.minSamples) {
+    return null
+  }
+
+  let average = input.history[0].value
+  let variance = 0
+  for (const point of input.history.slice(1)) {
+    const difference = point.value - average
+    average += config.alpha * difference
+    variance = (1 - config.alpha) * (variance + config.alpha * difference ** 2)
+  }
+
+  const deviation = Math.max(Math.sqrt(variance), Math.abs(average) * 0.001, MIN_DEVIATION)
+  const sigma = (input.value - average) / deviation
+  const sampleWeight = Math.min(1, input.history.length / (config.minSamples * 2))
+  const breached = Math.abs(sigma) >= config.warningSigma
+
+  return classifyAgainstBand(
+    input,
+    'ewma',
+    { center: average, warning: config.warningSigma * deviation, critical: config.criticalSigma * deviation },
+    Math.min(1, Math.abs(sigma) / config.warningSigma),
+    (direction) => `${Math.abs(sigma).toFixed(1)}σ ${direction} EWMA control band (${formatNumber(average)})`,
+    sampleWeight * (breached ? erf(Math.abs(sigma) / Math.SQRT2) : 1),
+  )
+}
+
+const seasonalDetector: LiveAnomalyDetector<'seasonal'> = (input, config) => {
+  const toleranceMs = config.toleranceSeconds * 1000
+  const references: number[] = []
+
+  for (const period of config.periods) {
+    const target = input.timestamp - SEASONAL_PERIOD_MS[period]
+    let closest: DetectorPoint | null = null
+    for (const point of input.history) {
+      const gap = Math.abs(point.timestamp - target)
+      if (gap <= toleranceMs && (!closest || gap < Math.abs(closest.timestamp - target))) {
+        closest = point
+      }
+    }
+    if (closest) {
+      references.push(closest.value)
+    }
+  }
+
+  if (references.length === 0) {
+    return null
+  }
+
+  const expected = mean(references)
+  const scale = Math.max(Math.abs(expected), MIN_DEVIATION)
+  const ratio = (input.value - expected) / scale
+
+  return classifyAgainstBand(
+    input,
+    'seasonal',
+    { center: expected, warning: config.warningRatio * scale, critical: config.criticalRatio * scale },
+    Math.min(1, Math.abs(ratio) / config.warningRatio),
+    (direction) => {
+      const baseline = `${formatNumber(expected)} ${input.unit}`.trim()
+      return `${Math.round(Math.abs(ratio) * 100)}% ${direction} seasonal baseline (${baseline})`
+    },
+    references.length / config.periods.length,
+  )
+}
+
+const registry: DetectorRegistry = {
+  static: staticDetector,
+  zscore: zScoreDetector,
+  ewma: ewmaDetector,
+  seasonal: seasonalDetector,
+}
+
+export function registerLiveAnomalyDetector<K extends LiveAnomalyDetectorKind>(
+  kind: K,
+  detector: LiveAnomalyDetector<K>,
+): () => void {
+  const previous = registry[kind]
+  Object.assign(registry, { [kind]: detector })
+  return () => {
+    Object.assign(registry, { [kind]: previous })
+  }
+}
+
+function runDetector(config: LiveAnomalyDetectorConfig, input: DetectorInput): LiveMetricAnomaly | null {
+  const detector = registry[config.kind] as LiveAnomalyDetector
+  return detector(input, config as never)
+}
+
+/**
+ * Runs the detector configured for the metric against the latest point of a sorted series. Static
+ * thresholds stay in force as guardrails: they answer when the statistical detector lacks history and
+ * win whenever they report a more severe status.
+ */
+export function detectAnomaly(metadata: LiveMetricMetadata, points: DetectorPoint[]): LiveMetricAnomaly {
+  const latest = points.at(-1)
+  const guardrail = evaluateAnomaly(latest?.value ?? 0, metadata.thresholds)
+  if (!latest || metadata.detector.kind === 'static') {
+    return guardrail
+  }
+
+  const detected = runDetector(metadata.detector, {
+    value: latest.value,
+    timestamp: latest.timestamp,
+    history: points.slice(0, -1),
+    thresholds: metadata.thresholds,
+    unit: metadata.unit,
+  })
+
+  if (!detected || statusRank[guardrail.status] > statusRank[detected.status]) {
+    return guardrail
+  }
+
+  return detected
+}
@@ -0,0 +1,90 @@
+import { liveDimensionKeys } from '../../shared/data/liveAnalytics.js'
+import type { LiveAnalyticsQuery, LiveDimensionKey, LiveDimensions } from '../../shared/types/domain.js'
+import type { StreamEvent } from './liveAnalyticsTypes.js'
+
+const BUCKET_MS = Math.max(1, Number.parseInt(process.env.LIVE_ANALYTICS_BUCKET_SECONDS ?? '', 10) || 5) * 1000
+const MAX_DIMENSION_VALUES = 50
+
+export const defaultLiveAnalyticsQuery: LiveAnalyticsQuery = { filters: {}, groupBy: null }
+
+export function hasDimensions(dimensions: LiveDimensions | undefined): dimensions is LiveDimensions {
+  return dimensions !== undefined && liveDimensionKeys.some((key) => dimensions[key] !== undefined)
+}
+
+export function liveAnalyticsQueryKey(query: LiveAnalyticsQuery): string {
+  const filters = liveDimensionKeys
+    .filter((key) => query.filters[key] !== undefined)
+    .map((key) => `${key}=${query.filters[key]}`)
+  return `${filters.join('&')}|${query.groupBy ?? ''}`
+}
+
+export function streamEventSeriesKey(event: StreamEvent): string {
+  if (!hasDimensions(event.dimensions)) {
+    return event.metricId
+  }
+
+  const tags = liveDimensionKeys
+    .filter((key) => event.dimensions?.[key] !== undefined)
+    .map((key) => `${key}=${event.dimensions?.[key]}`)
+  return `${event.metricId}|${tags.join('|')}`
+}
+
+export function matchesDimensionFilters(event: StreamEvent, filters: LiveDimensions): boolean {
+  return liveDimensionKeys.every((key) => filters[key] === undefined || event.dimensions?.[key] === filters[key])
+}
+
+export function collectDimensionValues(events: StreamEvent[]): Record<LiveDimensionKey, string[]> {
+  const values = Object.fromEntries(liveDimensionKeys.map((key) => [key, new Set<string>()])) as Record<
+    LiveDimensionKey,
+    Set<string>
+  >
+
+  for (const event of events) {
+    for (const key of liveDimensionKeys) {
+      const value = event.dimensions?.[key]
+      if (value !== undefined) {
+        values[key].add(value)
+      }
+    }
+  }
+
+  return Object.fromEntries(
+    liveDimensionKeys.map((key) => [key, [...values[key]].sort().slice(0, MAX_DIMENSION_VALUES)]),
+  ) as Record<LiveDimensionKey, string[]>
+}
+
+export function emptyDimensionValues(): Record<LiveDimensionKey, string[]> {
+  return { region: [], merchantCategory: [], partnerId: [] }
+}
+
+/**
+ * Collapses several tagged series of one metric into a single series. Each bucket carries forward the
+ * latest reading of every series seen so far, so a partition that skips a bucket does not dip the total.
+ */
+export function aggregateSeries(events: StreamEvent[], aggregation: 'sum' | 'mean'): StreamEvent[] {
+  const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp)
+  const latestBySeries = new Map<string, number>()
+  const aggregated: StreamEvent[] = []
+
+  let index = 0
+  while (index < sorted.length) {
+    const bucket = Math.floor(sorted[index].timestamp / BUCKET_MS)
+    let timestamp = sorted[index].timestamp
+
+    while (index < sorted.length && Math.floor(sorted[index].timestamp / BUCKET_MS) === bucket) {
+      latestBySeries.set(streamEventSeriesKey(sorted[index]), sorted[index].value)
+      timestamp = sorted[index].timestamp
+      index += 1
+    }
+
+    const values = [...latestBySeries.values()]
+    const total = values.reduce((sum, value) => sum + value, 0)
+    aggregated.push({
+      metricId: sorted[0].metricId,
+      timestamp,
+      value: aggregation === 'sum' ? total : total / values.length,
+    })
+  }
+
+  return aggregated
+}
@@ -0,0 +1,566 @@
+import crypto from 'node:crypto'
+import type { PoolClient } from 'pg'
+import { trace } from '@opentelemetry/api'
+import { liveDimensionKeys, liveMetricMetadataById } from '../../shared/data/liveAnalytics.js'
+import type {
+  LiveAnalyticsHistory,
+  LiveAnalyticsHistoryPoint,
+  LiveAnalyticsResolution,
+  LiveDimensionKey,
+  LiveDimensions,
+} from '../../shared/types/domain.js'
+import { dbPool } from '../db/client.js'
+import { toIsoString } from '../utils/dates.js'
+import { readPositiveInt } from '../utils/env.js'
+import { logger } from '../utils/logger.js'
+import { withSpan } from '../utils/tracing.js'
+import { onLiveAnalyticsSourceEvents } from './liveAnalytics.js'
+import { aggregateSeries, hasDimensions, streamEventSeriesKey } from './liveAnalyticsDimensions.js'
+import { onKafkaStreamEvents } from './liveAnalyticsKafka.js'
+import type { StreamEvent } from './liveAnalyticsTypes.js'
+
+const tracer = trace.getTracer('live-analytics-history')
+
+type RollupResolution = Exclude<LiveAnalyticsResolution, 'raw'>
+
+const HOUR_MS = 3_600_000
+const DAY_MS = 24 * HOUR_MS
+const ROLLUP_BUCKET_MS: Record<RollupResolution, number> = { '1m': 60_000, '5m': 300_000, '1h': HOUR_MS }
+const INSERT_CHUNK_SIZE = 100
+const MAX_HISTORY_POINTS = 2_000
+const MAX_PENDING_EVENTS = 20_000
+const DEFAULT_HISTORY_SPAN_MS = 6 * HOUR_MS
+const RETENTION_INTERVAL_MS = 15 * 60_000
+
+const persistenceEnabled = process.env.LIVE_ANALYTICS_PERSISTENCE !== 'false'
+const flushIntervalMs = Math.max(250, readPositiveInt(process.env.LIVE_ANALYTICS_PERSIST_FLUSH_MS, 2_000))
+const flushBatchSize = readPositiveInt(process.env.LIVE_ANALYTICS_PERSIST_BATCH_SIZE, 500)
+const retentionMs: Record<LiveAnalyticsResolution, number> = {
+  raw: readPositiveInt(process.env.LIVE_ANALYTICS_RETENTION_RAW_HOURS, 48) * HOUR_MS,
+  '1m': readPositiveInt(process.env.LIVE_ANALYTICS_RETENTION_1M_DAYS, 7) * DAY_MS,
+  '5m': readPositiveInt(process.env.LIVE_ANALYTICS_RETENTION_5M_DAYS, 30) * DAY_MS,
+  '1h': readPositiveInt(process.env.LIVE_ANALYTICS_RETENTION_1H_DAYS, 400) * DAY_MS,
+}
+
+const dimensionColumns: Record<LiveDimensionKey, string> = {
+  region: 'region',
+  merchantCategory: 'merchant_category',
+  partnerId: 'partner_id',
+}
+
+type LiveEventRow = {
+  series_key: string
+  value: number
+  recorded_at: string | Date
+}
+
+type LiveRollupRow = {
+  series_key: string
+  bucket_start: string | Date
+  sample_count: number
+  value_sum: number
+  value_min: number
+  value_max: number
+}
+
+interface PendingRollup {
+  resolution: RollupResolution
+  seriesKey: string
+  bucketStart: number
+  event: StreamEvent
+  count: number
+  sum: number
+  min: number
+  max: number
+  last: number
+  lastAt: number
+}
+
+export interface LiveAnalyticsHistoryOptions {
+  metricId: string
+  from?: string
+  to?: string
+  resolution?: LiveAnalyticsResolution
+  filters?: LiveDimensions
+}
+
+export interface LiveAnalyticsRetentionResult {
+  events: number
+  rollups: number
+}
+
+export class LiveAnalyticsHistoryRangeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LiveAnalyticsHistoryRangeError'
+  }
+}
+
+const pending: StreamEvent[] = []
+let flushing: Promise<number> | null = null
+let flushTimer: NodeJS.Timeout | null = null
+let retentionTimer: NodeJS.Timeout | null = null
+let detachSources: Array<() => void> = []
+
+function eventId(event: StreamEvent): string {
+  return crypto.createHash('sha1').update(`${streamEventSeriesKey(event)}@${event.timestamp}`).digest('hex')
+}
+
+function placeholders(count: number, offset = 0): string {
+  return Array.from({ length: count }, (_, index) => `$${offset + index + 1}`).join(',')
+}
+
+export function recordLiveAnalyticsEvents(events: StreamEvent[]): void {
+  pending.push(...events)
+  if (pending.length > MAX_PENDING_EVENTS) {
+    const dropped = pending.splice(0, pending.length - MAX_PENDING_EVENTS)
+    logger.warn({ dropped: dropped.length }, 'live-analytics-history-backlog-trimmed')
+  }
+
+  if (pending.length >= flushBatchSize) {
+    void flushLiveAnalyticsEvents()
+  }
+}
+
+export function flushLiveAnalyticsEvents(): Promise<number> {
+  if (flushing) {
+    return flushing
+  }
+
+  flushing = (async () => {
+    let persisted = 0
+    try {
+      while (pending.length > 0) {
+        const batch = pending.splice(0, flushBatchSize)
+        try {
+          persisted += await persistBatch(batch)
+        } catch (error) {
+          pending.unshift(...batch)
+          logger.warn({ err: error, pending: pending.length }, 'live-analytics-history-flush-failed')
+          break
+        }
+      }
+    } finally {
+      flushing = null
+    }
+    return persisted
+  })()
+
+  return flushing
+}
+
+async function persistBatch(batch: StreamEvent[]): Promise<number> {
+  const byId = new Map<string, StreamEvent>()
+  for (const event of batch) {
+    byId.set(eventId(event), event)
+  }
+  if (byId.size === 0) {
+    return 0
+  }
+
+  return withSpan(tracer, 'liveAnalyticsHistory.persist', async () => {
+    const client = await dbPool.connect()
+    try {
+      await client.query('BEGIN')
+
+      const ids = [...byId.keys()]
+      const existing = await client.query<{ id: string }>(
+        `SELECT id FROM live_analytics_events WHERE id IN (${placeholders(ids.length)})`,
+        ids,
+      )
+      for (const row of existing.rows) {
+        byId.delete(row.id)
+      }
+
+      const inserted = await insertEvents(client, [...byId.entries()])
+      await upsertRollups(client, inserted)
+
+      await client.query('COMMIT')
+      return inserted.length
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  })
+}
+
+async function insertEvents(client: PoolClient, entries: Array<[string, StreamEvent]>): Promise<StreamEvent[]> {
+  const ingestedAt = new Date().toISOString()
+  const inserted: StreamEvent[] = []
+
+  for (let index = 0; index < entries.length; index += INSERT_CHUNK_SIZE) {
+    const chunk = entries.slice(index, index + INSERT_CHUNK_SIZE)
+    const values: unknown[] = []
+    const rows = chunk.map(([id, event]) => {
+      const offset = values.length
+      values.push(
+        id,
+        event.metricId,
+        streamEventSeriesKey(event),
+        event.dimensions?.region ?? null,
+        event.dimensions?.merchantCategory ?? null,
+        event.dimensions?.partnerId ?? null,
+        event.value,
+        new Date(event.timestamp).toISOString(),
+        ingestedAt,
+      )
+      return `(${placeholders(9, offset)})`
+    })
+
+    const result = await client.query<{ id: string }>(
+      `INSERT INTO live_analytics_events (
+        id,
+        metric_id,
+        series_key,
+        region,
+        merchant_category,
+        partner_id,
+        value,
+        recorded_at,
+        ingested_at
+      ) VALUES ${rows.join(',')}
+      ON CONFLICT (id) DO NOTHING
+      RETURNING id`,
+      values,
+    )
+
+    const returned = new Set(result.rows.map((row) => row.id))
+    for (const [id, event] of chunk) {
+      if (returned.has(id)) {
+        inserted.push(event)
+      }
+    }
+  }
+
+  return inserted
+}
+
+async function upsertRollups(client: PoolClient, events: StreamEvent[]): Promise<void> {
+  const rollups = new Map<string, PendingRollup>()
+
+  for (const event of events) {
+    const seriesKey = streamEventSeriesKey(event)
+    for (const [resolution, bucketMs] of Object.entries(ROLLUP_BUCKET_MS) as Array<[RollupResolution, number]>) {
+      const bucketStart = Math.floor(event.timestamp / bucketMs) * bucketMs
+      const key = `${resolution}|${seriesKey}|${bucketStart}`
+      const current = rollups.get(key)
+      if (!current) {
+        rollups.set(key, {
+          resolution,
+          seriesKey,
+          bucketStart,
+          event,
+          count: 1,
+          sum: event.value,
+          min: event.value,
+          max: event.value,
+          last: event.value,
+          lastAt: event.timestamp,
+        })
+        continue
+      }
+
+      current.count += 1
+      current.sum += event.value
+      current.min = Math.min(current.min, event.value)
+      current.max = Math.max(current.max, event.value)
+      if (event.timestamp >= current.lastAt) {
+        current.last = event.value
+        current.lastAt = event.timestamp
+      }
+    }
+  }
+
+  for (const rollup of rollups.values()) {
+    await client.query(
+      `INSERT INTO live_analytics_rollups (
+        resolution,
+        series_key,
+        bucket_start,
+        metric_id,
+        region,
+        merchant_category,
+        partner_id,
+        sample_count,
+        value_sum,
+        value_min,
+        value_max,
+        value_last,
+        last_recorded_at
+      ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13)
+      ON CONFLICT (resolution, series_key, bucket_start) DO UPDATE SET
+        sample_count = live_analytics_rollups.sample_count + EXCLUDED.sample_count,
+        value_sum = live_analytics_rollups.value_sum + EXCLUDED.value_sum,
+        value_min = LEAST(live_analytics_rollups.value_min, EXCLUDED.value_min),
+        value_max = GREATEST(live_analytics_rollups.value_max, EXCLUDED.value_max),
+        value_last = CASE
+          WHEN EXCLUDED.last_recorded_at >= live_analytics_rollups.last_recorded_at THEN EXCLUDED.value_last
+          ELSE live_analytics_rollups.value_last
+        END,
+        last_recorded_at = CASE
+          WHEN EXCLUDED.last_recorded_at >= live_analytics_rollups.last_recorded_at THEN EXCLUDED.last_recorded_at
+          ELSE live_analytics_rollups.last_recorded_at
+        END`,
+      [
+        rollup.resolution,
+        rollup.seriesKey,
+        new Date(rollup.bucketStart).toISOString(),
+        rollup.event.metricId,
+        rollup.event.dimensions?.region ?? null,
+        rollup.event.dimensions?.merchantCategory ?? null,
+        rollup.event.dimensions?.partnerId ?? null,
+        rollup.count,
+        rollup.sum,
+        rollup.min,
+        rollup.max,
+        rollup.last,
+        new Date(rollup.lastAt).toISOString(),
+      ],
+    )
+  }
+}
+
+function resolveResolution(requested: LiveAnalyticsResolution | undefined, spanMs: number): LiveAnalyticsResolution {
+  if (requested) {
+    return requested
+  }
+
+  if (spanMs <= 6 * HOUR_MS) {
+    return '1m'
+  }
+
+  return spanMs <= 2 * DAY_MS ? '5m' : '1h'
+}
+
+function buildFilterConditions(filters: LiveDimensions, values: unknown[]): string[] {
+  const conditions: string[] = []
+  for (const key of liveDimensionKeys) {
+    const value = filters[key]
+    if (value !== undefined) {
+      values.push(value)
+      conditions.push(`${dimensionColumns[key]} = $${values.length}`)
+    }
+  }
+  return conditions
+}
+
+function preferUntagged<T extends { series_key: string }>(rows: T[], metricId: string, filtered: boolean): T[] {
+  if (filtered) {
+    return rows
+  }
+
+  const untagged = rows.filter((row) => row.series_key === metricId)
+  return untagged.length > 0 ? untagged : rows
+}
+
+export async function getLiveAnalyticsHistory(options: LiveAnalyticsHistoryOptions): Promise<LiveAnalyticsHistory> {
+  const metadata = liveMetricMetadataById.get(options.metricId)
+  if (!metadata) {
+    throw new LiveAnalyticsHistoryRangeError(`Unknown metric ${options.metricId}`)
+  }
+
+  const to = options.to ? Date.parse(options.to) : Date.now()
+  const from = options.from ? Date.parse(options.from) : to - DEFAULT_HISTORY_SPAN_MS
+  if (from >= to) {
+    throw new LiveAnalyticsHistoryRangeError('from must be earlier than to')
+  }
+
+  const filters = options.filters ?? {}
+  const filtered = hasDimensions(filters)
+  const resolution = resolveResolution(options.resolution, to - from)
+  if (resolution !== 'raw' && (to - from) / ROLLUP_BUCKET_MS[resolution] > MAX_HISTORY_POINTS) {
+    throw new LiveAnalyticsHistoryRangeError(
+      `Range spans more than ${MAX_HISTORY_POINTS} ${resolution} buckets; choose a coarser resolution`,
+    )
+  }
+
+  return withSpan(tracer, 'liveAnalyticsHistory.query', async () => {
+    const points =
+      resolution === 'raw'
+        ? await queryRawPoints(metadata.id, metadata.aggregation, from, to, filters, filtered)
+        : await queryRollupPoints(metadata.id, metadata.aggregation, resolution, from, to, filters, filtered)
+
+    return {
+      metricId: metadata.id,
+      resolution,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      filters,
+      points,
+    }
+  })
+}
+
+async function queryRawPoints(
+  metricId: string,
+  aggregation: 'sum' | 'mean',
+  from: number,
+  to: number,
+  filters: LiveDimensions,
+  filtered: boolean,
+): Promise<LiveAnalyticsHistoryPoint[]> {
+  const values: unknown[] = [metricId, new Date(from).toISOString(), new Date(to).toISOString()]
+  const conditions = ['metric_id = $1', 'recorded_at >= $2', 'recorded_at < $3', ...buildFilterConditions(filters, values)]
+  values.push(MAX_HISTORY_POINTS + 1)
+
+  const result = await dbPool.query<LiveEventRow>(
+    `SELECT series_key, value, recorded_at
+     FROM live_analytics_events
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY recorded_at ASC
+     LIMIT $${values.length}`,
+    values,
+  )
+
+  if (result.rows.length > MAX_HISTORY_POINTS) {
+    throw new LiveAnalyticsHistoryRangeError(
+      `Range holds more than ${MAX_HISTORY_POINTS} raw events; narrow it or choose a rollup resolution`,
+    )
+  }
+
+  const rows = preferUntagged(result.rows, metricId, filtered)
+  const seriesKeys = new Set(rows.map((row) => row.series_key))
+  const events = rows.map<StreamEvent>((row) => ({
+    metricId: row.series_key,
+    timestamp: new Date(row.recorded_at).getTime(),
+    value: Number(row.value),
+  }))
+  const combined = seriesKeys.size > 1 ? aggregateSeries(events, aggregation) : events
+
+  return combined.map((event) => {
+    const value = Math.round(event.value * 100) / 100
+    return { timestamp: new Date(event.timestamp).toISOString(), value, min: value, max: value, count: 1 }
+  })
+}
+
+async function queryRollupPoints(
+  metricId: string,
+  aggregation: 'sum' | 'mean',
+  resolution: RollupResolution,
+  from: number,
+  to: number,
+  filters: LiveDimensions,
+  filtered: boolean,
+): Promise<LiveAnalyticsHistoryPoint[]> {
+  const bucketMs = ROLLUP_BUCKET_MS[resolution]
+  const values: unknown[] = [
+    metricId,
+    resolution,
+    new Date(Math.floor(from / bucketMs) * bucketMs).toISOString(),
+    new Date(to).toISOString(),
+  ]
+  const conditions = [
+    'metric_id = $1',
+    'resolution = $2',
+    'bucket_start >= $3',
+    'bucket_start < $4',
+    ...buildFilterConditions(filters, values),
+  ]
+
+  const result = await dbPool.query<LiveRollupRow>(
+    `SELECT series_key, bucket_start, sample_count, value_sum, value_min, value_max
+     FROM live_analytics_rollups
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY bucket_start ASC`,
+    values,
+  )
+
+  const buckets = new Map<string, LiveRollupRow[]>()
+  for (const row of preferUntagged(result.rows, metricId, filtered)) {
+    const timestamp = toIsoString(row.bucket_start)
+    const bucket = buckets.get(timestamp)
+    if (bucket) {
+      bucket.push(row)
+    } else {
+      buckets.set(timestamp, [row])
+    }
+  }
+
+  return [...buckets.entries()].map(([timestamp, rows]) => {
+    const averages = rows.map((row) => Number(row.value_sum) / Number(row.sample_count))
+    const mins = rows.map((row) => Number(row.value_min))
+    const maxes = rows.map((row) => Number(row.value_max))
+    const total = (list: number[]) => list.reduce((sum, value) => sum + value, 0)
+    const round = (value: number) => Math.round(value * 100) / 100
+
+    return {
+      timestamp,
+      value: round(aggregation === 'sum' ? total(averages) : total(averages) / averages.length),
+      min: round(aggregation === 'sum' ? total(mins) : Math.min(...mins)),
+      max: round(aggregation === 'sum' ? total(maxes) : Math.max(...maxes)),
+      count: total(rows.map((row) => Number(row.sample_count))),
+    }
+  })
+}
+
+export async function applyLiveAnalyticsRetention(now = Date.now()): Promise<LiveAnalyticsRetentionResult> {
+  return withSpan(tracer, 'liveAnalyticsHistory.retention', async () => {
+    const events = await dbPool.query('DELETE FROM live_analytics_events WHERE recorded_at < $1', [
+      new Date(now - retentionMs.raw).toISOString(),
+    ])
+
+    let rollups = 0
+    for (const resolution of Object.keys(ROLLUP_BUCKET_MS) as RollupResolution[]) {
+      const result = await dbPool.query('DELETE FROM live_analytics_rollups WHERE resolution = $1 AND bucket_start < $2', [
+        resolution,
+        new Date(now - retentionMs[resolution]).toISOString(),
+      ])
+      rollups += result.rowCount ?? 0
+    }
+
+    return { events: events.rowCount ?? 0, rollups }
+  })
+}
+
+async function runRetention(): Promise<void> {
+  try {
+    const removed = await applyLiveAnalyticsRetention()
+    if (removed.events > 0 || removed.rollups > 0) {
+      logger.info(removed, 'live-analytics-history-retention-applied')
+    }
+  } catch (error) {
+    logger.warn({ err: error }, 'live-analytics-history-retention-failed')
+  }
+}
+
+export function startLiveAnalyticsPersistence(): void {
+  if (!persistenceEnabled || flushTimer) {
+    return
+  }
+
+  detachSources = [
+    onKafkaStreamEvents((event) => recordLiveAnalyticsEvents([event])),
+    onLiveAnalyticsSourceEvents(recordLiveAnalyticsEvents),
+  ]
+
+  flushTimer = setInterval(() => {
+    void flushLiveAnalyticsEvents()
+  }, flushIntervalMs)
+  flushTimer.unref()
+
+  void runRetention()
+  retentionTimer = setInterval(() => {
+    void runRetention()
+  }, RETENTION_INTERVAL_MS)
+  retentionTimer.unref()
+}
+
+export async function stopLiveAnalyticsPersistence(): Promise<void> {
+  for (const detach of detachSources) {
+    detach()
+  }
+  detachSources = []
+
+  if (flushTimer) {
+    clearInterval(flushTimer)
+    flushTimer = null
+  }
+  if (retentionTimer) {
+    clearInterval(retentionTimer)
+    retentionTimer = null
+  }
+
+  await flushLiveAnalyticsEvents()
+}
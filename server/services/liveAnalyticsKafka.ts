@@ -4,12 +4,14 @@ import type { RawStreamEvent, StreamEvent } from './liveAnalyticsTypes.js'
 import { normalizeRawEvent } from './liveAnalyticsNormalizer.js'
 import { liveMetricMetadataById } from '../../shared/data/liveAnalytics.js'
 import { decodeWithSchemaRegistry } from './liveAnalyticsSchemaRegistry.js'
+import { streamEventSeriesKey } from './liveAnalyticsDimensions.js'
 
 const brokers = parseList(process.env.LIVE_ANALYTICS_KAFKA_BROKERS)
 const topic = process.env.LIVE_ANALYTICS_KAFKA_TOPIC ?? 'live-analytics'
 const groupId = process.env.LIVE_ANALYTICS_KAFKA_GROUP_ID ?? 'ecosystem-live-analytics'
 const clientId = process.env.LIVE_ANALYTICS_KAFKA_CLIENT_ID ?? 'ecosystem-live-analytics'
-const maxEventsPerMetric = Math.max(25, Number.parseInt(process.env.LIVE_ANALYTICS_KAFKA_MAX_EVENTS ?? '180', 10))
+const maxEventsPerSeries = Math.max(25, Number.parseInt(process.env.LIVE_ANALYTICS_KAFKA_MAX_EVENTS ?? '180', 10))
+const maxSeries = Math.max(4, Number.parseInt(process.env.LIVE_ANALYTICS_KAFKA_MAX_SERIES ?? '500', 10))
 const fromBeginning = process.env.LIVE_ANALYTICS_KAFKA_FROM_BEGINNING === 'true'
 const isTestEnvironment = process.env.NODE_ENV === 'test'
 
@@ -17,6 +19,7 @@ let consumerPromise: Promise<void> | null = null
 let kafkaUnavailable = false
 
 const buffers = new Map<string, StreamEvent[]>()
+const listeners = new Set<(event: StreamEvent) => void>()
 
 export function isKafkaLiveAnalyticsEnabled(): boolean {
   return !kafkaUnavailable && brokers.length > 0
@@ -45,12 +48,19 @@ export async function getKafkaStreamEvents(): Promise<StreamEvent[]> {
   return flattenBuffers()
 }
 
+export function onKafkaStreamEvents(listener: (event: StreamEvent) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
 export function ingestKafkaEventForTesting(event: RawStreamEvent | StreamEvent): void {
   if (!isTestEnvironment) {
     return
   }
 
-  const normalizedCandidate = isStreamEvent(event) ? event : normalizeRawEvent(event)
+  const normalizedCandidate = normalizeRawEvent(event as RawStreamEvent)
   if (normalizedCandidate && liveMetricMetadataById.has(normalizedCandidate.metricId)) {
     ingestEvent(normalizedCandidate)
   }
@@ -64,14 +74,26 @@ export function resetKafkaBuffersForTesting(): void {
   buffers.clear()
 }
 
-async function startConsumer(): Promise<void> {
-  const kafkaConfig: KafkaConfig = {
-    clientId,
+/** Broker, TLS and SASL settings shared by every kafkajs client in the API; null when no brokers are configured. */
+export function createKafkaConfig(kafkaClientId = clientId): KafkaConfig | null {
+  if (brokers.length === 0) {
+    return null
+  }
+
+  return {
+    clientId: kafkaClientId,
     brokers,
     logLevel: logLevel.ERROR,
     ssl: parseSslConfig(),
     sasl: parseSaslConfig(),
   }
+}
+
+async function startConsumer(): Promise<void> {
+  const kafkaConfig = createKafkaConfig()
+  if (!kafkaConfig) {
+    return
+  }
 
   const kafka = new Kafka(kafkaConfig)
   const consumer: Consumer = kafka.consumer({ groupId })
@@ -155,15 +177,28 @@ function addRawEvent(raw: RawStreamEvent | null | undefined): void {
 }
 
 function ingestEvent(event: StreamEvent): void {
-  const bucket = buffers.get(event.metricId) ?? []
+  const key = streamEventSeriesKey(event)
+  const bucket = buffers.get(key) ?? []
   bucket.push(event)
   bucket.sort((a, b) => a.timestamp - b.timestamp)
 
-  if (bucket.length > maxEventsPerMetric) {
-    bucket.splice(0, bucket.length - maxEventsPerMetric)
+  if (bucket.length > maxEventsPerSeries) {
+    bucket.splice(0, bucket.length - maxEventsPerSeries)
   }
 
-  buffers.set(event.metricId, bucket)
+  buffers.delete(key)
+  buffers.set(key, bucket)
+  while (buffers.size > maxSeries) {
+    const stalest = buffers.keys().next().value
+    if (stalest === undefined) {
+      break
+    }
+    buffers.delete(stalest)
+  }
+
+  for (const listener of listeners) {
+    listener(event)
+  }
 }
 
 function flattenBuffers(): StreamEvent[] {
@@ -220,7 +255,3 @@ function parseList(value: string | undefined): string[] {
     .map((entry) => entry.trim())
     .filter(Boolean)
 }
-
-function isStreamEvent(event: RawStreamEvent | StreamEvent): event is StreamEvent {
-  return typeof (event as StreamEvent).metricId === 'string' && typeof (event as StreamEvent).timestamp === 'number'
-}
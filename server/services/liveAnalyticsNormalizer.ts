@@ -1,6 +1,15 @@
 import { liveMetricMetadataById } from '../../shared/data/liveAnalytics.js'
+import type { LiveDimensionKey, LiveDimensions } from '../../shared/types/domain.js'
 import type { RawStreamEvent, StreamEvent } from './liveAnalyticsTypes.js'
 
+const MAX_DIMENSION_LENGTH = 64
+
+const dimensionAliases: Record<LiveDimensionKey, string[]> = {
+  region: ['region', 'regionCode', 'region_code'],
+  merchantCategory: ['merchantCategory', 'merchant_category', 'mcc'],
+  partnerId: ['partnerId', 'partner_id', 'partnerID'],
+}
+
 export function normalizeRawEvent(parsed: RawStreamEvent | null): StreamEvent | null {
   if (!parsed) {
     return null
@@ -39,11 +48,42 @@ export function normalizeRawEvent(parsed: RawStreamEvent | null): StreamEvent |
     return null
   }
 
+  const dimensions = extractDimensions(candidate)
+
   return {
     metricId,
     timestamp,
     value: numericValueCandidate,
+    ...(dimensions ? { dimensions } : {}),
+  }
+}
+
+function extractDimensions(candidate: Record<string, unknown>): LiveDimensions | null {
+  const sources = [candidate.dimensions, candidate.tags, candidate.labels, candidate].filter(
+    (source): source is Record<string, unknown> => typeof source === 'object' && source !== null && !Array.isArray(source),
+  )
+
+  const dimensions: LiveDimensions = {}
+  for (const [key, aliases] of Object.entries(dimensionAliases) as Array<[LiveDimensionKey, string[]]>) {
+    for (const source of sources) {
+      const value = aliases.map((alias) => coerceDimension(source[alias])).find((entry) => entry !== null)
+      if (value) {
+        dimensions[key] = value
+        break
+      }
+    }
   }
+
+  return Object.keys(dimensions).length > 0 ? dimensions : null
+}
+
+function coerceDimension(value: unknown): string | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value)
+  }
+
+  const text = coerceString(typeof value === 'string' ? value.trim() : value)
+  return text ? text.slice(0, MAX_DIMENSION_LENGTH) : null
 }
 
 function coerceString(value: unknown): string | null {
@@ -24,10 +24,21 @@ export function evaluateAnomaly(value: number, thresholds?: LiveMetricThresholds
       thresholdValue: undefined,
       message: 'No guardrails configured',
       magnitude: 0,
+      detector: 'static',
+      expectedBand: null,
+      confidence: 0,
     }
   }
 
   const { upperCritical, upperWarning, lowerCritical, lowerWarning } = thresholds
+  const detection = {
+    detector: 'static' as const,
+    expectedBand: {
+      lower: lowerWarning ?? lowerCritical ?? null,
+      upper: upperWarning ?? upperCritical ?? null,
+    },
+    confidence: 1,
+  }
 
   if (upperCritical !== undefined && value >= upperCritical) {
     return {
@@ -36,6 +47,7 @@ export function evaluateAnomaly(value: number, thresholds?: LiveMetricThresholds
       thresholdValue: upperCritical,
       message: `Above critical ceiling (${formatNumber(upperCritical)})`,
       magnitude: roundMagnitude(value - upperCritical),
+      ...detection,
     }
   }
 
@@ -46,6 +58,7 @@ export function evaluateAnomaly(value: number, thresholds?: LiveMetricThresholds
       thresholdValue: lowerCritical,
       message: `Below critical floor (${formatNumber(lowerCritical)})`,
       magnitude: roundMagnitude(lowerCritical - value),
+      ...detection,
     }
   }
 
@@ -56,6 +69,7 @@ export function evaluateAnomaly(value: number, thresholds?: LiveMetricThresholds
       thresholdValue: upperWarning,
       message: `Tracking above watch band (${formatNumber(upperWarning)})`,
       magnitude: roundMagnitude(value - upperWarning),
+      ...detection,
     }
   }
 
@@ -66,6 +80,7 @@ export function evaluateAnomaly(value: number, thresholds?: LiveMetricThresholds
       thresholdValue: lowerWarning,
       message: `Tracking below watch band (${formatNumber(lowerWarning)})`,
       magnitude: roundMagnitude(lowerWarning - value),
+      ...detection,
     }
   }
 
@@ -79,6 +94,7 @@ export function evaluateAnomaly(value: number, thresholds?: LiveMetricThresholds
       ? `Within healthy band (±${formatNumber(closest.gap)})`
       : 'Within healthy band',
     magnitude: closest?.gap ?? 0,
+    ...detection,
   }
 }
 
@@ -145,7 +161,7 @@ function determineClosestThreshold(value: number, thresholds: LiveMetricThreshol
   return diffs.sort((a, b) => a.gap - b.gap)[0]
 }
 
-function formatNumber(value: number): string {
+export function formatNumber(value: number): string {
   if (Math.abs(value) >= 1_000_000) {
     return `${(value / 1_000_000).toFixed(1)}M`
   }
@@ -161,6 +177,6 @@ function formatNumber(value: number): string {
   return value.toFixed(1)
 }
 
-function roundMagnitude(value: number): number {
+export function roundMagnitude(value: number): number {
   return Math.round(Math.abs(value) * 100) / 100
 }
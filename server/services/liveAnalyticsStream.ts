@@ -0,0 +1,116 @@
+import type { LiveAnalyticsSnapshot } from '../../shared/types/domain.js'
+import { logger } from '../utils/logger.js'
+import { resolveLiveAnalyticsSnapshot } from './liveAnalytics.js'
+import { onKafkaStreamEvents } from './liveAnalyticsKafka.js'
+
+export interface LiveAnalyticsStreamEvent {
+  id: number
+  snapshot: LiveAnalyticsSnapshot
+}
+
+type LiveAnalyticsListener = (event: LiveAnalyticsStreamEvent) => void
+
+const HISTORY_LIMIT = 20
+const SOURCE_POLL_MS = Math.max(250, Number.parseInt(process.env.LIVE_ANALYTICS_SSE_POLL_MS ?? '', 10) || 1_000)
+
+const listeners = new Set<LiveAnalyticsListener>()
+const history: LiveAnalyticsStreamEvent[] = []
+let sequence = Date.now()
+let lastFingerprint: string | null = null
+let pollTimer: NodeJS.Timeout | null = null
+let detachKafka: (() => void) | null = null
+let refreshing: Promise<void> | null = null
+let refreshQueued = false
+
+function publish(snapshot: LiveAnalyticsSnapshot): void {
+  sequence += 1
+  const event = { id: sequence, snapshot }
+  history.push(event)
+  if (history.length > HISTORY_LIMIT) {
+    history.splice(0, history.length - HISTORY_LIMIT)
+  }
+
+  for (const listener of listeners) {
+    listener(event)
+  }
+}
+
+function refresh(): Promise<void> {
+  if (refreshing) {
+    refreshQueued = true
+    return refreshing
+  }
+
+  refreshing = (async () => {
+    try {
+      do {
+        refreshQueued = false
+        const { fingerprint, snapshot } = await resolveLiveAnalyticsSnapshot()
+        if (fingerprint !== lastFingerprint) {
+          lastFingerprint = fingerprint
+          publish(snapshot)
+        }
+      } while (refreshQueued)
+    } catch (error) {
+      logger.warn({ err: error }, 'live-analytics-stream-refresh-failed')
+    } finally {
+      refreshing = null
+    }
+  })()
+
+  return refreshing
+}
+
+function start(): void {
+  pollTimer = setInterval(() => {
+    void refresh()
+  }, SOURCE_POLL_MS)
+  pollTimer.unref()
+  detachKafka = onKafkaStreamEvents(() => {
+    void refresh()
+  })
+}
+
+function stop(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer)
+    pollTimer = null
+  }
+  detachKafka?.()
+  detachKafka = null
+}
+
+export function subscribeToLiveAnalytics(listener: LiveAnalyticsListener): () => void {
+  listeners.add(listener)
+  if (listeners.size === 1) {
+    start()
+  }
+
+  return () => {
+    if (listeners.delete(listener) && listeners.size === 0) {
+      stop()
+    }
+  }
+}
+
+export async function getLiveAnalyticsReplay(lastEventId?: number): Promise<LiveAnalyticsStreamEvent[]> {
+  await refresh()
+
+  const latest = history.at(-1)
+  if (!latest) {
+    return []
+  }
+
+  if (lastEventId !== undefined) {
+    const index = history.findIndex((event) => event.id === lastEventId)
+    if (index >= 0) {
+      return history.slice(index + 1)
+    }
+  }
+
+  return [latest]
+}
+
+export function getLiveAnalyticsSubscriberCount(): number {
+  return listeners.size
+}
@@ -1,6 +1,8 @@
 import { liveMetricCatalog, liveMetricDefinitions, liveMetricMetadataById, type LiveMetricDefinition } from '../../shared/data/liveAnalytics.js'
 import type { LiveAnalyticsSnapshot, LiveMetric, LiveMetricTrendPoint } from '../../shared/types/domain.js'
 import { evaluateAnomaly, resolveDirection, composeNarrative } from './liveAnalyticsShared.js'
+import { emptyDimensionValues } from './liveAnalyticsDimensions.js'
+import { detectAnomaly } from './liveAnalyticsDetectors.js'
 
 const TREND_POINTS = 10
 const syntheticById = new Map(liveMetricDefinitions.map((definition) => [definition.id, definition]))
@@ -21,7 +23,10 @@ export function generateSyntheticSnapshot(windowSeconds: number): LiveAnalyticsS
     const delta = Math.round((latest - previous) * 100) / 100
 
     const thresholds = metadata.thresholds
-    const anomaly = evaluateAnomaly(latest, thresholds)
+    const anomaly = detectAnomaly(
+      metadata,
+      trend.map((point) => ({ timestamp: Date.parse(point.timestamp), value: point.value })),
+    )
 
     return {
       id: metadata.id,
@@ -42,6 +47,10 @@ export function generateSyntheticSnapshot(windowSeconds: number): LiveAnalyticsS
     windowSeconds,
     metrics,
     narrative: composeNarrative(metrics),
+    filters: {},
+    groupBy: null,
+    groups: [],
+    dimensions: emptyDimensionValues(),
   }
 }
 
@@ -98,6 +107,9 @@ function buildStaticMetric(id: string): LiveMetric {
         thresholdValue: undefined,
         message: 'No data',
         magnitude: 0,
+        detector: 'static',
+        expectedBand: null,
+        confidence: 0,
       },
     }
   }
@@ -1,7 +1,10 @@
+import type { LiveDimensions } from '../../shared/types/domain.js'
+
 export interface StreamEvent {
   metricId: string
   timestamp: number
   value: number
+  dimensions?: LiveDimensions
 }
 
 export interface RawStreamEvent {
@@ -15,4 +18,12 @@ export interface RawStreamEvent {
   value?: unknown
   metricValue?: unknown
   valueNumeric?: unknown
+  dimensions?: unknown
+  tags?: unknown
+  labels?: unknown
+  region?: unknown
+  merchantCategory?: unknown
+  merchant_category?: unknown
+  partnerId?: unknown
+  partner_id?: unknown
 }
@@ -2,6 +2,11 @@ import type { PoolClient } from 'pg'
 import type { ModeratorProfile, ReviewerRole } from '../../shared/types/domain.js'
 import { dbPool } from '../db/client.js'
 import { logger } from '../utils/logger.js'
+import {
+  rankReviewerCandidates,
+  type ReviewerRoutingExplanation,
+  type ReviewerRoutingOptions,
+} from './reviewerRouting.js'
 
 export interface UpsertModeratorInput {
   id: string
@@ -81,7 +86,16 @@ export async function listActiveModerators(): Promise<ModeratorProfile[]> {
   return result.rows.map(mapRow)
 }
 
-export async function selectModeratorForAssignment(client: PoolClient): Promise<ModeratorProfile | null> {
+export interface ModeratorAssignmentDecision {
+  moderator: ModeratorProfile
+  explanation: ReviewerRoutingExplanation
+}
+
+/** Scores active moderators with the routing rules in `reviewerRouting.ts`; runs on the caller's transaction. */
+export async function selectModeratorForAssignment(
+  client: PoolClient,
+  options: ReviewerRoutingOptions = {},
+): Promise<ModeratorAssignmentDecision | null> {
   const result = await client.query<ModeratorWithLoadRow>(
     `SELECT m.id,
             m.name,
@@ -101,15 +115,15 @@ export async function selectModeratorForAssignment(client: PoolClient): Promise<
              GROUP BY reviewer_id
           ) AS load ON load.reviewer_id = m.id
       WHERE m.active = TRUE
-      ORDER BY COALESCE(load.active_assignments, 0) ASC, m.synced_at ASC
-      LIMIT 1`
+      ORDER BY COALESCE(load.active_assignments, 0) ASC, m.synced_at ASC`
   )
 
-  if (result.rows.length === 0) {
-    return null
-  }
+  const ranked = rankReviewerCandidates(
+    result.rows.map((row) => ({ ...row, activeAssignments: row.active_assignments })),
+    options,
+  )
 
-  return mapRow(result.rows[0])
+  return ranked ? { moderator: mapRow(ranked.candidate), explanation: ranked.explanation } : null
 }
 
 export async function activateModerators(ids: string[], client?: PoolClient): Promise<void> {
@@ -0,0 +1,229 @@
+import type { PoolClient } from 'pg'
+import { trace } from '@opentelemetry/api'
+import type {
+  MerchantOverviewPartner,
+  RegistryEntry,
+  RegistryEntryInput,
+  RegistryKind,
+} from '../../shared/types/domain.js'
+import { dbPool } from '../db/client.js'
+import { toIsoString } from '../utils/dates.js'
+import { withSpan } from '../utils/tracing.js'
+
+const tracer = trace.getTracer('partner-registry-service')
+
+export class PartnerRegistryError extends Error {
+  readonly reason: 'already_exists' | 'in_use' | 'unknown_partner' | 'unknown_merchant'
+
+  constructor(reason: PartnerRegistryError['reason'], message: string) {
+    super(message)
+    this.name = 'PartnerRegistryError'
+    this.reason = reason
+  }
+}
+
+/** Registry table plus the denormalised columns on `partner_signals` that carry the same entity. */
+const registryTables: Record<RegistryKind, { table: string; idColumn: string; nameColumn: string }> = {
+  partner: { table: 'partners', idColumn: 'partner_id', nameColumn: 'partner_name' },
+  merchant: { table: 'merchants', idColumn: 'merchant_id', nameColumn: 'merchant_name' },
+}
+
+const ENTRY_COLUMNS = 'id, name, active, created_at, updated_at'
+
+type RegistryEntryRow = {
+  id: string
+  name: string
+  active: boolean
+  created_at: string | Date
+  updated_at: string | Date
+}
+
+export interface RegistryListOptions {
+  q?: string
+  active?: boolean
+  ids?: string[]
+}
+
+function mapEntry(row: RegistryEntryRow): RegistryEntry {
+  return {
+    id: row.id,
+    name: row.name,
+    active: row.active,
+    createdAt: toIsoString(row.created_at),
+    updatedAt: toIsoString(row.updated_at),
+  }
+}
+
+function toSearchPattern(term: string): string {
+  return `%${term.replace(/[%_\\]/g, '_')}%`
+}
+
+export async function listRegistryEntries(
+  kind: RegistryKind,
+  options: RegistryListOptions = {},
+): Promise<RegistryEntry[]> {
+  return withSpan(tracer, 'partnerRegistry.list', async () => {
+    const where: string[] = []
+    const values: Array<string | boolean> = []
+
+    if (options.ids !== undefined) {
+      if (options.ids.length === 0) {
+        return []
+      }
+      const placeholders = options.ids.map((id) => {
+        values.push(id)
+        return `$${values.length}`
+      })
+      where.push(`id IN (${placeholders.join(', ')})`)
+    }
+
+    if (options.active !== undefined) {
+      values.push(options.active)
+      where.push(`active = $${values.length}`)
+    }
+
+    const searchTerm = options.q?.trim()
+    if (searchTerm) {
+      values.push(toSearchPattern(searchTerm))
+      where.push(`(id ILIKE $${values.length} OR name ILIKE $${values.length})`)
+    }
+
+    const result = await dbPool.query<RegistryEntryRow>(
+      `SELECT ${ENTRY_COLUMNS} FROM ${registryTables[kind].table}
+        ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+        ORDER BY name ASC, id ASC`,
+      values,
+    )
+    return result.rows.map(mapEntry)
+  })
+}
+
+export async function getRegistryEntry(kind: RegistryKind, id: string): Promise<RegistryEntry | null> {
+  const result = await dbPool.query<RegistryEntryRow>(
+    `SELECT ${ENTRY_COLUMNS} FROM ${registryTables[kind].table} WHERE id = $1`,
+    [id],
+  )
+  return result.rows.length > 0 ? mapEntry(result.rows[0]) : null
+}
+
+export async function createRegistryEntry(kind: RegistryKind, input: RegistryEntryInput): Promise<RegistryEntry> {
+  return withSpan(tracer, 'partnerRegistry.create', async () => {
+    const now = new Date().toISOString()
+    try {
+      const result = await dbPool.query<RegistryEntryRow>(
+        `INSERT INTO ${registryTables[kind].table} (id, name, active, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $4)
+         RETURNING ${ENTRY_COLUMNS}`,
+        [input.id, input.name, input.active ?? true, now],
+      )
+      return mapEntry(result.rows[0])
+    } catch (error: unknown) {
+      if (typeof error === 'object' && error && 'code' in error && (error as { code?: string }).code === '23505') {
+        throw new PartnerRegistryError('already_exists', `A ${kind} with id ${input.id} is already registered`)
+      }
+      throw error
+    }
+  })
+}
+
+/**
+ * Renames propagate to the name copied onto existing signals, so search and the backlog show one spelling per
+ * entity. Deactivated entries stay attached to their signals but cannot receive new ones.
+ */
+export async function updateRegistryEntry(
+  kind: RegistryKind,
+  id: string,
+  changes: Partial<Pick<RegistryEntry, 'name' | 'active'>>,
+): Promise<RegistryEntry | null> {
+  return withSpan(tracer, 'partnerRegistry.update', async () => {
+    const { table, idColumn, nameColumn } = registryTables[kind]
+    const client = await dbPool.connect()
+
+    try {
+      await client.query('BEGIN')
+      const result = await client.query<RegistryEntryRow>(
+        `UPDATE ${table}
+            SET name = COALESCE($2, name),
+                active = COALESCE($3, active),
+                updated_at = $4
+          WHERE id = $1
+          RETURNING ${ENTRY_COLUMNS}`,
+        [id, changes.name ?? null, changes.active ?? null, new Date().toISOString()],
+      )
+
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK')
+        return null
+      }
+
+      if (changes.name !== undefined) {
+        await client.query(
+          `UPDATE partner_signals SET ${nameColumn} = $2, version = version + 1 WHERE ${idColumn} = $1`,
+          [id, changes.name],
+        )
+      }
+
+      await client.query('COMMIT')
+      return mapEntry(result.rows[0])
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  })
+}
+
+/** Entries referenced by signals cannot be deleted; deactivate them instead. */
+export async function deleteRegistryEntry(kind: RegistryKind, id: string): Promise<boolean> {
+  return withSpan(tracer, 'partnerRegistry.delete', async () => {
+    const { table, idColumn } = registryTables[kind]
+    const usage = await dbPool.query<{ total: number }>(
+      `SELECT COUNT(*)::int AS total FROM partner_signals WHERE ${idColumn} = $1`,
+      [id],
+    )
+    if ((usage.rows[0]?.total ?? 0) > 0) {
+      throw new PartnerRegistryError('in_use', `The ${kind} ${id} has signals; deactivate it instead`)
+    }
+
+    const result = await dbPool.query(`DELETE FROM ${table} WHERE id = $1`, [id])
+    return (result.rowCount ?? 0) > 0
+  })
+}
+
+/** Looks up the registered names for a new signal, rejecting unknown or deactivated partners and merchants. */
+export async function resolvePartnerSignalNames(
+  client: PoolClient,
+  ids: { partnerId: string; merchantId: string },
+): Promise<{ partnerName: string; merchantName: string }> {
+  const [partner, merchant] = await Promise.all([
+    client.query<{ name: string }>('SELECT name FROM partners WHERE id = $1 AND active = TRUE', [ids.partnerId]),
+    client.query<{ name: string }>('SELECT name FROM merchants WHERE id = $1 AND active = TRUE', [ids.merchantId]),
+  ])
+
+  if (partner.rows.length === 0) {
+    throw new PartnerRegistryError('unknown_partner', `${ids.partnerId} is not an active registered partner`)
+  }
+  if (merchant.rows.length === 0) {
+    throw new PartnerRegistryError('unknown_merchant', `${ids.merchantId} is not an active registered merchant`)
+  }
+
+  return { partnerName: partner.rows[0].name, merchantName: merchant.rows[0].name }
+}
+
+/** Partners that have reported on a merchant, busiest first. */
+export async function listMerchantPartners(
+  merchantId: string,
+  partnerScope?: string,
+): Promise<MerchantOverviewPartner[]> {
+  const result = await dbPool.query<{ id: string; name: string; total: number }>(
+    `SELECT partners.id, partners.name, COUNT(*)::int AS total
+       FROM partner_signals
+       JOIN partners ON partners.id = partner_signals.partner_id
+      WHERE partner_signals.merchant_id = $1${partnerScope === undefined ? '' : ' AND partner_signals.partner_id = $2'}
+      GROUP BY partners.id, partners.name
+      ORDER BY total DESC, partners.id ASC`,
+    partnerScope === undefined ? [merchantId] : [merchantId, partnerScope],
+  )
+  return result.rows
+}
@@ -0,0 +1,290 @@
+import crypto from 'node:crypto'
+import { trace } from '@opentelemetry/api'
+import type {
+  PartnerSignalComment,
+  PartnerSignalCommentInput,
+  PartnerSignalCommentMention,
+  PartnerSignalCommentRevision,
+  ReviewerRole,
+} from '../../shared/types/domain.js'
+import { dbPool } from '../db/client.js'
+import { toIsoString } from '../utils/dates.js'
+import { withSpan } from '../utils/tracing.js'
+import { listActiveModerators } from './moderators.js'
+
+const tracer = trace.getTracer('partner-signal-comments-service')
+
+const MENTION_PATTERN = /(^|[^\w.@])@([a-z0-9][\w.-]*)/gi
+
+export type PartnerSignalCommentAuthor = { id: string; name: string; role: ReviewerRole }
+
+export class PartnerSignalCommentError extends Error {
+  readonly reason: 'forbidden' | 'invalid_parent'
+
+  constructor(reason: PartnerSignalCommentError['reason'], message: string) {
+    super(message)
+    this.name = 'PartnerSignalCommentError'
+    this.reason = reason
+  }
+}
+
+const COMMENT_COLUMNS = `id,
+  signal_id,
+  parent_id,
+  author_id,
+  author_name,
+  author_role,
+  body,
+  mentions,
+  created_at,
+  updated_at,
+  edited_at,
+  deleted_at`
+
+interface CommentRow {
+  id: string
+  signal_id: string
+  parent_id: string | null
+  author_id: string
+  author_name: string
+  author_role: ReviewerRole
+  body: string
+  mentions: PartnerSignalCommentMention[] | null
+  created_at: string | Date
+  updated_at: string | Date
+  edited_at: string | Date | null
+  deleted_at: string | Date | null
+}
+
+interface RevisionRow {
+  comment_id: string
+  body: string
+  mentions: PartnerSignalCommentMention[] | null
+  edited_by: string
+  edited_at: string | Date
+}
+
+function toNullableIsoString(value: string | Date | null): string | null {
+  return value === null ? null : toIsoString(value)
+}
+
+function mapRevision(row: RevisionRow): PartnerSignalCommentRevision {
+  return {
+    body: row.body,
+    mentions: row.mentions ?? [],
+    editedBy: row.edited_by,
+    editedAt: toIsoString(row.edited_at),
+  }
+}
+
+function mapComment(row: CommentRow, history: PartnerSignalCommentRevision[] = []): PartnerSignalComment {
+  const deleted = row.deleted_at !== null
+
+  return {
+    id: row.id,
+    signalId: row.signal_id,
+    parentId: row.parent_id,
+    authorId: row.author_id,
+    authorName: row.author_name,
+    authorRole: row.author_role,
+    body: deleted ? '' : row.body,
+    mentions: deleted ? [] : (row.mentions ?? []),
+    history: deleted ? [] : history,
+    createdAt: toIsoString(row.created_at),
+    updatedAt: toIsoString(row.updated_at),
+    editedAt: toNullableIsoString(row.edited_at),
+    deletedAt: toNullableIsoString(row.deleted_at),
+  }
+}
+
+export function extractMentionHandles(body: string): string[] {
+  const handles = new Set<string>()
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const handle = match[2].replace(/[.-]+$/, '').toLowerCase()
+    if (handle) {
+      handles.add(handle)
+    }
+  }
+
+  return [...handles]
+}
+
+/** Resolves `@handle` tokens against active moderators by id or email local part; unknown handles stay plain text. */
+async function resolveMentions(body: string): Promise<PartnerSignalCommentMention[]> {
+  const handles = extractMentionHandles(body)
+  if (handles.length === 0) {
+    return []
+  }
+
+  const moderators = await listActiveModerators()
+  const mentions: PartnerSignalCommentMention[] = []
+  for (const moderator of moderators) {
+    const emailHandle = moderator.email?.split('@')[0]?.toLowerCase()
+    if (handles.includes(moderator.id.toLowerCase()) || (emailHandle && handles.includes(emailHandle))) {
+      mentions.push({ id: moderator.id, name: moderator.name })
+    }
+  }
+
+  return mentions.sort((left, right) => left.id.localeCompare(right.id))
+}
+
+async function findComment(signalId: string, commentId: string): Promise<CommentRow | null> {
+  const result = await dbPool.query<CommentRow>(
+    `SELECT ${COMMENT_COLUMNS} FROM partner_signal_comments WHERE id = $1 AND signal_id = $2`,
+    [commentId, signalId],
+  )
+  return result.rows[0] ?? null
+}
+
+async function listRevisions(commentId: string): Promise<PartnerSignalCommentRevision[]> {
+  const result = await dbPool.query<RevisionRow>(
+    `SELECT comment_id, body, mentions, edited_by, edited_at
+       FROM partner_signal_comment_revisions
+      WHERE comment_id = $1
+      ORDER BY edited_at ASC`,
+    [commentId],
+  )
+  return result.rows.map(mapRevision)
+}
+
+export async function listPartnerSignalComments(signalId: string): Promise<PartnerSignalComment[]> {
+  return withSpan(tracer, 'partnerSignalComments.list', async () => {
+    const [comments, revisions] = await Promise.all([
+      dbPool.query<CommentRow>(
+        `SELECT ${COMMENT_COLUMNS} FROM partner_signal_comments WHERE signal_id = $1 ORDER BY created_at ASC, id ASC`,
+        [signalId],
+      ),
+      dbPool.query<RevisionRow>(
+        `SELECT r.comment_id, r.body, r.mentions, r.edited_by, r.edited_at
+           FROM partner_signal_comment_revisions r
+           JOIN partner_signal_comments c ON c.id = r.comment_id
+          WHERE c.signal_id = $1
+          ORDER BY r.edited_at ASC`,
+        [signalId],
+      ),
+    ])
+
+    const history = new Map<string, PartnerSignalCommentRevision[]>()
+    for (const row of revisions.rows) {
+      history.set(row.comment_id, [...(history.get(row.comment_id) ?? []), mapRevision(row)])
+    }
+
+    return comments.rows.map((row) => mapComment(row, history.get(row.id)))
+  })
+}
+
+export async function createPartnerSignalComment(
+  signalId: string,
+  input: PartnerSignalCommentInput,
+  author: PartnerSignalCommentAuthor,
+): Promise<PartnerSignalComment> {
+  return withSpan(tracer, 'partnerSignalComments.create', async () => {
+    const parentId = input.parentId ?? null
+    if (parentId) {
+      const parent = await findComment(signalId, parentId)
+      if (!parent || parent.deleted_at !== null) {
+        throw new PartnerSignalCommentError('invalid_parent', 'Parent comment not found on this signal')
+      }
+    }
+
+    const mentions = await resolveMentions(input.body)
+    const result = await dbPool.query<CommentRow>(
+      `INSERT INTO partner_signal_comments (id, signal_id, parent_id, author_id, author_name, author_role, body, mentions)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING ${COMMENT_COLUMNS}`,
+      [
+        crypto.randomUUID(),
+        signalId,
+        parentId,
+        author.id,
+        author.name,
+        author.role,
+        input.body,
+        JSON.stringify(mentions),
+      ],
+    )
+
+    return mapComment(result.rows[0])
+  })
+}
+
+export async function updatePartnerSignalComment(
+  signalId: string,
+  commentId: string,
+  body: string,
+  editorId: string,
+): Promise<PartnerSignalComment | null> {
+  return withSpan(tracer, 'partnerSignalComments.update', async () => {
+    const client = await dbPool.connect()
+    try {
+      await client.query('BEGIN')
+      const current = await client.query<CommentRow>(
+        `SELECT ${COMMENT_COLUMNS} FROM partner_signal_comments WHERE id = $1 AND signal_id = $2 FOR UPDATE`,
+        [commentId, signalId],
+      )
+      const row = current.rows[0]
+
+      if (!row || row.deleted_at !== null) {
+        await client.query('ROLLBACK')
+        return null
+      }
+
+      if (row.author_id !== editorId) {
+        await client.query('ROLLBACK')
+        throw new PartnerSignalCommentError('forbidden', 'Only the author can edit this comment')
+      }
+
+      if (row.body === body) {
+        await client.query('COMMIT')
+        return mapComment(row, await listRevisions(commentId))
+      }
+
+      const mentions = await resolveMentions(body)
+      await client.query(
+        `INSERT INTO partner_signal_comment_revisions (id, comment_id, body, mentions, edited_by)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [crypto.randomUUID(), commentId, row.body, JSON.stringify(row.mentions ?? []), editorId],
+      )
+      const updated = await client.query<CommentRow>(
+        `UPDATE partner_signal_comments
+            SET body = $2,
+                mentions = $3,
+                edited_at = NOW(),
+                updated_at = NOW()
+          WHERE id = $1
+          RETURNING ${COMMENT_COLUMNS}`,
+        [commentId, body, JSON.stringify(mentions)],
+      )
+      await client.query('COMMIT')
+
+      return mapComment(updated.rows[0], await listRevisions(commentId))
+    } catch (error) {
+      if (!(error instanceof PartnerSignalCommentError)) {
+        await client.query('ROLLBACK')
+      }
+      throw error
+    } finally {
+      client.release()
+    }
+  })
+}
+
+/** Soft-deletes so replies keep their place in the thread; the body and edit history are no longer returned. */
+export async function deletePartnerSignalComment(signalId: string, commentId: string, userId: string): Promise<boolean> {
+  return withSpan(tracer, 'partnerSignalComments.delete', async () => {
+    const current = await findComment(signalId, commentId)
+    if (!current || current.deleted_at !== null) {
+      return false
+    }
+
+    if (current.author_id !== userId) {
+      throw new PartnerSignalCommentError('forbidden', 'Only the author can delete this comment')
+    }
+
+    const result = await dbPool.query(
+      `UPDATE partner_signal_comments SET deleted_at = NOW(), updated_at = NOW() WHERE id = $1 AND deleted_at IS NULL`,
+      [commentId],
+    )
+    return (result.rowCount ?? 0) > 0
+  })
+}
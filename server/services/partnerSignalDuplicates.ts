@@ -0,0 +1,86 @@
+import type { PoolClient } from 'pg'
+import type { PartnerSignal } from '../../shared/types/domain.js'
+import { readPositiveNumber } from '../utils/env.js'
+
+const windowHours = readPositiveNumber(process.env.PARTNER_SIGNAL_DUPLICATE_WINDOW_HOURS, 72)
+const similarityThreshold = Math.min(1, readPositiveNumber(process.env.PARTNER_SIGNAL_DUPLICATE_THRESHOLD, 0.6))
+const SHINGLE_SIZE = 2
+const CANDIDATE_LIMIT = 50
+
+export interface PartnerSignalDuplicateMatch {
+  signalId: string
+  score: number
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+}
+
+/** Word shingles of the normalised description; short texts fall back to single words. */
+export function shingleDescription(text: string): Set<string> {
+  const tokens = tokenize(text)
+  if (tokens.length < SHINGLE_SIZE) {
+    return new Set(tokens)
+  }
+
+  const shingles = new Set<string>()
+  for (let index = 0; index <= tokens.length - SHINGLE_SIZE; index += 1) {
+    shingles.add(tokens.slice(index, index + SHINGLE_SIZE).join(' '))
+  }
+  return shingles
+}
+
+/** Jaccard similarity of the two descriptions' shingle sets, from 0 (disjoint) to 1 (identical). */
+export function descriptionSimilarity(left: string, right: string): number {
+  const leftShingles = shingleDescription(left)
+  const rightShingles = shingleDescription(right)
+  if (leftShingles.size === 0 || rightShingles.size === 0) {
+    return 0
+  }
+
+  let shared = 0
+  for (const shingle of leftShingles) {
+    if (rightShingles.has(shingle)) {
+      shared += 1
+    }
+  }
+
+  return shared / (leftShingles.size + rightShingles.size - shared)
+}
+
+/**
+ * Finds the most similar canonical signal for the same merchant and signal type submitted within the duplicate
+ * window. Signals already flagged as duplicates or merged away are never picked as the canonical record.
+ */
+export async function findDuplicatePartnerSignal(
+  client: PoolClient,
+  input: Pick<PartnerSignal, 'merchantId' | 'signalType' | 'description' | 'submittedAt'>,
+): Promise<PartnerSignalDuplicateMatch | null> {
+  const windowStart = new Date(new Date(input.submittedAt).getTime() - windowHours * 3_600_000).toISOString()
+  const result = await client.query<{ id: string; description: string }>(
+    `SELECT id, description
+       FROM partner_signals
+      WHERE merchant_id = $1
+        AND signal_type = $2
+        AND submitted_at >= $3
+        AND duplicate_of_id IS NULL
+        AND merged_into_id IS NULL
+      ORDER BY submitted_at DESC
+      LIMIT ${CANDIDATE_LIMIT}`,
+    [input.merchantId, input.signalType, windowStart],
+  )
+
+  let best: PartnerSignalDuplicateMatch | null = null
+  for (const row of result.rows) {
+    const score = Number(descriptionSimilarity(input.description, row.description).toFixed(3))
+    if (score >= similarityThreshold && (!best || score > best.score)) {
+      best = { signalId: row.id, score }
+    }
+  }
+
+  return best
+}
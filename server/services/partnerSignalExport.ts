@@ -0,0 +1,47 @@
+import type { PartnerSignal, PartnerSignalTransferFormat } from '../../shared/types/domain.js'
+import { formatCsvRow } from '../utils/csv.js'
+import { iteratePartnerSignals, type PartnerSignalListOptions } from './partnerSignals.js'
+
+/** Input columns come first so an exported CSV can be edited and re-imported as-is. */
+const exportColumns: Array<keyof PartnerSignal> = [
+  'partnerId',
+  'partnerName',
+  'merchantId',
+  'merchantName',
+  'signalType',
+  'description',
+  'confidence',
+  'metadata',
+  'id',
+  'status',
+  'submittedAt',
+  'assignedReviewerId',
+  'assignedReviewerName',
+  'assignedAt',
+  'slaPolicyId',
+  'slaDueAt',
+  'slaEscalatedAt',
+  'duplicateOfId',
+  'mergedIntoId',
+]
+
+export const partnerSignalExportContentTypes: Record<PartnerSignalTransferFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+}
+
+/** Yields the export one line at a time; only a single page of signals is held in memory. */
+export async function* streamPartnerSignalExport(
+  format: PartnerSignalTransferFormat,
+  options: Omit<PartnerSignalListOptions, 'limit' | 'cursor' | 'includeTotal'>,
+): AsyncGenerator<string> {
+  if (format === 'csv') {
+    yield formatCsvRow(exportColumns)
+  }
+
+  for await (const signal of iteratePartnerSignals(options)) {
+    yield format === 'csv'
+      ? formatCsvRow(exportColumns.map((column) => signal[column]))
+      : `${JSON.stringify(signal)}\n`
+  }
+}
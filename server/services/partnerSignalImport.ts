@@ -0,0 +1,375 @@
+import crypto from 'node:crypto'
+import { trace } from '@opentelemetry/api'
+import type {
+  PartnerSignalImportJob,
+  PartnerSignalImportJobStatus,
+  PartnerSignalImportRowError,
+  PartnerSignalImportValidation,
+  PartnerSignalInput,
+  PartnerSignalTransferFormat,
+  RegistryKind,
+} from '../../shared/types/domain.js'
+import { dbPool } from '../db/client.js'
+import { partnerSignalInputSchema } from '../schemas/partners.js'
+import { parseCsv, unescapeCsvFormula } from '../utils/csv.js'
+import { toIsoString } from '../utils/dates.js'
+import { readPositiveInt } from '../utils/env.js'
+import { logger } from '../utils/logger.js'
+import { withSpan } from '../utils/tracing.js'
+import { invalidatePartnerSignalDashboards } from './dashboardData.js'
+import { listRegistryEntries } from './partnerRegistry.js'
+import { recordPartnerSignal } from './partnerSignals.js'
+
+const tracer = trace.getTracer('partner-signal-import-service')
+
+const maxImportRows = readPositiveInt(process.env.PARTNER_SIGNAL_IMPORT_MAX_ROWS, 10_000)
+const syncImportRows = readPositiveInt(process.env.PARTNER_SIGNAL_IMPORT_SYNC_ROWS, 100)
+const staleImportMs = readPositiveInt(process.env.PARTNER_SIGNAL_IMPORT_STALE_MINUTES, 15) * 60_000
+const PROGRESS_BATCH_SIZE = 25
+const MAX_STORED_ERRORS = 500
+
+const importFields = Object.keys(partnerSignalInputSchema.shape) as Array<keyof PartnerSignalInput>
+const requiredFields = importFields.filter(
+  (field) => !partnerSignalInputSchema.shape[field].safeParse(undefined).success,
+)
+
+export class PartnerSignalImportError extends Error {
+  readonly reason: 'empty' | 'too_many_rows' | 'missing_columns'
+
+  constructor(reason: PartnerSignalImportError['reason'], message: string) {
+    super(message)
+    this.name = 'PartnerSignalImportError'
+    this.reason = reason
+  }
+}
+
+interface ImportRow {
+  line: number
+  value: unknown
+  issues: PartnerSignalImportRowError['issues']
+}
+
+interface ValidatedImport {
+  validation: PartnerSignalImportValidation
+  rows: Array<{ line: number; input: PartnerSignalInput }>
+}
+
+const JOB_COLUMNS = `id,
+  status,
+  format,
+  total_rows,
+  processed_rows,
+  imported_rows,
+  failed_rows,
+  errors,
+  created_by,
+  created_at,
+  updated_at,
+  completed_at`
+
+type ImportJobRow = {
+  id: string
+  status: PartnerSignalImportJobStatus
+  format: PartnerSignalTransferFormat
+  total_rows: number
+  processed_rows: number
+  imported_rows: number
+  failed_rows: number
+  errors: PartnerSignalImportRowError[] | null
+  created_by: string
+  created_at: string | Date
+  updated_at: string | Date
+  completed_at: string | Date | null
+}
+
+const activeImports = new Set<Promise<void>>()
+
+function mapJob(row: ImportJobRow): PartnerSignalImportJob {
+  return {
+    id: row.id,
+    status: row.status,
+    format: row.format,
+    totalRows: row.total_rows,
+    processedRows: row.processed_rows,
+    importedRows: row.imported_rows,
+    failedRows: row.failed_rows,
+    errors: row.errors ?? [],
+    createdBy: row.created_by,
+    createdAt: toIsoString(row.created_at),
+    updatedAt: toIsoString(row.updated_at),
+    completedAt: row.completed_at === null ? null : toIsoString(row.completed_at),
+  }
+}
+
+function normalizeColumn(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/** Spreadsheet cells are strings: numbers and JSON metadata are converted before schema validation. */
+function readCsvRecord(header: Array<keyof PartnerSignalInput | null>, record: string[], line: number): ImportRow {
+  const value: Record<string, unknown> = {}
+  const issues: ImportRow['issues'] = []
+
+  header.forEach((field, index) => {
+    const cell = record[index]?.trim() ?? ''
+    if (!field || cell === '') {
+      return
+    }
+
+    if (field === 'confidence') {
+      const confidence = Number(cell)
+      value[field] = Number.isNaN(confidence) ? cell : confidence
+    } else if (field === 'metadata') {
+      try {
+        value[field] = JSON.parse(cell)
+      } catch {
+        issues.push({ path: 'metadata', message: 'metadata must be a JSON object' })
+      }
+    } else {
+      value[field] = unescapeCsvFormula(cell)
+    }
+  })
+
+  return { line, value, issues }
+}
+
+function parseCsvRows(content: string): ImportRow[] {
+  const [headerRecord, ...records] = parseCsv(content)
+  if (!headerRecord) {
+    return []
+  }
+
+  const header = headerRecord.map(
+    (column) => importFields.find((field) => normalizeColumn(field) === normalizeColumn(column)) ?? null,
+  )
+  const missing = requiredFields.filter((field) => !header.includes(field))
+  if (missing.length > 0) {
+    throw new PartnerSignalImportError('missing_columns', `Missing required columns: ${missing.join(', ')}`)
+  }
+
+  return records.map((record, index) => readCsvRecord(header, record, index + 2))
+}
+
+function parseNdjsonRows(content: string): ImportRow[] {
+  const rows: ImportRow[] = []
+  content.split(/\r?\n/).forEach((text, index) => {
+    if (!text.trim()) {
+      return
+    }
+
+    try {
+      rows.push({ line: index + 1, value: JSON.parse(text), issues: [] })
+    } catch {
+      rows.push({ line: index + 1, value: null, issues: [{ path: '', message: 'Line is not valid JSON' }] })
+    }
+  })
+  return rows
+}
+
+async function listActiveRegistryIds(kind: RegistryKind, ids: Iterable<string>): Promise<Set<string>> {
+  const entries = await listRegistryEntries(kind, { ids: Array.from(new Set(ids)), active: true })
+  return new Set(entries.map((entry) => entry.id))
+}
+
+/**
+ * Parses and validates every row with `partnerSignalInputSchema` and checks its partner and merchant against the
+ * registry. Partner-scoped callers may only import rows for their own partner. Rows are numbered as the caller sees
+ * them: spreadsheet rows for CSV, lines for NDJSON.
+ */
+export async function validatePartnerSignalImport(
+  content: string,
+  format: PartnerSignalTransferFormat,
+  partnerScope?: string,
+): Promise<ValidatedImport> {
+  const parsed = format === 'csv' ? parseCsvRows(content) : parseNdjsonRows(content)
+  if (parsed.length === 0) {
+    throw new PartnerSignalImportError('empty', 'The import file has no rows')
+  }
+  if (parsed.length > maxImportRows) {
+    throw new PartnerSignalImportError('too_many_rows', `Imports are limited to ${maxImportRows} rows`)
+  }
+
+  const rows: ValidatedImport['rows'] = []
+  const errors: PartnerSignalImportRowError[] = []
+  const results = parsed.map((row) => partnerSignalInputSchema.safeParse(row.value))
+  const inputs = results.flatMap((result) => (result.success ? [result.data] : []))
+  const [partnerIds, merchantIds] = await Promise.all([
+    listActiveRegistryIds('partner', inputs.map((input) => input.partnerId)),
+    listActiveRegistryIds('merchant', inputs.map((input) => input.merchantId)),
+  ])
+
+  for (const [index, row] of parsed.entries()) {
+    const result = results[index]
+    const issues = [
+      ...row.issues,
+      ...(result.success
+        ? []
+        : result.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }))),
+    ]
+
+    if (result.success && partnerScope !== undefined && result.data.partnerId !== partnerScope) {
+      issues.push({ path: 'partnerId', message: 'Signals can only be imported for your own partner' })
+    } else if (result.success && !partnerIds.has(result.data.partnerId)) {
+      issues.push({ path: 'partnerId', message: `${result.data.partnerId} is not an active registered partner` })
+    }
+    if (result.success && !merchantIds.has(result.data.merchantId)) {
+      issues.push({ path: 'merchantId', message: `${result.data.merchantId} is not an active registered merchant` })
+    }
+
+    if (result.success && issues.length === 0) {
+      rows.push({ line: row.line, input: result.data })
+    } else {
+      errors.push({ line: row.line, issues })
+    }
+  }
+
+  return {
+    validation: {
+      format,
+      totalRows: parsed.length,
+      validRows: rows.length,
+      invalidRows: errors.length,
+      errors,
+    },
+    rows,
+  }
+}
+
+async function updateJob(
+  id: string,
+  status: PartnerSignalImportJobStatus,
+  progress: { processed: number; imported: number; errors: PartnerSignalImportRowError[] },
+): Promise<void> {
+  const finished = status === 'completed' || status === 'failed'
+  await dbPool.query(
+    `UPDATE partner_signal_import_jobs
+        SET status = $2,
+            processed_rows = $3,
+            imported_rows = $4,
+            failed_rows = $5,
+            errors = $6,
+            updated_at = $7,
+            completed_at = $8
+      WHERE id = $1`,
+    [
+      id,
+      status,
+      progress.processed,
+      progress.imported,
+      progress.errors.length,
+      JSON.stringify(progress.errors.slice(0, MAX_STORED_ERRORS)),
+      new Date().toISOString(),
+      finished ? new Date().toISOString() : null,
+    ],
+  )
+}
+
+async function runImportJob(id: string, imported: ValidatedImport): Promise<void> {
+  const errors = [...imported.validation.errors]
+  const progress = { processed: imported.validation.invalidRows, imported: 0, errors }
+
+  try {
+    await updateJob(id, 'running', progress)
+
+    for (const row of imported.rows) {
+      try {
+        await recordPartnerSignal(row.input)
+        progress.imported += 1
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to record signal'
+        errors.push({ line: row.line, issues: [{ path: '', message }] })
+      }
+
+      progress.processed += 1
+      if (progress.processed % PROGRESS_BATCH_SIZE === 0) {
+        await updateJob(id, 'running', progress)
+      }
+    }
+
+    errors.sort((left, right) => left.line - right.line)
+    await updateJob(id, 'completed', progress)
+    await invalidatePartnerSignalDashboards()
+    logger.info({ jobId: id, imported: progress.imported, failed: errors.length }, 'partner-signal-import-completed')
+  } catch (error) {
+    logger.error({ err: error, jobId: id }, 'partner-signal-import-failed')
+    await updateJob(id, 'failed', progress).catch(() => undefined)
+  }
+}
+
+/**
+ * Records an import job and inserts the valid rows through `recordPartnerSignal`, so imported signals get the same
+ * SLA, routing, duplicate checks and webhooks as single submissions. Small imports finish before this resolves;
+ * larger ones (or `background: true`) keep running and are polled with `getPartnerSignalImportJob`.
+ */
+export async function startPartnerSignalImport(
+  imported: ValidatedImport,
+  options: { createdBy: string; partnerScope?: string; background?: boolean },
+): Promise<PartnerSignalImportJob> {
+  return withSpan(tracer, 'partnerSignalImport.start', async () => {
+    const id = crypto.randomUUID()
+    await dbPool.query(
+      `INSERT INTO partner_signal_import_jobs (id, status, format, total_rows, partner_scope, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        id,
+        'queued',
+        imported.validation.format,
+        imported.validation.totalRows,
+        options.partnerScope ?? null,
+        options.createdBy,
+      ],
+    )
+
+    const run = runImportJob(id, imported)
+    if (options.background || imported.rows.length > syncImportRows) {
+      activeImports.add(run)
+      void run.finally(() => activeImports.delete(run))
+    } else {
+      await run
+    }
+
+    const job = await getPartnerSignalImportJob(id)
+    if (!job) {
+      throw new Error(`Import job ${id} disappeared`)
+    }
+    return job
+  })
+}
+
+export async function getPartnerSignalImportJob(
+  id: string,
+  partnerScope?: string,
+): Promise<PartnerSignalImportJob | null> {
+  const result = await dbPool.query<ImportJobRow>(
+    partnerScope === undefined
+      ? `SELECT ${JOB_COLUMNS} FROM partner_signal_import_jobs WHERE id = $1`
+      : `SELECT ${JOB_COLUMNS} FROM partner_signal_import_jobs WHERE id = $1 AND partner_scope = $2`,
+    partnerScope === undefined ? [id] : [id, partnerScope],
+  )
+  return result.rows.length > 0 ? mapJob(result.rows[0]) : null
+}
+
+/** Waits for background imports still running in this process, for graceful shutdown. */
+export async function stopPartnerSignalImports(): Promise<void> {
+  await Promise.allSettled(Array.from(activeImports))
+}
+
+/**
+ * Background imports only run in the process that accepted them. On startup, jobs still `queued` or `running` with
+ * no progress for `PARTNER_SIGNAL_IMPORT_STALE_MINUTES` belonged to a process that stopped, so they are marked
+ * `failed` and pollers stop waiting. Recent jobs are left alone, as another instance may still be running them.
+ */
+export async function failStalePartnerSignalImports(now = new Date()): Promise<number> {
+  const result = await dbPool.query<{ id: string }>(
+    `UPDATE partner_signal_import_jobs
+        SET status = 'failed', updated_at = $1, completed_at = $1
+      WHERE status IN ('queued', 'running') AND updated_at < $2
+      RETURNING id`,
+    [now.toISOString(), new Date(now.getTime() - staleImportMs).toISOString()],
+  )
+
+  if (result.rows.length > 0) {
+    logger.warn({ jobIds: result.rows.map((row) => row.id) }, 'partner-signal-import-stale-jobs-failed')
+  }
+  return result.rows.length
+}
@@ -0,0 +1,202 @@
+import { Kafka, type Consumer, type IHeaders, type Producer } from 'kafkajs'
+import type { PartnerSignal } from '../../shared/types/domain.js'
+import { partnerSignalInputSchema } from '../schemas/partners.js'
+import { logger } from '../utils/logger.js'
+import { invalidatePartnerSignalDashboards } from './dashboardData.js'
+import { createKafkaConfig } from './liveAnalyticsKafka.js'
+import { decodeWithSchemaRegistry } from './liveAnalyticsSchemaRegistry.js'
+import { PartnerRegistryError } from './partnerRegistry.js'
+import { recordPartnerSignalOnce } from './partnerSignals.js'
+
+const topic = process.env.PARTNER_SIGNAL_KAFKA_TOPIC?.trim() ?? ''
+const deadLetterTopic = process.env.PARTNER_SIGNAL_KAFKA_DLQ_TOPIC?.trim() || `${topic}.dlq`
+const groupId = process.env.PARTNER_SIGNAL_KAFKA_GROUP_ID ?? 'ecosystem-partner-signals'
+const clientId = process.env.PARTNER_SIGNAL_KAFKA_CLIENT_ID ?? 'ecosystem-partner-signals'
+const fromBeginning = process.env.PARTNER_SIGNAL_KAFKA_FROM_BEGINNING === 'true'
+const schemaRegistryEnabled = process.env.PARTNER_SIGNAL_KAFKA_SCHEMA_REGISTRY === 'true'
+const isTestEnvironment = process.env.NODE_ENV === 'test'
+
+export const PARTNER_SIGNAL_KAFKA_KEY_HEADER = 'idempotency-key'
+const MAX_KEY_LENGTH = 200
+
+export interface PartnerSignalKafkaMessage {
+  key?: Buffer | string | null
+  value: Buffer | string | null
+  headers?: IHeaders
+}
+
+export type PartnerSignalDeadLetterReason =
+  | 'missing_key'
+  | 'malformed'
+  | 'invalid_payload'
+  | 'unknown_partner'
+  | 'unknown_merchant'
+
+export type PartnerSignalKafkaResult =
+  | { outcome: 'recorded' | 'replayed'; signal: PartnerSignal }
+  | { outcome: 'dead_lettered'; reason: PartnerSignalDeadLetterReason; error: string }
+
+let consumer: Consumer | null = null
+let producer: Producer | null = null
+let startPromise: Promise<void> | null = null
+
+function headerValue(headers: IHeaders | undefined, name: string): string | null {
+  const raw = headers?.[name]
+  const value = Array.isArray(raw) ? raw[0] : raw
+  if (value === undefined) {
+    return null
+  }
+
+  const text = value.toString().trim()
+  return text.length > 0 ? text : null
+}
+
+function resolveSubmissionKey(message: PartnerSignalKafkaMessage): string | null {
+  const key = headerValue(message.headers, PARTNER_SIGNAL_KAFKA_KEY_HEADER) ?? message.key?.toString().trim() ?? null
+  return key && key.length <= MAX_KEY_LENGTH ? key : null
+}
+
+async function decodePayload(message: PartnerSignalKafkaMessage): Promise<unknown> {
+  const value = typeof message.value === 'string' ? Buffer.from(message.value) : message.value
+  if (!value || value.length === 0) {
+    throw new Error('Message has no value')
+  }
+
+  if (schemaRegistryEnabled) {
+    const decoded = await decodeWithSchemaRegistry(value, message.headers)
+    if (decoded !== null && decoded !== undefined) {
+      return decoded
+    }
+  }
+
+  return JSON.parse(value.toString('utf8')) as unknown
+}
+
+/**
+ * Validates one submission and records it through `recordPartnerSignalOnce`. Anything the sender has to fix comes
+ * back as `dead_lettered`; database and other transient failures throw so the offset is not committed.
+ */
+async function processMessage(message: PartnerSignalKafkaMessage): Promise<PartnerSignalKafkaResult> {
+  const submissionKey = resolveSubmissionKey(message)
+  if (!submissionKey) {
+    return {
+      outcome: 'dead_lettered',
+      reason: 'missing_key',
+      error: `Messages need a key or ${PARTNER_SIGNAL_KAFKA_KEY_HEADER} header of at most ${MAX_KEY_LENGTH} characters`,
+    }
+  }
+
+  let payload: unknown
+  try {
+    payload = await decodePayload(message)
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error)
+    return { outcome: 'dead_lettered', reason: 'malformed', error: detail }
+  }
+
+  const parsed = partnerSignalInputSchema.safeParse(payload)
+  if (!parsed.success) {
+    return {
+      outcome: 'dead_lettered',
+      reason: 'invalid_payload',
+      error: parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; '),
+    }
+  }
+
+  try {
+    const { signal, created } = await recordPartnerSignalOnce(parsed.data, submissionKey)
+    if (created) {
+      await invalidatePartnerSignalDashboards()
+    }
+    return { outcome: created ? 'recorded' : 'replayed', signal }
+  } catch (error) {
+    if (error instanceof PartnerRegistryError) {
+      if (error.reason === 'unknown_partner' || error.reason === 'unknown_merchant') {
+        return { outcome: 'dead_lettered', reason: error.reason, error: error.message }
+      }
+    }
+    throw error
+  }
+}
+
+export async function processPartnerSignalMessageForTesting(
+  message: PartnerSignalKafkaMessage,
+): Promise<PartnerSignalKafkaResult | null> {
+  if (!isTestEnvironment) {
+    return null
+  }
+
+  return processMessage(message)
+}
+
+async function sendToDeadLetter(
+  message: PartnerSignalKafkaMessage,
+  result: Extract<PartnerSignalKafkaResult, { outcome: 'dead_lettered' }>,
+): Promise<void> {
+  if (!producer) {
+    throw new Error('Partner signal dead-letter producer is not connected')
+  }
+
+  await producer.send({
+    topic: deadLetterTopic,
+    messages: [
+      {
+        key: message.key ?? null,
+        value: message.value,
+        headers: {
+          ...message.headers,
+          'dlq-reason': result.reason,
+          'dlq-error': result.error.slice(0, 1_000),
+          'dlq-source-topic': topic,
+        },
+      },
+    ],
+  })
+  logger.warn({ reason: result.reason, error: result.error, deadLetterTopic }, 'partner-signal-kafka-dead-lettered')
+}
+
+async function startConsumer(kafka: Kafka): Promise<void> {
+  producer = kafka.producer({ idempotent: true, maxInFlightRequests: 1 })
+  await producer.connect()
+
+  consumer = kafka.consumer({ groupId })
+  await consumer.connect()
+  await consumer.subscribe({ topic, fromBeginning })
+  await consumer.run({
+    eachMessage: async ({ message }) => {
+      const result = await processMessage(message)
+      if (result.outcome === 'dead_lettered') {
+        await sendToDeadLetter(message, result)
+      } else {
+        logger.info({ signalId: result.signal.id, outcome: result.outcome }, 'partner-signal-kafka-consumed')
+      }
+    },
+  })
+}
+
+/** Starts consuming `PARTNER_SIGNAL_KAFKA_TOPIC` with the live analytics broker settings; a no-op when unset. */
+export function startPartnerSignalKafkaConsumer(): void {
+  if (!topic || startPromise || isTestEnvironment) {
+    return
+  }
+
+  const config = createKafkaConfig(clientId)
+  if (!config) {
+    logger.warn({ topic }, 'partner-signal-kafka-missing-brokers')
+    return
+  }
+
+  startPromise = startConsumer(new Kafka(config)).catch((error: unknown) => {
+    logger.error({ err: error, topic }, 'partner-signal-kafka-consumer-failed')
+  })
+}
+
+export async function stopPartnerSignalKafkaConsumer(): Promise<void> {
+  await startPromise
+  startPromise = null
+
+  await consumer?.disconnect().catch(() => undefined)
+  await producer?.disconnect().catch(() => undefined)
+  consumer = null
+  producer = null
+}
@@ -0,0 +1,126 @@
+import { trace } from '@opentelemetry/api'
+import type { PartnerSignal } from '../../shared/types/domain.js'
+import {
+  computePartnerSignalSlaDueAt,
+  resolvePartnerSignalSlaPolicy,
+  slaTrackedPartnerSignalStatuses,
+} from '../../shared/data/partnerSignalSla.js'
+import { dbPool } from '../db/client.js'
+import { toIsoString } from '../utils/dates.js'
+import { readPositiveInt } from '../utils/env.js'
+import { logger } from '../utils/logger.js'
+import { withSpan } from '../utils/tracing.js'
+import { escalatePartnerSignal, type PartnerSignalEscalation } from './partnerSignals.js'
+
+const tracer = trace.getTracer('partner-signal-sla-service')
+
+const schedulerEnabled = process.env.PARTNER_SIGNAL_SLA_ENABLED !== 'false'
+const sweepIntervalMs = Math.max(1_000, readPositiveInt(process.env.PARTNER_SIGNAL_SLA_SWEEP_MS, 60_000))
+const SWEEP_BATCH_SIZE = 50
+
+export interface PartnerSignalSlaSweepResult {
+  backfilled: number
+  escalated: PartnerSignalEscalation[]
+}
+
+let sweepTimer: NodeJS.Timeout | null = null
+let sweeping: Promise<PartnerSignalSlaSweepResult> | null = null
+
+function trackedStatusPlaceholders(offset: number): string {
+  return slaTrackedPartnerSignalStatuses.map((_, index) => `$${offset + index + 1}`).join(', ')
+}
+
+/** Signals created before SLA policies existed get a due-by derived from their submission time. */
+async function backfillSlaDeadlines(): Promise<number> {
+  const missing = await dbPool.query<{
+    id: string
+    signal_type: PartnerSignal['signalType']
+    confidence: number
+    submitted_at: string | Date
+  }>(
+    `SELECT id, signal_type, confidence, submitted_at
+       FROM partner_signals
+      WHERE sla_due_at IS NULL AND status IN (${trackedStatusPlaceholders(0)})
+      LIMIT ${SWEEP_BATCH_SIZE}`,
+    slaTrackedPartnerSignalStatuses,
+  )
+
+  for (const row of missing.rows) {
+    const policy = resolvePartnerSignalSlaPolicy(row.signal_type, row.confidence)
+    const submittedAt = toIsoString(row.submitted_at)
+    await dbPool.query(
+      `UPDATE partner_signals
+      SET sla_policy_id = $2, sla_due_at = $3, version = version + 1
+      WHERE id = $1 AND sla_due_at IS NULL`,
+      [row.id, policy.id, computePartnerSignalSlaDueAt(policy, submittedAt)],
+    )
+  }
+
+  return missing.rows.length
+}
+
+async function runSweep(now: Date): Promise<PartnerSignalSlaSweepResult> {
+  const backfilled = await backfillSlaDeadlines()
+  const overdue = await dbPool.query<{ id: string }>(
+    `SELECT id
+       FROM partner_signals
+      WHERE sla_escalated_at IS NULL
+        AND sla_due_at <= $1
+        AND status IN (${trackedStatusPlaceholders(1)})
+      ORDER BY sla_due_at ASC
+      LIMIT ${SWEEP_BATCH_SIZE}`,
+    [now.toISOString(), ...slaTrackedPartnerSignalStatuses],
+  )
+
+  const escalated: PartnerSignalEscalation[] = []
+  for (const row of overdue.rows) {
+    try {
+      const escalation = await escalatePartnerSignal(row.id, now)
+      if (escalation) {
+        escalated.push(escalation)
+        logger.info({ signalId: row.id, target: escalation.target }, 'partner-signal-sla-escalated')
+      }
+    } catch (error) {
+      logger.warn({ err: error, signalId: row.id }, 'partner-signal-sla-escalation-failed')
+    }
+  }
+
+  return { backfilled, escalated }
+}
+
+/** Escalates every open signal past its SLA due-by that has not been escalated yet. */
+export function escalateOverduePartnerSignals(now = new Date()): Promise<PartnerSignalSlaSweepResult> {
+  if (sweeping) {
+    return sweeping
+  }
+
+  sweeping = withSpan(tracer, 'partnerSignalSla.sweep', () => runSweep(now)).finally(() => {
+    sweeping = null
+  })
+  return sweeping
+}
+
+export function startPartnerSignalSlaScheduler(): void {
+  if (!schedulerEnabled || process.env.NODE_ENV === 'test' || sweepTimer) {
+    return
+  }
+
+  const sweep = () => {
+    escalateOverduePartnerSignals().catch((error: unknown) => {
+      logger.warn({ err: error }, 'partner-signal-sla-sweep-failed')
+    })
+  }
+
+  sweep()
+  sweepTimer = setInterval(sweep, sweepIntervalMs)
+  sweepTimer.unref()
+}
+
+export async function stopPartnerSignalSlaScheduler(): Promise<void> {
+  if (sweepTimer) {
+    clearInterval(sweepTimer)
+    sweepTimer = null
+  }
+
+  await sweeping?.catch(() => undefined)
+}
@@ -1,21 +1,102 @@
 import crypto from 'node:crypto'
-import { SpanStatusCode, trace, type Span } from '@opentelemetry/api'
+import type { PoolClient } from 'pg'
+import { trace } from '@opentelemetry/api'
 import type {
   PartnerSignal,
   PartnerSignalInput,
   PartnerSignalStats,
   PartnerSignalAudit,
   PartnerSignalAssignment,
+  PartnerSignalBulkAction,
+  PartnerSignalBulkItemResult,
+  PartnerSignalBulkResult,
+  PartnerSignalMergeResult,
+  PartnerSignalPage,
+  PartnerSignalSortKey,
+  PartnerSignalSortOrder,
   ReviewerRole,
 } from '../../shared/types/domain.js'
+import {
+  checkPartnerSignalTransition,
+  openPartnerSignalStatuses,
+  partnerSignalStatuses,
+  type PartnerSignalTransitionCheck,
+  type PartnerSignalTransitionRule,
+} from '../../shared/data/partnerSignalWorkflow.js'
+import {
+  computePartnerSignalSlaDueAt,
+  getPartnerSignalSlaPolicy,
+  resolvePartnerSignalSlaPolicy,
+  slaTrackedPartnerSignalStatuses,
+} from '../../shared/data/partnerSignalSla.js'
+import { toReviewerRole } from '../../shared/data/permissions.js'
 import { dbPool, reseedPartnerSignals } from '../db/client.js'
 import { observePartnerSignalReviewLatency, refreshPartnerSignalBacklogMetrics } from '../metrics/partnerSignals.js'
+import { logger } from '../utils/logger.js'
+import { withSpan } from '../utils/tracing.js'
+import { dispatchDomainEvents, recordDomainEvent, subscribeToDomainEvents } from './domainEvents.js'
 import { selectModeratorForAssignment } from './moderators.js'
-import { enqueueShadowApprovers } from './shadowApprovalQueue.js'
+import { findDuplicatePartnerSignal } from './partnerSignalDuplicates.js'
+import { resolvePartnerSignalNames } from './partnerRegistry.js'
+import { enqueuePartnerWebhookEvent } from './partnerWebhooks.js'
+import { describeRoutingExplanation } from './reviewerRouting.js'
+import { escalateShadowApprovers } from './shadowApprovalQueue.js'
 
 const tracer = trace.getTracer('partner-signals-service')
 
-const signalStatusValues: PartnerSignal['status'][] = ['pending', 'approved', 'archived']
+const SLA_ESCALATOR = { id: 'system@sla', name: 'SLA Escalation', role: toReviewerRole(['senior-reviewer']) }
+const slaSeniorGroups = (process.env.PARTNER_SIGNAL_SLA_SENIOR_GROUPS ?? 'ecosystem-senior-reviewers')
+  .split(',')
+  .map((group) => group.trim())
+  .filter(Boolean)
+
+subscribeToDomainEvents('partner-signal-backlog-metrics', ['SignalCreated', 'SignalStatusChanged'], () =>
+  refreshPartnerSignalBacklogMetrics(),
+)
+
+export class PartnerSignalTransitionError extends Error {
+  readonly reason: Extract<PartnerSignalTransitionCheck, { allowed: false }>['reason']
+  readonly currentStatus: PartnerSignal['status']
+  readonly allowedNextStates: PartnerSignal['status'][]
+
+  constructor(
+    currentStatus: PartnerSignal['status'],
+    requestedStatus: PartnerSignal['status'],
+    check: Extract<PartnerSignalTransitionCheck, { allowed: false }>,
+  ) {
+    super(
+      check.reason === 'notes_required'
+        ? `Moving a signal from ${currentStatus} to ${requestedStatus} requires notes`
+        : `Cannot move a signal from ${currentStatus} to ${requestedStatus}`,
+    )
+    this.name = 'PartnerSignalTransitionError'
+    this.reason = check.reason
+    this.currentStatus = currentStatus
+    this.allowedNextStates = check.allowedNextStates
+  }
+}
+
+export class PartnerSignalMergeError extends Error {
+  readonly reason: 'canonical_required' | 'same_signal' | 'already_merged'
+
+  constructor(reason: PartnerSignalMergeError['reason'], message: string) {
+    super(message)
+    this.name = 'PartnerSignalMergeError'
+    this.reason = reason
+  }
+}
+
+/** Raised when an `If-Match` precondition names a version other than the one stored; carries the current signal. */
+export class PartnerSignalVersionConflictError extends Error {
+  readonly reason = 'stale_version'
+  readonly current: PartnerSignal
+
+  constructor(current: PartnerSignal) {
+    super(`Signal ${current.id} has changed since it was read; it is now at version ${current.version}`)
+    this.name = 'PartnerSignalVersionConflictError'
+    this.current = current
+  }
+}
 
 const SIGNAL_COLUMNS = `id,
   partner_id,
@@ -31,7 +112,15 @@ const SIGNAL_COLUMNS = `id,
   assigned_reviewer_id,
   assigned_reviewer_name,
   assigned_reviewer_role,
-  assigned_at`
+  assigned_at,
+  sla_policy_id,
+  sla_due_at,
+  sla_escalated_at,
+  sla_paused_at,
+  duplicate_of_id,
+  duplicate_score,
+  merged_into_id,
+  version`
 
 type PartnerSignalRow = {
   id: string
@@ -49,6 +138,14 @@ type PartnerSignalRow = {
   assigned_reviewer_name: string | null
   assigned_reviewer_role: ReviewerRole | null
   assigned_at: string | Date | null
+  sla_policy_id: string | null
+  sla_due_at: string | Date | null
+  sla_escalated_at: string | Date | null
+  sla_paused_at: string | Date | null
+  duplicate_of_id: string | null
+  duplicate_score: number | null
+  merged_into_id: string | null
+  version: number
 }
 
 type PartnerSignalAuditRow = {
@@ -60,6 +157,8 @@ type PartnerSignalAuditRow = {
   action: PartnerSignalAudit['action']
   from_status: PartnerSignal['status'] | null
   to_status: PartnerSignal['status'] | null
+  transition_rule: string | null
+  batch_id: string | null
   notes: string | null
   created_at: string | Date
 }
@@ -85,20 +184,13 @@ function toNullableIsoString(value: string | Date | null): string | null {
   return toIsoString(value)
 }
 
-async function withSpan<T>(name: string, handler: () => Promise<T>): Promise<T> {
-  return tracer.startActiveSpan(name, async (span: Span) => {
-    try {
-      const result = await handler()
-      return result
-    } catch (error) {
-      if (error instanceof Error) {
-        span.recordException(error)
-        span.setStatus({ code: SpanStatusCode.ERROR, message: error.message })
-      }
-      throw error
-    } finally {
-      span.end()
-    }
+/**
+ * Starts delivering the events just committed without holding up the write; failures stay in the outbox for the
+ * background dispatcher to retry.
+ */
+function publishDomainEvents(): void {
+  void dispatchDomainEvents().catch((error: unknown) => {
+    logger.warn({ err: error }, 'domain-event-dispatch-failed')
   })
 }
 
@@ -119,6 +211,13 @@ function mapSignal(row: PartnerSignalRow): PartnerSignal {
     assignedReviewerName: row.assigned_reviewer_name,
     assignedReviewerRole: row.assigned_reviewer_role,
     assignedAt: toNullableIsoString(row.assigned_at),
+    slaPolicyId: row.sla_policy_id,
+    slaDueAt: toNullableIsoString(row.sla_due_at),
+    slaEscalatedAt: toNullableIsoString(row.sla_escalated_at),
+    duplicateOfId: row.duplicate_of_id,
+    duplicateScore: row.duplicate_score === null ? null : Number(row.duplicate_score),
+    mergedIntoId: row.merged_into_id,
+    version: Number(row.version),
   }
 }
 
@@ -132,6 +231,8 @@ function mapAudit(row: PartnerSignalAuditRow): PartnerSignalAudit {
     action: row.action,
     fromStatus: row.from_status,
     toStatus: row.to_status,
+    transitionRule: row.transition_rule,
+    batchId: row.batch_id,
     notes: row.notes,
     createdAt: toIsoString(row.created_at),
   }
@@ -149,59 +250,274 @@ function mapAssignment(row: PartnerSignalAssignmentRow): PartnerSignalAssignment
   }
 }
 
-export async function listPartnerSignals(
-  signalType?: PartnerSignal['signalType'],
-  status?: PartnerSignal['status'],
-): Promise<PartnerSignal[]> {
-  return withSpan('partnerSignals.list', async () => {
+export interface PartnerSignalCursor {
+  sort: PartnerSignalSortKey
+  order: PartnerSignalSortOrder
+  value: string | number
+  id: string
+}
+
+export interface PartnerSignalListOptions {
+  partnerId?: string
+  merchantId?: string
+  signalType?: PartnerSignal['signalType']
+  status?: PartnerSignal['status']
+  q?: string
+  sort?: PartnerSignalSortKey
+  order?: PartnerSignalSortOrder
+  limit?: number
+  cursor?: PartnerSignalCursor | null
+  includeTotal?: boolean
+}
+
+const DEFAULT_PAGE_SIZE = 25
+const MAX_PAGE_SIZE = 100
+const UNASSIGNED_SORT_VALUE = '1970-01-01T00:00:00.000Z'
+
+// Unassigned signals sort as the epoch so keyset comparisons never have to reason about NULLs.
+const sortColumns: Record<PartnerSignalSortKey, { expression: string; cast: string }> = {
+  submittedAt: { expression: 'submitted_at', cast: 'timestamptz' },
+  confidence: { expression: 'confidence', cast: 'double precision' },
+  assignedAt: { expression: `COALESCE(assigned_at, '${UNASSIGNED_SORT_VALUE}'::timestamptz)`, cast: 'timestamptz' },
+}
+
+function readSortValue(row: PartnerSignalRow, sort: PartnerSignalSortKey): string | number {
+  switch (sort) {
+    case 'confidence':
+      return row.confidence
+    case 'assignedAt':
+      return row.assigned_at ? toIsoString(row.assigned_at) : UNASSIGNED_SORT_VALUE
+    default:
+      return toIsoString(row.submitted_at)
+  }
+}
+
+export function encodePartnerSignalCursor(cursor: PartnerSignalCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url')
+}
+
+export function decodePartnerSignalCursor(raw: string): PartnerSignalCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8')) as Partial<PartnerSignalCursor>
+    if (
+      !parsed ||
+      typeof parsed.id !== 'string' ||
+      !(parsed.sort && parsed.sort in sortColumns) ||
+      (parsed.order !== 'asc' && parsed.order !== 'desc') ||
+      (typeof parsed.value !== 'string' && typeof parsed.value !== 'number')
+    ) {
+      return null
+    }
+
+    return { sort: parsed.sort, order: parsed.order, value: parsed.value, id: parsed.id }
+  } catch {
+    return null
+  }
+}
+
+// LIKE has no portable escape syntax across Postgres and pg-mem, so wildcard characters in the
+// search term degrade to single-character matches instead of being escaped.
+function toSearchPattern(term: string): string {
+  return `%${term.replace(/[%_\\]/g, '_')}%`
+}
+
+export async function listPartnerSignals(options: PartnerSignalListOptions = {}): Promise<PartnerSignalPage> {
+  return withSpan(tracer, 'partnerSignals.list', async () => {
+    const sort = options.sort ?? 'submittedAt'
+    const order = options.order ?? 'desc'
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE))
     const where: string[] = []
-    const values: Array<string> = []
+    const values: Array<string | number> = []
 
-    if (signalType) {
-      values.push(signalType)
+    if (options.partnerId !== undefined) {
+      values.push(options.partnerId)
+      where.push(`partner_id = $${values.length}`)
+    }
+
+    if (options.merchantId !== undefined) {
+      values.push(options.merchantId)
+      where.push(`merchant_id = $${values.length}`)
+    }
+
+    if (options.signalType) {
+      values.push(options.signalType)
       where.push(`signal_type = $${values.length}`)
     }
 
-    if (status) {
-      values.push(status)
+    if (options.status) {
+      values.push(options.status)
       where.push(`status = $${values.length}`)
     }
 
+    const searchTerm = options.q?.trim()
+    if (searchTerm) {
+      values.push(toSearchPattern(searchTerm))
+      const placeholder = `$${values.length}`
+      where.push(`(partner_name ILIKE ${placeholder} OR merchant_name ILIKE ${placeholder} OR description ILIKE ${placeholder})`)
+    }
+
+    const filterClause = where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''
+    const filterValues = [...values]
+    const { expression, cast } = sortColumns[sort]
+    const direction = order === 'asc' ? 'ASC' : 'DESC'
+
+    if (options.cursor) {
+      const comparator = order === 'asc' ? '>' : '<'
+      values.push(options.cursor.value)
+      const valuePlaceholder = `$${values.length}::${cast}`
+      values.push(options.cursor.id)
+      const idPlaceholder = `$${values.length}`
+      where.push(
+        `(${expression} ${comparator} ${valuePlaceholder} OR (${expression} = ${valuePlaceholder} AND id ${comparator} ${idPlaceholder}))`,
+      )
+    }
+
+    values.push(limit + 1)
     const query = `SELECT ${SIGNAL_COLUMNS}
       FROM partner_signals
       ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
-      ORDER BY submitted_at DESC`
+      ORDER BY ${expression} ${direction}, id ${direction}
+      LIMIT $${values.length}`
 
-    const result = await dbPool.query<PartnerSignalRow>(query, values)
-    return result.rows.map(mapSignal)
+    const [result, countResult] = await Promise.all([
+      dbPool.query<PartnerSignalRow>(query, values),
+      options.includeTotal === false
+        ? null
+        : dbPool.query<{ total: number }>(
+            `SELECT COUNT(*)::int AS total FROM partner_signals ${filterClause}`,
+            filterValues,
+          ),
+    ])
+
+    const rows = result.rows.slice(0, limit)
+    const lastRow = rows[rows.length - 1]
+    const nextCursor =
+      result.rows.length > limit && lastRow
+        ? encodePartnerSignalCursor({ sort, order, value: readSortValue(lastRow, sort), id: lastRow.id })
+        : null
+
+    return {
+      items: rows.map(mapSignal),
+      nextCursor,
+      total: countResult?.rows[0]?.total ?? rows.length,
+    }
   })
 }
 
-export async function recordPartnerSignal(input: PartnerSignalInput & {
+/** Walks every signal matching the filters page by page, so callers can stream large result sets. */
+export async function* iteratePartnerSignals(
+  options: Omit<PartnerSignalListOptions, 'limit' | 'cursor' | 'includeTotal'> = {},
+): AsyncGenerator<PartnerSignal> {
+  let cursor: PartnerSignalCursor | null = null
+  do {
+    const page = await listPartnerSignals({ ...options, limit: MAX_PAGE_SIZE, cursor, includeTotal: false })
+    yield* page.items
+    cursor = page.nextCursor ? decodePartnerSignalCursor(page.nextCursor) : null
+  } while (cursor)
+}
+
+type PartnerSignalSubmission = PartnerSignalInput & {
   assignedReviewerId?: string | null
   assignedReviewerName?: string | null
   assignedReviewerRole?: ReviewerRole | null
-}): Promise<PartnerSignal> {
-  return withSpan('partnerSignals.record', async () => {
+}
+
+export interface PartnerSignalRecordResult {
+  signal: PartnerSignal
+  created: boolean
+}
+
+export async function recordPartnerSignal(input: PartnerSignalSubmission): Promise<PartnerSignal> {
+  return (await insertPartnerSignal(input, null)).signal
+}
+
+/**
+ * Records a submission at most once per partner and client-supplied key. Replays return the signal created by the
+ * first delivery with `created: false`, even when the original has since been merged or archived.
+ */
+export async function recordPartnerSignalOnce(
+  input: PartnerSignalSubmission,
+  submissionKey: string,
+): Promise<PartnerSignalRecordResult> {
+  try {
+    return await insertPartnerSignal(input, submissionKey)
+  } catch (error) {
+    // A concurrent delivery of the same key won the insert race; hand back its signal instead of failing.
+    if (typeof error === 'object' && error && 'code' in error && (error as { code?: string }).code === '23505') {
+      const existing = await findSignalBySubmissionKey(dbPool, input.partnerId, submissionKey)
+      if (existing) {
+        return { signal: existing, created: false }
+      }
+    }
+    throw error
+  }
+}
+
+async function findSignalBySubmissionKey(
+  client: PoolClient | typeof dbPool,
+  partnerId: string,
+  submissionKey: string,
+): Promise<PartnerSignal | null> {
+  const keyResult = await client.query<{ signal_id: string }>(
+    `SELECT signal_id FROM partner_signal_submission_keys WHERE partner_id = $1 AND submission_key = $2`,
+    [partnerId, submissionKey],
+  )
+  if (!keyResult.rows[0]) {
+    return null
+  }
+
+  const result = await client.query<PartnerSignalRow>(`SELECT ${SIGNAL_COLUMNS} FROM partner_signals WHERE id = $1`, [
+    keyResult.rows[0].signal_id,
+  ])
+  return result.rows[0] ? mapSignal(result.rows[0]) : null
+}
+
+async function insertPartnerSignal(
+  input: PartnerSignalSubmission,
+  submissionKey: string | null,
+): Promise<PartnerSignalRecordResult> {
+  return withSpan(tracer, 'partnerSignals.record', async () => {
     const client = await dbPool.connect()
     const signalId = crypto.randomUUID()
     const submittedAt = new Date().toISOString()
+    const slaPolicy = resolvePartnerSignalSlaPolicy(input.signalType, input.confidence)
     let reviewerId = input.assignedReviewerId ?? null
     let reviewerName = input.assignedReviewerName ?? null
     let reviewerRole = input.assignedReviewerRole ?? null
+    let assignmentNotes = 'Assigned at submission'
 
     try {
       await client.query('BEGIN')
+      if (submissionKey) {
+        const existing = await findSignalBySubmissionKey(client, input.partnerId, submissionKey)
+        if (existing) {
+          await client.query('ROLLBACK')
+          return { signal: existing, created: false }
+        }
+      }
+
+      const names = await resolvePartnerSignalNames(client, input)
 
       if (!reviewerId) {
-        const autoModerator = await selectModeratorForAssignment(client)
-        if (autoModerator) {
-          reviewerId = autoModerator.id
-          reviewerName = autoModerator.name
-          reviewerRole = autoModerator.role
+        const decision = await selectModeratorForAssignment(client, {
+          signal: { signalType: input.signalType, confidence: input.confidence },
+        })
+        if (decision) {
+          reviewerId = decision.moderator.id
+          reviewerName = decision.moderator.name
+          reviewerRole = decision.moderator.role
+          assignmentNotes = `Auto-assigned at submission: ${describeRoutingExplanation(decision.explanation)}`
+          logger.info({ signalId, explanation: decision.explanation }, 'partner-signal-auto-assigned')
+        } else {
+          logger.info({ signalId, signalType: input.signalType }, 'partner-signal-no-eligible-reviewer')
         }
       }
 
+      const duplicate = await findDuplicatePartnerSignal(client, { ...input, submittedAt })
+      if (duplicate) {
+        logger.info({ signalId, duplicateOfId: duplicate.signalId, score: duplicate.score }, 'partner-signal-duplicate')
+      }
+
       const insertResult = await client.query<PartnerSignalRow>(
         `INSERT INTO partner_signals (
           id,
@@ -218,15 +534,19 @@ export async function recordPartnerSignal(input: PartnerSignalInput & {
           assigned_reviewer_id,
           assigned_reviewer_name,
           assigned_reviewer_role,
-          assigned_at
-        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15)
+          assigned_at,
+          sla_policy_id,
+          sla_due_at,
+          duplicate_of_id,
+          duplicate_score
+        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19)
         RETURNING ${SIGNAL_COLUMNS}`,
         [
           signalId,
           input.partnerId,
-          input.partnerName,
+          names.partnerName,
           input.merchantId,
-          input.merchantName,
+          names.merchantName,
           input.signalType,
           input.description,
           input.confidence,
@@ -237,6 +557,10 @@ export async function recordPartnerSignal(input: PartnerSignalInput & {
           reviewerName,
           reviewerRole,
           reviewerId ? submittedAt : null,
+          slaPolicy.id,
+          computePartnerSignalSlaDueAt(slaPolicy, submittedAt),
+          duplicate?.signalId ?? null,
+          duplicate?.score ?? null,
         ],
       )
 
@@ -262,7 +586,9 @@ export async function recordPartnerSignal(input: PartnerSignalInput & {
           'created',
           null,
           'pending',
-          null,
+          duplicate
+            ? `Possible duplicate of ${duplicate.signalId} (${Math.round(duplicate.score * 100)}% similar)`
+            : null,
           submittedAt,
         ],
       )
@@ -311,17 +637,27 @@ export async function recordPartnerSignal(input: PartnerSignalInput & {
             'assigned',
             'pending',
             'pending',
-            'Auto-assigned at submission',
+            assignmentNotes,
             submittedAt,
           ],
         )
       }
 
-  await enqueueShadowApprovers(client, signalId)
+      if (submissionKey) {
+        await client.query(
+          `INSERT INTO partner_signal_submission_keys (partner_id, submission_key, signal_id, created_at)
+          VALUES ($1, $2, $3, $4)`,
+          [input.partnerId, submissionKey, signalId, submittedAt],
+        )
+      }
+
+      const created = mapSignal(insertResult.rows[0])
+      await enqueuePartnerWebhookEvent(client, 'signal.created', created)
+      await recordDomainEvent(client, 'SignalCreated', { signal: created })
 
   await client.query('COMMIT')
-      void refreshPartnerSignalBacklogMetrics()
-      return mapSignal(insertResult.rows[0])
+      publishDomainEvents()
+      return { signal: created, created: true }
     } catch (error) {
       await client.query('ROLLBACK')
       throw error
@@ -335,99 +671,311 @@ export async function resetPartnerSignals(): Promise<void> {
   await reseedPartnerSignals()
 }
 
-export async function getPartnerSignal(id: string): Promise<PartnerSignal | null> {
-  return withSpan('partnerSignals.get', async () => {
+export async function getPartnerSignal(id: string, partnerId?: string): Promise<PartnerSignal | null> {
+  return withSpan(tracer, 'partnerSignals.get', async () => {
     const result = await dbPool.query<PartnerSignalRow>(
-      `SELECT ${SIGNAL_COLUMNS} FROM partner_signals WHERE id = $1`,
-      [id],
+      partnerId === undefined
+        ? `SELECT ${SIGNAL_COLUMNS} FROM partner_signals WHERE id = $1`
+        : `SELECT ${SIGNAL_COLUMNS} FROM partner_signals WHERE id = $1 AND partner_id = $2`,
+      partnerId === undefined ? [id] : [id, partnerId],
     )
     return result.rows.length > 0 ? mapSignal(result.rows[0]) : null
   })
 }
 
+type ReviewerDetails = { reviewerId: string; reviewerName: string; reviewerRole: ReviewerRole; notes?: string }
+
+/** `expectedVersions` comes from an `If-Match` header; leaving it out skips the check. */
+function assertExpectedVersion(current: PartnerSignalRow, expectedVersions: readonly number[] | undefined): void {
+  if (expectedVersions !== undefined && !expectedVersions.includes(Number(current.version))) {
+    throw new PartnerSignalVersionConflictError(mapSignal(current))
+  }
+}
+
+async function lockSignal(client: PoolClient, id: string): Promise<PartnerSignalRow | null> {
+  const result = await client.query<PartnerSignalRow>(
+    `SELECT ${SIGNAL_COLUMNS} FROM partner_signals WHERE id = $1 FOR UPDATE`,
+    [id],
+  )
+  return result.rows[0] ?? null
+}
+
+function resolveTransition(
+  current: PartnerSignalRow,
+  status: PartnerSignal['status'],
+  options: ReviewerDetails | null,
+): PartnerSignalTransitionRule {
+  const transition = checkPartnerSignalTransition(current.status, status, {
+    role: options?.reviewerRole ?? 'colleague',
+    notes: options?.notes,
+  })
+
+  if (!transition.allowed) {
+    throw new PartnerSignalTransitionError(current.status, status, transition)
+  }
+
+  return transition.rule
+}
+
+type SlaClock = { dueAt: string | null; pausedAt: string | null; escalatedAt: string | null }
+
+/**
+ * The SLA clock only runs in tracked statuses. Leaving them pauses it, coming back pushes the due-by out by the
+ * time spent paused, and a reopen starts a fresh window that may be escalated again.
+ */
+function nextSlaClock(current: PartnerSignalRow, status: PartnerSignal['status'], now: Date): SlaClock {
+  const clock: SlaClock = {
+    dueAt: toNullableIsoString(current.sla_due_at),
+    pausedAt: toNullableIsoString(current.sla_paused_at),
+    escalatedAt: toNullableIsoString(current.sla_escalated_at),
+  }
+  const wasTracked = slaTrackedPartnerSignalStatuses.includes(current.status)
+  const isTracked = slaTrackedPartnerSignalStatuses.includes(status)
+
+  if (isTracked && !openPartnerSignalStatuses.includes(current.status)) {
+    const policy =
+      getPartnerSignalSlaPolicy(current.sla_policy_id) ??
+      resolvePartnerSignalSlaPolicy(current.signal_type, current.confidence)
+    return { dueAt: computePartnerSignalSlaDueAt(policy, now.toISOString()), pausedAt: null, escalatedAt: null }
+  }
+
+  if (wasTracked && !isTracked) {
+    return { ...clock, pausedAt: now.toISOString() }
+  }
+
+  if (!wasTracked && isTracked && clock.pausedAt) {
+    const pausedMs = Math.max(0, now.getTime() - new Date(clock.pausedAt).getTime())
+    const dueAt = clock.dueAt ? new Date(new Date(clock.dueAt).getTime() + pausedMs).toISOString() : null
+    return { ...clock, dueAt, pausedAt: null }
+  }
+
+  return clock
+}
+
+async function writeStatusChange(
+  client: PoolClient,
+  current: PartnerSignalRow,
+  status: PartnerSignal['status'],
+  rule: PartnerSignalTransitionRule,
+  options: ReviewerDetails | null,
+  batchId: string | null,
+): Promise<PartnerSignalRow> {
+  const sla = nextSlaClock(current, status, new Date())
+  const updateResult = await client.query<PartnerSignalRow>(
+    `UPDATE partner_signals
+        SET status = $2,
+            sla_due_at = $3,
+            sla_paused_at = $4,
+            sla_escalated_at = $5,
+            version = version + 1
+      WHERE id = $1
+      RETURNING ${SIGNAL_COLUMNS}`,
+    [current.id, status, sla.dueAt, sla.pausedAt, sla.escalatedAt],
+  )
+
+  await client.query(
+    `INSERT INTO partner_signal_audits (
+      id,
+      signal_id,
+      reviewer_id,
+      reviewer_name,
+      reviewer_role,
+      action,
+      from_status,
+      to_status,
+      transition_rule,
+      batch_id,
+      notes,
+      created_at
+    ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12)` ,
+    [
+      crypto.randomUUID(),
+      current.id,
+      options?.reviewerId ?? current.assigned_reviewer_id ?? 'system@audit',
+      options?.reviewerName ?? current.assigned_reviewer_name ?? 'System',
+      options?.reviewerRole ?? current.assigned_reviewer_role ?? 'colleague',
+      'status_change',
+      current.status,
+      status,
+      rule.id,
+      batchId,
+      options?.notes ?? null,
+      new Date().toISOString(),
+    ],
+  )
+
+  const updated = mapSignal(updateResult.rows[0])
+  await enqueuePartnerWebhookEvent(client, 'signal.status_changed', updated, current.status)
+  await recordDomainEvent(client, 'SignalStatusChanged', { signal: updated, previousStatus: current.status })
+
+  return updateResult.rows[0]
+}
+
+async function writeReviewerAssignment(
+  client: PoolClient,
+  current: PartnerSignalRow,
+  details: ReviewerDetails,
+  batchId: string | null,
+): Promise<PartnerSignalRow> {
+  const now = new Date().toISOString()
+
+  await client.query(
+    `UPDATE partner_signal_assignments SET active = FALSE WHERE signal_id = $1 AND active = TRUE`,
+    [current.id],
+  )
+
+  await client.query(
+    `INSERT INTO partner_signal_assignments (
+      id,
+      signal_id,
+      reviewer_id,
+      reviewer_name,
+      reviewer_role,
+      assigned_at,
+      active
+    ) VALUES ($1,$2,$3,$4,$5,$6,$7)` ,
+    [
+      crypto.randomUUID(),
+      current.id,
+      details.reviewerId,
+      details.reviewerName,
+      details.reviewerRole,
+      now,
+      true,
+    ],
+  )
+
+  const updateResult = await client.query<PartnerSignalRow>(
+    `UPDATE partner_signals
+        SET assigned_reviewer_id = $2,
+            assigned_reviewer_name = $3,
+            assigned_reviewer_role = $4,
+            assigned_at = $5,
+            version = version + 1
+      WHERE id = $1
+      RETURNING ${SIGNAL_COLUMNS}`,
+    [current.id, details.reviewerId, details.reviewerName, details.reviewerRole, now],
+  )
+
+  await client.query(
+    `INSERT INTO partner_signal_audits (
+      id,
+      signal_id,
+      reviewer_id,
+      reviewer_name,
+      reviewer_role,
+      action,
+      from_status,
+      to_status,
+      batch_id,
+      notes,
+      created_at
+    ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11)` ,
+    [
+      crypto.randomUUID(),
+      current.id,
+      details.reviewerId,
+      details.reviewerName,
+      details.reviewerRole,
+      'assigned',
+      current.status,
+      current.status,
+      batchId,
+      details.notes ?? 'Reviewer assignment updated',
+      now,
+    ],
+  )
+
+  const updated = mapSignal(updateResult.rows[0])
+  await enqueuePartnerWebhookEvent(client, 'signal.assigned', updated)
+  await recordDomainEvent(client, 'ReviewerAssigned', {
+    signal: updated,
+    previousReviewerId: current.assigned_reviewer_id,
+  })
+
+  return updateResult.rows[0]
+}
+
+function observeResolution(current: PartnerSignalRow, status: PartnerSignal['status']): void {
+  if (!openPartnerSignalStatuses.includes(current.status) || openPartnerSignalStatuses.includes(status)) {
+    return
+  }
+
+  const submittedTimestamp = new Date(current.submitted_at).getTime()
+  if (!Number.isNaN(submittedTimestamp)) {
+    observePartnerSignalReviewLatency(Date.now() - submittedTimestamp)
+  }
+}
+
 export async function updatePartnerSignalStatus(
   id: string,
   status: PartnerSignal['status'],
-  options: { reviewerId: string; reviewerName: string; reviewerRole: ReviewerRole; notes?: string } | null,
+  options: ReviewerDetails | null,
+  expectedVersions?: readonly number[],
 ): Promise<PartnerSignal | null> {
-  return withSpan('partnerSignals.updateStatus', async () => {
-    if (!signalStatusValues.includes(status)) {
+  return withSpan(tracer, 'partnerSignals.updateStatus', async () => {
+    if (!partnerSignalStatuses.includes(status)) {
       throw new Error(`Invalid partner signal status: ${status}`)
     }
 
     const client = await dbPool.connect()
     try {
       await client.query('BEGIN')
-      const existing = await client.query<PartnerSignalRow>(
-        `SELECT ${SIGNAL_COLUMNS} FROM partner_signals WHERE id = $1 FOR UPDATE`,
-        [id],
-      )
+      const current = await lockSignal(client, id)
 
-      if (existing.rows.length === 0) {
+      if (!current) {
         await client.query('ROLLBACK')
         return null
       }
 
-      const current = existing.rows[0]
+      assertExpectedVersion(current, expectedVersions)
+
       if (current.status === status) {
         await client.query('COMMIT')
         return mapSignal(current)
       }
 
-      const updateResult = await client.query<PartnerSignalRow>(
-        `UPDATE partner_signals
-            SET status = $2
-          WHERE id = $1
-          RETURNING ${SIGNAL_COLUMNS}`,
-        [id, status],
-      )
+      const rule = resolveTransition(current, status, options)
+      const updated = await writeStatusChange(client, current, status, rule, options, null)
 
-      const reviewerId = options?.reviewerId ?? current.assigned_reviewer_id ?? 'system@audit'
-      const reviewerName = options?.reviewerName ?? current.assigned_reviewer_name ?? 'System'
-      const reviewerRole = options?.reviewerRole ?? current.assigned_reviewer_role ?? 'colleague'
+      await client.query('COMMIT')
 
-      await client.query(
-        `INSERT INTO partner_signal_audits (
-          id,
-          signal_id,
-          reviewer_id,
-          reviewer_name,
-          reviewer_role,
-          action,
-          from_status,
-          to_status,
-          notes,
-          created_at
-        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)` ,
-        [
-          crypto.randomUUID(),
-          id,
-          reviewerId,
-          reviewerName,
-          reviewerRole,
-          'status_change',
-          current.status,
-          status,
-          options?.notes ?? null,
-          new Date().toISOString(),
-        ],
-      )
+      observeResolution(current, status)
+      publishDomainEvents()
 
-      await client.query('COMMIT')
+      return mapSignal(updated)
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  })
+}
 
-      const updatedSignal = mapSignal(updateResult.rows[0])
+export async function assignPartnerSignalReviewer(
+  id: string,
+  details: ReviewerDetails,
+  expectedVersions?: readonly number[],
+): Promise<PartnerSignal | null> {
+  return withSpan(tracer, 'partnerSignals.assignReviewer', async () => {
+    const client = await dbPool.connect()
+    try {
+      await client.query('BEGIN')
+      const current = await lockSignal(client, id)
 
-      if ((status === 'approved' || status === 'archived') && current.status !== status) {
-        const submittedTimestamp = new Date(current.submitted_at).getTime()
-        if (!Number.isNaN(submittedTimestamp)) {
-          const latencyMs = Date.now() - submittedTimestamp
-          observePartnerSignalReviewLatency(latencyMs)
-        }
+      if (!current) {
+        await client.query('ROLLBACK')
+        return null
       }
 
-      void refreshPartnerSignalBacklogMetrics()
+      assertExpectedVersion(current, expectedVersions)
 
-      return updatedSignal
+      const updated = await writeReviewerAssignment(client, current, details, null)
+
+      await client.query('COMMIT')
+      publishDomainEvents()
+      return mapSignal(updated)
     } catch (error) {
       await client.query('ROLLBACK')
       throw error
@@ -437,61 +985,242 @@ export async function updatePartnerSignalStatus(
   })
 }
 
-export async function assignPartnerSignalReviewer(
-  id: string,
-  details: { reviewerId: string; reviewerName: string; reviewerRole: ReviewerRole; notes?: string },
-): Promise<PartnerSignal | null> {
-  return withSpan('partnerSignals.assignReviewer', async () => {
+function readMergedSignals(metadata: Record<string, unknown> | null): unknown[] {
+  return Array.isArray(metadata?.mergedSignals) ? metadata.mergedSignals : []
+}
+
+async function writeMergeAudit(
+  client: PoolClient,
+  signal: PartnerSignalRow,
+  toStatus: PartnerSignal['status'],
+  details: ReviewerDetails,
+  notes: string,
+  createdAt: string,
+): Promise<void> {
+  await client.query(
+    `INSERT INTO partner_signal_audits (
+      id,
+      signal_id,
+      reviewer_id,
+      reviewer_name,
+      reviewer_role,
+      action,
+      from_status,
+      to_status,
+      transition_rule,
+      notes,
+      created_at
+    ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11)`,
+    [
+      crypto.randomUUID(),
+      signal.id,
+      details.reviewerId,
+      details.reviewerName,
+      details.reviewerRole,
+      'merged',
+      signal.status,
+      toStatus,
+      'merge',
+      details.notes ? `${notes}: ${details.notes}` : notes,
+      createdAt,
+    ],
+  )
+}
+
+/**
+ * Folds a duplicate into its canonical signal: the duplicate's audits and comments move to the canonical record,
+ * its metadata is merged underneath the canonical metadata, and the duplicate is archived with a link back.
+ */
+export async function mergePartnerSignals(
+  duplicateId: string,
+  canonicalId: string | null,
+  details: ReviewerDetails,
+): Promise<PartnerSignalMergeResult | null> {
+  return withSpan(tracer, 'partnerSignals.merge', async () => {
     const client = await dbPool.connect()
     try {
       await client.query('BEGIN')
-      const existing = await client.query<PartnerSignalRow>(
-        `SELECT ${SIGNAL_COLUMNS} FROM partner_signals WHERE id = $1 FOR UPDATE`,
-        [id],
-      )
+      const duplicate = await lockSignal(client, duplicateId)
 
-      if (existing.rows.length === 0) {
+      if (!duplicate) {
         await client.query('ROLLBACK')
         return null
       }
 
-      const now = new Date().toISOString()
+      const targetId = canonicalId ?? duplicate.duplicate_of_id
+      if (!targetId) {
+        throw new PartnerSignalMergeError(
+          'canonical_required',
+          'Signal is not flagged as a duplicate; pass canonicalId',
+        )
+      }
+      if (targetId === duplicate.id) {
+        throw new PartnerSignalMergeError('same_signal', 'A signal cannot be merged into itself')
+      }
+      if (duplicate.merged_into_id) {
+        throw new PartnerSignalMergeError(
+          'already_merged',
+          `Signal was already merged into ${duplicate.merged_into_id}`,
+        )
+      }
+
+      const canonical = await lockSignal(client, targetId)
+      if (!canonical) {
+        await client.query('ROLLBACK')
+        return null
+      }
+      if (canonical.merged_into_id) {
+        throw new PartnerSignalMergeError(
+          'already_merged',
+          `Canonical signal was merged into ${canonical.merged_into_id}`,
+        )
+      }
 
+      const now = new Date().toISOString()
+      await client.query(`UPDATE partner_signal_audits SET signal_id = $2 WHERE signal_id = $1`, [
+        duplicate.id,
+        canonical.id,
+      ])
+      await client.query(`UPDATE partner_signal_comments SET signal_id = $2 WHERE signal_id = $1`, [
+        duplicate.id,
+        canonical.id,
+      ])
+      await client.query(
+        `UPDATE partner_signals SET duplicate_of_id = $2, version = version + 1 WHERE duplicate_of_id = $1`,
+        [duplicate.id, canonical.id],
+      )
       await client.query(
         `UPDATE partner_signal_assignments SET active = FALSE WHERE signal_id = $1 AND active = TRUE`,
-        [id],
+        [duplicate.id],
       )
 
-      await client.query(
-        `INSERT INTO partner_signal_assignments (
-          id,
-          signal_id,
-          reviewer_id,
-          reviewer_name,
-          reviewer_role,
-          assigned_at,
-          active
-        ) VALUES ($1,$2,$3,$4,$5,$6,$7)` ,
-        [
-          crypto.randomUUID(),
-          id,
-          details.reviewerId,
-          details.reviewerName,
-          details.reviewerRole,
-          now,
-          true,
+      const metadata = {
+        ...(duplicate.metadata ?? {}),
+        ...(canonical.metadata ?? {}),
+        mergedSignals: [
+          ...readMergedSignals(canonical.metadata),
+          ...readMergedSignals(duplicate.metadata),
+          {
+            id: duplicate.id,
+            partnerId: duplicate.partner_id,
+            partnerName: duplicate.partner_name,
+            description: duplicate.description,
+            confidence: duplicate.confidence,
+            submittedAt: toIsoString(duplicate.submitted_at),
+            mergedAt: now,
+          },
         ],
+      }
+      const canonicalResult = await client.query<PartnerSignalRow>(
+        `UPDATE partner_signals SET metadata = $2, version = version + 1 WHERE id = $1 RETURNING ${SIGNAL_COLUMNS}`,
+        [canonical.id, JSON.stringify(metadata)],
+      )
+      const duplicateResult = await client.query<PartnerSignalRow>(
+        `UPDATE partner_signals
+            SET status = 'archived',
+                duplicate_of_id = $2,
+                merged_into_id = $2,
+                version = version + 1
+          WHERE id = $1
+          RETURNING ${SIGNAL_COLUMNS}`,
+        [duplicate.id, canonical.id],
       )
 
+      await writeMergeAudit(client, canonical, canonical.status, details, `Merged duplicate ${duplicate.id}`, now)
+      await writeMergeAudit(client, duplicate, 'archived', details, `Merged into ${canonical.id}`, now)
+
+      const merged = mapSignal(duplicateResult.rows[0])
+      if (duplicate.status !== 'archived') {
+        await enqueuePartnerWebhookEvent(client, 'signal.status_changed', merged, duplicate.status)
+        await recordDomainEvent(client, 'SignalStatusChanged', { signal: merged, previousStatus: duplicate.status })
+      }
+
+      await client.query('COMMIT')
+
+      observeResolution(duplicate, 'archived')
+      publishDomainEvents()
+
+      return { canonical: mapSignal(canonicalResult.rows[0]), duplicate: merged }
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  })
+}
+
+export interface PartnerSignalEscalation {
+  signal: PartnerSignal
+  target: 'senior_reviewer' | 'shadow_queue' | 'none'
+}
+
+/**
+ * Escalates a signal that is still open past its SLA due-by: senior-reviewer policies reassign to the least-loaded
+ * senior moderator, everything else (or a senior policy with nobody available) is escalated in the shadow queue.
+ */
+export async function escalatePartnerSignal(id: string, now = new Date()): Promise<PartnerSignalEscalation | null> {
+  return withSpan(tracer, 'partnerSignals.escalate', async () => {
+    const client = await dbPool.connect()
+    try {
+      await client.query('BEGIN')
+      const current = await lockSignal(client, id)
+
+      if (
+        !current ||
+        !current.sla_due_at ||
+        current.sla_escalated_at !== null ||
+        !slaTrackedPartnerSignalStatuses.includes(current.status) ||
+        new Date(current.sla_due_at).getTime() > now.getTime()
+      ) {
+        await client.query('ROLLBACK')
+        return null
+      }
+
+      const policy =
+        getPartnerSignalSlaPolicy(current.sla_policy_id) ??
+        resolvePartnerSignalSlaPolicy(current.signal_type, current.confidence)
+      const breach = `SLA "${policy.label}" (${policy.targetMinutes} min) breached`
+      let target: PartnerSignalEscalation['target'] = 'none'
+      let notes = `${breach}; no escalation target available`
+
+      const decision =
+        policy.escalation === 'senior_reviewer'
+          ? await selectModeratorForAssignment(client, {
+              signal: { signalType: current.signal_type, confidence: current.confidence },
+              groups: slaSeniorGroups,
+              excludeIds: current.assigned_reviewer_id ? [current.assigned_reviewer_id] : [],
+              now,
+            })
+          : null
+
+      if (decision) {
+        const senior = decision.moderator
+        await writeReviewerAssignment(
+          client,
+          current,
+          {
+            reviewerId: senior.id,
+            reviewerName: senior.name,
+            reviewerRole: senior.role,
+            notes: `${breach}; reassigned to senior reviewer, ${describeRoutingExplanation(decision.explanation)}`,
+          },
+          null,
+        )
+        target = 'senior_reviewer'
+        notes = `${breach}; reassigned to ${senior.name}`
+      } else if ((await escalateShadowApprovers(client, current.id, SLA_ESCALATOR, breach)) > 0) {
+        target = 'shadow_queue'
+        notes = `${breach}; escalated in the shadow approval queue`
+      }
+
       const updateResult = await client.query<PartnerSignalRow>(
         `UPDATE partner_signals
-            SET assigned_reviewer_id = $2,
-                assigned_reviewer_name = $3,
-                assigned_reviewer_role = $4,
-                assigned_at = $5
+            SET sla_escalated_at = $2,
+                version = version + 1
           WHERE id = $1
           RETURNING ${SIGNAL_COLUMNS}`,
-        [id, details.reviewerId, details.reviewerName, details.reviewerRole, now],
+        [current.id, now.toISOString()],
       )
 
       await client.query(
@@ -509,31 +1238,120 @@ export async function assignPartnerSignalReviewer(
         ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)` ,
         [
           crypto.randomUUID(),
-          id,
-          details.reviewerId,
-          details.reviewerName,
-          details.reviewerRole,
-          'assigned',
-          existing.rows[0].status,
-          existing.rows[0].status,
-          details.notes ?? 'Reviewer assignment updated',
-          now,
+          current.id,
+          SLA_ESCALATOR.id,
+          SLA_ESCALATOR.name,
+          SLA_ESCALATOR.role,
+          'sla_escalated',
+          current.status,
+          current.status,
+          notes,
+          now.toISOString(),
         ],
       )
 
       await client.query('COMMIT')
-      return mapSignal(updateResult.rows[0])
+      if (target === 'senior_reviewer') {
+        publishDomainEvents()
+      }
+      return { signal: mapSignal(updateResult.rows[0]), target }
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  })
+}
+
+export async function bulkModeratePartnerSignals(
+  ids: string[],
+  action: PartnerSignalBulkAction,
+  actor: Omit<ReviewerDetails, 'notes'>,
+): Promise<PartnerSignalBulkResult> {
+  return withSpan(tracer, 'partnerSignals.bulkModerate', async () => {
+    const batchId = crypto.randomUUID()
+    const details: ReviewerDetails = { ...actor, notes: action.notes }
+    const items: PartnerSignalBulkItemResult[] = []
+    const resolved: Array<{ current: PartnerSignalRow; status: PartnerSignal['status'] }> = []
+
+    const client = await dbPool.connect()
+    try {
+      await client.query('BEGIN')
+
+      for (const id of ids) {
+        const current = await lockSignal(client, id)
+
+        if (!current) {
+          items.push({ id, ok: false, signal: null, error: { code: 'not_found', message: 'Signal not found' } })
+          continue
+        }
+
+        if (action.action === 'assign') {
+          const updated = await writeReviewerAssignment(
+            client,
+            current,
+            {
+              reviewerId: action.reviewerId,
+              reviewerName: action.reviewerName,
+              reviewerRole: action.reviewerRole,
+              notes: action.notes,
+            },
+            batchId,
+          )
+          items.push({ id, ok: true, signal: mapSignal(updated), error: null })
+          continue
+        }
+
+        if (current.status === action.status) {
+          items.push({ id, ok: true, signal: mapSignal(current), error: null })
+          continue
+        }
+
+        let rule: PartnerSignalTransitionRule
+        try {
+          rule = resolveTransition(current, action.status, details)
+        } catch (error) {
+          if (!(error instanceof PartnerSignalTransitionError)) {
+            throw error
+          }
+          items.push({
+            id,
+            ok: false,
+            signal: null,
+            error: { code: error.reason, message: error.message, allowedNextStates: error.allowedNextStates },
+          })
+          continue
+        }
+
+        const updated = await writeStatusChange(client, current, action.status, rule, details, batchId)
+        resolved.push({ current, status: action.status })
+        items.push({ id, ok: true, signal: mapSignal(updated), error: null })
+      }
+
+      await client.query('COMMIT')
     } catch (error) {
       await client.query('ROLLBACK')
       throw error
     } finally {
       client.release()
     }
+
+    for (const { current, status } of resolved) {
+      observeResolution(current, status)
+    }
+
+    if (items.some((item) => item.ok)) {
+      publishDomainEvents()
+    }
+
+    const succeeded = items.filter((item) => item.ok).length
+    return { batchId, succeeded, failed: items.length - succeeded, items }
   })
 }
 
 export async function listPartnerSignalAudits(signalId: string): Promise<PartnerSignalAudit[]> {
-  return withSpan('partnerSignals.listAudits', async () => {
+  return withSpan(tracer, 'partnerSignals.listAudits', async () => {
     const result = await dbPool.query<PartnerSignalAuditRow>(
       `SELECT id,
               signal_id,
@@ -543,6 +1361,8 @@ export async function listPartnerSignalAudits(signalId: string): Promise<Partner
               action,
               from_status,
               to_status,
+              transition_rule,
+              batch_id,
               notes,
               created_at
          FROM partner_signal_audits
@@ -555,7 +1375,7 @@ export async function listPartnerSignalAudits(signalId: string): Promise<Partner
 }
 
 export async function listPartnerSignalAssignments(signalId: string): Promise<PartnerSignalAssignment[]> {
-  return withSpan('partnerSignals.listAssignments', async () => {
+  return withSpan(tracer, 'partnerSignals.listAssignments', async () => {
     const result = await dbPool.query<PartnerSignalAssignmentRow>(
       `SELECT id,
               signal_id,
@@ -573,22 +1393,32 @@ export async function listPartnerSignalAssignments(signalId: string): Promise<Pa
   })
 }
 
-export async function listPartnerSignalStats(): Promise<PartnerSignalStats> {
-  return withSpan('partnerSignals.stats', async () => {
+export async function listPartnerSignalStats(partnerId?: string, merchantId?: string): Promise<PartnerSignalStats> {
+  return withSpan(tracer, 'partnerSignals.stats', async () => {
+    const where: string[] = []
+    const values: string[] = []
+    for (const [column, value] of [['partner_id', partnerId], ['merchant_id', merchantId]] as const) {
+      if (value !== undefined) {
+        values.push(value)
+        where.push(`${column} = $${values.length}`)
+      }
+    }
+    const scope = where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''
     const [statusResult, typeResult] = await Promise.all([
       dbPool.query<{ status: PartnerSignal['status']; total: number }>(
-        `SELECT status, COUNT(*)::int AS total FROM partner_signals GROUP BY status`,
+        `SELECT status, COUNT(*)::int AS total FROM partner_signals ${scope} GROUP BY status`,
+        values,
       ),
       dbPool.query<{ signal_type: PartnerSignal['signalType']; total: number }>(
-        `SELECT signal_type, COUNT(*)::int AS total FROM partner_signals GROUP BY signal_type`,
+        `SELECT signal_type, COUNT(*)::int AS total FROM partner_signals ${scope} GROUP BY signal_type`,
+        values,
       ),
     ])
 
-    const statusAccumulator: Record<PartnerSignal['status'], number> = {
-      pending: 0,
-      approved: 0,
-      archived: 0,
-    }
+    const statusAccumulator = Object.fromEntries(partnerSignalStatuses.map((value) => [value, 0])) as Record<
+      PartnerSignal['status'],
+      number
+    >
 
     for (const row of statusResult.rows) {
       statusAccumulator[row.status as PartnerSignal['status']] = row.total
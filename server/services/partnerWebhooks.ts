@@ -0,0 +1,509 @@
+import crypto from 'node:crypto'
+import type { PoolClient } from 'pg'
+import { trace } from '@opentelemetry/api'
+import { fetch } from 'undici'
+import type {
+  PartnerSignal,
+  PartnerWebhookDelivery,
+  PartnerWebhookDeliveryStatus,
+  PartnerWebhookEvent,
+  PartnerWebhookEventType,
+  PartnerWebhookSubscription,
+  PartnerWebhookSubscriptionInput,
+  PartnerWebhookSubscriptionWithSecret,
+} from '../../shared/types/domain.js'
+import { dbPool } from '../db/client.js'
+import { toIsoString } from '../utils/dates.js'
+import { readPositiveInt } from '../utils/env.js'
+import { logger } from '../utils/logger.js'
+import { publicAddressDispatcher, resolvesToPrivateAddress } from '../utils/network.js'
+import { withSpan } from '../utils/tracing.js'
+
+const tracer = trace.getTracer('partner-webhooks-service')
+
+const dispatcherEnabled = process.env.PARTNER_WEBHOOKS_ENABLED !== 'false'
+const allowPrivateUrls =
+  process.env.NODE_ENV === 'development' || process.env.PARTNER_WEBHOOK_ALLOW_PRIVATE_URLS === 'true'
+const pollIntervalMs = Math.max(250, readPositiveInt(process.env.PARTNER_WEBHOOK_POLL_MS, 2_000))
+const requestTimeoutMs = readPositiveInt(process.env.PARTNER_WEBHOOK_TIMEOUT_MS, 10_000)
+const maxAttempts = readPositiveInt(process.env.PARTNER_WEBHOOK_MAX_ATTEMPTS, 8)
+const retryBaseMs = readPositiveInt(process.env.PARTNER_WEBHOOK_RETRY_BASE_MS, 30_000)
+const retryMaxMs = readPositiveInt(process.env.PARTNER_WEBHOOK_RETRY_MAX_MS, 3_600_000)
+const DISPATCH_BATCH_SIZE = 25
+const MAX_ERROR_LENGTH = 500
+
+export const PARTNER_WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature'
+export const PARTNER_WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp'
+
+const SUBSCRIPTION_COLUMNS = `id,
+  partner_id,
+  url,
+  events,
+  description,
+  active,
+  created_by,
+  created_at,
+  updated_at`
+
+const DELIVERY_COLUMNS = `id,
+  subscription_id,
+  event_id,
+  event_type,
+  signal_id,
+  payload,
+  status,
+  attempts,
+  next_attempt_at,
+  last_attempt_at,
+  last_status_code,
+  last_error,
+  delivered_at,
+  created_at`
+
+type SubscriptionRow = {
+  id: string
+  partner_id: string
+  url: string
+  events: PartnerWebhookEventType[] | null
+  description: string | null
+  active: boolean
+  created_by: string
+  created_at: string | Date
+  updated_at: string | Date
+}
+
+type DeliveryRow = {
+  id: string
+  subscription_id: string
+  event_id: string
+  event_type: PartnerWebhookEventType
+  signal_id: string
+  payload: PartnerWebhookEvent
+  status: PartnerWebhookDeliveryStatus
+  attempts: number
+  next_attempt_at: string | Date | null
+  last_attempt_at: string | Date | null
+  last_status_code: number | null
+  last_error: string | null
+  delivered_at: string | Date | null
+  created_at: string | Date
+}
+
+type DueDeliveryRow = DeliveryRow & { url: string; secret: string }
+
+export interface PartnerWebhookDeliveryListOptions {
+  status?: PartnerWebhookDeliveryStatus
+  limit?: number
+}
+
+export interface PartnerWebhookDispatchResult {
+  attempted: number
+  delivered: number
+  retrying: number
+  deadLettered: number
+}
+
+let dispatching: Promise<PartnerWebhookDispatchResult> | null = null
+let dispatchTimer: NodeJS.Timeout | null = null
+
+function toNullableIsoString(value: string | Date | null): string | null {
+  return value === null ? null : toIsoString(value)
+}
+
+function mapSubscription(row: SubscriptionRow): PartnerWebhookSubscription {
+  return {
+    id: row.id,
+    partnerId: row.partner_id,
+    url: row.url,
+    events: row.events ?? [],
+    description: row.description,
+    active: row.active,
+    createdBy: row.created_by,
+    createdAt: toIsoString(row.created_at),
+    updatedAt: toIsoString(row.updated_at),
+  }
+}
+
+function mapDelivery(row: DeliveryRow): PartnerWebhookDelivery {
+  return {
+    id: row.id,
+    subscriptionId: row.subscription_id,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    signalId: row.signal_id,
+    status: row.status,
+    attempts: Number(row.attempts),
+    nextAttemptAt: toNullableIsoString(row.next_attempt_at),
+    lastAttemptAt: toNullableIsoString(row.last_attempt_at),
+    lastStatusCode: row.last_status_code === null ? null : Number(row.last_status_code),
+    lastError: row.last_error,
+    deliveredAt: toNullableIsoString(row.delivered_at),
+    createdAt: toIsoString(row.created_at),
+    payload: row.payload,
+  }
+}
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('base64url')}`
+}
+
+/**
+ * Signature partners verify: hex HMAC-SHA256 over `${timestamp}.${body}` keyed by the subscription
+ * secret, sent as `v1=<hex>` alongside the timestamp header so replays can be rejected.
+ */
+export function signPartnerWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `v1=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+export function partnerWebhookRetryDelayMs(attempts: number): number {
+  return Math.min(retryMaxMs, retryBaseMs * 2 ** Math.max(0, attempts - 1))
+}
+
+export async function listPartnerWebhookSubscriptions(partnerId?: string): Promise<PartnerWebhookSubscription[]> {
+  const result = await dbPool.query<SubscriptionRow>(
+    `SELECT ${SUBSCRIPTION_COLUMNS}
+    FROM partner_webhook_subscriptions
+    ${partnerId !== undefined ? 'WHERE partner_id = $1' : ''}
+    ORDER BY created_at ASC, id ASC`,
+    partnerId !== undefined ? [partnerId] : [],
+  )
+  return result.rows.map(mapSubscription)
+}
+
+export async function getPartnerWebhookSubscription(id: string): Promise<PartnerWebhookSubscription | null> {
+  const result = await dbPool.query<SubscriptionRow>(
+    `SELECT ${SUBSCRIPTION_COLUMNS} FROM partner_webhook_subscriptions WHERE id = $1`,
+    [id],
+  )
+  return result.rows[0] ? mapSubscription(result.rows[0]) : null
+}
+
+export async function createPartnerWebhookSubscription(
+  input: PartnerWebhookSubscriptionInput,
+  createdBy: string,
+): Promise<PartnerWebhookSubscriptionWithSecret> {
+  return withSpan(tracer, 'partnerWebhooks.createSubscription', async () => {
+    const secret = generateSecret()
+    const result = await dbPool.query<SubscriptionRow>(
+      `INSERT INTO partner_webhook_subscriptions (
+        id, partner_id, url, events, secret, description, active, created_by, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
+      RETURNING ${SUBSCRIPTION_COLUMNS}`,
+      [
+        crypto.randomUUID(),
+        input.partnerId,
+        input.url,
+        JSON.stringify(input.events),
+        secret,
+        input.description,
+        input.active,
+        createdBy,
+      ],
+    )
+    return { ...mapSubscription(result.rows[0]), secret }
+  })
+}
+
+export async function updatePartnerWebhookSubscription(
+  id: string,
+  changes: Partial<Omit<PartnerWebhookSubscriptionInput, 'partnerId'>>,
+): Promise<PartnerWebhookSubscription | null> {
+  return withSpan(tracer, 'partnerWebhooks.updateSubscription', async () => {
+    const existing = await getPartnerWebhookSubscription(id)
+    if (!existing) {
+      return null
+    }
+
+    const next = { ...existing, ...changes }
+    const result = await dbPool.query<SubscriptionRow>(
+      `UPDATE partner_webhook_subscriptions
+      SET url = $2, events = $3, description = $4, active = $5, updated_at = NOW()
+      WHERE id = $1
+      RETURNING ${SUBSCRIPTION_COLUMNS}`,
+      [id, next.url, JSON.stringify(next.events), next.description, next.active],
+    )
+    return result.rows[0] ? mapSubscription(result.rows[0]) : null
+  })
+}
+
+export async function rotatePartnerWebhookSecret(id: string): Promise<PartnerWebhookSubscriptionWithSecret | null> {
+  const secret = generateSecret()
+  const result = await dbPool.query<SubscriptionRow>(
+    `UPDATE partner_webhook_subscriptions
+    SET secret = $2, updated_at = NOW()
+    WHERE id = $1
+    RETURNING ${SUBSCRIPTION_COLUMNS}`,
+    [id, secret],
+  )
+  return result.rows[0] ? { ...mapSubscription(result.rows[0]), secret } : null
+}
+
+export async function deletePartnerWebhookSubscription(id: string): Promise<boolean> {
+  const result = await dbPool.query('DELETE FROM partner_webhook_subscriptions WHERE id = $1', [id])
+  return (result.rowCount ?? 0) > 0
+}
+
+/**
+ * Writes one outbox row per active subscription interested in the event. Runs on the caller's
+ * transaction so deliveries exist only if the signal change they describe commits.
+ */
+export async function enqueuePartnerWebhookEvent(
+  client: PoolClient,
+  type: PartnerWebhookEventType,
+  signal: PartnerSignal,
+  previousStatus: PartnerSignal['status'] | null = null,
+): Promise<void> {
+  const subscriptions = await client.query<SubscriptionRow>(
+    `SELECT ${SUBSCRIPTION_COLUMNS}
+    FROM partner_webhook_subscriptions
+    WHERE partner_id = $1 AND active = TRUE`,
+    [signal.partnerId],
+  )
+  const interested = subscriptions.rows.filter((row) => (row.events ?? []).includes(type))
+  if (interested.length === 0) {
+    return
+  }
+
+  const occurredAt = new Date()
+  const event: PartnerWebhookEvent = {
+    id: crypto.randomUUID(),
+    type,
+    occurredAt: occurredAt.toISOString(),
+    data: { signal, previousStatus },
+  }
+
+  const values: unknown[] = []
+  const rows: string[] = []
+  for (const subscription of interested) {
+    const offset = values.length
+    rows.push(`(${Array.from({ length: 8 }, (_, index) => `$${offset + index + 1}`).join(', ')})`)
+    values.push(
+      crypto.randomUUID(),
+      subscription.id,
+      event.id,
+      type,
+      signal.id,
+      JSON.stringify(event),
+      occurredAt,
+      occurredAt,
+    )
+  }
+
+  await client.query(
+    `INSERT INTO partner_webhook_deliveries (
+      id, subscription_id, event_id, event_type, signal_id, payload, next_attempt_at, created_at
+    ) VALUES ${rows.join(', ')}`,
+    values,
+  )
+}
+
+export async function listPartnerWebhookDeliveries(
+  subscriptionId: string,
+  options: PartnerWebhookDeliveryListOptions = {},
+): Promise<PartnerWebhookDelivery[]> {
+  const values: unknown[] = [subscriptionId]
+  const conditions = ['subscription_id = $1']
+  if (options.status) {
+    values.push(options.status)
+    conditions.push(`status = $${values.length}`)
+  }
+  values.push(options.limit ?? 50)
+
+  const result = await dbPool.query<DeliveryRow>(
+    `SELECT ${DELIVERY_COLUMNS}
+    FROM partner_webhook_deliveries
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY created_at DESC, id DESC
+    LIMIT $${values.length}`,
+    values,
+  )
+  return result.rows.map(mapDelivery)
+}
+
+export async function redeliverPartnerWebhook(
+  subscriptionId: string,
+  deliveryId: string,
+): Promise<PartnerWebhookDelivery | null> {
+  const existing = await dbPool.query<DeliveryRow>(
+    `SELECT ${DELIVERY_COLUMNS} FROM partner_webhook_deliveries WHERE id = $1 AND subscription_id = $2`,
+    [deliveryId, subscriptionId],
+  )
+  if (!existing.rows[0] || existing.rows[0].status === 'pending') {
+    return existing.rows[0] ? mapDelivery(existing.rows[0]) : null
+  }
+
+  const result = await dbPool.query<DeliveryRow>(
+    `UPDATE partner_webhook_deliveries
+    SET status = 'pending', attempts = 0, next_attempt_at = NOW(), delivered_at = NULL
+    WHERE id = $1
+    RETURNING ${DELIVERY_COLUMNS}`,
+    [deliveryId],
+  )
+  return result.rows[0] ? mapDelivery(result.rows[0]) : null
+}
+
+async function claimDelivery(row: DueDeliveryRow, now: Date): Promise<boolean> {
+  // Pushing next_attempt_at out acts as a lease: a crashed worker's claim expires on its own, and
+  // the attempts guard stops two dispatchers from sending the same row.
+  const lease = new Date(now.getTime() + requestTimeoutMs * 2)
+  const result = await dbPool.query(
+    `UPDATE partner_webhook_deliveries
+    SET attempts = attempts + 1, last_attempt_at = $2, next_attempt_at = $3
+    WHERE id = $1 AND status = 'pending' AND attempts = $4`,
+    [row.id, now, lease, row.attempts],
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+async function sendDelivery(
+  row: DueDeliveryRow,
+  now: Date,
+): Promise<{ statusCode: number | null; error: string | null }> {
+  const body = JSON.stringify(row.payload)
+  const timestamp = Math.floor(now.getTime() / 1000)
+
+  try {
+    // The URL was checked when it was saved, but its name can be re-pointed at an internal address since.
+    if (!allowPrivateUrls && (await resolvesToPrivateAddress(new URL(row.url).hostname))) {
+      return { statusCode: null, error: 'Endpoint resolves to a private address' }
+    }
+
+    const response = await fetch(row.url, {
+      method: 'POST',
+      redirect: 'manual',
+      // Pins the connection to a public address, in case the name was re-pointed after the check above.
+      dispatcher: allowPrivateUrls ? undefined : publicAddressDispatcher,
+      headers: {
+        'content-type': 'application/json',
+        'user-agent': 'ecosystem-intelligence-webhooks/1',
+        'x-webhook-id': row.id,
+        'x-webhook-event': row.event_type,
+        [PARTNER_WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [PARTNER_WEBHOOK_SIGNATURE_HEADER]: signPartnerWebhookPayload(row.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(requestTimeoutMs),
+    })
+    await response.body?.cancel()
+    return { statusCode: response.status, error: response.ok ? null : `Endpoint responded with ${response.status}` }
+  } catch (error) {
+    // undici reports connection failures, including a refused private address, as the cause of "fetch failed".
+    const reason = error instanceof Error && error.cause instanceof Error ? error.cause : error
+    return { statusCode: null, error: reason instanceof Error ? reason.message : String(reason) }
+  }
+}
+
+async function attemptDelivery(row: DueDeliveryRow, now: Date): Promise<PartnerWebhookDeliveryStatus | 'retrying'> {
+  const { statusCode, error } = await sendDelivery(row, now)
+  const attempts = Number(row.attempts) + 1
+
+  if (!error) {
+    await dbPool.query(
+      `UPDATE partner_webhook_deliveries
+      SET status = 'delivered', delivered_at = $2, next_attempt_at = NULL, last_status_code = $3, last_error = NULL
+      WHERE id = $1`,
+      [row.id, new Date(), statusCode],
+    )
+    return 'delivered'
+  }
+
+  const exhausted = attempts >= maxAttempts
+  await dbPool.query(
+    `UPDATE partner_webhook_deliveries
+    SET status = $2, next_attempt_at = $3, last_status_code = $4, last_error = $5
+    WHERE id = $1`,
+    [
+      row.id,
+      exhausted ? 'dead_letter' : 'pending',
+      exhausted ? null : new Date(now.getTime() + partnerWebhookRetryDelayMs(attempts)),
+      statusCode,
+      error.slice(0, MAX_ERROR_LENGTH),
+    ],
+  )
+
+  if (exhausted) {
+    logger.warn({ deliveryId: row.id, subscriptionId: row.subscription_id, attempts }, 'partner-webhook-dead-lettered')
+    return 'dead_letter'
+  }
+  return 'retrying'
+}
+
+async function runDispatch(now: Date): Promise<PartnerWebhookDispatchResult> {
+  const result: PartnerWebhookDispatchResult = { attempted: 0, delivered: 0, retrying: 0, deadLettered: 0 }
+  const due = await dbPool.query<DueDeliveryRow>(
+    `SELECT d.id,
+      d.subscription_id,
+      d.event_id,
+      d.event_type,
+      d.signal_id,
+      d.payload,
+      d.status,
+      d.attempts,
+      d.next_attempt_at,
+      d.last_attempt_at,
+      d.last_status_code,
+      d.last_error,
+      d.delivered_at,
+      d.created_at,
+      s.url,
+      s.secret
+    FROM partner_webhook_deliveries d
+    JOIN partner_webhook_subscriptions s ON s.id = d.subscription_id
+    WHERE d.status = 'pending' AND d.next_attempt_at <= $1 AND s.active = TRUE
+    ORDER BY d.next_attempt_at ASC, d.created_at ASC
+    LIMIT $2`,
+    [now, DISPATCH_BATCH_SIZE],
+  )
+
+  for (const row of due.rows) {
+    if (!(await claimDelivery(row, now))) {
+      continue
+    }
+
+    result.attempted += 1
+    const outcome = await attemptDelivery(row, now)
+    if (outcome === 'delivered') {
+      result.delivered += 1
+    } else if (outcome === 'dead_letter') {
+      result.deadLettered += 1
+    } else {
+      result.retrying += 1
+    }
+  }
+
+  return result
+}
+
+/** Sends every due outbox row once; failures are rescheduled with exponential backoff. */
+export function dispatchPartnerWebhooks(now = new Date()): Promise<PartnerWebhookDispatchResult> {
+  if (dispatching) {
+    return dispatching
+  }
+
+  dispatching = withSpan(tracer, 'partnerWebhooks.dispatch', () => runDispatch(now)).finally(() => {
+    dispatching = null
+  })
+  return dispatching
+}
+
+export function startPartnerWebhookDispatcher(): void {
+  if (!dispatcherEnabled || dispatchTimer) {
+    return
+  }
+
+  dispatchTimer = setInterval(() => {
+    dispatchPartnerWebhooks().catch((error: unknown) => {
+      logger.warn({ err: error }, 'partner-webhook-dispatch-failed')
+    })
+  }, pollIntervalMs)
+  dispatchTimer.unref()
+}
+
+export async function stopPartnerWebhookDispatcher(): Promise<void> {
+  if (dispatchTimer) {
+    clearInterval(dispatchTimer)
+    dispatchTimer = null
+  }
+
+  await dispatching?.catch(() => undefined)
+}
@@ -0,0 +1,233 @@
+import type { PartnerSignal } from '../../shared/types/domain.js'
+import { readNonNegativeNumber } from '../utils/env.js'
+
+const routingWeights = {
+  specialty: readNonNegativeNumber(process.env.REVIEWER_ROUTING_WEIGHT_SPECIALTY, 3),
+  load: readNonNegativeNumber(process.env.REVIEWER_ROUTING_WEIGHT_LOAD, 2),
+  shift: readNonNegativeNumber(process.env.REVIEWER_ROUTING_WEIGHT_SHIFT, 1.5),
+}
+const defaultCapacity = Math.max(
+  1,
+  Math.round(readNonNegativeNumber(process.env.REVIEWER_ROUTING_DEFAULT_CAPACITY, 10)),
+)
+
+/** Routing attributes provisioned from SCIM into `moderators.metadata`. */
+export interface ReviewerRoutingProfile {
+  specialties: string[]
+  maxConcurrentAssignments: number | null
+  timezone: string | null
+  shiftStart: string | null
+  shiftEnd: string | null
+  outOfOffice: boolean
+  outOfOfficeUntil: string | null
+}
+
+export interface ReviewerCandidate {
+  id: string
+  metadata: Record<string, unknown> | null
+  activeAssignments: number
+}
+
+export interface ReviewerRoutingSignal {
+  signalType: PartnerSignal['signalType']
+  confidence: number
+}
+
+export type ReviewerExclusionReason = 'out_of_office' | 'at_capacity' | 'not_in_group' | 'excluded'
+
+export interface ReviewerRoutingFactor {
+  name: 'specialty' | 'load' | 'shift'
+  value: number
+  weight: number
+  contribution: number
+  detail: string
+}
+
+export interface ReviewerRoutingExplanation {
+  reviewerId: string
+  score: number
+  factors: ReviewerRoutingFactor[]
+  candidates: number
+  excluded: Array<{ reviewerId: string; reason: ReviewerExclusionReason }>
+}
+
+export interface ReviewerRoutingOptions {
+  signal?: ReviewerRoutingSignal
+  groups?: string[]
+  excludeIds?: string[]
+  now?: Date
+}
+
+const SHIFT_TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/
+
+function readList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map((entry) => `${entry}`.trim()).filter(Boolean)
+  }
+
+  return typeof value === 'string'
+    ? value
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+    : []
+}
+
+function readBoolean(value: unknown): boolean {
+  return value === true || (typeof value === 'string' && ['true', '1', 'yes'].includes(value.toLowerCase()))
+}
+
+function readShiftTime(value: unknown): string | null {
+  return typeof value === 'string' && SHIFT_TIME_PATTERN.test(value.trim()) ? value.trim() : null
+}
+
+export function readRoutingProfile(metadata: Record<string, unknown> | null): ReviewerRoutingProfile {
+  const maxConcurrent = Number(metadata?.maxConcurrentAssignments)
+  const until = typeof metadata?.outOfOfficeUntil === 'string' ? metadata.outOfOfficeUntil : null
+
+  return {
+    specialties: readList(metadata?.specialties).map((entry) => entry.toLowerCase()),
+    maxConcurrentAssignments: Number.isInteger(maxConcurrent) && maxConcurrent > 0 ? maxConcurrent : null,
+    timezone: typeof metadata?.timezone === 'string' && metadata.timezone ? metadata.timezone : null,
+    shiftStart: readShiftTime(metadata?.shiftStart),
+    shiftEnd: readShiftTime(metadata?.shiftEnd),
+    outOfOffice: readBoolean(metadata?.outOfOffice),
+    outOfOfficeUntil: until && !Number.isNaN(new Date(until).getTime()) ? until : null,
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map((part) => Number.parseInt(part, 10))
+  return hours * 60 + minutes
+}
+
+/** Minutes past midnight in the reviewer's timezone, or null when the timezone is unknown to Intl. */
+function localMinutes(now: Date, timezone: string): number | null {
+  try {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now)
+    const hour = Number(parts.find((part) => part.type === 'hour')?.value)
+    const minute = Number(parts.find((part) => part.type === 'minute')?.value)
+    return Number.isFinite(hour) && Number.isFinite(minute) ? hour * 60 + minute : null
+  } catch {
+    return null
+  }
+}
+
+function isOnShift(profile: ReviewerRoutingProfile, now: Date): boolean | null {
+  if (!profile.timezone || !profile.shiftStart || !profile.shiftEnd) {
+    return null
+  }
+
+  const current = localMinutes(now, profile.timezone)
+  if (current === null) {
+    return null
+  }
+
+  const start = toMinutes(profile.shiftStart)
+  const end = toMinutes(profile.shiftEnd)
+  return start <= end ? current >= start && current < end : current >= start || current < end
+}
+
+function isOutOfOffice(profile: ReviewerRoutingProfile, now: Date): boolean {
+  if (!profile.outOfOffice) {
+    return false
+  }
+
+  return !profile.outOfOfficeUntil || new Date(profile.outOfOfficeUntil).getTime() > now.getTime()
+}
+
+function buildFactor(name: ReviewerRoutingFactor['name'], value: number, detail: string): ReviewerRoutingFactor {
+  const weight = routingWeights[name]
+  return { name, value, weight, contribution: Number((value * weight).toFixed(3)), detail }
+}
+
+function scoreCandidate(
+  candidate: ReviewerCandidate,
+  profile: ReviewerRoutingProfile,
+  signal: ReviewerRoutingSignal | undefined,
+  now: Date,
+): ReviewerRoutingFactor[] {
+  const capacity = profile.maxConcurrentAssignments ?? defaultCapacity
+  const onShift = isOnShift(profile, now)
+  const load = `${candidate.activeAssignments}/${capacity} active`
+  const shift = onShift ? `on shift (${profile.timezone})` : `off shift (${profile.timezone})`
+  const specialty =
+    !signal || profile.specialties.length === 0
+      ? buildFactor('specialty', 0.5, 'generalist')
+      : profile.specialties.includes(signal.signalType)
+        ? buildFactor('specialty', 1, `specialises in ${signal.signalType}`)
+        : buildFactor('specialty', 0, `specialises in ${profile.specialties.join(', ')}`)
+
+  return [
+    specialty,
+    buildFactor('load', 1 - candidate.activeAssignments / capacity, load),
+    onShift === null ? buildFactor('shift', 0.5, 'no shift hours') : buildFactor('shift', onShift ? 1 : 0, shift),
+  ]
+}
+
+/**
+ * Ranks candidates by weighted specialty, spare capacity and shift coverage. Out-of-office and at-capacity
+ * reviewers are never picked; ties keep the caller's ordering.
+ */
+export function rankReviewerCandidates<T extends ReviewerCandidate>(
+  candidates: T[],
+  options: ReviewerRoutingOptions = {},
+): { candidate: T; explanation: ReviewerRoutingExplanation } | null {
+  const now = options.now ?? new Date()
+  const groups = new Set((options.groups ?? []).map((group) => group.toLowerCase()))
+  const excluded: ReviewerRoutingExplanation['excluded'] = []
+  let best: { candidate: T; score: number; factors: ReviewerRoutingFactor[] } | null = null
+
+  for (const candidate of candidates) {
+    const profile = readRoutingProfile(candidate.metadata)
+    const capacity = profile.maxConcurrentAssignments ?? defaultCapacity
+    const reason: ReviewerExclusionReason | null = options.excludeIds?.includes(candidate.id)
+      ? 'excluded'
+      : groups.size > 0 && !readList(candidate.metadata?.groups).some((group) => groups.has(group.toLowerCase()))
+        ? 'not_in_group'
+        : isOutOfOffice(profile, now)
+          ? 'out_of_office'
+          : candidate.activeAssignments >= capacity
+            ? 'at_capacity'
+            : null
+
+    if (reason) {
+      excluded.push({ reviewerId: candidate.id, reason })
+      continue
+    }
+
+    const factors = scoreCandidate(candidate, profile, options.signal, now)
+    const score = Number(factors.reduce((sum, factor) => sum + factor.contribution, 0).toFixed(3))
+    if (!best || score > best.score) {
+      best = { candidate, score, factors }
+    }
+  }
+
+  if (!best) {
+    return null
+  }
+
+  return {
+    candidate: best.candidate,
+    explanation: {
+      reviewerId: best.candidate.id,
+      score: best.score,
+      factors: best.factors,
+      candidates: candidates.length,
+      excluded,
+    },
+  }
+}
+
+export function describeRoutingExplanation(explanation: ReviewerRoutingExplanation): string {
+  const factors = explanation.factors
+    .map((factor) => `${factor.detail} (+${factor.contribution.toFixed(1)})`)
+    .join(', ')
+  const skipped = explanation.excluded.length > 0 ? `; skipped ${explanation.excluded.length}` : ''
+  return `score ${explanation.score.toFixed(1)} of ${explanation.candidates} candidates: ${factors}${skipped}`
+}
@@ -0,0 +1,154 @@
+import crypto from 'node:crypto'
+import { jwtVerify, SignJWT, type JWTPayload } from 'jose'
+import { parseAccessRoles } from '../../shared/data/permissions.js'
+import type { AccessRole } from '../../shared/types/domain.js'
+import { readPositiveInt } from '../utils/env.js'
+import { logger } from '../utils/logger.js'
+
+export interface SessionIdentity {
+  id: string
+  name: string
+  roles: AccessRole[]
+  partnerId: string | null
+}
+
+export interface IssuedSessionToken {
+  token: string
+  expiresAt: Date
+}
+
+interface SigningKey {
+  kid: string
+  secret: Uint8Array
+  createdAt: number
+}
+
+const ALGORITHM = 'HS256'
+const ISSUER = process.env.SESSION_ISSUER ?? 'ecosystem-intelligence-api'
+const AUDIENCE = process.env.SESSION_AUDIENCE ?? 'ecosystem-intelligence-web'
+const MIN_SECRET_BYTES = 32
+const sessionTtlSeconds = readPositiveInt(process.env.SESSION_TTL_SECONDS, 3_600)
+const keyRotateMs = readPositiveInt(process.env.SESSION_KEY_ROTATE_MINUTES, 720) * 60_000
+const devLoginEnabled = process.env.AUTH_DEV_LOGIN_ENABLED === 'true'
+
+// Dev login mints tokens for any persona, so a production process refuses to start with it switched on.
+if (devLoginEnabled && process.env.NODE_ENV === 'production') {
+  throw new Error('AUTH_DEV_LOGIN_ENABLED must not be true when NODE_ENV=production')
+}
+
+/**
+ * `SESSION_SIGNING_KEYS` is `kid:secret,...` (secrets base64url, at least 32 bytes); the first key signs and the rest
+ * only verify, so operators rotate by prepending a new key. Without it, keys are generated in-process and rotated
+ * every `SESSION_KEY_ROTATE_MINUTES`.
+ */
+const configuredKeys = parseConfiguredKeys(process.env.SESSION_SIGNING_KEYS)
+let generatedKeys: SigningKey[] = []
+
+function parseConfiguredKeys(value: string | undefined): SigningKey[] {
+  if (!value) {
+    return []
+  }
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':')
+      const kid = entry.slice(0, separator).trim()
+      const secret = Buffer.from(entry.slice(separator + 1).trim(), 'base64url')
+      if (separator <= 0 || secret.length < MIN_SECRET_BYTES) {
+        throw new Error(`SESSION_SIGNING_KEYS entries must be kid:secret with at least ${MIN_SECRET_BYTES} bytes`)
+      }
+
+      return { kid, secret: new Uint8Array(secret), createdAt: 0 }
+    })
+}
+
+function generateKey(now: number): SigningKey {
+  return { kid: crypto.randomUUID(), secret: new Uint8Array(crypto.randomBytes(MIN_SECRET_BYTES)), createdAt: now }
+}
+
+function resolveSigningKeys(now: number): SigningKey[] {
+  if (configuredKeys.length > 0) {
+    return configuredKeys
+  }
+
+  const [current] = generatedKeys
+  if (!current || now - current.createdAt >= keyRotateMs) {
+    generatedKeys = [generateKey(now), ...generatedKeys]
+  }
+
+  // A retired key must outlive the longest token it signed.
+  const retention = keyRotateMs + sessionTtlSeconds * 1_000
+  generatedKeys = generatedKeys.filter((key, index) => index === 0 || now - key.createdAt < retention)
+  return generatedKeys
+}
+
+/** Forces a new in-process signing key; tokens signed by the previous key stay valid until they expire. */
+export function rotateSessionSigningKey(now = new Date()): string {
+  if (configuredKeys.length > 0) {
+    throw new Error('Session signing keys are managed through SESSION_SIGNING_KEYS')
+  }
+
+  generatedKeys = [generateKey(now.getTime()), ...resolveSigningKeys(now.getTime())]
+  return generatedKeys[0].kid
+}
+
+export function isDevLoginEnabled(): boolean {
+  return devLoginEnabled
+}
+
+export async function issueSessionToken(identity: SessionIdentity, now = new Date()): Promise<IssuedSessionToken> {
+  const [key] = resolveSigningKeys(now.getTime())
+  const issuedAt = Math.floor(now.getTime() / 1_000)
+  const expiresAt = new Date((issuedAt + sessionTtlSeconds) * 1_000)
+
+  const token = await new SignJWT({ name: identity.name, roles: identity.roles, partner_id: identity.partnerId })
+    .setProtectedHeader({ alg: ALGORITHM, kid: key.kid, typ: 'JWT' })
+    .setSubject(identity.id)
+    .setIssuer(ISSUER)
+    .setAudience(AUDIENCE)
+    .setJti(crypto.randomUUID())
+    .setIssuedAt(issuedAt)
+    .setExpirationTime(Math.floor(expiresAt.getTime() / 1_000))
+    .sign(key.secret)
+
+  return { token, expiresAt }
+}
+
+export async function verifySessionToken(token: string, now = new Date()): Promise<SessionIdentity | null> {
+  const keys = resolveSigningKeys(now.getTime())
+
+  try {
+    const { payload } = await jwtVerify(
+      token,
+      (header) => {
+        const key = keys.find((candidate) => candidate.kid === header.kid)
+        if (!key) {
+          throw new Error('Unknown session signing key')
+        }
+        return key.secret
+      },
+      { issuer: ISSUER, audience: AUDIENCE, algorithms: [ALGORITHM], currentDate: now },
+    )
+
+    return mapPayloadToIdentity(payload)
+  } catch (error) {
+    logger.debug({ err: error }, 'session-token-verification-failed')
+    return null
+  }
+}
+
+function mapPayloadToIdentity(payload: JWTPayload): SessionIdentity | null {
+  if (typeof payload.sub !== 'string' || typeof payload.name !== 'string') {
+    return null
+  }
+
+  return {
+    id: payload.sub,
+    name: payload.name,
+    roles: parseAccessRoles(payload.roles),
+    partnerId: typeof payload.partner_id === 'string' ? payload.partner_id : null,
+  }
+}
@@ -3,6 +3,7 @@ import type { PoolClient } from 'pg'
 import type { PartnerSignal, ReviewerRole } from '../../shared/types/domain.js'
 import { dbPool } from '../db/client.js'
 import { logger } from '../utils/logger.js'
+import { subscribeToDomainEvents } from './domainEvents.js'
 
 export type ShadowApprovalStatus = 'pending' | 'acknowledged' | 'escalated'
 
@@ -58,6 +59,8 @@ interface QueueDecisionInput {
   notes?: string
 }
 
+type Queryable = PoolClient | typeof dbPool
+
 const queueConfig = resolveQueueConfig()
 const eligibleGroups = new Set(queueConfig.groups.map((group) => group.toLowerCase()))
 
@@ -94,18 +97,17 @@ export function isShadowQueueEnabled(): boolean {
   return queueConfig.enabled
 }
 
-export async function enqueueShadowApprovers(client: PoolClient, signalId: string): Promise<void> {
+subscribeToDomainEvents('shadow-approvals', ['SignalCreated'], (event) =>
+  enqueueShadowApprovers(dbPool, event.aggregateId),
+)
+
+/** Idempotent per (signal, reviewer), so a redelivered SignalCreated event cannot queue a reviewer twice. */
+async function enqueueShadowApprovers(client: Queryable, signalId: string): Promise<void> {
   if (!queueConfig.enabled) {
     return
   }
 
-  const moderatorResult = await client.query<ModeratorRow>(
-    `SELECT id, name, role, metadata
-       FROM moderators
-      WHERE active = TRUE` ,
-  )
-
-  const eligibleModerators = moderatorResult.rows.filter((moderator) => isModeratorEligible(moderator.metadata))
+  const eligibleModerators = await listEligibleModerators(client)
   if (eligibleModerators.length === 0) {
     logger.debug('shadow-queue-no-eligible-moderators')
     return
@@ -127,7 +129,51 @@ export async function enqueueShadowApprovers(client: PoolClient, signalId: strin
     )
   }
 
-  try {
+  await client.query(
+    `INSERT INTO partner_signal_shadow_queue (
+       id,
+       signal_id,
+       reviewer_id,
+       reviewer_name,
+       reviewer_role,
+       tier
+     ) VALUES ${placeholders.join(', ')}
+     ON CONFLICT (signal_id, reviewer_id) DO NOTHING` ,
+    values,
+  )
+}
+
+/** Escalates the signal's pending entries and queues eligible approvers not yet on it; returns rows touched. */
+export async function escalateShadowApprovers(
+  client: PoolClient,
+  signalId: string,
+  escalatedBy: { id: string; name: string },
+  notes: string,
+): Promise<number> {
+  if (!queueConfig.enabled) {
+    return 0
+  }
+
+  const updated = await client.query(
+    `UPDATE partner_signal_shadow_queue
+        SET status = 'escalated',
+            decision_at = NOW(),
+            decision_by_id = $2,
+            decision_by_name = $3,
+            notes = $4
+      WHERE signal_id = $1
+        AND status = 'pending'` ,
+    [signalId, escalatedBy.id, escalatedBy.name, notes],
+  )
+
+  const queued = await client.query<{ reviewer_id: string }>(
+    `SELECT reviewer_id FROM partner_signal_shadow_queue WHERE signal_id = $1` ,
+    [signalId],
+  )
+  const queuedIds = new Set(queued.rows.map((row) => row.reviewer_id))
+  const additions = (await listEligibleModerators(client)).filter((moderator) => !queuedIds.has(moderator.id))
+
+  for (const moderator of additions) {
     await client.query(
       `INSERT INTO partner_signal_shadow_queue (
          id,
@@ -135,14 +181,28 @@ export async function enqueueShadowApprovers(client: PoolClient, signalId: strin
          reviewer_id,
          reviewer_name,
          reviewer_role,
-         tier
-       ) VALUES ${placeholders.join(', ')}
-       ON CONFLICT (signal_id, reviewer_id) DO NOTHING` ,
-      values,
+         tier,
+         status,
+         decision_at,
+         decision_by_id,
+         decision_by_name,
+         notes
+       ) VALUES ($1, $2, $3, $4, $5, $6, 'escalated', NOW(), $7, $8, $9)` ,
+      [
+        crypto.randomUUID(),
+        signalId,
+        moderator.id,
+        moderator.name,
+        moderator.role,
+        queueConfig.tier,
+        escalatedBy.id,
+        escalatedBy.name,
+        notes,
+      ],
     )
-  } catch (error) {
-    logger.error({ err: error }, 'shadow-queue-enqueue-failed')
   }
+
+  return (updated.rowCount ?? 0) + additions.length
 }
 
 export async function listShadowApprovalQueue(tier?: string): Promise<ShadowApprovalQueueItem[]> {
@@ -233,6 +293,16 @@ export async function recordShadowQueueDecision(
   return mapRow(result.rows[0])
 }
 
+async function listEligibleModerators(client: Queryable): Promise<ModeratorRow[]> {
+  const moderatorResult = await client.query<ModeratorRow>(
+    `SELECT id, name, role, metadata
+       FROM moderators
+      WHERE active = TRUE` ,
+  )
+
+  return moderatorResult.rows.filter((moderator) => isModeratorEligible(moderator.metadata))
+}
+
 function isModeratorEligible(metadataValue: unknown): boolean {
   const metadata = decodeMetadata(metadataValue)
   const groups = extractGroups(metadata)
@@ -1,4 +1,4 @@
-import type { ReviewerRole } from '../../shared/types/domain.js'
+import type { AccessRole, Permission, ReviewerRole } from '../../shared/types/domain.js'
 
 declare global {
   namespace Express {
@@ -6,6 +6,9 @@ declare global {
       id: string
       name: string
       role: ReviewerRole
+      roles: AccessRole[]
+      permissions: Permission[]
+      partnerId: string | null
     }
 
     interface Request {
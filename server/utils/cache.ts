@@ -20,13 +20,25 @@ export class TTLCache<T> {
     return entry.value
   }
 
-  set(key: string, value: T): void {
+  set(key: string, value: T, ttlMs = this.ttlMs): void {
     this.store.set(key, {
       value,
-      expiresAt: Date.now() + this.ttlMs,
+      expiresAt: Date.now() + ttlMs,
     })
   }
 
+  delete(key: string): void {
+    this.store.delete(key)
+  }
+
+  deleteWhere(predicate: (value: T, key: string) => boolean): void {
+    for (const [key, entry] of this.store) {
+      if (predicate(entry.value, key)) {
+        this.store.delete(key)
+      }
+    }
+  }
+
   clear(): void {
     this.store.clear()
   }
@@ -0,0 +1,76 @@
+/** Parses RFC 4180 CSV: quoted fields may contain commas, doubled quotes and line breaks. */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  const endField = () => {
+    record.push(field)
+    field = ''
+  }
+
+  const endRecord = () => {
+    endField()
+    if (record.length > 1 || record[0] !== '') {
+      records.push(record)
+    }
+    record = []
+  }
+
+  for (; index < text.length; index += 1) {
+    const char = text[index]
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"'
+        index += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      endField()
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1
+      }
+      endRecord()
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    endRecord()
+  }
+
+  return records
+}
+
+/** Leading characters that make spreadsheets evaluate a cell as a formula. */
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/
+
+/** Undoes the apostrophe `formatCsvRow` puts in front of formula-like text, so exported files import unchanged. */
+export function unescapeCsvFormula(cell: string): string {
+  return cell.startsWith("'") && FORMULA_TRIGGER.test(cell.slice(1)) ? cell.slice(1) : cell
+}
+
+function formatCsvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  const raw = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  // Text fields come from partners; an apostrophe keeps "=HYPERLINK(...)" and friends from running on open.
+  const text = typeof value === 'string' && FORMULA_TRIGGER.test(raw) ? `'${raw}` : raw
+  return /[",\r\n]/.test(text) || text.trim() !== text ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function formatCsvRow(values: unknown[]): string {
+  return `${values.map(formatCsvField).join(',')}\r\n`
+}
@@ -0,0 +1,4 @@
+/** Normalises a timestamp column, which the driver may return as a `Date` or a string, to ISO 8601. */
+export function toIsoString(value: string | Date): string {
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString()
+}
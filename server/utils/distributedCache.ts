@@ -1,27 +1,198 @@
+import crypto from 'node:crypto'
 import type { Redis as RedisClient } from 'ioredis'
+import { Counter } from 'prom-client'
+import { metricsRegistry } from '../metrics/registry.js'
 import { TTLCache } from './cache.js'
 import { getRedisClient } from './redis.js'
 import { logger } from './logger.js'
 
+const INVALIDATION_CHANNEL = 'distributed-cache:invalidate'
+const LOCK_POLL_MS = 50
+const DEFAULT_LOCK_MS = 5_000
+const RELEASE_LOCK_SCRIPT =
+  "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0"
+
+const instanceId = crypto.randomUUID()
+
+const requestCounter = new Counter({
+  name: 'distributed_cache_requests_total',
+  help: 'Distributed cache lookups, by namespace, layer that answered and result (hit, stale or miss)',
+  labelNames: ['namespace', 'layer', 'result'] as const,
+  registers: [metricsRegistry],
+})
+
+const computeCounter = new Counter({
+  name: 'distributed_cache_computations_total',
+  help: 'Distributed cache recomputations, by namespace and outcome (computed, coalesced or failed)',
+  labelNames: ['namespace', 'outcome'] as const,
+  registers: [metricsRegistry],
+})
+
+const invalidationCounter = new Counter({
+  name: 'distributed_cache_invalidations_total',
+  help: 'Distributed cache invalidations, by namespace, scope (key, tag or namespace) and origin (local or remote)',
+  labelNames: ['namespace', 'scope', 'origin'] as const,
+  registers: [metricsRegistry],
+})
+
+interface CacheEnvelope<T> {
+  value: T
+  freshUntil: number
+  tags: string[]
+}
+
+interface InvalidationMessage {
+  origin: string
+  namespace: string
+  keys?: string[]
+  tags?: string[]
+  all?: boolean
+}
+
+export interface DistributedCacheOptions {
+  /** How long after the TTL an entry is still served while a single caller refreshes it. Defaults to 0. */
+  staleMs?: number
+  /** How long the Redis compute lock is held, and how long other instances wait on it before computing themselves. */
+  lockMs?: number
+}
+
+export interface CacheWriteOptions {
+  tags?: string[]
+}
+
+const namespaces = new Map<string, Set<DistributedCache<unknown>>>()
+let subscriber: RedisClient | null = null
+
+function tagKey(namespace: string, tag: string): string {
+  return `${namespace}:tag:${tag}`
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function parseEnvelope<T>(raw: string | null): CacheEnvelope<T> | undefined {
+  if (!raw) {
+    return undefined
+  }
+
+  const parsed = JSON.parse(raw) as Partial<CacheEnvelope<T>>
+  return typeof parsed.freshUntil === 'number' && Array.isArray(parsed.tags) ? (parsed as CacheEnvelope<T>) : undefined
+}
+
+function applyInvalidation(message: Omit<InvalidationMessage, 'origin'>): void {
+  for (const cache of namespaces.get(message.namespace) ?? []) {
+    cache.evictLocal(message)
+  }
+}
+
+async function publishInvalidation(redis: RedisClient, message: Omit<InvalidationMessage, 'origin'>): Promise<void> {
+  await redis.publish(INVALIDATION_CHANNEL, JSON.stringify({ ...message, origin: instanceId }))
+}
+
+/** One subscriber connection per process applies invalidations published by other instances to local memory. */
+function ensureSubscriber(redis: RedisClient): void {
+  if (subscriber) {
+    return
+  }
+
+  subscriber = redis.duplicate()
+  subscriber.on('error', (err: unknown) => {
+    logger.warn({ err }, 'distributed-cache-subscriber-error')
+  })
+  subscriber.on('message', (channel: string, raw: string) => {
+    if (channel !== INVALIDATION_CHANNEL) {
+      return
+    }
+
+    try {
+      const message = JSON.parse(raw) as InvalidationMessage
+      if (message.origin === instanceId) {
+        return
+      }
+      applyInvalidation(message)
+      invalidationCounter.inc({
+        namespace: message.namespace,
+        scope: message.all ? 'namespace' : message.tags ? 'tag' : 'key',
+        origin: 'remote',
+      })
+    } catch (err) {
+      logger.warn({ err }, 'distributed-cache-invalidation-parse-failed')
+    }
+  })
+  subscriber.subscribe(INVALIDATION_CHANNEL).catch((err: unknown) => {
+    logger.warn({ err }, 'distributed-cache-subscribe-failed')
+  })
+}
+
+/** Drops every entry carrying one of `tags` from all caches in `namespace`, on this instance and every other. */
+export async function invalidateCacheTags(namespace: string, tags: string[]): Promise<void> {
+  if (tags.length === 0) {
+    return
+  }
+
+  applyInvalidation({ namespace, tags })
+  invalidationCounter.inc({ namespace, scope: 'tag', origin: 'local' })
+
+  const redis = getRedisClient()
+  if (!redis) {
+    return
+  }
+
+  try {
+    for (const tag of tags) {
+      const members = await redis.smembers(tagKey(namespace, tag))
+      await redis.del(...members, tagKey(namespace, tag))
+    }
+    await publishInvalidation(redis, { namespace, tags })
+  } catch (err) {
+    logger.warn({ err, namespace, tags }, 'distributed-cache-redis-invalidate-failed')
+  }
+}
+
 export class DistributedCache<T> {
-  private readonly memoryCache: TTLCache<T>
+  private readonly memoryCache: TTLCache<CacheEnvelope<T>>
   private readonly redis: RedisClient | null
-  private readonly ttlSeconds: number
+  private readonly staleMs: number
+  private readonly lockMs: number
+  private readonly inflight = new Map<string, Promise<T>>()
+  /**
+   * Bumped by every invalidation. The maps record the generation at which a key or tag was last invalidated, so a
+   * computation that started earlier knows its result is stale; they are only kept while computations are running.
+   */
+  private generation = 0
+  private namespaceInvalidatedAt = 0
+  private readonly keyInvalidatedAt = new Map<string, number>()
+  private readonly tagInvalidatedAt = new Map<string, number>()
+  private runningComputations = 0
 
-  constructor(private readonly namespace: string, ttlMs: number) {
-    this.memoryCache = new TTLCache<T>(ttlMs)
+  constructor(
+    private readonly namespace: string,
+    private readonly ttlMs: number,
+    options: DistributedCacheOptions = {},
+  ) {
+    this.staleMs = Math.max(0, options.staleMs ?? 0)
+    this.lockMs = Math.max(LOCK_POLL_MS, options.lockMs ?? DEFAULT_LOCK_MS)
+    this.memoryCache = new TTLCache<CacheEnvelope<T>>(ttlMs + this.staleMs)
     this.redis = getRedisClient()
-    this.ttlSeconds = Math.max(1, Math.floor(ttlMs / 1000))
+
+    const peers = namespaces.get(namespace) ?? new Set<DistributedCache<unknown>>()
+    peers.add(this as DistributedCache<unknown>)
+    namespaces.set(namespace, peers)
+
+    if (this.redis) {
+      ensureSubscriber(this.redis)
+    }
   }
 
   private buildKey(key: string): string {
     return `${this.namespace}:${key}`
   }
 
-  async get(key: string): Promise<T | undefined> {
+  private async read(key: string): Promise<{ envelope: CacheEnvelope<T>; layer: 'memory' | 'redis' } | undefined> {
     const local = this.memoryCache.get(key)
     if (local !== undefined) {
-      return local
+      return { envelope: local, layer: 'memory' }
     }
 
     if (!this.redis) {
@@ -29,33 +200,264 @@ export class DistributedCache<T> {
     }
 
     try {
-      const raw = await this.redis.get(this.buildKey(key))
-      if (!raw) return undefined
+      const envelope = parseEnvelope<T>(await this.redis.get(this.buildKey(key)))
+      if (!envelope) {
+        return undefined
+      }
 
-      const value = JSON.parse(raw) as T
-      this.memoryCache.set(key, value)
-      return value
+      this.memoryCache.set(key, envelope, Math.max(1, envelope.freshUntil + this.staleMs - Date.now()))
+      return { envelope, layer: 'redis' }
     } catch (err) {
       logger.warn({ err }, 'distributed-cache-redis-get-failed')
       return undefined
     }
   }
 
-  async set(key: string, value: T): Promise<void> {
-    this.memoryCache.set(key, value)
+  async get(key: string): Promise<T | undefined> {
+    const cached = await this.read(key)
+    if (cached && cached.envelope.freshUntil > Date.now()) {
+      requestCounter.inc({ namespace: this.namespace, layer: cached.layer, result: 'hit' })
+      return cached.envelope.value
+    }
+
+    requestCounter.inc({ namespace: this.namespace, layer: 'none', result: 'miss' })
+    return undefined
+  }
+
+  async set(key: string, value: T, options: CacheWriteOptions = {}): Promise<void> {
+    const envelope: CacheEnvelope<T> = { value, freshUntil: Date.now() + this.ttlMs, tags: options.tags ?? [] }
+    this.memoryCache.set(key, envelope)
 
     if (!this.redis) {
       return
     }
 
+    const storageMs = this.ttlMs + this.staleMs
     try {
-      await this.redis.set(this.buildKey(key), JSON.stringify(value), 'EX', this.ttlSeconds)
+      const transaction = this.redis.multi().set(this.buildKey(key), JSON.stringify(envelope), 'PX', storageMs)
+      for (const tag of envelope.tags) {
+        transaction.sadd(tagKey(this.namespace, tag), this.buildKey(key))
+        transaction.pexpire(tagKey(this.namespace, tag), storageMs)
+      }
+      await transaction.exec()
     } catch (err) {
       logger.warn({ err }, 'distributed-cache-redis-set-failed')
     }
   }
 
-  clear(): void {
-    this.memoryCache.clear()
+  /**
+   * Returns the cached value, computing it on a miss. Concurrent misses for a key share one computation per
+   * process, and across processes the Redis lock holder computes while the others wait for its result. Within
+   * `staleMs` after expiry the old value is returned immediately and refreshed in the background.
+   */
+  async getOrCompute(key: string, compute: () => Promise<T>, options: CacheWriteOptions = {}): Promise<T> {
+    const cached = await this.read(key)
+    if (cached && cached.envelope.freshUntil > Date.now()) {
+      requestCounter.inc({ namespace: this.namespace, layer: cached.layer, result: 'hit' })
+      return cached.envelope.value
+    }
+
+    if (cached) {
+      requestCounter.inc({ namespace: this.namespace, layer: cached.layer, result: 'stale' })
+      this.refresh(key, compute, options, cached.envelope).catch((err: unknown) => {
+        logger.warn({ err, namespace: this.namespace, key }, 'distributed-cache-refresh-failed')
+      })
+      return cached.envelope.value
+    }
+
+    requestCounter.inc({ namespace: this.namespace, layer: 'none', result: 'miss' })
+    return this.refresh(key, compute, options)
+  }
+
+  private refresh(
+    key: string,
+    compute: () => Promise<T>,
+    options: CacheWriteOptions,
+    stale?: CacheEnvelope<T>,
+  ): Promise<T> {
+    const running = this.inflight.get(key)
+    if (running) {
+      computeCounter.inc({ namespace: this.namespace, outcome: 'coalesced' })
+      return running
+    }
+
+    const task = this.computeWithLock(key, compute, options, stale).finally(() => {
+      this.inflight.delete(key)
+    })
+    this.inflight.set(key, task)
+    return task
+  }
+
+  private async computeWithLock(
+    key: string,
+    compute: () => Promise<T>,
+    options: CacheWriteOptions,
+    stale?: CacheEnvelope<T>,
+  ): Promise<T> {
+    if (!this.redis) {
+      return this.computeAndStore(key, compute, options)
+    }
+
+    const lockKey = `${this.buildKey(key)}:lock`
+    const token = crypto.randomUUID()
+    let acquired: boolean
+    try {
+      acquired = (await this.redis.set(lockKey, token, 'PX', this.lockMs, 'NX')) === 'OK'
+    } catch (err) {
+      logger.warn({ err }, 'distributed-cache-redis-lock-failed')
+      return this.computeAndStore(key, compute, options)
+    }
+
+    if (acquired) {
+      try {
+        return await this.computeAndStore(key, compute, options)
+      } finally {
+        await this.redis.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token).catch((err: unknown) => {
+          logger.warn({ err }, 'distributed-cache-redis-unlock-failed')
+        })
+      }
+    }
+
+    if (stale) {
+      return stale.value
+    }
+
+    const peerValue = await this.waitForPeer(key)
+    if (peerValue) {
+      computeCounter.inc({ namespace: this.namespace, outcome: 'coalesced' })
+      return peerValue.value
+    }
+
+    return this.computeAndStore(key, compute, options)
+  }
+
+  private async waitForPeer(key: string): Promise<CacheEnvelope<T> | undefined> {
+    const deadline = Date.now() + this.lockMs
+    while (Date.now() < deadline && this.redis) {
+      await sleep(LOCK_POLL_MS)
+      try {
+        const envelope = parseEnvelope<T>(await this.redis.get(this.buildKey(key)))
+        if (envelope && envelope.freshUntil > Date.now()) {
+          this.memoryCache.set(key, envelope, Math.max(1, envelope.freshUntil + this.staleMs - Date.now()))
+          return envelope
+        }
+      } catch (err) {
+        logger.warn({ err }, 'distributed-cache-redis-get-failed')
+        return undefined
+      }
+    }
+    return undefined
+  }
+
+  private invalidatedSince(startedAt: number, key: string, tags: string[]): boolean {
+    return (
+      this.namespaceInvalidatedAt > startedAt ||
+      (this.keyInvalidatedAt.get(key) ?? 0) > startedAt ||
+      tags.some((tag) => (this.tagInvalidatedAt.get(tag) ?? 0) > startedAt)
+    )
+  }
+
+  /** Computes and stores the value, unless the key was invalidated mid-computation and the result may predate that. */
+  private async computeAndStore(key: string, compute: () => Promise<T>, options: CacheWriteOptions): Promise<T> {
+    const startedAt = this.generation
+    this.runningComputations += 1
+    let value: T
+    let invalidated: boolean
+    try {
+      value = await compute()
+      invalidated = this.invalidatedSince(startedAt, key, options.tags ?? [])
+    } catch (error) {
+      computeCounter.inc({ namespace: this.namespace, outcome: 'failed' })
+      throw error
+    } finally {
+      this.runningComputations -= 1
+      if (this.runningComputations === 0) {
+        this.keyInvalidatedAt.clear()
+        this.tagInvalidatedAt.clear()
+      }
+    }
+
+    computeCounter.inc({ namespace: this.namespace, outcome: 'computed' })
+    if (!invalidated) {
+      await this.set(key, value, options)
+    }
+    return value
+  }
+
+  private recordInvalidation(message: Pick<InvalidationMessage, 'keys' | 'tags' | 'all'>): void {
+    this.generation += 1
+    if (message.all) {
+      this.namespaceInvalidatedAt = this.generation
+    }
+    if (this.runningComputations === 0) {
+      return
+    }
+
+    for (const key of message.keys ?? []) {
+      this.keyInvalidatedAt.set(key, this.generation)
+    }
+    for (const tag of message.tags ?? []) {
+      this.tagInvalidatedAt.set(tag, this.generation)
+    }
+  }
+
+  /** Applies an invalidation to this instance's memory layer only. */
+  evictLocal(message: Pick<InvalidationMessage, 'keys' | 'tags' | 'all'>): void {
+    this.recordInvalidation(message)
+    if (message.all) {
+      this.memoryCache.clear()
+      return
+    }
+
+    for (const key of message.keys ?? []) {
+      this.memoryCache.delete(key)
+    }
+
+    const tags = message.tags
+    if (tags && tags.length > 0) {
+      this.memoryCache.deleteWhere((envelope) => envelope.tags.some((tag) => tags.includes(tag)))
+    }
+  }
+
+  async invalidate(key: string): Promise<void> {
+    applyInvalidation({ namespace: this.namespace, keys: [key] })
+    invalidationCounter.inc({ namespace: this.namespace, scope: 'key', origin: 'local' })
+
+    if (!this.redis) {
+      return
+    }
+
+    try {
+      await this.redis.del(this.buildKey(key))
+      await publishInvalidation(this.redis, { namespace: this.namespace, keys: [key] })
+    } catch (err) {
+      logger.warn({ err }, 'distributed-cache-redis-invalidate-failed')
+    }
+  }
+
+  invalidateTags(tags: string[]): Promise<void> {
+    return invalidateCacheTags(this.namespace, tags)
+  }
+
+  /** Empties the namespace in memory and Redis, on this instance and every other. */
+  async clear(): Promise<void> {
+    applyInvalidation({ namespace: this.namespace, all: true })
+    invalidationCounter.inc({ namespace: this.namespace, scope: 'namespace', origin: 'local' })
+
+    if (!this.redis) {
+      return
+    }
+
+    try {
+      const stream = this.redis.scanStream({ match: `${this.namespace}:*`, count: 100 })
+      for await (const keys of stream as AsyncIterable<string[]>) {
+        if (keys.length > 0) {
+          await this.redis.del(...keys)
+        }
+      }
+      await publishInvalidation(this.redis, { namespace: this.namespace, all: true })
+    } catch (err) {
+      logger.warn({ err }, 'distributed-cache-redis-clear-failed')
+    }
   }
 }
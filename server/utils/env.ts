@@ -0,0 +1,17 @@
+/** Reads an integer setting, falling back when it is missing, malformed or not above zero. */
+export function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/** Like `readPositiveInt`, but keeps fractions. */
+export function readPositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value ?? '')
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/** Reads a numeric setting that may be zero, e.g. a weight that switches a factor off. */
+export function readNonNegativeNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value ?? '')
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+}
@@ -0,0 +1,103 @@
+import dns from 'node:dns'
+import { lookup } from 'node:dns/promises'
+import { isIP, type LookupFunction } from 'node:net'
+import { Agent } from 'undici'
+
+function isPrivateIpv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number)
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  )
+}
+
+function isPrivateIpv6(address: string): boolean {
+  const normalized = address.toLowerCase()
+  if (normalized === '::' || normalized === '::1') {
+    return true
+  }
+
+  // IPv4-mapped addresses, either dotted (::ffff:10.0.0.1) or as the URL parser prints them (::ffff:a00:1).
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(normalized)
+  if (dotted) {
+    return isPrivateIpv4(dotted[1])
+  }
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(normalized)
+  if (hex) {
+    const high = Number.parseInt(hex[1], 16)
+    const low = Number.parseInt(hex[2], 16)
+    return isPrivateIpv4(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`)
+  }
+
+  // fc00::/7 unique-local and fe80::/10 link-local.
+  return /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized)
+}
+
+/** Loopback, private, carrier-grade NAT, link-local and unspecified addresses, for IPv4 and IPv6. */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address)
+  return version === 4 ? isPrivateIpv4(address) : version === 6 ? isPrivateIpv6(address) : false
+}
+
+/** True for `localhost` names and IP literals in a private range; other names need `resolvesToPrivateAddress`. */
+export function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '')
+  return host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host)
+}
+
+/** True unless the URL names a private host; unparseable values are left to URL validation. */
+export function hasPublicHost(url: string): boolean {
+  try {
+    return !isPrivateHostname(new URL(url).hostname)
+  } catch {
+    return true
+  }
+}
+
+/** Catches public names that point at internal addresses; lookup failures are left to the caller's request. */
+export async function resolvesToPrivateAddress(hostname: string): Promise<boolean> {
+  if (isPrivateHostname(hostname)) {
+    return true
+  }
+
+  try {
+    const addresses = await lookup(hostname.replace(/^\[|\]$/g, ''), { all: true })
+    return addresses.some(({ address }) => isPrivateAddress(address))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * `net` lookup that refuses names resolving to a private address. Checking a name and then connecting resolves it
+ * twice, so the second answer can point somewhere else; doing the check here pins the connection to what was checked.
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0)
+      return
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      const refused: NodeJS.ErrnoException = new Error(`${hostname} resolves to a private address`)
+      refused.code = 'EPRIVATEADDRESS'
+      callback(refused, '', 0)
+      return
+    }
+
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
+
+/** Dispatcher for undici's `fetch` whose connections can only reach public addresses. */
+export const publicAddressDispatcher = new Agent({ connect: { lookup: lookupPublicAddress } })
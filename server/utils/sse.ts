@@ -0,0 +1,71 @@
+import type { Request, Response } from 'express'
+
+export interface ServerSentEvent {
+  id?: string | number
+  event?: string
+  data: unknown
+}
+
+export interface EventStream {
+  send: (event: ServerSentEvent) => void
+  onClose: (handler: () => void) => void
+  readonly closed: boolean
+}
+
+export interface EventStreamOptions {
+  heartbeatMs: number
+  retryMs: number
+}
+
+export function openEventStream(req: Request, res: Response, options: EventStreamOptions): EventStream {
+  const closeHandlers: Array<() => void> = []
+  let closed = false
+
+  res.status(200)
+  res.setHeader('content-type', 'text/event-stream; charset=utf-8')
+  res.setHeader('cache-control', 'no-cache, no-transform')
+  res.setHeader('connection', 'keep-alive')
+  res.setHeader('x-accel-buffering', 'no')
+  res.flushHeaders()
+  res.write(`retry: ${options.retryMs}\n\n`)
+
+  const heartbeat = setInterval(() => {
+    res.write(`: heartbeat ${new Date().toISOString()}\n\n`)
+  }, options.heartbeatMs)
+
+  req.on('close', () => {
+    closed = true
+    clearInterval(heartbeat)
+    for (const handler of closeHandlers) {
+      handler()
+    }
+  })
+
+  return {
+    send(event) {
+      if (closed) {
+        return
+      }
+
+      const lines: string[] = []
+      if (event.id !== undefined) {
+        lines.push(`id: ${event.id}`)
+      }
+      if (event.event) {
+        lines.push(`event: ${event.event}`)
+      }
+      lines.push(`data: ${JSON.stringify(event.data)}`)
+      res.write(`${lines.join('\n')}\n\n`)
+    },
+    onClose(handler) {
+      if (closed) {
+        handler()
+        return
+      }
+      closeHandlers.push(handler)
+    },
+    get closed() {
+      return closed
+    },
+  }
+}
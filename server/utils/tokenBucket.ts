@@ -0,0 +1,134 @@
+import { getRedisClient } from './redis.js'
+import { logger } from './logger.js'
+
+const REDIS_PREFIX = 'rate-limit'
+const MAX_LOCAL_BUCKETS = 10_000
+
+/**
+ * Refills every bucket in `KEYS` for the time since its last use and, only if each has a token, takes one from each.
+ * `ARGV` holds a capacity and refill rate per key. Redis `TIME` is the clock so every instance refills at the same
+ * rate; the reply is `[allowed, tokens left per key]`, with tokens as strings to keep fractions.
+ */
+const CONSUME_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local tokens = {}
+local allowed = 1
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 2 - 1])
+  local refillPerMs = tonumber(ARGV[i * 2])
+  local state = redis.call('HMGET', key, 'tokens', 'updated_at')
+  local updatedAt = tonumber(state[2]) or now
+  tokens[i] = math.min(capacity, (tonumber(state[1]) or capacity) + math.max(0, now - updatedAt) * refillPerMs)
+  if tokens[i] < 1 then
+    allowed = 0
+  end
+end
+local reply = { allowed }
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 2 - 1])
+  local refillPerMs = tonumber(ARGV[i * 2])
+  tokens[i] = tokens[i] - allowed
+  redis.call('HSET', key, 'tokens', tostring(tokens[i]), 'updated_at', now)
+  redis.call('PEXPIRE', key, math.ceil((capacity - tokens[i]) / refillPerMs) + 1000)
+  reply[i + 1] = tostring(tokens[i])
+end
+return reply`
+
+export interface TokenBucketLimit {
+  /** Burst size, and the number of tokens refilled over `windowMs`. */
+  capacity: number
+  windowMs: number
+}
+
+export interface TokenBucket {
+  key: string
+  limit: TokenBucketLimit
+}
+
+export interface TokenBucketResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  /** Until the bucket is full again. */
+  resetMs: number
+  /** Until the next token is available; 0 when one is available now. */
+  retryAfterMs: number
+}
+
+type LocalBucket = { tokens: number; updatedAt: number; fullAt: number }
+
+const localBuckets = new Map<string, LocalBucket>()
+
+function refillPerMs(limit: TokenBucketLimit): number {
+  return limit.capacity / limit.windowMs
+}
+
+function toResult(limit: TokenBucketLimit, allowed: boolean, tokens: number): TokenBucketResult {
+  const rate = refillPerMs(limit)
+  return {
+    allowed,
+    limit: limit.capacity,
+    remaining: Math.floor(tokens),
+    resetMs: Math.ceil((limit.capacity - tokens) / rate),
+    retryAfterMs: tokens >= 1 ? 0 : Math.ceil((1 - tokens) / rate),
+  }
+}
+
+/** Drops buckets that have refilled completely; they behave exactly like a missing bucket. */
+function pruneLocalBuckets(now: number): void {
+  for (const [key, bucket] of localBuckets) {
+    if (bucket.fullAt <= now) {
+      localBuckets.delete(key)
+    }
+  }
+}
+
+function consumeLocal(buckets: TokenBucket[], now: number): TokenBucketResult[] {
+  const refilled = buckets.map(({ key, limit }) => {
+    const bucket = localBuckets.get(key)
+    return bucket
+      ? Math.min(limit.capacity, bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs(limit))
+      : limit.capacity
+  })
+  const allowed = refilled.every((tokens) => tokens >= 1)
+
+  if (localBuckets.size >= MAX_LOCAL_BUCKETS && buckets.some(({ key }) => !localBuckets.has(key))) {
+    pruneLocalBuckets(now)
+  }
+
+  return buckets.map(({ key, limit }, index) => {
+    const tokens = allowed ? refilled[index] - 1 : refilled[index]
+    const result = toResult(limit, allowed, tokens)
+    localBuckets.set(key, { tokens, updatedAt: now, fullAt: now + result.resetMs })
+    return result
+  })
+}
+
+/**
+ * Takes one token from each of `buckets`, or none at all when any of them is empty, so a rejected request does not
+ * drain the buckets that still had room. Buckets live in Redis when `REDIS_URL` is set so every instance shares them;
+ * without Redis, or when a Redis call fails, this process keeps its own buckets instead.
+ */
+export async function consumeTokens(buckets: TokenBucket[], now = Date.now()): Promise<TokenBucketResult[]> {
+  if (buckets.length === 0) {
+    return []
+  }
+
+  const redis = getRedisClient()
+  if (redis) {
+    try {
+      const [allowed, ...tokens] = (await redis.eval(
+        CONSUME_SCRIPT,
+        buckets.length,
+        ...buckets.map(({ key }) => `${REDIS_PREFIX}:${key}`),
+        ...buckets.flatMap(({ limit }) => [limit.capacity, refillPerMs(limit)]),
+      )) as [number, ...string[]]
+      return buckets.map(({ limit }, index) => toResult(limit, allowed === 1, Number(tokens[index])))
+    } catch (err) {
+      logger.warn({ err }, 'rate-limit-redis-failed')
+    }
+  }
+
+  return consumeLocal(buckets, now)
+}
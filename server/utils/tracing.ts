@@ -0,0 +1,18 @@
+import { SpanStatusCode, type Span, type Tracer } from '@opentelemetry/api'
+
+/** Runs `handler` in an active span on `tracer`; a thrown error is recorded on the span and rethrown. */
+export async function withSpan<T>(tracer: Tracer, name: string, handler: () => Promise<T>): Promise<T> {
+  return tracer.startActiveSpan(name, async (span: Span) => {
+    try {
+      return await handler()
+    } catch (error) {
+      if (error instanceof Error) {
+        span.recordException(error)
+        span.setStatus({ code: SpanStatusCode.ERROR, message: error.message })
+      }
+      throw error
+    } finally {
+      span.end()
+    }
+  })
+}
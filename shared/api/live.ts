@@ -131,5 +131,9 @@ export async function getLiveAnalyticsSnapshot(): Promise<LiveAnalyticsSnapshot>
     windowSeconds: (TREND_POINTS - 1) * TICK_INTERVAL_SECONDS,
     metrics,
     narrative: formatNarrative(metrics),
+    filters: {},
+    groupBy: null,
+    groups: [],
+    dimensions: { region: [], merchantCategory: [], partnerId: [] },
   }
 }
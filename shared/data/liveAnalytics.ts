@@ -1,10 +1,13 @@
-import type { LiveMetricThresholds } from '../types/domain.js'
+import type { LiveAnomalyDetectorConfig, LiveDimensionKey, LiveMetricThresholds } from '../types/domain.js'
+
+export const liveDimensionKeys: LiveDimensionKey[] = ['region', 'merchantCategory', 'partnerId']
 
 export interface LiveMetricDefinition {
   id: string
   label: string
   unit: string
   format: 'currency' | 'percentage' | 'duration' | 'count'
+  aggregation: 'sum' | 'mean'
   baseline: number
   amplitude: number
   volatility: number
@@ -14,12 +17,13 @@ export interface LiveMetricDefinition {
   floor?: number
   directionBias?: 'up' | 'down'
   thresholds?: LiveMetricThresholds
+  detector: LiveAnomalyDetectorConfig
 }
 
 export type LiveMetricMetadata = Pick<
   LiveMetricDefinition,
-  'id' | 'label' | 'unit' | 'format' | 'narrativeFocus'
-> & { thresholds?: LiveMetricThresholds }
+  'id' | 'label' | 'unit' | 'format' | 'aggregation' | 'narrativeFocus'
+> & { thresholds?: LiveMetricThresholds; detector: LiveAnomalyDetectorConfig }
 
 export const liveMetricDefinitions: LiveMetricDefinition[] = [
   {
@@ -27,6 +31,7 @@ export const liveMetricDefinitions: LiveMetricDefinition[] = [
     label: 'Network Spend Velocity',
     unit: 'USD/min',
     format: 'currency',
+    aggregation: 'sum',
     baseline: 42_000_000,
     amplitude: 3_200_000,
     volatility: 1_800_000,
@@ -37,12 +42,14 @@ export const liveMetricDefinitions: LiveMetricDefinition[] = [
       upperWarning: 45_000_000,
       upperCritical: 52_000_000,
     },
+    detector: { kind: 'seasonal', periods: ['day', 'week'], toleranceSeconds: 300, warningRatio: 0.12, criticalRatio: 0.25 },
   },
   {
     id: 'fraud_block_rate',
     label: 'Fraud Block Rate',
     unit: 'bps',
     format: 'percentage',
+    aggregation: 'mean',
     baseline: 82,
     amplitude: 6,
     volatility: 3,
@@ -54,12 +61,14 @@ export const liveMetricDefinitions: LiveMetricDefinition[] = [
       lowerWarning: 70,
       lowerCritical: 60,
     },
+    detector: { kind: 'zscore', window: 30, minSamples: 8, warningZ: 2, criticalZ: 3 },
   },
   {
     id: 'authorization_latency',
     label: 'Authorization Latency',
     unit: 'ms',
     format: 'duration',
+    aggregation: 'mean',
     baseline: 280,
     amplitude: 68,
     volatility: 36,
@@ -72,12 +81,14 @@ export const liveMetricDefinitions: LiveMetricDefinition[] = [
       upperWarning: 320,
       upperCritical: 420,
     },
+    detector: { kind: 'ewma', alpha: 0.3, minSamples: 6, warningSigma: 2.5, criticalSigma: 3.5 },
   },
   {
     id: 'signal_activation',
     label: 'Signal Activation Velocity',
     unit: 'signals/hr',
     format: 'count',
+    aggregation: 'sum',
     baseline: 148,
     amplitude: 22,
     volatility: 18,
@@ -87,17 +98,20 @@ export const liveMetricDefinitions: LiveMetricDefinition[] = [
       lowerWarning: 120,
       lowerCritical: 90,
     },
+    detector: { kind: 'static' },
   },
 ]
 
 export const liveMetricCatalog: LiveMetricMetadata[] = liveMetricDefinitions.map(
-  ({ id, label, unit, format, narrativeFocus, thresholds }) => ({
+  ({ id, label, unit, format, aggregation, narrativeFocus, thresholds, detector }) => ({
     id,
     label,
     unit,
     format,
+    aggregation,
     narrativeFocus,
     thresholds,
+    detector,
   }),
 )
 
@@ -0,0 +1,84 @@
+import type { PartnerSignal, PartnerSignalSlaPolicy, PartnerSignalStatus } from '../types/domain.js'
+
+/** Matched in order: the first policy whose signal type and confidence band fit the signal wins. */
+export const partnerSignalSlaPolicies: PartnerSignalSlaPolicy[] = [
+  {
+    id: 'risk-high-confidence',
+    label: 'High-confidence risk',
+    signalType: 'risk',
+    minConfidence: 0.8,
+    maxConfidence: 1,
+    targetMinutes: 60,
+    escalation: 'senior_reviewer',
+  },
+  {
+    id: 'risk',
+    label: 'Risk',
+    signalType: 'risk',
+    minConfidence: 0,
+    maxConfidence: 1,
+    targetMinutes: 4 * 60,
+    escalation: 'senior_reviewer',
+  },
+  {
+    id: 'compliance-high-confidence',
+    label: 'High-confidence compliance',
+    signalType: 'compliance',
+    minConfidence: 0.8,
+    maxConfidence: 1,
+    targetMinutes: 2 * 60,
+    escalation: 'senior_reviewer',
+  },
+  {
+    id: 'compliance',
+    label: 'Compliance',
+    signalType: 'compliance',
+    minConfidence: 0,
+    maxConfidence: 1,
+    targetMinutes: 8 * 60,
+    escalation: 'shadow_queue',
+  },
+  {
+    id: 'opportunity-high-confidence',
+    label: 'High-confidence opportunity',
+    signalType: null,
+    minConfidence: 0.8,
+    maxConfidence: 1,
+    targetMinutes: 12 * 60,
+    escalation: 'shadow_queue',
+  },
+  {
+    id: 'standard',
+    label: 'Standard',
+    signalType: null,
+    minConfidence: 0,
+    maxConfidence: 1,
+    targetMinutes: 24 * 60,
+    escalation: 'shadow_queue',
+  },
+]
+
+/** Statuses where the SLA clock runs; `needs_info` waits on the partner and is never escalated. */
+export const slaTrackedPartnerSignalStatuses: PartnerSignalStatus[] = ['pending', 'in_review']
+
+export function resolvePartnerSignalSlaPolicy(
+  signalType: PartnerSignal['signalType'],
+  confidence: number,
+): PartnerSignalSlaPolicy {
+  const policy = partnerSignalSlaPolicies.find(
+    (candidate) =>
+      (candidate.signalType === null || candidate.signalType === signalType) &&
+      confidence >= candidate.minConfidence &&
+      confidence <= candidate.maxConfidence,
+  )
+
+  return policy ?? partnerSignalSlaPolicies[partnerSignalSlaPolicies.length - 1]
+}
+
+export function getPartnerSignalSlaPolicy(id: string | null): PartnerSignalSlaPolicy | null {
+  return partnerSignalSlaPolicies.find((policy) => policy.id === id) ?? null
+}
+
+export function computePartnerSignalSlaDueAt(policy: PartnerSignalSlaPolicy, submittedAt: string): string {
+  return new Date(new Date(submittedAt).getTime() + policy.targetMinutes * 60_000).toISOString()
+}
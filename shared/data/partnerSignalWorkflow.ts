@@ -0,0 +1,148 @@
+import type { PartnerSignalStatus, ReviewerRole } from '../types/domain.js'
+
+export interface PartnerSignalWorkflowState {
+  id: PartnerSignalStatus
+  label: string
+  open: boolean
+}
+
+export interface PartnerSignalTransitionRule {
+  id: string
+  label: string
+  from: PartnerSignalStatus[]
+  to: PartnerSignalStatus
+  roles: ReviewerRole[]
+  requiresNotes: boolean
+}
+
+export interface PartnerSignalWorkflowDefinition {
+  initialState: PartnerSignalStatus
+  states: PartnerSignalWorkflowState[]
+  transitions: PartnerSignalTransitionRule[]
+}
+
+export type PartnerSignalTransitionCheck =
+  | { allowed: true; rule: PartnerSignalTransitionRule }
+  | {
+      allowed: false
+      reason: 'invalid_transition' | 'forbidden_role' | 'notes_required'
+      rule: PartnerSignalTransitionRule | null
+      allowedNextStates: PartnerSignalStatus[]
+    }
+
+export const partnerSignalWorkflow: PartnerSignalWorkflowDefinition = {
+  initialState: 'pending',
+  states: [
+    { id: 'pending', label: 'Pending', open: true },
+    { id: 'in_review', label: 'In review', open: true },
+    { id: 'needs_info', label: 'Needs info', open: true },
+    { id: 'approved', label: 'Approved', open: false },
+    { id: 'rejected', label: 'Rejected', open: false },
+    { id: 'archived', label: 'Archived', open: false },
+  ],
+  transitions: [
+    {
+      id: 'start_review',
+      label: 'Start review',
+      from: ['pending'],
+      to: 'in_review',
+      roles: ['colleague'],
+      requiresNotes: false,
+    },
+    {
+      id: 'request_info',
+      label: 'Request info',
+      from: ['pending', 'in_review'],
+      to: 'needs_info',
+      roles: ['colleague'],
+      requiresNotes: true,
+    },
+    {
+      id: 'provide_info',
+      label: 'Provide info',
+      from: ['needs_info'],
+      to: 'in_review',
+      roles: ['merchant', 'colleague'],
+      requiresNotes: true,
+    },
+    {
+      id: 'approve',
+      label: 'Approve',
+      from: ['pending', 'in_review'],
+      to: 'approved',
+      roles: ['colleague'],
+      requiresNotes: false,
+    },
+    {
+      id: 'reject',
+      label: 'Reject',
+      from: ['pending', 'in_review', 'needs_info'],
+      to: 'rejected',
+      roles: ['colleague'],
+      requiresNotes: true,
+    },
+    {
+      id: 'reopen',
+      label: 'Reopen',
+      from: ['rejected'],
+      to: 'in_review',
+      roles: ['colleague'],
+      requiresNotes: true,
+    },
+    {
+      id: 'archive',
+      label: 'Archive',
+      from: ['pending', 'needs_info', 'approved', 'rejected'],
+      to: 'archived',
+      roles: ['colleague'],
+      requiresNotes: false,
+    },
+  ],
+}
+
+export const partnerSignalStatuses: PartnerSignalStatus[] = partnerSignalWorkflow.states.map((state) => state.id)
+
+export const openPartnerSignalStatuses: PartnerSignalStatus[] = partnerSignalWorkflow.states
+  .filter((state) => state.open)
+  .map((state) => state.id)
+
+export function getPartnerSignalStatusLabel(status: PartnerSignalStatus): string {
+  return partnerSignalWorkflow.states.find((state) => state.id === status)?.label ?? status
+}
+
+export function findPartnerSignalTransition(
+  from: PartnerSignalStatus,
+  to: PartnerSignalStatus,
+): PartnerSignalTransitionRule | null {
+  return partnerSignalWorkflow.transitions.find((rule) => rule.to === to && rule.from.includes(from)) ?? null
+}
+
+export function listPartnerSignalTransitions(
+  from: PartnerSignalStatus,
+  role: ReviewerRole,
+): PartnerSignalTransitionRule[] {
+  return partnerSignalWorkflow.transitions.filter((rule) => rule.from.includes(from) && rule.roles.includes(role))
+}
+
+export function checkPartnerSignalTransition(
+  from: PartnerSignalStatus,
+  to: PartnerSignalStatus,
+  context: { role: ReviewerRole; notes?: string | null },
+): PartnerSignalTransitionCheck {
+  const allowedNextStates = listPartnerSignalTransitions(from, context.role).map((rule) => rule.to)
+  const rule = findPartnerSignalTransition(from, to)
+
+  if (!rule) {
+    return { allowed: false, reason: 'invalid_transition', rule: null, allowedNextStates }
+  }
+
+  if (!rule.roles.includes(context.role)) {
+    return { allowed: false, reason: 'forbidden_role', rule, allowedNextStates }
+  }
+
+  if (rule.requiresNotes && !context.notes?.trim()) {
+    return { allowed: false, reason: 'notes_required', rule, allowedNextStates }
+  }
+
+  return { allowed: true, rule }
+}
@@ -1,6 +1,12 @@
 import type { PartnerSignal } from '../types/domain.js'
 
-export const partnerSignals: PartnerSignal[] = [
+/** SLA deadlines are derived from the policies when the seed is inserted. */
+export type PartnerSignalSeed = Omit<
+  PartnerSignal,
+  'slaPolicyId' | 'slaDueAt' | 'slaEscalatedAt' | 'duplicateOfId' | 'duplicateScore' | 'mergedIntoId' | 'version'
+>
+
+export const partnerSignals: PartnerSignalSeed[] = [
   {
     id: 'ps-amex-001',
     partnerId: 'amex-ventures',
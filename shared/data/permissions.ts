@@ -0,0 +1,73 @@
+import type { AccessRole, Permission, ReviewerRole } from '../types/domain.js'
+
+export const accessRoles: AccessRole[] = ['partner-submitter', 'reviewer', 'senior-reviewer', 'admin', 'auditor']
+
+const reviewerPermissions: Permission[] = [
+  'signals:read',
+  'signals:read:all',
+  'signals:submit',
+  'signals:transition',
+  'signals:assign',
+  'signals:audit:read',
+  'signals:comment',
+  'signals:merge',
+  'shadow-queue:review',
+]
+
+export const accessRolePermissions: Record<AccessRole, Permission[]> = {
+  'partner-submitter': [
+    'signals:read',
+    'signals:submit',
+    'signals:transition',
+    'signals:audit:read',
+    'signals:comment',
+    'webhooks:manage',
+  ],
+  reviewer: reviewerPermissions,
+  'senior-reviewer': [...reviewerPermissions, 'signals:bulk', 'alerts:manage'],
+  admin: [
+    ...reviewerPermissions,
+    'signals:bulk',
+    'alerts:manage',
+    'webhooks:manage',
+    'registry:manage',
+  ],
+  auditor: ['signals:read', 'signals:read:all', 'signals:audit:read'],
+}
+
+export const allPermissions: Permission[] = [...new Set(Object.values(accessRolePermissions).flat())]
+
+/**
+ * Pre-RBAC role names, still accepted in headers and IdP role claims when they match exactly. None of them grant
+ * `senior-reviewer` or `admin`; those have to be named explicitly.
+ */
+const legacyRoleAliases: Record<string, AccessRole[]> = {
+  merchant: ['partner-submitter'],
+  colleague: ['reviewer'],
+  moderator: ['reviewer'],
+}
+
+export function parseAccessRoles(value: unknown): AccessRole[] {
+  const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : []
+  const roles = new Set<AccessRole>()
+
+  for (const entry of entries) {
+    const normalized = `${entry}`.trim().toLowerCase()
+    if ((accessRoles as string[]).includes(normalized)) {
+      roles.add(normalized as AccessRole)
+    } else if (Object.hasOwn(legacyRoleAliases, normalized)) {
+      legacyRoleAliases[normalized].forEach((role) => roles.add(role))
+    }
+  }
+
+  return accessRoles.filter((role) => roles.has(role))
+}
+
+export function resolvePermissions(roles: AccessRole[]): Permission[] {
+  return [...new Set(roles.flatMap((role) => accessRolePermissions[role]))]
+}
+
+/** Workflow persona used by transition rules and audit entries: anyone beyond a partner submitter is staff. */
+export function toReviewerRole(roles: AccessRole[]): ReviewerRole {
+  return roles.some((role) => role !== 'partner-submitter') ? 'colleague' : 'merchant'
+}
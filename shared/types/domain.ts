@@ -67,11 +67,30 @@ export interface LiveMetric {
   anomaly: LiveMetricAnomaly | null
 }
 
+export type LiveDimensionKey = 'region' | 'merchantCategory' | 'partnerId'
+
+export type LiveDimensions = Partial<Record<LiveDimensionKey, string>>
+
+export interface LiveAnalyticsQuery {
+  filters: LiveDimensions
+  groupBy: LiveDimensionKey | null
+}
+
+export interface LiveMetricGroup {
+  dimension: LiveDimensionKey
+  value: string
+  metrics: LiveMetric[]
+}
+
 export interface LiveAnalyticsSnapshot {
   generatedAt: string
   windowSeconds: number
   metrics: LiveMetric[]
   narrative: string
+  filters: LiveDimensions
+  groupBy: LiveDimensionKey | null
+  groups: LiveMetricGroup[]
+  dimensions: Record<LiveDimensionKey, string[]>
 }
 
 export interface LiveMetricThresholds {
@@ -81,12 +100,107 @@ export interface LiveMetricThresholds {
   lowerCritical?: number
 }
 
+export type LiveAnalyticsResolution = 'raw' | '1m' | '5m' | '1h'
+
+export interface LiveAnalyticsHistoryPoint {
+  timestamp: string
+  value: number
+  min: number
+  max: number
+  count: number
+}
+
+export interface LiveAnalyticsHistory {
+  metricId: string
+  resolution: LiveAnalyticsResolution
+  from: string
+  to: string
+  filters: LiveDimensions
+  points: LiveAnalyticsHistoryPoint[]
+}
+
+export type LiveAnomalyDetectorKind = 'static' | 'zscore' | 'ewma' | 'seasonal'
+
+export type LiveAnomalyDetectorConfig =
+  | { kind: 'static' }
+  | { kind: 'zscore'; window: number; minSamples: number; warningZ: number; criticalZ: number }
+  | { kind: 'ewma'; alpha: number; minSamples: number; warningSigma: number; criticalSigma: number }
+  | {
+      kind: 'seasonal'
+      periods: Array<'day' | 'week'>
+      toleranceSeconds: number
+      warningRatio: number
+      criticalRatio: number
+    }
+
+export interface LiveMetricExpectedBand {
+  lower: number | null
+  upper: number | null
+}
+
 export interface LiveMetricAnomaly {
   status: 'ok' | 'warning' | 'critical'
   breachedThreshold?: 'upper' | 'lower'
   thresholdValue?: number
   message: string
   magnitude: number
+  detector: LiveAnomalyDetectorKind
+  expectedBand: LiveMetricExpectedBand | null
+  confidence: number
+}
+
+export type LiveAlertSeverity = 'warning' | 'critical'
+
+export type LiveAlertStatus = 'firing' | 'acknowledged' | 'resolved'
+
+export type LiveAlertSink =
+  | { type: 'webhook'; url: string; headers?: Record<string, string> }
+  | { type: 'slack'; url: string; channel?: string }
+  | { type: 'email'; to: string[] }
+
+export interface LiveAlertRuleInput {
+  name: string
+  metricId: string
+  minSeverity: LiveAlertSeverity
+  filters: LiveDimensions
+  sinks: LiveAlertSink[]
+  repeatIntervalSeconds: number
+  enabled: boolean
+}
+
+export interface LiveAlertRule extends LiveAlertRuleInput {
+  id: string
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface LiveAlert {
+  id: string
+  ruleId: string
+  ruleName: string
+  metricId: string
+  filters: LiveDimensions
+  status: LiveAlertStatus
+  severity: LiveAlertSeverity
+  value: number
+  thresholdValue: number | null
+  message: string
+  detector: LiveAnomalyDetectorKind
+  occurrences: number
+  startedAt: string
+  lastSeenAt: string
+  lastNotifiedAt: string | null
+  acknowledgedAt: string | null
+  acknowledgedBy: string | null
+  resolvedAt: string | null
+}
+
+export type LiveAlertNotificationKind = 'firing' | 'escalated' | 'reminder' | 'resolved'
+
+export interface LiveAlertNotification {
+  kind: LiveAlertNotificationKind
+  alert: LiveAlert
 }
 
 export interface ApiHealth {
@@ -112,11 +226,12 @@ export interface InnovationIdea {
   overallScore: number
 }
 
+/** Names are optional on input: the server always resolves them from the partner and merchant registry. */
 export interface PartnerSignalInput {
   partnerId: string
-  partnerName: string
+  partnerName?: string
   merchantId: string
-  merchantName: string
+  merchantName?: string
   signalType: 'growth' | 'risk' | 'retention' | 'innovation' | 'compliance'
   description: string
   confidence: number
@@ -126,19 +241,120 @@ export interface PartnerSignalInput {
   assignedReviewerRole?: ReviewerRole | null
 }
 
+export type PartnerSignalStatus = 'pending' | 'in_review' | 'needs_info' | 'approved' | 'rejected' | 'archived'
+
 export interface PartnerSignal extends PartnerSignalInput {
   id: string
+  partnerName: string
+  merchantName: string
   submittedAt: string
-  status: 'pending' | 'approved' | 'archived'
+  status: PartnerSignalStatus
   assignedReviewerId: string | null
   assignedReviewerName: string | null
   assignedReviewerRole: ReviewerRole | null
   assignedAt: string | null
+  slaPolicyId: string | null
+  slaDueAt: string | null
+  slaEscalatedAt: string | null
+  duplicateOfId: string | null
+  duplicateScore: number | null
+  mergedIntoId: string | null
+  version: number
+}
+
+export interface PartnerSignalMergeResult {
+  canonical: PartnerSignal
+  duplicate: PartnerSignal
+}
+
+export type RegistryKind = 'partner' | 'merchant'
+
+export interface RegistryEntryInput {
+  id: string
+  name: string
+  active?: boolean
+}
+
+export interface RegistryEntry {
+  id: string
+  name: string
+  active: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MerchantOverviewPartner {
+  id: string
+  name: string
+  total: number
+}
+
+export interface MerchantOverview {
+  merchant: RegistryEntry
+  stats: PartnerSignalStats
+  latestStatus: PartnerSignalStatus | null
+  lastSubmittedAt: string | null
+  partners: MerchantOverviewPartner[]
+  recentSignals: PartnerSignal[]
+}
+
+export type PartnerSignalTransferFormat = 'csv' | 'ndjson'
+
+export interface PartnerSignalImportRowError {
+  line: number
+  issues: Array<{ path: string; message: string }>
+}
+
+export interface PartnerSignalImportValidation {
+  format: PartnerSignalTransferFormat
+  totalRows: number
+  validRows: number
+  invalidRows: number
+  errors: PartnerSignalImportRowError[]
+}
+
+export type PartnerSignalImportJobStatus = 'queued' | 'running' | 'completed' | 'failed'
+
+export interface PartnerSignalImportJob {
+  id: string
+  status: PartnerSignalImportJobStatus
+  format: PartnerSignalTransferFormat
+  totalRows: number
+  processedRows: number
+  importedRows: number
+  failedRows: number
+  errors: PartnerSignalImportRowError[]
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+  completedAt: string | null
+}
+
+export type PartnerSignalSlaEscalation = 'senior_reviewer' | 'shadow_queue'
+
+export interface PartnerSignalSlaPolicy {
+  id: string
+  label: string
+  signalType: PartnerSignal['signalType'] | null
+  minConfidence: number
+  maxConfidence: number
+  targetMinutes: number
+  escalation: PartnerSignalSlaEscalation
+}
+
+export type PartnerSignalSortKey = 'submittedAt' | 'confidence' | 'assignedAt'
+
+export type PartnerSignalSortOrder = 'asc' | 'desc'
+
+export interface PartnerSignalPage {
+  items: PartnerSignal[]
+  nextCursor: string | null
+  total: number
 }
 
 export interface PartnerSignalStats {
   total: number
-  status: Record<'pending' | 'approved' | 'archived', number>
+  status: Record<PartnerSignalStatus, number>
   signalType: Record<'growth' | 'risk' | 'retention' | 'innovation' | 'compliance', number>
 }
 
@@ -153,19 +369,112 @@ export interface PartnerSignalEvent {
 
 export type ReviewerRole = 'merchant' | 'colleague'
 
+export type AccessRole = 'partner-submitter' | 'reviewer' | 'senior-reviewer' | 'admin' | 'auditor'
+
+export type Permission =
+  | 'signals:read'
+  | 'signals:read:all'
+  | 'signals:submit'
+  | 'signals:transition'
+  | 'signals:assign'
+  | 'signals:bulk'
+  | 'signals:merge'
+  | 'signals:audit:read'
+  | 'signals:comment'
+  | 'shadow-queue:review'
+  | 'alerts:manage'
+  | 'webhooks:manage'
+  | 'registry:manage'
+
+export interface AuthenticatedUser {
+  id: string
+  name: string
+  role: ReviewerRole
+  roles: AccessRole[]
+  permissions: Permission[]
+  partnerId: string | null
+}
+
+export interface AuthSession {
+  token: string
+  expiresAt: string
+  user: AuthenticatedUser
+}
+
+export interface DevLoginInput {
+  persona: ReviewerRole
+  roles?: AccessRole[]
+  id?: string
+  name?: string
+  partnerId?: string | null
+}
+
 export interface PartnerSignalAudit {
   id: string
   signalId: string
   reviewerId: string
   reviewerName: string
   reviewerRole: ReviewerRole
-  action: 'created' | 'status_change' | 'assigned'
+  action: 'created' | 'status_change' | 'assigned' | 'sla_escalated' | 'merged'
   fromStatus: PartnerSignal['status'] | null
   toStatus: PartnerSignal['status'] | null
+  transitionRule: string | null
+  batchId: string | null
   notes: string | null
   createdAt: string
 }
 
+export interface PartnerSignalCommentMention {
+  id: string
+  name: string
+}
+
+export interface PartnerSignalCommentRevision {
+  body: string
+  mentions: PartnerSignalCommentMention[]
+  editedBy: string
+  editedAt: string
+}
+
+export interface PartnerSignalCommentInput {
+  body: string
+  parentId?: string | null
+}
+
+export interface PartnerSignalComment {
+  id: string
+  signalId: string
+  parentId: string | null
+  authorId: string
+  authorName: string
+  authorRole: ReviewerRole
+  body: string
+  mentions: PartnerSignalCommentMention[]
+  history: PartnerSignalCommentRevision[]
+  createdAt: string
+  updatedAt: string
+  editedAt: string | null
+  deletedAt: string | null
+}
+
+export type PartnerSignalBulkAction =
+  | { action: 'status'; status: PartnerSignalStatus; notes?: string }
+  | { action: 'assign'; reviewerId: string; reviewerName: string; reviewerRole: ReviewerRole; notes?: string }
+
+export interface PartnerSignalBulkItemResult {
+  id: string
+  ok: boolean
+  signal: PartnerSignal | null
+  error: { code: string; message: string; allowedNextStates?: PartnerSignalStatus[] } | null
+}
+
+export interface PartnerSignalBulkResult {
+  batchId: string
+  succeeded: number
+  failed: number
+  items: PartnerSignalBulkItemResult[]
+}
+
 export interface PartnerSignalAssignment {
   id: string
   signalId: string
@@ -176,6 +485,74 @@ export interface PartnerSignalAssignment {
   active: boolean
 }
 
+export type PartnerWebhookEventType = 'signal.created' | 'signal.status_changed' | 'signal.assigned'
+
+export interface PartnerWebhookSubscriptionInput {
+  partnerId: string
+  url: string
+  events: PartnerWebhookEventType[]
+  description: string | null
+  active: boolean
+}
+
+export interface PartnerWebhookSubscription extends PartnerWebhookSubscriptionInput {
+  id: string
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PartnerWebhookSubscriptionWithSecret extends PartnerWebhookSubscription {
+  secret: string
+}
+
+export interface PartnerWebhookEvent {
+  id: string
+  type: PartnerWebhookEventType
+  occurredAt: string
+  data: {
+    signal: PartnerSignal
+    previousStatus: PartnerSignalStatus | null
+  }
+}
+
+export type PartnerWebhookDeliveryStatus = 'pending' | 'delivered' | 'dead_letter'
+
+export interface PartnerWebhookDelivery {
+  id: string
+  subscriptionId: string
+  eventId: string
+  eventType: PartnerWebhookEventType
+  signalId: string
+  status: PartnerWebhookDeliveryStatus
+  attempts: number
+  nextAttemptAt: string | null
+  lastAttemptAt: string | null
+  lastStatusCode: number | null
+  lastError: string | null
+  deliveredAt: string | null
+  createdAt: string
+  payload: PartnerWebhookEvent
+}
+
+export type DomainEventType = 'SignalCreated' | 'SignalStatusChanged' | 'ReviewerAssigned'
+
+export interface DomainEventPayloads {
+  SignalCreated: { signal: PartnerSignal }
+  SignalStatusChanged: { signal: PartnerSignal; previousStatus: PartnerSignalStatus }
+  ReviewerAssigned: { signal: PartnerSignal; previousReviewerId: string | null }
+}
+
+export type DomainEvent<T extends DomainEventType = DomainEventType> = {
+  [K in T]: {
+    id: string
+    type: K
+    aggregateId: string
+    occurredAt: string
+    payload: DomainEventPayloads[K]
+  }
+}[T]
+
 export type ShadowApprovalStatus = 'pending' | 'acknowledged' | 'escalated'
 
 export interface ShadowApprovalQueueItem {
@@ -11,13 +11,20 @@ import {
   fetchPartnerSignalStats,
   fetchPartnerSignalDetail,
   updatePartnerSignalStatus,
+  bulkModeratePartnerSignals,
+  mergePartnerSignal,
+  fetchRegistryPartners,
+  fetchRegistryMerchants,
+  readPartnerSignalConflict,
 } from './api/mockApi'
 import { FraudAlerts } from './components/FraudAlerts'
 import { GrowthOpportunities } from './components/GrowthOpportunities'
 import { Hero } from './components/Hero'
 import { KPICards } from './components/KPICards'
 import { InnovationIdeas } from './components/InnovationIdeas'
+import { MerchantOverview } from './components/MerchantOverview'
 import { PartnerSignalDetail } from './components/PartnerSignalDetail'
+import { PartnerSignalTransfer } from './components/PartnerSignalTransfer'
 import { TopNav } from './components/TopNav'
 import { TrendChart } from './components/TrendChart'
 import { WorkflowPlaybooks } from './components/WorkflowPlaybooks'
@@ -26,6 +33,8 @@ import { PartnerSignals, type SignalFilter } from './components/PartnerSignals'
 import { IdpSessionBanner } from './components/IdpSessionBanner'
 import { Roadmap } from './sections/Roadmap'
 import { useAuth } from './auth/AuthContext'
+import { partnerSignalStatuses } from './data/partnerSignalWorkflow'
+import { computePartnerSignalSlaDueAt, resolvePartnerSignalSlaPolicy } from './data/partnerSignalSla'
 import { withWebSpan } from './telemetry/spans'
 import type {
   EcosystemTrend,
@@ -36,12 +45,18 @@ import type {
   InnovationIdea,
   PartnerSignal,
   PartnerSignalInput,
+  PartnerSignalBulkAction,
+  PartnerSignalBulkResult,
+  PartnerSignalSortKey,
   PartnerSignalStats,
+  RegistryEntry,
 } from './types'
 import './App.css'
 
 const SIGNAL_FILTER_STORAGE_KEY = 'amex.partnerSignalFilter'
 const STATUS_FILTER_STORAGE_KEY = 'amex.partnerSignalStatusFilter'
+const SORT_STORAGE_KEY = 'amex.partnerSignalSort'
+const PARTNER_SIGNAL_PAGE_SIZE = 20
 
 type StatusFilter = PartnerSignal['status'] | 'all'
 
@@ -61,7 +76,10 @@ function createInitialStats(): PartnerSignalStats {
     total: 0,
     status: {
       pending: 0,
+      in_review: 0,
+      needs_info: 0,
       approved: 0,
+      rejected: 0,
       archived: 0,
     },
     signalType: {
@@ -116,7 +134,22 @@ function App() {
   const [playbooks, setPlaybooks] = useState<WorkflowPlaybook[]>([])
   const [ideas, setIdeas] = useState<InnovationIdea[]>([])
   const [partnerSignals, setPartnerSignals] = useState<PartnerSignal[]>([])
-  const [allPartnerSignals, setAllPartnerSignals] = useState<PartnerSignal[]>([])
+  const [partnerSignalsCursor, setPartnerSignalsCursor] = useState<string | null>(null)
+  const [partnerSignalsTotal, setPartnerSignalsTotal] = useState(0)
+  const [partnerSignalsLoadingMore, setPartnerSignalsLoadingMore] = useState(false)
+  const [partnerSignalSearch, setPartnerSignalSearch] = useState('')
+  const [partnerSignalSort, setPartnerSignalSort] = useState<PartnerSignalSortKey>(() => {
+    if (typeof window === 'undefined') {
+      return 'submittedAt'
+    }
+
+    const stored = window.localStorage.getItem(SORT_STORAGE_KEY)
+    if (stored && ['submittedAt', 'confidence', 'assignedAt'].includes(stored)) {
+      return stored as PartnerSignalSortKey
+    }
+
+    return 'submittedAt'
+  })
   const [partnerSignalStats, setPartnerSignalStats] = useState<PartnerSignalStats | null>(null)
   const [partnerSignalCounts, setPartnerSignalCounts] = useState<Record<SignalFilter, number>>(countsFromStats(null))
   const [partnerSignalStatusFilter, setPartnerSignalStatusFilter] = useState<StatusFilter>(() => {
@@ -125,7 +158,7 @@ function App() {
     }
 
     const stored = window.localStorage.getItem(STATUS_FILTER_STORAGE_KEY)
-    if (stored && ['all', 'pending', 'approved', 'archived'].includes(stored)) {
+    if (stored && (stored === 'all' || partnerSignalStatuses.includes(stored as PartnerSignal['status']))) {
       return stored as StatusFilter
     }
 
@@ -133,6 +166,9 @@ function App() {
   })
   const [inspectedSignal, setInspectedSignal] = useState<PartnerSignal | null>(null)
   const [inspectedLoading, setInspectedLoading] = useState(false)
+  const [inspectedMerchantId, setInspectedMerchantId] = useState<string | null>(null)
+  const [registryPartners, setRegistryPartners] = useState<RegistryEntry[]>([])
+  const [registryMerchants, setRegistryMerchants] = useState<RegistryEntry[]>([])
   const [inspectError, setInspectError] = useState<string | null>(null)
   const [partnerSignalFilter, setPartnerSignalFilter] = useState<SignalFilter>(() => {
     if (typeof window === 'undefined') {
@@ -146,9 +182,11 @@ function App() {
 
     return 'all'
   })
-  const [partnerSignalsLoading, setPartnerSignalsLoading] = useState(false)
+  const [partnerSignalsLoading, setPartnerSignalsLoading] = useState(true)
+  const [partnerSignalsReloadKey, setPartnerSignalsReloadKey] = useState(0)
   const [loading, setLoading] = useState(true)
   const containerRef = useRef<HTMLDivElement>(null)
+  const partnerSignalRequestRef = useRef(0)
 
   const refreshPartnerSignalStats = useCallback(async () => {
     const fresh = await fetchPartnerSignalStats()
@@ -165,8 +203,9 @@ function App() {
         alertData,
         playbookData,
         ideaData,
-        allSignalData,
         statsData,
+        partnerData,
+        merchantData,
       ] = await Promise.all([
         fetchPlatformKPIs(),
         fetchEcosystemTrends(),
@@ -174,8 +213,9 @@ function App() {
         fetchFraudAlerts(),
         fetchWorkflowPlaybooks(),
         fetchInnovationIdeas(),
-        fetchPartnerSignals(),
         fetchPartnerSignalStats(),
+        fetchRegistryPartners(),
+        fetchRegistryMerchants(),
       ])
 
       setKpis(kpiData)
@@ -184,10 +224,10 @@ function App() {
       setAlerts(alertData)
       setPlaybooks(playbookData)
       setIdeas(ideaData)
-      setAllPartnerSignals(allSignalData)
-  setPartnerSignalStats(statsData)
-  setPartnerSignalCounts(countsFromStats(statsData))
-  setPartnerSignals(allSignalData)
+      setPartnerSignalStats(statsData)
+      setPartnerSignalCounts(countsFromStats(statsData))
+      setRegistryPartners(partnerData)
+      setRegistryMerchants(merchantData)
       setLoading(false)
     }
 
@@ -207,64 +247,100 @@ function App() {
   }, [partnerSignalStatusFilter])
 
   useEffect(() => {
-    let ignore = false
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(SORT_STORAGE_KEY, partnerSignalSort)
+    }
+  }, [partnerSignalSort])
 
-    async function loadFilteredSignals() {
-      if (partnerSignalFilter === 'all' && partnerSignalStatusFilter === 'all') {
-        return
-      }
+  useEffect(() => {
+    const requestId = partnerSignalRequestRef.current + 1
+    partnerSignalRequestRef.current = requestId
 
+    async function loadFirstPage() {
       setPartnerSignalsLoading(true)
       try {
-        const filtered = await fetchPartnerSignals({
+        const page = await fetchPartnerSignals({
           signalType: partnerSignalFilter === 'all' ? undefined : partnerSignalFilter,
           status: partnerSignalStatusFilter === 'all' ? undefined : partnerSignalStatusFilter,
+          q: partnerSignalSearch,
+          sort: partnerSignalSort,
+          limit: PARTNER_SIGNAL_PAGE_SIZE,
         })
-        if (!ignore) {
-          setPartnerSignals(filtered)
-          setAllPartnerSignals((current) => {
-            const merged = new Map(current.map((signal) => [signal.id, signal] as const))
-            for (const signal of filtered) {
-              merged.set(signal.id, signal)
-            }
-            return Array.from(merged.values()).sort(
-              (a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime(),
-            )
-          })
+        if (partnerSignalRequestRef.current === requestId) {
+          setPartnerSignals(page.items)
+          setPartnerSignalsCursor(page.nextCursor)
+          setPartnerSignalsTotal(page.total)
         }
+      } catch (error) {
+        console.error(error)
       } finally {
-        if (!ignore) {
+        if (partnerSignalRequestRef.current === requestId) {
           setPartnerSignalsLoading(false)
         }
       }
     }
 
-    void loadFilteredSignals()
+    void loadFirstPage()
+  }, [partnerSignalFilter, partnerSignalStatusFilter, partnerSignalSearch, partnerSignalSort, partnerSignalsReloadKey])
 
-    return () => {
-      ignore = true
-    }
-  }, [partnerSignalFilter, partnerSignalStatusFilter])
+  const handlePartnerSignalsImported = useCallback(() => {
+    setPartnerSignalsReloadKey((key) => key + 1)
+    void refreshPartnerSignalStats()
+  }, [refreshPartnerSignalStats])
 
-  useEffect(() => {
-    if (partnerSignalFilter === 'all' && partnerSignalStatusFilter === 'all') {
-      setPartnerSignals(allPartnerSignals)
+  const handleLoadMorePartnerSignals = useCallback(async () => {
+    if (!partnerSignalsCursor || partnerSignalsLoading || partnerSignalsLoadingMore) {
       return
     }
 
-    setPartnerSignals(applyActiveFilters(allPartnerSignals, partnerSignalFilter, partnerSignalStatusFilter))
-  }, [allPartnerSignals, partnerSignalFilter, partnerSignalStatusFilter])
+    const requestId = partnerSignalRequestRef.current
+    setPartnerSignalsLoadingMore(true)
+
+    try {
+      const page = await fetchPartnerSignals({
+        signalType: partnerSignalFilter === 'all' ? undefined : partnerSignalFilter,
+        status: partnerSignalStatusFilter === 'all' ? undefined : partnerSignalStatusFilter,
+        q: partnerSignalSearch,
+        sort: partnerSignalSort,
+        limit: PARTNER_SIGNAL_PAGE_SIZE,
+        cursor: partnerSignalsCursor,
+      })
+
+      if (partnerSignalRequestRef.current !== requestId) {
+        return
+      }
+
+      setPartnerSignals((current) => {
+        const seen = new Set(current.map((signal) => signal.id))
+        return [...current, ...page.items.filter((signal) => !seen.has(signal.id))]
+      })
+      setPartnerSignalsCursor(page.nextCursor)
+      setPartnerSignalsTotal(page.total)
+    } catch (error) {
+      console.error(error)
+    } finally {
+      setPartnerSignalsLoadingMore(false)
+    }
+  }, [
+    partnerSignalsCursor,
+    partnerSignalsLoading,
+    partnerSignalsLoadingMore,
+    partnerSignalFilter,
+    partnerSignalStatusFilter,
+    partnerSignalSearch,
+    partnerSignalSort,
+  ])
 
   useEffect(() => {
     if (!inspectedSignal) {
       return
     }
 
-    const latest = allPartnerSignals.find((signal) => signal.id === inspectedSignal.id)
+    const latest = partnerSignals.find((signal) => signal.id === inspectedSignal.id)
     if (latest && latest !== inspectedSignal) {
       setInspectedSignal(latest)
     }
-  }, [allPartnerSignals, inspectedSignal])
+  }, [partnerSignals, inspectedSignal])
 
   const handleNavigate = (target: string) => {
     const section = containerRef.current?.querySelector<HTMLElement>(`#${target}`)
@@ -296,24 +372,77 @@ function App() {
     }
   }, [])
 
+  const handleOpenPartnerSignal = useCallback(
+    async (id: string) => {
+      const known = partnerSignals.find((signal) => signal.id === id)
+      if (known) {
+        await handleInspectPartnerSignal(known)
+        return
+      }
+
+      setInspectError(null)
+      setInspectedLoading(true)
+      try {
+        setInspectedSignal(await fetchPartnerSignalDetail(id))
+      } catch (error) {
+        console.error(error)
+        setInspectError('Unable to load partner signal details. Please try again.')
+      } finally {
+        setInspectedLoading(false)
+      }
+    },
+    [partnerSignals, handleInspectPartnerSignal],
+  )
+
   const handleDismissPartnerSignal = useCallback(() => {
     setInspectError(null)
     setInspectedSignal(null)
     setInspectedLoading(false)
   }, [])
 
+  const handleOpenMerchantOverview = useCallback(
+    (merchantId: string) => {
+      handleDismissPartnerSignal()
+      setInspectedMerchantId(merchantId)
+    },
+    [handleDismissPartnerSignal],
+  )
+
+  const handleDismissMerchantOverview = useCallback(() => {
+    setInspectedMerchantId(null)
+  }, [])
+
+  const handleOpenSignalFromMerchant = useCallback(
+    (id: string) => {
+      setInspectedMerchantId(null)
+      void handleOpenPartnerSignal(id)
+    },
+    [handleOpenPartnerSignal],
+  )
+
   const handleCreatePartnerSignal = async (input: PartnerSignalInput): Promise<PartnerSignal> => {
     const optimisticId = globalThis.crypto?.randomUUID?.() ?? `temp-${Date.now()}`
+    const submittedAt = new Date().toISOString()
+    const slaPolicy = resolvePartnerSignalSlaPolicy(input.signalType, input.confidence)
     const optimisticSignal: PartnerSignal = {
       ...input,
       id: optimisticId,
-      submittedAt: new Date().toISOString(),
+      partnerName: registryPartners.find((partner) => partner.id === input.partnerId)?.name ?? input.partnerId,
+      merchantName: registryMerchants.find((merchant) => merchant.id === input.merchantId)?.name ?? input.merchantId,
+      submittedAt,
       metadata: input.metadata ?? {},
       status: 'pending',
       assignedReviewerId: input.assignedReviewerId ?? null,
       assignedReviewerName: input.assignedReviewerName ?? null,
       assignedReviewerRole: input.assignedReviewerRole ?? null,
-      assignedAt: input.assignedReviewerId ? new Date().toISOString() : null,
+      assignedAt: input.assignedReviewerId ? submittedAt : null,
+      slaPolicyId: slaPolicy.id,
+      slaDueAt: computePartnerSignalSlaDueAt(slaPolicy, submittedAt),
+      slaEscalatedAt: null,
+      duplicateOfId: null,
+      duplicateScore: null,
+      mergedIntoId: null,
+      version: 1,
     }
 
     const typeMatches = matchesTypeFilter(partnerSignalFilter, optimisticSignal)
@@ -322,9 +451,9 @@ function App() {
 
     if (filterMatches) {
       setPartnerSignals((current) => [optimisticSignal, ...current])
+      setPartnerSignalsTotal((total) => total + 1)
     }
 
-    setAllPartnerSignals((current) => [optimisticSignal, ...current])
     setPartnerSignalCounts((counts) => ({
       ...counts,
       all: counts.all + 1,
@@ -367,10 +496,10 @@ function App() {
         setPartnerSignals((current) =>
           current.filter((signal) => signal.id !== optimisticSignal.id),
         )
+        if (filterMatches) {
+          setPartnerSignalsTotal((total) => Math.max(0, total - 1))
+        }
       }
-      setAllPartnerSignals((current) =>
-        current.map((signal) => (signal.id === optimisticSignal.id ? created : signal)),
-      )
       void refreshPartnerSignalStats()
       return created
     } catch (error) {
@@ -378,10 +507,8 @@ function App() {
         setPartnerSignals((current) =>
           current.filter((signal) => signal.id !== optimisticSignal.id),
         )
+        setPartnerSignalsTotal((total) => Math.max(0, total - 1))
       }
-      setAllPartnerSignals((current) =>
-        current.filter((signal) => signal.id !== optimisticSignal.id),
-      )
       setPartnerSignalCounts((counts) => ({
         ...counts,
         all: Math.max(0, counts.all - 1),
@@ -412,8 +539,15 @@ function App() {
   }
 
   const handlePartnerSignalStatusChange = useCallback(
-    async (id: string, status: PartnerSignal['status']): Promise<PartnerSignal | null> => {
-      const existing = allPartnerSignals.find((signal) => signal.id === id)
+    async (
+      id: string,
+      status: PartnerSignal['status'],
+      notes?: string,
+      expectedVersion?: number,
+    ): Promise<PartnerSignal | null> => {
+      const existingIndex = partnerSignals.findIndex((signal) => signal.id === id)
+      const existing =
+        existingIndex >= 0 ? partnerSignals[existingIndex] : inspectedSignal?.id === id ? inspectedSignal : null
       if (!existing) {
         return null
       }
@@ -448,14 +582,18 @@ function App() {
         })
       }
 
+      const leavesView = existingIndex >= 0 && !matchesStatusFilter(partnerSignalStatusFilter, { ...existing, status })
+
       setPartnerSignals((list) => rewriteVisible(list, status))
-      setAllPartnerSignals((list) => rewriteList(list, status))
+      if (leavesView) {
+        setPartnerSignalsTotal((total) => Math.max(0, total - 1))
+      }
       adjustStats(previousStatus, status)
 
       try {
         const updated = await withWebSpan(
           'ui.partner_signal.status_change',
-          () => updatePartnerSignalStatus(id, status),
+          () => updatePartnerSignalStatus(id, status, notes, expectedVersion ?? existing.version),
           {
             attributes: {
               'partner.signal.id': id,
@@ -471,52 +609,134 @@ function App() {
             partnerSignalStatusFilter,
           ),
         )
-        setAllPartnerSignals((list) =>
-          list.map((signal) => (signal.id === id ? updated : signal)),
-        )
         setInspectedSignal((current) => (current?.id === id ? updated : current))
         void refreshPartnerSignalStats()
         return updated
       } catch (error) {
-    setPartnerSignals((list) => rewriteVisible(list, previousStatus))
-    setAllPartnerSignals((list) => rewriteList(list, previousStatus))
+        setPartnerSignals((list) => {
+          if (existingIndex < 0 || list.some((signal) => signal.id === id)) {
+            return rewriteList(list, previousStatus)
+          }
+
+          const restored = [...list]
+          restored.splice(Math.min(existingIndex, restored.length), 0, existing)
+          return restored
+        })
+        if (leavesView) {
+          setPartnerSignalsTotal((total) => total + 1)
+        }
         setInspectedSignal((current) =>
           current?.id === id ? { ...current, status: previousStatus } : current,
         )
         adjustStats(status, previousStatus)
+
+        // Someone else changed the signal first; show their version so the reviewer decides against current data.
+        const latest = readPartnerSignalConflict(error)
+        if (latest) {
+          setPartnerSignals((list) =>
+            applyActiveFilters(
+              list.map((signal) => (signal.id === id ? latest : signal)),
+              partnerSignalFilter,
+              partnerSignalStatusFilter,
+            ),
+          )
+          setInspectedSignal((current) => (current?.id === id ? latest : current))
+          void refreshPartnerSignalStats()
+        }
         throw error
       }
     },
-    [allPartnerSignals, refreshPartnerSignalStats, partnerSignalFilter, partnerSignalStatusFilter],
+    [partnerSignals, inspectedSignal, refreshPartnerSignalStats, partnerSignalFilter, partnerSignalStatusFilter],
   )
 
-  const handlePartnerFilterChange = useCallback(
-    (next: SignalFilter) => {
-      setPartnerSignalFilter(next)
-      if (next === 'all' && partnerSignalStatusFilter === 'all') {
-        setPartnerSignals(allPartnerSignals)
-        setPartnerSignalsLoading(false)
-      } else {
-        setPartnerSignalsLoading(true)
-      }
+  const handleMergePartnerSignal = useCallback(
+    async (id: string, notes?: string): Promise<PartnerSignal> => {
+      const { canonical, duplicate } = await withWebSpan(
+        'ui.partner_signal.merge',
+        () => mergePartnerSignal(id, { notes }),
+        { attributes: { 'partner.signal.id': id } },
+      )
+      const merged = new Map([
+        [canonical.id, canonical],
+        [duplicate.id, duplicate],
+      ])
+
+      setPartnerSignals((list) =>
+        applyActiveFilters(
+          list.map((signal) => merged.get(signal.id) ?? signal),
+          partnerSignalFilter,
+          partnerSignalStatusFilter,
+        ),
+      )
+      setInspectedSignal((current) => (current?.id === id ? canonical : current))
+      void refreshPartnerSignalStats()
+      return canonical
     },
-    [allPartnerSignals, partnerSignalStatusFilter],
+    [refreshPartnerSignalStats, partnerSignalFilter, partnerSignalStatusFilter],
   )
 
-  const handlePartnerStatusFilterChange = useCallback(
-    (next: StatusFilter) => {
-      setPartnerSignalStatusFilter(next)
-      if (partnerSignalFilter === 'all' && next === 'all') {
-        setPartnerSignals(allPartnerSignals)
-        setPartnerSignalsLoading(false)
-      } else {
-        setPartnerSignalsLoading(true)
+  const handlePartnerSignalBulkAction = useCallback(
+    async (ids: string[], action: PartnerSignalBulkAction): Promise<PartnerSignalBulkResult> => {
+      const result = await withWebSpan('ui.partner_signal.bulk_action', () => bulkModeratePartnerSignals(ids, action), {
+        attributes: {
+          'partner.signal.bulk.action': action.action,
+          'partner.signal.bulk.size': ids.length,
+        },
+      })
+
+      const updates = new Map(
+        result.items.flatMap((item) => (item.ok && item.signal ? [[item.id, item.signal] as const] : [])),
+      )
+
+      if (updates.size > 0) {
+        const removed = partnerSignals.filter((signal) => {
+          const updated = updates.get(signal.id)
+          return updated && !applyActiveFilters([updated], partnerSignalFilter, partnerSignalStatusFilter).length
+        }).length
+
+        setPartnerSignals((list) =>
+          applyActiveFilters(
+            list.map((signal) => updates.get(signal.id) ?? signal),
+            partnerSignalFilter,
+            partnerSignalStatusFilter,
+          ),
+        )
+        if (removed > 0) {
+          setPartnerSignalsTotal((total) => Math.max(0, total - removed))
+        }
+        setInspectedSignal((current) => (current ? updates.get(current.id) ?? current : current))
+        void refreshPartnerSignalStats()
       }
+
+      return result
     },
-    [allPartnerSignals, partnerSignalFilter],
+    [partnerSignals, refreshPartnerSignalStats, partnerSignalFilter, partnerSignalStatusFilter],
+  )
+
+  const handlePartnerSignalBulkStatusChange = useCallback(
+    (ids: string[], status: PartnerSignal['status'], notes?: string) =>
+      handlePartnerSignalBulkAction(ids, { action: 'status', status, notes }),
+    [handlePartnerSignalBulkAction],
   )
 
-  const canModerate = profile.role === 'colleague'
+  const handlePartnerSignalBulkAssign = useCallback(
+    (ids: string[]) =>
+      handlePartnerSignalBulkAction(ids, {
+        action: 'assign',
+        reviewerId: profile.id,
+        reviewerName: profile.name,
+        reviewerRole: profile.role,
+      }),
+    [handlePartnerSignalBulkAction, profile],
+  )
+
+  const handlePartnerFilterChange = useCallback((next: SignalFilter) => {
+    setPartnerSignalFilter(next)
+  }, [])
+
+  const handlePartnerStatusFilterChange = useCallback((next: StatusFilter) => {
+    setPartnerSignalStatusFilter(next)
+  }, [])
 
   return (
     <div className="app-shell">
@@ -533,19 +753,40 @@ function App() {
                 <h2>Partner Signal Operations</h2>
                 <p>Persist real-time partner intelligence and broadcast it across portfolio squads.</p>
               </header>
+              <PartnerSignalTransfer
+                filters={{
+                  signalType: partnerSignalFilter === 'all' ? undefined : partnerSignalFilter,
+                  status: partnerSignalStatusFilter === 'all' ? undefined : partnerSignalStatusFilter,
+                  q: partnerSignalSearch,
+                  sort: partnerSignalSort,
+                }}
+                onImported={handlePartnerSignalsImported}
+              />
               <PartnerSignals
                 signals={partnerSignals}
                 onSubmit={handleCreatePartnerSignal}
                 onInspect={handleInspectPartnerSignal}
                 onStatusChange={handlePartnerSignalStatusChange}
+                onBulkStatusChange={handlePartnerSignalBulkStatusChange}
+                onBulkAssign={handlePartnerSignalBulkAssign}
                 activeFilter={partnerSignalFilter}
                 activeStatusFilter={partnerSignalStatusFilter}
                 onFilterChange={handlePartnerFilterChange}
                 onStatusFilterChange={handlePartnerStatusFilterChange}
                 filterCounts={partnerSignalCounts}
                 isFilterLoading={partnerSignalsLoading}
+                searchQuery={partnerSignalSearch}
+                onSearchChange={setPartnerSignalSearch}
+                sortKey={partnerSignalSort}
+                onSortChange={setPartnerSignalSort}
+                totalCount={partnerSignalsTotal}
+                hasMore={Boolean(partnerSignalsCursor)}
+                isLoadingMore={partnerSignalsLoadingMore}
+                onLoadMore={handleLoadMorePartnerSignals}
                 stats={partnerSignalStats}
-                canModerate={canModerate}
+                partners={registryPartners}
+                merchants={registryMerchants}
+                viewerRole={profile.role}
               />
             </section>
 
@@ -612,7 +853,15 @@ function App() {
         isLoading={inspectedLoading}
         error={inspectError}
         onStatusChange={handlePartnerSignalStatusChange}
-        canModerate={canModerate}
+        onMerge={handleMergePartnerSignal}
+        onOpenSignal={handleOpenPartnerSignal}
+        onOpenMerchant={handleOpenMerchantOverview}
+        viewerRole={profile.role}
+      />
+      <MerchantOverview
+        merchantId={inspectedMerchantId}
+        onClose={handleDismissMerchantOverview}
+        onOpenSignal={handleOpenSignalFromMerchant}
       />
     </div>
   )
@@ -8,34 +8,108 @@ import type {
   InnovationIdea,
   PartnerSignal,
   PartnerSignalInput,
+  PartnerSignalPage,
+  PartnerSignalSortKey,
+  PartnerSignalSortOrder,
   PartnerSignalStats,
   PartnerSignalAudit,
   PartnerSignalAssignment,
+  PartnerSignalComment,
+  PartnerSignalCommentInput,
+  PartnerSignalBulkAction,
+  PartnerSignalBulkResult,
+  PartnerSignalMergeResult,
+  PartnerSignalImportJob,
+  PartnerSignalImportValidation,
+  PartnerSignalTransferFormat,
+  MerchantOverview,
+  RegistryEntry,
+  LiveAnalyticsHistory,
+  LiveAnalyticsQuery,
+  LiveAnalyticsResolution,
   LiveAnalyticsSnapshot,
+  LiveDimensions,
+  AuthSession,
+  DevLoginInput,
 } from "../types";
-import { loadAuthProfile, loadIdToken } from "../auth/profile";
+import {
+  loadAuthProfile,
+  loadIdToken,
+  loadSessionToken,
+  persistSession,
+  resolveProfilePartnerId,
+  type AuthProfile,
+} from "../auth/profile";
 
 const API_BASE_URL = import.meta.env.VITE_API_URL ?? "/api";
 
-function buildAuthHeaders(): Record<string, string> {
-  const profile = loadAuthProfile();
-  const token = loadIdToken();
-  const headers: Record<string, string> = {
-    "X-User-Role": profile.role,
-    "X-User-Id": profile.id,
-    "X-User-Name": profile.name,
+export class ApiError extends Error {
+  readonly status: number;
+  readonly payload: unknown;
+
+  constructor(message: string, status: number, payload: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.payload = payload;
+  }
+}
+
+let pendingSession: Promise<string | null> | null = null;
+
+async function startDevSession(profile: AuthProfile): Promise<string | null> {
+  const input: DevLoginInput = {
+    persona: profile.role,
+    id: profile.id,
+    name: profile.name,
+    partnerId: resolveProfilePartnerId(profile),
   };
+  const response = await fetch(`${API_BASE_URL}/auth/dev-login`, {
+    method: "POST",
+    headers: { Accept: "application/json", "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+
+  // Dev login is disabled in production, where a gateway or IdP token identifies the caller instead.
+  if (response.status === 404) {
+    return null;
+  }
 
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
-    headers["X-Id-Token"] = token;
+  if (!response.ok) {
+    const payload: unknown = await response.json().catch(() => null);
+    throw new ApiError(`Unable to start a session (${response.status})`, response.status, payload);
   }
 
-  return headers;
+  const session = (await response.json()) as AuthSession;
+  persistSession(session);
+  return session.token;
 }
 
-async function request<T>(path: string, init?: RequestInit): Promise<T> {
-  const authHeaders = buildAuthHeaders();
+async function resolveSessionToken(): Promise<string | null> {
+  const profile = loadAuthProfile();
+  const stored = loadSessionToken(profile);
+  if (stored) {
+    return stored;
+  }
+
+  pendingSession ??= startDevSession(profile).finally(() => {
+    pendingSession = null;
+  });
+  return pendingSession;
+}
+
+async function buildAuthHeaders(): Promise<Record<string, string>> {
+  const idToken = loadIdToken();
+  if (idToken) {
+    return { Authorization: `Bearer ${idToken}`, "X-Id-Token": idToken };
+  }
+
+  const sessionToken = await resolveSessionToken();
+  return sessionToken ? { Authorization: `Bearer ${sessionToken}` } : {};
+}
+
+async function request<T>(path: string, init?: RequestInit, retried = false): Promise<T> {
+  const authHeaders = await buildAuthHeaders();
   const extraHeaders = (() => {
     if (!init?.headers) {
       return {} as Record<string, string>;
@@ -53,18 +127,33 @@ async function request<T>(path: string, init?: RequestInit): Promise<T> {
   })();
 
   const response = await fetch(`${API_BASE_URL}${path}`, {
+    ...init,
     headers: {
       Accept: "application/json",
       "Content-Type": "application/json",
       ...authHeaders,
       ...extraHeaders,
     },
-    ...init,
   });
 
+  if (response.status === 401 && !retried && !loadIdToken()) {
+    persistSession(null);
+    return request<T>(path, init, true);
+  }
+
   if (!response.ok) {
-    const message = `API request failed (${response.status} ${response.statusText})`;
-    throw new Error(message);
+    const payload: unknown = await response.json().catch(() => null);
+    const serverMessage =
+      payload && typeof payload === "object" && "message" in payload
+        ? String((payload as { message: unknown }).message)
+        : null;
+    const message =
+      serverMessage ?? `API request failed (${response.status} ${response.statusText})`;
+    throw new ApiError(message, response.status, payload);
+  }
+
+  if (response.status === 204) {
+    return undefined as T;
   }
 
   return (await response.json()) as T;
@@ -112,18 +201,74 @@ export async function fetchInnovationIdeas(): Promise<InnovationIdea[]> {
   return payload.items;
 }
 
-export async function fetchLiveAnalyticsSnapshot(): Promise<LiveAnalyticsSnapshot> {
-  return request<LiveAnalyticsSnapshot>("/dashboard/live");
+function buildLiveAnalyticsQuery(query?: LiveAnalyticsQuery): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query?.filters ?? {})) {
+    if (value) {
+      params.set(key, value);
+    }
+  }
+  if (query?.groupBy) {
+    params.set("groupBy", query.groupBy);
+  }
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+export async function fetchLiveAnalyticsSnapshot(
+  query?: LiveAnalyticsQuery
+): Promise<LiveAnalyticsSnapshot> {
+  return request<LiveAnalyticsSnapshot>(
+    `/dashboard/live${buildLiveAnalyticsQuery(query)}`
+  );
+}
+
+export interface LiveAnalyticsHistoryQuery {
+  from?: string;
+  to?: string;
+  resolution?: LiveAnalyticsResolution;
+  filters?: LiveDimensions;
+}
+
+export async function fetchLiveAnalyticsHistory(
+  metricId: string,
+  query: LiveAnalyticsHistoryQuery = {}
+): Promise<LiveAnalyticsHistory> {
+  const params = new URLSearchParams({ metricId });
+  if (query.from) {
+    params.set("from", query.from);
+  }
+  if (query.to) {
+    params.set("to", query.to);
+  }
+  if (query.resolution) {
+    params.set("resolution", query.resolution);
+  }
+  for (const [key, value] of Object.entries(query.filters ?? {})) {
+    if (value) {
+      params.set(key, value);
+    }
+  }
+  return request<LiveAnalyticsHistory>(
+    `/dashboard/live/history?${params.toString()}`
+  );
+}
+
+export function getLiveAnalyticsStreamUrl(query?: LiveAnalyticsQuery): string {
+  return `${API_BASE_URL}/dashboard/live/stream${buildLiveAnalyticsQuery(query)}`;
 }
 
 export interface PartnerSignalQuery {
   signalType?: PartnerSignal["signalType"];
   status?: PartnerSignal["status"];
+  q?: string;
+  sort?: PartnerSignalSortKey;
+  order?: PartnerSignalSortOrder;
+  limit?: number;
+  cursor?: string | null;
 }
 
-export async function fetchPartnerSignals(
-  filters?: PartnerSignalQuery
-): Promise<PartnerSignal[]> {
+function buildPartnerSignalParams(filters?: PartnerSignalQuery): URLSearchParams {
   const params = new URLSearchParams();
   if (filters?.signalType) {
     params.set("signalType", filters.signalType);
@@ -131,11 +276,81 @@ export async function fetchPartnerSignals(
   if (filters?.status) {
     params.set("status", filters.status);
   }
-  const query = params.toString();
-  const payload = await request<{ items: PartnerSignal[] }>(
+  if (filters?.q && filters.q.trim().length > 0) {
+    params.set("q", filters.q.trim());
+  }
+  if (filters?.sort) {
+    params.set("sort", filters.sort);
+  }
+  if (filters?.order) {
+    params.set("order", filters.order);
+  }
+  if (filters?.limit) {
+    params.set("limit", String(filters.limit));
+  }
+  if (filters?.cursor) {
+    params.set("cursor", filters.cursor);
+  }
+  return params;
+}
+
+export async function fetchPartnerSignals(
+  filters?: PartnerSignalQuery
+): Promise<PartnerSignalPage> {
+  const query = buildPartnerSignalParams(filters).toString();
+  return request<PartnerSignalPage>(
     `/partners/signals${query ? `?${query}` : ""}`
   );
-  return payload.items;
+}
+
+const importContentTypes: Record<PartnerSignalTransferFormat, string> = {
+  csv: "text/csv",
+  ndjson: "application/x-ndjson",
+};
+
+export async function validatePartnerSignalImport(
+  content: string,
+  format: PartnerSignalTransferFormat
+): Promise<PartnerSignalImportValidation> {
+  return request<PartnerSignalImportValidation>("/partners/signals/import?dryRun=true", {
+    method: "POST",
+    headers: { "Content-Type": importContentTypes[format] },
+    body: content,
+  });
+}
+
+export async function importPartnerSignals(
+  content: string,
+  format: PartnerSignalTransferFormat
+): Promise<PartnerSignalImportJob> {
+  return request<PartnerSignalImportJob>("/partners/signals/import", {
+    method: "POST",
+    headers: { "Content-Type": importContentTypes[format] },
+    body: content,
+  });
+}
+
+export async function fetchPartnerSignalImportJob(
+  id: string
+): Promise<PartnerSignalImportJob> {
+  return request<PartnerSignalImportJob>(`/partners/signals/import/${id}`);
+}
+
+export async function downloadPartnerSignalExport(
+  filters: Omit<PartnerSignalQuery, "limit" | "cursor">,
+  format: PartnerSignalTransferFormat
+): Promise<Blob> {
+  const params = buildPartnerSignalParams(filters);
+  params.set("format", format);
+  const response = await fetch(`${API_BASE_URL}/partners/signals/export?${params.toString()}`, {
+    headers: await buildAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new ApiError(`Export failed (${response.status})`, response.status, null);
+  }
+
+  return response.blob();
 }
 
 export async function createPartnerSignal(
@@ -151,13 +366,29 @@ export async function fetchPartnerSignalStats(): Promise<PartnerSignalStats> {
   return request<PartnerSignalStats>("/partners/signals/stats");
 }
 
+function ifMatchHeaders(version?: number): Record<string, string> {
+  return version === undefined ? {} : { "If-Match": `"v${version}"` };
+}
+
+/** The latest copy of a signal when a write was rejected because `version` was stale (HTTP 412). */
+export function readPartnerSignalConflict(error: unknown): PartnerSignal | null {
+  if (!(error instanceof ApiError) || error.status !== 412) {
+    return null;
+  }
+
+  const payload = error.payload as { signal?: PartnerSignal } | null;
+  return payload?.signal ?? null;
+}
+
 export async function updatePartnerSignalStatus(
   id: string,
   status: PartnerSignal["status"],
-  notes?: string
+  notes?: string,
+  version?: number
 ): Promise<PartnerSignal> {
   return request<PartnerSignal>(`/partners/signals/${id}/status`, {
     method: "PATCH",
+    headers: ifMatchHeaders(version),
     body: JSON.stringify({ status, notes }),
   });
 }
@@ -171,14 +402,54 @@ export interface PartnerSignalAssignmentRequest {
 
 export async function assignPartnerSignalReviewer(
   id: string,
-  payload: PartnerSignalAssignmentRequest
+  payload: PartnerSignalAssignmentRequest,
+  version?: number
 ): Promise<PartnerSignal> {
   return request<PartnerSignal>(`/partners/signals/${id}/assignments`, {
+    method: "POST",
+    headers: ifMatchHeaders(version),
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function bulkModeratePartnerSignals(
+  ids: string[],
+  action: PartnerSignalBulkAction
+): Promise<PartnerSignalBulkResult> {
+  return request<PartnerSignalBulkResult>("/partners/signals/bulk", {
+    method: "POST",
+    body: JSON.stringify({ ...action, ids }),
+  });
+}
+
+export async function mergePartnerSignal(
+  id: string,
+  payload: { canonicalId?: string; notes?: string } = {}
+): Promise<PartnerSignalMergeResult> {
+  return request<PartnerSignalMergeResult>(`/partners/signals/${id}/merge`, {
     method: "POST",
     body: JSON.stringify(payload),
   });
 }
 
+export async function fetchRegistryPartners(): Promise<RegistryEntry[]> {
+  const { items } = await request<{ items: RegistryEntry[] }>("/partners/registry/partners?active=true");
+  return items;
+}
+
+export async function fetchRegistryMerchants(): Promise<RegistryEntry[]> {
+  const { items } = await request<{ items: RegistryEntry[] }>("/partners/registry/merchants?active=true");
+  return items;
+}
+
+export async function fetchMerchantOverview(
+  merchantId: string
+): Promise<MerchantOverview> {
+  return request<MerchantOverview>(
+    `/partners/registry/merchants/${encodeURIComponent(merchantId)}/overview`
+  );
+}
+
 export async function fetchPartnerSignalDetail(
   id: string
 ): Promise<PartnerSignal> {
@@ -202,3 +473,45 @@ export async function fetchPartnerSignalAssignments(
   );
   return payload.items;
 }
+
+export async function fetchPartnerSignalComments(
+  id: string
+): Promise<PartnerSignalComment[]> {
+  const payload = await request<{ items: PartnerSignalComment[] }>(
+    `/partners/signals/${id}/comments`
+  );
+  return payload.items;
+}
+
+export async function createPartnerSignalComment(
+  id: string,
+  input: PartnerSignalCommentInput
+): Promise<PartnerSignalComment> {
+  return request<PartnerSignalComment>(`/partners/signals/${id}/comments`, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+}
+
+export async function updatePartnerSignalComment(
+  id: string,
+  commentId: string,
+  body: string
+): Promise<PartnerSignalComment> {
+  return request<PartnerSignalComment>(
+    `/partners/signals/${id}/comments/${commentId}`,
+    {
+      method: "PATCH",
+      body: JSON.stringify({ body }),
+    }
+  );
+}
+
+export async function deletePartnerSignalComment(
+  id: string,
+  commentId: string
+): Promise<void> {
+  await request<void>(`/partners/signals/${id}/comments/${commentId}`, {
+    method: "DELETE",
+  });
+}
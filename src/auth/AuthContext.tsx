@@ -36,6 +36,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             : prev.id.replace(/^colleague\./, 'merchant.'),
         name: role === 'colleague' ? 'AMEX Colleague' : 'Merchant Partner',
         role,
+        partnerId: prev.partnerId,
       }
 
       persistAuthProfile(next)
@@ -1,18 +1,22 @@
-import type { ReviewerRole } from '../types'
+import type { AuthSession, ReviewerRole } from '../types'
 
 const PROFILE_STORAGE_KEY = 'amex.auth.profile'
 const ID_TOKEN_STORAGE_KEY = 'amex.auth.idToken'
+const SESSION_STORAGE_KEY = 'amex.auth.session'
+const SESSION_EXPIRY_SKEW_MS = 30_000
 
 type StoredProfile = {
   id: string
   name: string
   role: ReviewerRole
+  partnerId: string | null
 }
 
 const defaultProfile: StoredProfile = {
   id: 'merchant.guest',
   name: 'Merchant Partner',
   role: 'merchant',
+  partnerId: 'merchant-partner-labs',
 }
 
 export function loadAuthProfile(): StoredProfile {
@@ -34,8 +38,12 @@ export function loadAuthProfile(): StoredProfile {
     const role = parsed.role === 'colleague' ? 'colleague' : 'merchant'
     const id = typeof parsed.id === 'string' && parsed.id.trim().length > 0 ? parsed.id.trim() : defaultProfile.id
     const name = typeof parsed.name === 'string' && parsed.name.trim().length > 0 ? parsed.name.trim() : defaultProfile.name
+    const partnerId =
+      typeof parsed.partnerId === 'string' && parsed.partnerId.trim().length > 0
+        ? parsed.partnerId.trim()
+        : defaultProfile.partnerId
 
-    return { id, name, role }
+    return { id, name, role, partnerId }
   } catch (error) {
     console.warn('Unable to parse stored auth profile', error)
     return defaultProfile
@@ -80,4 +88,49 @@ export function persistIdToken(token: string | null): void {
   window.localStorage.setItem(ID_TOKEN_STORAGE_KEY, token)
 }
 
+/** Partner scope the persona signs in with; colleagues are never partner-scoped. */
+export function resolveProfilePartnerId(profile: StoredProfile): string | null {
+  return profile.role === 'merchant' ? profile.partnerId : null
+}
+
+/** Returns the stored session token while it is fresh and still belongs to the active persona. */
+export function loadSessionToken(profile: StoredProfile): string | null {
+  if (typeof window === 'undefined') {
+    return null
+  }
+
+  try {
+    const raw = window.localStorage.getItem(SESSION_STORAGE_KEY)
+    if (!raw) {
+      return null
+    }
+
+    const session = JSON.parse(raw) as Partial<AuthSession>
+    const fresh =
+      typeof session.expiresAt === 'string' && Date.parse(session.expiresAt) - SESSION_EXPIRY_SKEW_MS > Date.now()
+    const matchesProfile =
+      session.user?.id === profile.id &&
+      session.user.role === profile.role &&
+      session.user.partnerId === resolveProfilePartnerId(profile)
+
+    return fresh && matchesProfile && typeof session.token === 'string' ? session.token : null
+  } catch (error) {
+    console.warn('Unable to parse stored session', error)
+    return null
+  }
+}
+
+export function persistSession(session: AuthSession | null): void {
+  if (typeof window === 'undefined') {
+    return
+  }
+
+  if (!session) {
+    window.localStorage.removeItem(SESSION_STORAGE_KEY)
+    return
+  }
+
+  window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session))
+}
+
 export type AuthProfile = StoredProfile
@@ -1,10 +1,46 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import { fetchLiveAnalyticsSnapshot } from '../api/mockApi'
+import { fetchLiveAnalyticsHistory, fetchLiveAnalyticsSnapshot, getLiveAnalyticsStreamUrl } from '../api/mockApi'
 import { withWebSpan } from '../telemetry/spans'
-import type { LiveAnalyticsSnapshot, LiveMetric } from '../types'
+import type {
+  LiveAnalyticsHistoryPoint,
+  LiveAnalyticsQuery,
+  LiveAnalyticsResolution,
+  LiveAnomalyDetectorKind,
+  LiveAnalyticsSnapshot,
+  LiveDimensionKey,
+  LiveMetric,
+  LiveMetricGroup,
+} from '../types'
 import './LiveAnalytics.css'
 
 const REFRESH_INTERVAL_MS = 12_000
+const HISTORY_REFRESH_MS = 60_000
+const STREAM_MAX_FAILURES = 3
+
+type LiveTransport = 'connecting' | 'stream' | 'polling'
+
+type HistoryRange = 'live' | '6h' | '24h' | '7d'
+
+const historyRanges: Record<Exclude<HistoryRange, 'live'>, { spanMs: number; resolution: LiveAnalyticsResolution }> = {
+  '6h': { spanMs: 6 * 3_600_000, resolution: '1m' },
+  '24h': { spanMs: 24 * 3_600_000, resolution: '5m' },
+  '7d': { spanMs: 7 * 86_400_000, resolution: '1h' },
+}
+
+const dimensionLabels: Record<LiveDimensionKey, string> = {
+  region: 'Region',
+  merchantCategory: 'Merchant category',
+  partnerId: 'Partner',
+}
+
+const dimensionKeys = Object.keys(dimensionLabels) as LiveDimensionKey[]
+
+const detectorLabels: Record<LiveAnomalyDetectorKind, string> = {
+  static: 'Static thresholds',
+  zscore: 'Rolling z-score',
+  ewma: 'EWMA control band',
+  seasonal: 'Seasonal baseline',
+}
 
 const currencyFormatter = new Intl.NumberFormat('en-US', {
   style: 'currency',
@@ -126,6 +162,21 @@ function describeThresholds(metric: LiveMetric): string | null {
   return segments.length > 0 ? segments.join(' · ') : null
 }
 
+function describeDetection(metric: LiveMetric): string | null {
+  const anomaly = metric.anomaly
+  if (!anomaly) {
+    return null
+  }
+
+  const segments = [detectorLabels[anomaly.detector]]
+  const band = anomaly.expectedBand
+  if (anomaly.detector !== 'static' && band && band.lower !== null && band.upper !== null) {
+    segments.push(`expected ${formatValue(metric, band.lower)} – ${formatValue(metric, band.upper)}`)
+  }
+  segments.push(`${Math.round(anomaly.confidence * 100)}% confidence`)
+  return segments.join(' · ')
+}
+
 function anomalyLabel(status: 'ok' | 'warning' | 'critical'): string {
   switch (status) {
     case 'critical':
@@ -137,24 +188,23 @@ function anomalyLabel(status: 'ok' | 'warning' | 'critical'): string {
   }
 }
 
-function buildSparklinePoints(metric: LiveMetric): string {
-  if (metric.trend.length === 0) {
+function buildSparklinePoints(values: number[]): string {
+  if (values.length === 0) {
     return ''
   }
 
-  if (metric.trend.length === 1) {
+  if (values.length === 1) {
     return `0,20 100,20`
   }
 
-  const values = metric.trend.map((point) => point.value)
   const max = Math.max(...values)
   const min = Math.min(...values)
   const range = max - min || 1
 
-  return metric.trend
-    .map((point, index) => {
-      const x = (index / (metric.trend.length - 1)) * 100
-      const normalized = (point.value - min) / range
+  return values
+    .map((value, index) => {
+      const x = (index / (values.length - 1)) * 100
+      const normalized = (value - min) / range
       const y = 40 - normalized * 36 - 2
       return `${x.toFixed(2)},${y.toFixed(2)}`
     })
@@ -164,10 +214,14 @@ function buildSparklinePoints(metric: LiveMetric): string {
 interface RenderMetricProps {
   metric: LiveMetric
   windowLabel: string
+  history?: LiveAnalyticsHistoryPoint[]
 }
 
-function RenderMetric({ metric, windowLabel }: RenderMetricProps) {
-  const sparkline = useMemo(() => buildSparklinePoints(metric), [metric])
+function RenderMetric({ metric, windowLabel, history }: RenderMetricProps) {
+  const sparkline = useMemo(
+    () => buildSparklinePoints((history ?? metric.trend).map((point) => point.value)),
+    [history, metric],
+  )
   const deltaLabel = formatMetricDelta(metric)
   const directionClass = `live-analytics__delta live-analytics__delta--${metric.direction}`
 
@@ -175,12 +229,13 @@ function RenderMetric({ metric, windowLabel }: RenderMetricProps) {
   const cardClass = `live-analytics__card live-analytics__card--${anomalyStatus}`
   const anomalyMessage = metric.anomaly?.message ?? 'Within healthy band'
   const thresholds = describeThresholds(metric)
+  const detection = describeDetection(metric)
 
   return (
     <article className={cardClass}>
       <header>
         <h3>{metric.label}</h3>
-        <p>{windowLabel} moving window</p>
+        <p>{history ? `${windowLabel} history` : `${windowLabel} moving window`}</p>
       </header>
       <div className="live-analytics__value">{formatMetricValue(metric)}</div>
       <div className={directionClass}>{deltaLabel}</div>
@@ -188,6 +243,7 @@ function RenderMetric({ metric, windowLabel }: RenderMetricProps) {
         <span className="live-analytics__anomaly-pill">{anomalyLabel(anomalyStatus)}</span>
         <span>{anomalyMessage}</span>
       </div>
+      {detection ? <div className="live-analytics__detector">{detection}</div> : null}
       {thresholds ? <div className="live-analytics__thresholds">{thresholds}</div> : null}
       <svg className="live-analytics__sparkline" viewBox="0 0 100 40" preserveAspectRatio="none" role="presentation">
         <polyline points={sparkline} />
@@ -196,11 +252,55 @@ function RenderMetric({ metric, windowLabel }: RenderMetricProps) {
   )
 }
 
+interface RenderGroupsProps {
+  dimension: LiveDimensionKey
+  groups: LiveMetricGroup[]
+  metrics: LiveMetric[]
+}
+
+function RenderGroups({ dimension, groups, metrics }: RenderGroupsProps) {
+  if (groups.length === 0) {
+    return <p className="live-analytics__groups-empty">No tagged events for this breakdown yet.</p>
+  }
+
+  return (
+    <table className="live-analytics__groups">
+      <thead>
+        <tr>
+          <th scope="col">{dimensionLabels[dimension]}</th>
+          {metrics.map((metric) => (
+            <th key={metric.id} scope="col">
+              {metric.label}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {groups.map((group) => (
+          <tr key={group.value}>
+            <th scope="row">{group.value}</th>
+            {group.metrics.map((metric) => (
+              <td key={metric.id} className={`live-analytics__group-cell--${metric.anomaly?.status ?? 'ok'}`}>
+                {metric.trend.length > 0 ? formatMetricValue(metric) : '—'}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
 export function LiveAnalytics() {
   const [snapshot, setSnapshot] = useState<LiveAnalyticsSnapshot | null>(null)
+  const [query, setQuery] = useState<LiveAnalyticsQuery>({ filters: {}, groupBy: null })
+  const [historyRange, setHistoryRange] = useState<HistoryRange>('live')
+  const [historyById, setHistoryById] = useState<Record<string, LiveAnalyticsHistoryPoint[]>>({})
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [transport, setTransport] = useState<LiveTransport>('connecting')
   const timeoutRef = useRef<number | undefined>(undefined)
+  const eventSourceRef = useRef<EventSource | null>(null)
   const mountedRef = useRef(true)
 
   const fetchSnapshot = useCallback(
@@ -221,11 +321,12 @@ export function LiveAnalytics() {
       try {
         const next = await withWebSpan(
           'ui.live_analytics.refresh',
-          () => fetchLiveAnalyticsSnapshot(),
+          () => fetchLiveAnalyticsSnapshot(query),
           {
             attributes: {
               'ui.component': 'LiveAnalytics',
               'ui.operation': showSpinner ? 'manual-retry' : 'scheduled-refresh',
+              'ui.live_analytics.group_by': query.groupBy ?? 'none',
             },
           },
         )
@@ -251,26 +352,154 @@ export function LiveAnalytics() {
         }, REFRESH_INTERVAL_MS)
       }
     },
-    [],
+    [query],
   )
 
+  const fallBackToPolling = useCallback(() => {
+    eventSourceRef.current?.close()
+    eventSourceRef.current = null
+    setTransport('polling')
+    void fetchSnapshot(true)
+  }, [fetchSnapshot])
+
+  const connectStream = useCallback(() => {
+    if (typeof window.EventSource === 'undefined') {
+      fallBackToPolling()
+      return
+    }
+
+    if (timeoutRef.current !== undefined) {
+      window.clearTimeout(timeoutRef.current)
+      timeoutRef.current = undefined
+    }
+
+    eventSourceRef.current?.close()
+    setTransport('connecting')
+
+    const source = new EventSource(getLiveAnalyticsStreamUrl(query))
+    eventSourceRef.current = source
+    let failures = 0
+
+    source.addEventListener('snapshot', (event) => {
+      if (!mountedRef.current) {
+        return
+      }
+
+      try {
+        setSnapshot(JSON.parse((event as MessageEvent<string>).data) as LiveAnalyticsSnapshot)
+        setError(null)
+        setLoading(false)
+        setTransport('stream')
+        failures = 0
+      } catch (err) {
+        console.warn('Discarding malformed live analytics event', err)
+      }
+    })
+
+    source.onerror = () => {
+      failures += 1
+      if (source.readyState === EventSource.CLOSED || failures >= STREAM_MAX_FAILURES) {
+        fallBackToPolling()
+      }
+    }
+  }, [fallBackToPolling, query])
+
   useEffect(() => {
     mountedRef.current = true
-    void fetchSnapshot(true)
+    connectStream()
 
     return () => {
       mountedRef.current = false
+      eventSourceRef.current?.close()
+      eventSourceRef.current = null
       if (timeoutRef.current !== undefined) {
         window.clearTimeout(timeoutRef.current)
       }
     }
-  }, [fetchSnapshot])
+  }, [connectStream])
+
+  const metricIds = snapshot?.metrics.map((metric) => metric.id).join(',') ?? ''
+
+  useEffect(() => {
+    if (historyRange === 'live' || !metricIds) {
+      setHistoryById({})
+      return
+    }
+
+    let cancelled = false
+    const { spanMs, resolution } = historyRanges[historyRange]
+
+    const loadHistory = async () => {
+      const to = new Date()
+      const from = new Date(to.getTime() - spanMs)
+      try {
+        const results = await withWebSpan(
+          'ui.live_analytics.history',
+          () =>
+            Promise.all(
+              metricIds.split(',').map((metricId) =>
+                fetchLiveAnalyticsHistory(metricId, {
+                  from: from.toISOString(),
+                  to: to.toISOString(),
+                  resolution,
+                  filters: query.filters,
+                }),
+              ),
+            ),
+          { attributes: { 'ui.component': 'LiveAnalytics', 'ui.live_analytics.range': historyRange } },
+        )
+        if (!cancelled) {
+          setHistoryById(Object.fromEntries(results.map((result) => [result.metricId, result.points])))
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unable to load live analytics history')
+        }
+      }
+    }
+
+    void loadHistory()
+    const interval = window.setInterval(() => {
+      void loadHistory()
+    }, HISTORY_REFRESH_MS)
+
+    return () => {
+      cancelled = true
+      window.clearInterval(interval)
+    }
+  }, [historyRange, metricIds, query.filters])
 
   const handleRetry = () => {
-    void fetchSnapshot(true)
+    setError(null)
+    connectStream()
+  }
+
+  const handleFilterChange = (dimension: LiveDimensionKey, value: string) => {
+    setQuery((current) => {
+      const filters = { ...current.filters }
+      if (value) {
+        filters[dimension] = value
+      } else {
+        delete filters[dimension]
+      }
+      return { ...current, filters }
+    })
+  }
+
+  const handleGroupByChange = (value: string) => {
+    setQuery((current) => ({ ...current, groupBy: value ? (value as LiveDimensionKey) : null }))
+  }
+
+  const dimensionOptions = (dimension: LiveDimensionKey): string[] => {
+    const available = snapshot?.dimensions[dimension] ?? []
+    const selected = query.filters[dimension]
+    return selected && !available.includes(selected) ? [selected, ...available] : available
   }
 
-  const windowLabel = snapshot ? formatWindow(snapshot.windowSeconds) : 'rolling'
+  const hasDimensionValues = dimensionKeys.some((dimension) => dimensionOptions(dimension).length > 0)
+
+  const windowLabel =
+    historyRange !== 'live' ? historyRange : snapshot ? formatWindow(snapshot.windowSeconds) : 'rolling'
   const generatedAt = snapshot?.generatedAt ?? null
   const relativeIssued = formatRelativeTime(generatedAt)
 
@@ -278,10 +507,60 @@ export function LiveAnalytics() {
     <div className="live-analytics">
       <div className="live-analytics__meta">
         <span className="live-analytics__meta-dot" aria-hidden="true" />
-        <span>Streaming instrumentation</span>
+        <span>
+          {transport === 'stream'
+            ? 'Streaming instrumentation'
+            : transport === 'polling'
+              ? `Polling every ${REFRESH_INTERVAL_MS / 1000}s`
+              : 'Connecting to stream'}
+        </span>
         <span aria-live="polite">Updated {relativeIssued}</span>
+        <div className="live-analytics__ranges" role="group" aria-label="Trend range">
+          {(['live', '6h', '24h', '7d'] as HistoryRange[]).map((range) => (
+            <button
+              key={range}
+              type="button"
+              aria-pressed={historyRange === range}
+              onClick={() => setHistoryRange(range)}
+            >
+              {range === 'live' ? 'Live' : range}
+            </button>
+          ))}
+        </div>
       </div>
 
+      {hasDimensionValues ? (
+        <div className="live-analytics__filters">
+          {dimensionKeys.map((dimension) => (
+            <label key={dimension}>
+              <span>{dimensionLabels[dimension]}</span>
+              <select
+                value={query.filters[dimension] ?? ''}
+                onChange={(event) => handleFilterChange(dimension, event.target.value)}
+              >
+                <option value="">All</option>
+                {dimensionOptions(dimension).map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <label>
+            <span>Break down by</span>
+            <select value={query.groupBy ?? ''} onChange={(event) => handleGroupByChange(event.target.value)}>
+              <option value="">None</option>
+              {dimensionKeys.map((dimension) => (
+                <option key={dimension} value={dimension}>
+                  {dimensionLabels[dimension]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      ) : null}
+
       {error ? (
         <div className="live-analytics__error">
           <p>{error}</p>
@@ -300,9 +579,17 @@ export function LiveAnalytics() {
           <p className="live-analytics__narrative">{snapshot.narrative}</p>
           <div className="live-analytics__grid">
             {snapshot.metrics.map((metric) => (
-              <RenderMetric key={metric.id} metric={metric} windowLabel={windowLabel} />
+              <RenderMetric
+                key={metric.id}
+                metric={metric}
+                windowLabel={windowLabel}
+                history={historyRange === 'live' ? undefined : historyById[metric.id]}
+              />
             ))}
           </div>
+          {snapshot.groupBy ? (
+            <RenderGroups dimension={snapshot.groupBy} groups={snapshot.groups} metrics={snapshot.metrics} />
+          ) : null}
         </>
       ) : null}
     </div>
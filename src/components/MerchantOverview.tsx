@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react'
+import { fetchMerchantOverview } from '../api/mockApi'
+import type { MerchantOverview as MerchantOverviewData } from '../types'
+import { getPartnerSignalStatusLabel, partnerSignalStatuses } from '../data/partnerSignalWorkflow'
+import './MerchantOverview.css'
+
+interface MerchantOverviewProps {
+  merchantId: string | null
+  onClose: () => void
+  onOpenSignal: (id: string) => void
+}
+
+export function MerchantOverview({ merchantId, onClose, onOpenSignal }: MerchantOverviewProps) {
+  const [overview, setOverview] = useState<MerchantOverviewData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!merchantId) {
+      return
+    }
+
+    let cancelled = false
+    setOverview(null)
+    setError(null)
+    fetchMerchantOverview(merchantId)
+      .then((loaded) => {
+        if (!cancelled) {
+          setOverview(loaded)
+        }
+      })
+      .catch((loadError: unknown) => {
+        console.error(loadError)
+        if (!cancelled) {
+          setError('Unable to load the merchant overview. Please try again.')
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [merchantId])
+
+  if (!merchantId) {
+    return null
+  }
+
+  return (
+    <div className="merchant-overview" role="dialog" aria-modal="true" aria-labelledby="merchant-overview-title">
+      <button type="button" className="merchant-overview__backdrop" aria-label="Close" onClick={onClose} />
+      <div className="merchant-overview__panel">
+        <header className="merchant-overview__header">
+          <div>
+            {overview?.latestStatus && (
+              <span className="merchant-overview__status" data-status={overview.latestStatus}>
+                Latest: {getPartnerSignalStatusLabel(overview.latestStatus)}
+              </span>
+            )}
+            <h3 id="merchant-overview-title">{overview?.merchant.name ?? merchantId}</h3>
+            <p>
+              {merchantId}
+              {overview?.lastSubmittedAt && ` · last signal ${new Date(overview.lastSubmittedAt).toLocaleString()}`}
+            </p>
+          </div>
+          <button type="button" className="merchant-overview__close" onClick={onClose}>
+            Close
+          </button>
+        </header>
+
+        {error && <div className="merchant-overview__error">{error}</div>}
+        {!overview && !error && <div className="merchant-overview__loading">Loading merchant overview…</div>}
+
+        {overview && (
+          <>
+            <section className="merchant-overview__stats" aria-label="Signals by status">
+              <div>
+                <strong>{overview.stats.total}</strong>
+                <span>Signals</span>
+              </div>
+              {partnerSignalStatuses
+                .filter((status) => overview.stats.status[status] > 0)
+                .map((status) => (
+                  <div key={status}>
+                    <strong>{overview.stats.status[status]}</strong>
+                    <span>{getPartnerSignalStatusLabel(status)}</span>
+                  </div>
+                ))}
+            </section>
+
+            {overview.partners.length > 0 && (
+              <section className="merchant-overview__section">
+                <h4>Reporting partners</h4>
+                <ul className="merchant-overview__partners">
+                  {overview.partners.map((partner) => (
+                    <li key={partner.id}>
+                      {partner.name} <span>{partner.total}</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            <section className="merchant-overview__section">
+              <h4>Recent signals</h4>
+              {overview.recentSignals.length === 0 ? (
+                <p className="merchant-overview__empty">No signals reported for this merchant yet.</p>
+              ) : (
+                <ul className="merchant-overview__signals">
+                  {overview.recentSignals.map((signal) => (
+                    <li key={signal.id}>
+                      <button type="button" onClick={() => onOpenSignal(signal.id)}>
+                        <span className="merchant-overview__status" data-status={signal.status}>
+                          {getPartnerSignalStatusLabel(signal.status)}
+                        </span>
+                        <span>{signal.description}</span>
+                        <small>
+                          {signal.partnerName} · {new Date(signal.submittedAt).toLocaleDateString()}
+                        </small>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
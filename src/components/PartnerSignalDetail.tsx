@@ -1,5 +1,12 @@
-import { useEffect, useMemo, useState } from 'react'
-import type { PartnerSignal } from '../types'
+import { useEffect, useState } from 'react'
+import type { PartnerSignal, ReviewerRole } from '../types'
+import {
+  getPartnerSignalStatusLabel,
+  listPartnerSignalTransitions,
+  type PartnerSignalTransitionRule,
+} from '../data/partnerSignalWorkflow'
+import { PartnerSignalSlaBadge } from './PartnerSignalSlaBadge'
+import { PartnerSignalThread } from './PartnerSignalThread'
 import './PartnerSignalDetail.css'
 
 type DetailStatus = 'idle' | 'updating' | 'error'
@@ -10,8 +17,11 @@ interface PartnerSignalDetailProps {
   onClose: () => void
   isLoading: boolean
   error: string | null
-  onStatusChange: (id: string, status: PartnerSignal['status']) => Promise<PartnerSignal | null>
-  canModerate: boolean
+  onStatusChange: (id: string, status: PartnerSignal['status'], notes?: string) => Promise<PartnerSignal | null>
+  onMerge: (id: string, notes?: string) => Promise<PartnerSignal>
+  onOpenSignal: (id: string) => void
+  onOpenMerchant: (merchantId: string) => void
+  viewerRole: ReviewerRole
 }
 
 export function PartnerSignalDetail({
@@ -21,17 +31,20 @@ export function PartnerSignalDetail({
   isLoading,
   error,
   onStatusChange,
-  canModerate,
+  onMerge,
+  onOpenSignal,
+  onOpenMerchant,
+  viewerRole,
 }: PartnerSignalDetailProps) {
   const [statusState, setStatusState] = useState<DetailStatus>('idle')
   const [statusError, setStatusError] = useState<string | null>(null)
-
-  const statusOptions = useMemo<PartnerSignal['status'][]>(() => ['pending', 'approved', 'archived'], [])
+  const [notes, setNotes] = useState('')
 
   useEffect(() => {
     if (isOpen) {
       setStatusState('idle')
       setStatusError(null)
+      setNotes('')
     }
   }, [isOpen, signal?.id])
 
@@ -39,13 +52,16 @@ export function PartnerSignalDetail({
     return null
   }
 
-  const handleStatusUpdate = async (nextStatus: PartnerSignal['status']) => {
-    if (signal.status === nextStatus) {
+  const transitions = listPartnerSignalTransitions(signal.status, viewerRole)
+
+  const handleStatusUpdate = async (rule: PartnerSignalTransitionRule) => {
+    if (signal.status === rule.to) {
       return
     }
 
-    if (!canModerate) {
-      setStatusError('Switch to a colleague persona to update status.')
+    const trimmedNotes = notes.trim()
+    if (rule.requiresNotes && !trimmedNotes) {
+      setStatusError(`${rule.label} requires reviewer notes.`)
       setStatusState('error')
       return
     }
@@ -54,19 +70,36 @@ export function PartnerSignalDetail({
     setStatusError(null)
 
     try {
-      const updated = await onStatusChange(signal.id, nextStatus)
+      const updated = await onStatusChange(signal.id, rule.to, trimmedNotes || undefined)
       if (!updated) {
         throw new Error('Partner signal not found')
       }
+      setNotes('')
       setStatusState('idle')
     } catch (updateError) {
       console.error(updateError)
-      setStatusError('Unable to update status. Please try again.')
+      setStatusError(updateError instanceof Error ? updateError.message : 'Unable to update status. Please try again.')
+      setStatusState('error')
+    }
+  }
+
+  const handleMerge = async () => {
+    setStatusState('updating')
+    setStatusError(null)
+
+    try {
+      await onMerge(signal.id, notes.trim() || undefined)
+      setNotes('')
+      setStatusState('idle')
+    } catch (mergeError) {
+      console.error(mergeError)
+      setStatusError(mergeError instanceof Error ? mergeError.message : 'Unable to merge the duplicate.')
       setStatusState('error')
     }
   }
 
   const metadataEntries = signal.metadata ? Object.entries(signal.metadata) : []
+  const linkedSignalId = signal.mergedIntoId ?? signal.duplicateOfId
   const reviewerRoleLabel = signal.assignedReviewerRole
     ? `${signal.assignedReviewerRole.charAt(0).toUpperCase()}${signal.assignedReviewerRole.slice(1)}`
     : null
@@ -86,12 +119,20 @@ export function PartnerSignalDetail({
         <header className="partner-signal-detail__header">
           <div>
             <span className="partner-signal-detail__status" data-status={signal.status}>
-              {signal.status}
+              {getPartnerSignalStatusLabel(signal.status)}
             </span>
+            <PartnerSignalSlaBadge signal={signal} />
             <h3 id="partner-detail-title">{signal.merchantName}</h3>
             <p>
               Submitted by <strong>{signal.partnerName}</strong> · {signal.partnerId}
             </p>
+            <button
+              type="button"
+              className="partner-signal-detail__merchant-link"
+              onClick={() => onOpenMerchant(signal.merchantId)}
+            >
+              All signals for this merchant
+            </button>
           </div>
           <button type="button" className="partner-signal-detail__close" onClick={onClose}>
             Close
@@ -141,6 +182,30 @@ export function PartnerSignalDetail({
                   <p>Not yet assigned to a reviewer.</p>
                 )}
               </div>
+              {linkedSignalId && (
+                <div className="partner-signal-detail__row partner-signal-detail__duplicate">
+                  <h4>{signal.mergedIntoId ? 'Merged duplicate' : 'Possible duplicate'}</h4>
+                  <p>
+                    {signal.mergedIntoId ? 'Folded into ' : 'Looks like '}
+                    <button type="button" onClick={() => onOpenSignal(linkedSignalId)}>
+                      {linkedSignalId}
+                    </button>
+                    {!signal.mergedIntoId && signal.duplicateScore !== null
+                      ? ` (${Math.round(signal.duplicateScore * 100)}% similar)`
+                      : ''}
+                  </p>
+                  {!signal.mergedIntoId && viewerRole === 'colleague' && (
+                    <button
+                      type="button"
+                      className="partner-signal-detail__merge"
+                      onClick={handleMerge}
+                      disabled={statusState === 'updating'}
+                    >
+                      Merge into canonical signal
+                    </button>
+                  )}
+                </div>
+              )}
               {metadataEntries.length > 0 && (
                 <div className="partner-signal-detail__row">
                   <h4>Metadata</h4>
@@ -153,29 +218,43 @@ export function PartnerSignalDetail({
                   </ul>
                 </div>
               )}
+              <PartnerSignalThread signalId={signal.id} signalStatus={signal.status} />
             </>
           )}
         </section>
 
         <footer className="partner-signal-detail__footer">
-          <div className="partner-signal-detail__status-actions" role="group" aria-label="Update status">
-            {statusOptions.map((option) => (
-              <button
-                key={option}
-                type="button"
-                data-active={option === signal.status}
-                onClick={() => handleStatusUpdate(option)}
-                disabled={!canModerate || statusState === 'updating' || option === signal.status}
-                data-disabled={!canModerate ? 'true' : undefined}
-                title={!canModerate ? 'Switch to a colleague persona to moderate' : undefined}
-              >
-                {option}
-              </button>
-            ))}
-          </div>
-          {!canModerate && (
+          {transitions.length > 0 ? (
+            <>
+              <label className="partner-signal-detail__notes">
+                <span>Reviewer notes</span>
+                <textarea
+                  rows={2}
+                  maxLength={500}
+                  value={notes}
+                  onChange={(event) => setNotes(event.target.value)}
+                  placeholder="Context for the audit trail (required for some transitions)"
+                />
+              </label>
+              <div className="partner-signal-detail__status-actions" role="group" aria-label="Update status">
+                {transitions.map((rule) => (
+                  <button
+                    key={rule.id}
+                    type="button"
+                    onClick={() => handleStatusUpdate(rule)}
+                    disabled={statusState === 'updating'}
+                    title={rule.requiresNotes ? 'Requires reviewer notes' : undefined}
+                  >
+                    {rule.label}
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : (
             <p className="partner-signal-detail__moderation-hint">
-              Moderation tools are limited to colleague personas.
+              {viewerRole === 'colleague'
+                ? 'No further transitions are available from this status.'
+                : 'Moderation tools are limited to colleague personas.'}
             </p>
           )}
           {statusState === 'error' && statusError && (
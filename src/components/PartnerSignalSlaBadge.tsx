@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react'
+import type { PartnerSignal } from '../types'
+import { getPartnerSignalSlaPolicy, slaTrackedPartnerSignalStatuses } from '../data/partnerSignalSla'
+import './PartnerSignalSlaBadge.css'
+
+const TICK_MS = 30_000
+const DUE_SOON_RATIO = 0.25
+
+type SlaState = 'on_track' | 'due_soon' | 'breached' | 'escalated'
+
+function formatDuration(ms: number): string {
+  const totalMinutes = Math.max(0, Math.round(Math.abs(ms) / 60_000))
+  const days = Math.floor(totalMinutes / (60 * 24))
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60)
+  const minutes = totalMinutes % 60
+
+  if (days > 0) {
+    return `${days}d ${hours}h`
+  }
+
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`
+}
+
+export function PartnerSignalSlaBadge({ signal }: { signal: PartnerSignal }) {
+  const [now, setNow] = useState(() => Date.now())
+  const isTracked = Boolean(signal.slaDueAt) && slaTrackedPartnerSignalStatuses.includes(signal.status)
+
+  useEffect(() => {
+    if (!isTracked) {
+      return
+    }
+
+    const timer = window.setInterval(() => setNow(Date.now()), TICK_MS)
+    return () => window.clearInterval(timer)
+  }, [isTracked])
+
+  if (!isTracked || !signal.slaDueAt) {
+    return null
+  }
+
+  const policy = getPartnerSignalSlaPolicy(signal.slaPolicyId)
+  const remainingMs = new Date(signal.slaDueAt).getTime() - now
+  const state: SlaState = signal.slaEscalatedAt
+    ? 'escalated'
+    : remainingMs <= 0
+      ? 'breached'
+      : policy && remainingMs <= policy.targetMinutes * 60_000 * DUE_SOON_RATIO
+        ? 'due_soon'
+        : 'on_track'
+  const label =
+    state === 'escalated'
+      ? `Escalated · ${formatDuration(remainingMs)} over`
+      : remainingMs <= 0
+        ? `SLA breached ${formatDuration(remainingMs)} ago`
+        : `${formatDuration(remainingMs)} left`
+  const policyLabel = policy ? `${policy.label} SLA (${formatDuration(policy.targetMinutes * 60_000)})` : 'SLA'
+  const title = `${policyLabel} · due ${new Date(signal.slaDueAt).toLocaleString()}`
+
+  return (
+    <span className="partner-signal-sla" data-state={state} title={title}>
+      {label}
+    </span>
+  )
+}
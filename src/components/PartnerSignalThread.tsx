@@ -0,0 +1,266 @@
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from 'react'
+import type { PartnerSignal, PartnerSignalAudit, PartnerSignalComment } from '../types'
+import {
+  createPartnerSignalComment,
+  deletePartnerSignalComment,
+  fetchPartnerSignalAudits,
+  fetchPartnerSignalComments,
+  updatePartnerSignalComment,
+} from '../api/mockApi'
+import { useAuth } from '../auth/AuthContext'
+import { getPartnerSignalStatusLabel } from '../data/partnerSignalWorkflow'
+import './PartnerSignalThread.css'
+
+type TimelineEntry =
+  | { kind: 'audit'; at: string; audit: PartnerSignalAudit }
+  | { kind: 'comment'; at: string; comment: PartnerSignalComment }
+
+interface PartnerSignalThreadProps {
+  signalId: string
+  signalStatus: PartnerSignal['status']
+}
+
+function describeAudit(audit: PartnerSignalAudit): string {
+  if (audit.action === 'created') {
+    return 'submitted the signal'
+  }
+
+  if (audit.action === 'sla_escalated') {
+    return 'escalated the overdue signal'
+  }
+
+  if (audit.action === 'merged') {
+    return 'merged a duplicate signal'
+  }
+
+  if (audit.action === 'assigned') {
+    return 'updated the reviewer assignment'
+  }
+
+  const from = audit.fromStatus ? getPartnerSignalStatusLabel(audit.fromStatus) : 'unknown'
+  const to = audit.toStatus ? getPartnerSignalStatusLabel(audit.toStatus) : 'unknown'
+  return `moved the signal from ${from} to ${to}`
+}
+
+export function PartnerSignalThread({ signalId, signalStatus }: PartnerSignalThreadProps) {
+  const { profile } = useAuth()
+  const [audits, setAudits] = useState<PartnerSignalAudit[]>([])
+  const [comments, setComments] = useState<PartnerSignalComment[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+  const [editing, setEditing] = useState<{ id: string; body: string } | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      const [nextAudits, nextComments] = await Promise.all([
+        fetchPartnerSignalAudits(signalId),
+        fetchPartnerSignalComments(signalId),
+      ])
+      setAudits(nextAudits)
+      setComments(nextComments)
+      setError(null)
+    } catch (loadError) {
+      console.error(loadError)
+      setError(loadError instanceof Error ? loadError.message : 'Unable to load the activity timeline.')
+    }
+  }, [signalId])
+
+  useEffect(() => {
+    void load()
+  }, [load, signalStatus])
+
+  useEffect(() => {
+    setDraft('')
+    setReplyTo(null)
+    setEditing(null)
+  }, [signalId])
+
+  const timeline = useMemo<TimelineEntry[]>(() => {
+    const entries: TimelineEntry[] = [
+      ...audits.map((audit) => ({ kind: 'audit' as const, at: audit.createdAt, audit })),
+      ...comments
+        .filter((comment) => comment.parentId === null)
+        .map((comment) => ({ kind: 'comment' as const, at: comment.createdAt, comment })),
+    ]
+    return entries.sort((left, right) => left.at.localeCompare(right.at))
+  }, [audits, comments])
+
+  const replies = useMemo(() => {
+    const byParent = new Map<string, PartnerSignalComment[]>()
+    for (const comment of comments) {
+      if (comment.parentId) {
+        byParent.set(comment.parentId, [...(byParent.get(comment.parentId) ?? []), comment])
+      }
+    }
+    return byParent
+  }, [comments])
+
+  const runMutation = async (mutation: () => Promise<unknown>) => {
+    setIsSaving(true)
+    try {
+      await mutation()
+      await load()
+      return true
+    } catch (mutationError) {
+      console.error(mutationError)
+      setError(mutationError instanceof Error ? mutationError.message : 'Unable to save the comment.')
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const body = draft.trim()
+    if (!body) {
+      return
+    }
+
+    if (await runMutation(() => createPartnerSignalComment(signalId, { body, parentId: replyTo }))) {
+      setDraft('')
+      setReplyTo(null)
+    }
+  }
+
+  const handleEdit = async () => {
+    if (!editing || !editing.body.trim()) {
+      return
+    }
+
+    if (await runMutation(() => updatePartnerSignalComment(signalId, editing.id, editing.body.trim()))) {
+      setEditing(null)
+    }
+  }
+
+  const renderComment = (comment: PartnerSignalComment, isReply = false) => {
+    const isOwn = comment.authorId === profile.id && comment.deletedAt === null
+    const isEditing = editing?.id === comment.id
+
+    return (
+      <li key={comment.id} className="partner-signal-thread__comment" data-reply={isReply}>
+        <div className="partner-signal-thread__meta">
+          <strong>{comment.authorName}</strong>
+          <time dateTime={comment.createdAt}>{new Date(comment.createdAt).toLocaleString()}</time>
+          {comment.editedAt && comment.deletedAt === null && <span>edited</span>}
+        </div>
+        {comment.deletedAt ? (
+          <p className="partner-signal-thread__deleted">Comment deleted</p>
+        ) : isEditing ? (
+          <div className="partner-signal-thread__edit">
+            <textarea
+              rows={2}
+              maxLength={4000}
+              value={editing.body}
+              onChange={(event) => setEditing({ id: comment.id, body: event.target.value })}
+            />
+            <div className="partner-signal-thread__actions">
+              <button type="button" onClick={handleEdit} disabled={isSaving}>
+                Save
+              </button>
+              <button type="button" onClick={() => setEditing(null)}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p>{comment.body}</p>
+        )}
+        {comment.mentions.length > 0 && (
+          <div className="partner-signal-thread__mentions">
+            {comment.mentions.map((mention) => (
+              <span key={mention.id}>@{mention.name}</span>
+            ))}
+          </div>
+        )}
+        {comment.history.length > 0 && (
+          <details className="partner-signal-thread__history">
+            <summary>
+              {comment.history.length} earlier {comment.history.length === 1 ? 'version' : 'versions'}
+            </summary>
+            <ol>
+              {comment.history.map((revision) => (
+                <li key={revision.editedAt}>
+                  <time dateTime={revision.editedAt}>{new Date(revision.editedAt).toLocaleString()}</time>
+                  <p>{revision.body}</p>
+                </li>
+              ))}
+            </ol>
+          </details>
+        )}
+        {!isEditing && (
+          <div className="partner-signal-thread__actions">
+            {!isReply && comment.deletedAt === null && (
+              <button type="button" onClick={() => setReplyTo(comment.id)}>
+                Reply
+              </button>
+            )}
+            {isOwn && (
+              <>
+                <button type="button" onClick={() => setEditing({ id: comment.id, body: comment.body })}>
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  disabled={isSaving}
+                  onClick={() => void runMutation(() => deletePartnerSignalComment(signalId, comment.id))}
+                >
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        )}
+        {(replies.get(comment.id)?.length ?? 0) > 0 && (
+          <ul className="partner-signal-thread__replies">
+            {replies.get(comment.id)?.map((reply) => renderComment(reply, true))}
+          </ul>
+        )}
+      </li>
+    )
+  }
+
+  const replyTarget = replyTo ? comments.find((comment) => comment.id === replyTo) : null
+
+  return (
+    <div className="partner-signal-detail__row partner-signal-thread">
+      <h4>Activity</h4>
+      {error && <div className="partner-signal-detail__error">{error}</div>}
+      <ul className="partner-signal-thread__timeline">
+        {timeline.map((entry) =>
+          entry.kind === 'audit' ? (
+            <li key={`audit-${entry.audit.id}`} className="partner-signal-thread__audit">
+              <strong>{entry.audit.reviewerName}</strong> {describeAudit(entry.audit)}
+              {entry.audit.notes ? ` — “${entry.audit.notes}”` : ''}
+              <time dateTime={entry.at}>{new Date(entry.at).toLocaleString()}</time>
+            </li>
+          ) : (
+            renderComment(entry.comment)
+          ),
+        )}
+      </ul>
+      <form className="partner-signal-thread__composer" onSubmit={handleSubmit}>
+        {replyTarget && (
+          <div className="partner-signal-thread__replying">
+            Replying to {replyTarget.authorName}
+            <button type="button" onClick={() => setReplyTo(null)}>
+              Cancel
+            </button>
+          </div>
+        )}
+        <textarea
+          rows={2}
+          maxLength={4000}
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder="Add a comment — use @handle to mention a moderator"
+        />
+        <button type="submit" disabled={isSaving || !draft.trim()}>
+          Comment
+        </button>
+      </form>
+    </div>
+  )
+}
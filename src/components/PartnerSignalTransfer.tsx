@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState, type ChangeEvent } from 'react'
+import {
+  downloadPartnerSignalExport,
+  fetchPartnerSignalImportJob,
+  importPartnerSignals,
+  validatePartnerSignalImport,
+  type PartnerSignalQuery,
+} from '../api/mockApi'
+import type {
+  PartnerSignalImportJob,
+  PartnerSignalImportRowError,
+  PartnerSignalImportValidation,
+  PartnerSignalTransferFormat,
+} from '../types'
+import './PartnerSignalTransfer.css'
+
+const JOB_POLL_INTERVAL_MS = 1500
+const MAX_PREVIEW_ERRORS = 20
+
+interface PendingImport {
+  fileName: string
+  content: string
+  format: PartnerSignalTransferFormat
+  validation: PartnerSignalImportValidation
+}
+
+interface PartnerSignalTransferProps {
+  filters: Omit<PartnerSignalQuery, 'limit' | 'cursor'>
+  onImported: () => void
+}
+
+function detectFormat(file: File): PartnerSignalTransferFormat {
+  return /\.(ndjson|jsonl)$/i.test(file.name) || file.type === 'application/x-ndjson' ? 'ndjson' : 'csv'
+}
+
+function describeIssue(issue: PartnerSignalImportRowError['issues'][number]): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message
+}
+
+function describeJob(job: PartnerSignalImportJob): string {
+  if (job.status === 'completed') {
+    return `Imported ${job.importedRows} of ${job.totalRows} rows${job.failedRows ? `, ${job.failedRows} failed` : ''}.`
+  }
+  if (job.status === 'failed') {
+    return `Import stopped after ${job.processedRows} of ${job.totalRows} rows.`
+  }
+  return `Importing… ${job.processedRows} of ${job.totalRows} rows processed.`
+}
+
+export function PartnerSignalTransfer({ filters, onImported }: PartnerSignalTransferProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const [pending, setPending] = useState<PendingImport | null>(null)
+  const [job, setJob] = useState<PartnerSignalImportJob | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!job || job.status === 'completed' || job.status === 'failed') {
+      return
+    }
+
+    const timer = window.setTimeout(async () => {
+      try {
+        const latest = await fetchPartnerSignalImportJob(job.id)
+        setJob(latest)
+        if (latest.status === 'completed') {
+          onImported()
+        }
+      } catch (pollError) {
+        setError(pollError instanceof Error ? pollError.message : 'Unable to load import progress')
+      }
+    }, JOB_POLL_INTERVAL_MS)
+
+    return () => window.clearTimeout(timer)
+  }, [job, onImported])
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) {
+      return
+    }
+
+    setBusy(true)
+    setError(null)
+    setJob(null)
+    setPending(null)
+    try {
+      const content = await file.text()
+      const format = detectFormat(file)
+      const validation = await validatePartnerSignalImport(content, format)
+      setPending({ fileName: file.name, content, format, validation })
+    } catch (validationError) {
+      setError(validationError instanceof Error ? validationError.message : 'Unable to read the import file')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleConfirmImport = async () => {
+    if (!pending) {
+      return
+    }
+
+    setBusy(true)
+    setError(null)
+    try {
+      const started = await importPartnerSignals(pending.content, pending.format)
+      setJob(started)
+      setPending(null)
+      if (started.status === 'completed') {
+        onImported()
+      }
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : 'Import failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleExport = async (format: PartnerSignalTransferFormat) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const blob = await downloadPartnerSignalExport(filters, format)
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `partner-signals-${new Date().toISOString().slice(0, 10)}.${format}`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : 'Export failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const previewErrors = pending?.validation.errors.slice(0, MAX_PREVIEW_ERRORS) ?? []
+
+  return (
+    <div className="signal-transfer" aria-live="polite">
+      <div className="signal-transfer__actions">
+        <button type="button" onClick={() => fileInputRef.current?.click()} disabled={busy}>
+          Import CSV / NDJSON
+        </button>
+        <button type="button" onClick={() => void handleExport('csv')} disabled={busy}>
+          Export CSV
+        </button>
+        <button type="button" onClick={() => void handleExport('ndjson')} disabled={busy}>
+          Export NDJSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.ndjson,.jsonl,text/csv,application/x-ndjson"
+          onChange={(event) => void handleFileChange(event)}
+          hidden
+        />
+      </div>
+
+      {error && <p className="signal-transfer__error">{error}</p>}
+
+      {pending && (
+        <div className="signal-transfer__preview">
+          <p>
+            <strong>{pending.fileName}</strong>: {pending.validation.validRows} of {pending.validation.totalRows} rows
+            ready to import
+            {pending.validation.invalidRows > 0 && `, ${pending.validation.invalidRows} will be skipped`}.
+          </p>
+          {previewErrors.length > 0 && (
+            <ul className="signal-transfer__errors">
+              {previewErrors.map((rowError) => (
+                <li key={rowError.line}>
+                  Row {rowError.line}: {rowError.issues.map(describeIssue).join('; ')}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="signal-transfer__actions">
+            <button
+              type="button"
+              onClick={() => void handleConfirmImport()}
+              disabled={busy || pending.validation.validRows === 0}
+            >
+              Import {pending.validation.validRows} rows
+            </button>
+            <button type="button" onClick={() => setPending(null)} disabled={busy}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {job && <p className={`signal-transfer__job signal-transfer__job--${job.status}`}>{describeJob(job)}</p>}
+    </div>
+  )
+}
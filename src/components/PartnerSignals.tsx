@@ -1,5 +1,21 @@
 import { useEffect, useMemo, useRef, useState, type ChangeEvent, type FormEvent } from 'react'
-import type { PartnerSignal, PartnerSignalInput, PartnerSignalStats } from '../types'
+import type {
+  PartnerSignal,
+  PartnerSignalBulkResult,
+  PartnerSignalInput,
+  PartnerSignalSortKey,
+  PartnerSignalStats,
+  RegistryEntry,
+  ReviewerRole,
+} from '../types'
+import {
+  getPartnerSignalStatusLabel,
+  listPartnerSignalTransitions,
+  partnerSignalStatuses,
+  type PartnerSignalTransitionRule,
+} from '../data/partnerSignalWorkflow'
+import { readPartnerSignalConflict } from '../api/mockApi'
+import { PartnerSignalSlaBadge } from './PartnerSignalSlaBadge'
 import './PartnerSignals.css'
 
 type SubmissionState = 'idle' | 'submitting' | 'success' | 'error'
@@ -9,6 +25,7 @@ type StatusFilter = PartnerSignal['status'] | 'all'
 type DraftPersistenceState = 'idle' | 'saving' | 'saved'
 type MetadataPresetKey = 'regionPilot' | 'paidMediaPlay' | 'riskMitigation'
 const METADATA_HINT_SESSION_KEY = 'amex.partnerSignalMetadataHintDismissed'
+const SEARCH_DEBOUNCE_MS = 300
 
 interface ToastState {
   id: number
@@ -20,15 +37,32 @@ interface PartnerSignalsProps {
   signals: PartnerSignal[]
   onSubmit: (input: PartnerSignalInput) => Promise<PartnerSignal>
   onInspect: (signal: PartnerSignal) => void
-  onStatusChange: (id: string, status: PartnerSignal['status']) => Promise<PartnerSignal | null>
+  onStatusChange: (
+    id: string,
+    status: PartnerSignal['status'],
+    notes?: string,
+    expectedVersion?: number,
+  ) => Promise<PartnerSignal | null>
+  onBulkStatusChange: (ids: string[], status: PartnerSignal['status'], notes?: string) => Promise<PartnerSignalBulkResult>
+  onBulkAssign: (ids: string[]) => Promise<PartnerSignalBulkResult>
   activeFilter: SignalFilter
   activeStatusFilter: StatusFilter
   onFilterChange: (filter: SignalFilter) => void
   onStatusFilterChange: (status: StatusFilter) => void
   filterCounts: Record<SignalFilter, number>
   isFilterLoading: boolean
+  searchQuery: string
+  onSearchChange: (query: string) => void
+  sortKey: PartnerSignalSortKey
+  onSortChange: (sort: PartnerSignalSortKey) => void
+  totalCount: number
+  hasMore: boolean
+  isLoadingMore: boolean
+  onLoadMore: () => void
   stats: PartnerSignalStats | null
-  canModerate: boolean
+  partners: RegistryEntry[]
+  merchants: RegistryEntry[]
+  viewerRole: ReviewerRole
 }
 
 const signalTypeOptions: Array<{ value: PartnerSignalInput['signalType']; label: string }> = [
@@ -44,7 +78,13 @@ const filterSequence: SignalFilter[] = [
   ...signalTypeOptions.map((option) => option.value),
 ]
 
-const statusFilterSequence: StatusFilter[] = ['all', 'pending', 'approved', 'archived']
+const statusFilterSequence: StatusFilter[] = ['all', ...partnerSignalStatuses]
+
+const sortOptions: Array<{ value: PartnerSignalSortKey; label: string; description: string }> = [
+  { value: 'submittedAt', label: 'Newest submissions', description: 'Sorted by most recent submissions from the ecosystem network.' },
+  { value: 'confidence', label: 'Highest confidence', description: 'Sorted by partner conviction, strongest signals first.' },
+  { value: 'assignedAt', label: 'Recently assigned', description: 'Sorted by latest reviewer assignment; unassigned signals trail.' },
+]
 
 const metadataPresets: Record<MetadataPresetKey, { label: string; description: string; value: Record<string, unknown> }> = {
   regionPilot: {
@@ -96,9 +136,7 @@ function calculateHintDuration(textLength: number): number {
 function createInitialFormState(): PartnerSignalInput {
   return {
     partnerId: '',
-    partnerName: '',
     merchantId: '',
-    merchantName: '',
     signalType: 'growth',
     description: '',
     confidence: 0.5,
@@ -133,15 +171,9 @@ function loadFormDraft(): { form: PartnerSignalInput; metadata: string; savedAt:
         if (typeof formRecord.partnerId === 'string') {
           draftForm.partnerId = formRecord.partnerId
         }
-        if (typeof formRecord.partnerName === 'string') {
-          draftForm.partnerName = formRecord.partnerName
-        }
         if (typeof formRecord.merchantId === 'string') {
           draftForm.merchantId = formRecord.merchantId
         }
-        if (typeof formRecord.merchantName === 'string') {
-          draftForm.merchantName = formRecord.merchantName
-        }
         if (typeof formRecord.signalType === 'string' && allowedTypes.has(formRecord.signalType as PartnerSignalInput['signalType'])) {
           draftForm.signalType = formRecord.signalType as PartnerSignalInput['signalType']
         }
@@ -230,6 +262,15 @@ function formatRelativeTimestamp(timestamp: string): string {
   return `${diffYears} year${diffYears === 1 ? '' : 's'} ago`
 }
 
+function describeRegistryMatch(entries: RegistryEntry[], id: string, kind: 'partner' | 'merchant'): string {
+  const trimmed = id.trim()
+  if (!trimmed) {
+    return `Pick a registered ${kind}; the name is filled in from the registry.`
+  }
+  const match = entries.find((entry) => entry.id === trimmed)
+  return match ? match.name : `No active ${kind} is registered with this ID.`
+}
+
 function formatConfidence(value: number): string {
   return `${Math.round(value * 100)}%`
 }
@@ -239,14 +280,26 @@ export function PartnerSignals({
   onSubmit,
   onInspect,
   onStatusChange,
+  onBulkStatusChange,
+  onBulkAssign,
   activeFilter,
   activeStatusFilter,
   onFilterChange,
   onStatusFilterChange,
   filterCounts,
   isFilterLoading,
+  searchQuery,
+  onSearchChange,
+  sortKey,
+  onSortChange,
+  totalCount,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
   stats,
-  canModerate,
+  partners,
+  merchants,
+  viewerRole,
 }: PartnerSignalsProps) {
   const initialDraft = useMemo(loadFormDraft, [])
   const [formState, setFormState] = useState<PartnerSignalInput>(initialDraft.form)
@@ -287,6 +340,49 @@ export function PartnerSignals({
     JSON.stringify({ form: initialDraft.form, metadata: initialDraft.metadata }),
   )
   const persistTimeout = useRef<number | null>(null)
+  const [searchInput, setSearchInput] = useState(searchQuery)
+  const loadMoreSentinelRef = useRef<HTMLDivElement | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [bulkStatus, setBulkStatus] = useState<PartnerSignal['status']>('in_review')
+  const [bulkNotes, setBulkNotes] = useState('')
+  const [bulkRunning, setBulkRunning] = useState(false)
+  const canBulkModerate = viewerRole === 'colleague'
+
+  useEffect(() => {
+    setSelectedIds((current) => {
+      const next = current.filter((id) => signals.some((signal) => signal.id === id))
+      return next.length === current.length ? current : next
+    })
+  }, [signals])
+
+  useEffect(() => {
+    const normalized = searchInput.trim()
+    if (normalized === searchQuery) {
+      return
+    }
+
+    const timeout = window.setTimeout(() => onSearchChange(normalized), SEARCH_DEBOUNCE_MS)
+    return () => window.clearTimeout(timeout)
+  }, [searchInput, searchQuery, onSearchChange])
+
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current
+    if (!sentinel || !hasMore || typeof IntersectionObserver === 'undefined') {
+      return
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore()
+        }
+      },
+      { rootMargin: '240px 0px' },
+    )
+
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, onLoadMore])
 
   useEffect(() => {
     if (status === 'success' || status === 'error') {
@@ -479,44 +575,129 @@ export function PartnerSignals({
   }, [metadataInput, metadataHintDismissed])
 
   const hasSignals = signals.length > 0
-  const statusStats = stats?.status ?? { pending: 0, approved: 0, archived: 0 }
   const totalStats = stats?.total ?? 0
-  const statusOptions: PartnerSignal['status'][] = ['pending', 'approved', 'archived']
-  const statusFilterCounts: Record<StatusFilter, number> = {
-    all: totalStats,
-    pending: statusStats.pending,
-    approved: statusStats.approved,
-    archived: statusStats.archived,
+  const statusFilterCounts = Object.fromEntries([
+    ['all', totalStats],
+    ...partnerSignalStatuses.map((value) => [value, stats?.status[value] ?? 0]),
+  ]) as Record<StatusFilter, number>
+
+  async function handleStatusUpdate(
+    signal: PartnerSignal,
+    rule: PartnerSignalTransitionRule,
+    expectedVersion?: number,
+    presetNotes?: string,
+  ) {
+    if (signal.status === rule.to) {
+      return
+    }
+
+    let notes = presetNotes
+    if (rule.requiresNotes && !notes) {
+      const response = window.prompt(`${rule.label}: add reviewer notes for ${signal.merchantName}`)
+      if (!response || !response.trim()) {
+        setToast({ id: Date.now(), tone: 'error', message: `${rule.label} requires reviewer notes.` })
+        return
+      }
+      notes = response.trim()
+    }
+
+    setStatusUpdating((current) => ({ ...current, [signal.id]: rule.to }))
+
+    let conflict: PartnerSignal | null = null
+    try {
+      await onStatusChange(signal.id, rule.to, notes, expectedVersion)
+      setToast({
+        id: Date.now(),
+        tone: 'success',
+        message: `${signal.partnerName} marked as ${getPartnerSignalStatusLabel(rule.to).toLowerCase()}`,
+      })
+    } catch (error) {
+      conflict = readPartnerSignalConflict(error)
+      if (!conflict) {
+        console.error(error)
+        const message = error instanceof Error ? error.message : 'Unable to update status. Please try again.'
+        setToast({ id: Date.now(), tone: 'error', message })
+      }
+    } finally {
+      setStatusUpdating((current) => {
+        const next = { ...current }
+        delete next[signal.id]
+        return next
+      })
+    }
+
+    if (conflict) {
+      resolveStatusConflict(conflict, rule, notes)
+    }
   }
 
-  async function handleStatusUpdate(signal: PartnerSignal, nextStatus: PartnerSignal['status']) {
-    if (signal.status === nextStatus) {
+  /** The list already shows `latest`; ask before re-applying the change on top of what the other reviewer did. */
+  function resolveStatusConflict(latest: PartnerSignal, rule: PartnerSignalTransitionRule, notes?: string) {
+    const latestLabel = getPartnerSignalStatusLabel(latest.status).toLowerCase()
+    const changedBy = `${latest.partnerName} was changed by another reviewer and is now ${latestLabel}`
+    if (latest.status === rule.to) {
+      setToast({
+        id: Date.now(),
+        tone: 'success',
+        message: `${latest.partnerName} was already marked as ${latestLabel} by another reviewer`,
+      })
       return
     }
 
-    if (!canModerate) {
+    const stillAllowed = listPartnerSignalTransitions(latest.status, viewerRole).some((next) => next.id === rule.id)
+    if (!stillAllowed) {
       setToast({
         id: Date.now(),
         tone: 'error',
-        message: 'Status updates require a colleague moderator persona.',
+        message: `${changedBy}; ${rule.label} no longer applies.`,
       })
       return
     }
 
-    setStatusUpdating((current) => ({ ...current, [signal.id]: nextStatus }))
+    const confirmed = window.confirm(`${changedBy}. ${rule.label} anyway?`)
+    if (!confirmed) {
+      setToast({ id: Date.now(), tone: 'error', message: `Kept the latest version of ${latest.partnerName}.` })
+      return
+    }
+
+    void handleStatusUpdate(latest, rule, latest.version, notes)
+  }
+
+  function toggleSelected(id: string) {
+    setSelectedIds((current) => (current.includes(id) ? current.filter((value) => value !== id) : [...current, id]))
+  }
+
+  function toggleSelectAll() {
+    setSelectedIds((current) => (current.length === signals.length ? [] : signals.map((signal) => signal.id)))
+  }
+
+  async function runBulkAction(label: string, action: (ids: string[]) => Promise<PartnerSignalBulkResult>) {
+    if (selectedIds.length === 0) {
+      return
+    }
 
+    setBulkRunning(true)
     try {
-      await onStatusChange(signal.id, nextStatus)
-      setToast({ id: Date.now(), tone: 'success', message: `${signal.partnerName} marked as ${nextStatus}` })
+      const result = await action(selectedIds)
+      setSelectedIds(result.items.filter((item) => !item.ok).map((item) => item.id))
+      if (result.failed === 0) {
+        setBulkNotes('')
+        setToast({ id: Date.now(), tone: 'success', message: `${label}: ${result.succeeded} signals updated` })
+        return
+      }
+
+      const firstError = result.items.find((item) => item.error)?.error?.message
+      setToast({
+        id: Date.now(),
+        tone: 'error',
+        message: `${label}: ${result.succeeded} updated, ${result.failed} failed${firstError ? ` (${firstError})` : ''}`,
+      })
     } catch (error) {
       console.error(error)
-      setToast({ id: Date.now(), tone: 'error', message: 'Unable to update status. Please try again.' })
+      const message = error instanceof Error ? error.message : 'Unable to apply bulk action. Please try again.'
+      setToast({ id: Date.now(), tone: 'error', message })
     } finally {
-      setStatusUpdating((current) => {
-        const next = { ...current }
-        delete next[signal.id]
-        return next
-      })
+      setBulkRunning(false)
     }
   }
 
@@ -527,9 +708,7 @@ export function PartnerSignals({
 
     return (
       formState.partnerId.trim().length > 0 ||
-      formState.partnerName.trim().length > 0 ||
       formState.merchantId.trim().length > 0 ||
-      formState.merchantName.trim().length > 0 ||
       formState.signalType !== 'growth' ||
       formState.description.trim().length > 0 ||
       Math.abs(formState.confidence - 0.5) > 0.0001 ||
@@ -742,23 +921,19 @@ export function PartnerSignals({
             <input
               required
               name="partnerId"
+              list="partner-signals-registry-partners"
               value={formState.partnerId}
               onChange={handleInputChange}
               placeholder="ecosystem-labs"
             />
-            <small>Use the partner&apos;s canonical short identifier.</small>
-          </label>
-
-          <label>
-            <span>Partner Name</span>
-            <input
-              required
-              name="partnerName"
-              value={formState.partnerName}
-              onChange={handleInputChange}
-              placeholder="Ecosystem Labs"
-            />
-            <small>Displayed across dashboards for quick recognition.</small>
+            <small>{describeRegistryMatch(partners, formState.partnerId, 'partner')}</small>
+            <datalist id="partner-signals-registry-partners">
+              {partners.map((partner) => (
+                <option key={partner.id} value={partner.id}>
+                  {partner.name}
+                </option>
+              ))}
+            </datalist>
           </label>
 
           <label>
@@ -766,23 +941,19 @@ export function PartnerSignals({
             <input
               required
               name="merchantId"
+              list="partner-signals-registry-merchants"
               value={formState.merchantId}
               onChange={handleInputChange}
               placeholder="mkt-4721"
             />
-            <small>Matches the merchant identifier in AMEX systems.</small>
-          </label>
-
-          <label>
-            <span>Merchant Name</span>
-            <input
-              required
-              name="merchantName"
-              value={formState.merchantName}
-              onChange={handleInputChange}
-              placeholder="LuxeStay Collection"
-            />
-            <small>Appears in the backlog and downstream alerts.</small>
+            <small>{describeRegistryMatch(merchants, formState.merchantId, 'merchant')}</small>
+            <datalist id="partner-signals-registry-merchants">
+              {merchants.map((merchant) => (
+                <option key={merchant.id} value={merchant.id}>
+                  {merchant.name}
+                </option>
+              ))}
+            </datalist>
           </label>
 
           <label>
@@ -957,7 +1128,33 @@ export function PartnerSignals({
         <header>
           <div>
             <h3>Partner Signal Backlog</h3>
-            <p>Sorted by most recent submissions from the ecosystem network.</p>
+            <p>{sortOptions.find((option) => option.value === sortKey)?.description}</p>
+          </div>
+          <div className="partner-signals__query">
+            <label>
+              <span>Search</span>
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(event) => setSearchInput(event.target.value)}
+                placeholder="Partner, merchant, or insight text"
+                aria-label="Search partner signals"
+              />
+            </label>
+            <label>
+              <span>Sort</span>
+              <select
+                value={sortKey}
+                onChange={(event) => onSortChange(event.target.value as PartnerSignalSortKey)}
+                aria-label="Sort partner signals"
+              >
+                {sortOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
           </div>
           <div className="partner-signals__filters" role="tablist" aria-label="Filter partner signals">
             {filterSequence.map((filterValue) => {
@@ -991,10 +1188,7 @@ export function PartnerSignals({
             aria-label="Filter partner signals by review status"
           >
             {statusFilterSequence.map((statusValue) => {
-              const label =
-                statusValue === 'all'
-                  ? 'All statuses'
-                  : statusValue.charAt(0).toUpperCase() + statusValue.slice(1)
+              const label = statusValue === 'all' ? 'All statuses' : getPartnerSignalStatusLabel(statusValue)
 
               return (
                 <button
@@ -1022,21 +1216,74 @@ export function PartnerSignals({
               <span>Total</span>
               <strong>{totalStats}</strong>
             </div>
-            <div>
-              <span>Pending</span>
-              <strong>{statusStats.pending}</strong>
-            </div>
-            <div>
-              <span>Approved</span>
-              <strong>{statusStats.approved}</strong>
-            </div>
-            <div>
-              <span>Archived</span>
-              <strong>{statusStats.archived}</strong>
-            </div>
+            {partnerSignalStatuses.map((statusValue) => (
+              <div key={statusValue}>
+                <span>{getPartnerSignalStatusLabel(statusValue)}</span>
+                <strong>{statusFilterCounts[statusValue]}</strong>
+              </div>
+            ))}
           </div>
         </header>
 
+        {canBulkModerate && hasSignals && (
+          <div className="partner-signals__bulk-bar" role="toolbar" aria-label="Bulk moderation">
+            <label className="partner-signals__bulk-select-all">
+              <input
+                type="checkbox"
+                checked={selectedIds.length > 0 && selectedIds.length === signals.length}
+                ref={(element) => {
+                  if (element) {
+                    element.indeterminate = selectedIds.length > 0 && selectedIds.length < signals.length
+                  }
+                }}
+                onChange={toggleSelectAll}
+                aria-label="Select all visible signals"
+              />
+              <span>{selectedIds.length > 0 ? `${selectedIds.length} selected` : 'Select all'}</span>
+            </label>
+            <select
+              value={bulkStatus}
+              onChange={(event) => setBulkStatus(event.target.value as PartnerSignal['status'])}
+              aria-label="Bulk status"
+              disabled={bulkRunning}
+            >
+              {partnerSignalStatuses.map((value) => (
+                <option key={value} value={value}>
+                  {getPartnerSignalStatusLabel(value)}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={bulkNotes}
+              onChange={(event) => setBulkNotes(event.target.value)}
+              placeholder="Reviewer notes (required for guarded transitions)"
+              aria-label="Bulk reviewer notes"
+              maxLength={500}
+              disabled={bulkRunning}
+            />
+            <button
+              type="button"
+              disabled={selectedIds.length === 0 || bulkRunning}
+              data-loading={bulkRunning}
+              onClick={() =>
+                runBulkAction(getPartnerSignalStatusLabel(bulkStatus), (ids) =>
+                  onBulkStatusChange(ids, bulkStatus, bulkNotes.trim() || undefined),
+                )
+              }
+            >
+              Apply status
+            </button>
+            <button
+              type="button"
+              disabled={selectedIds.length === 0 || bulkRunning}
+              onClick={() => runBulkAction('Assign to me', onBulkAssign)}
+            >
+              Assign to me
+            </button>
+          </div>
+        )}
+
         {hasSignals ? (
           <ul>
             {signals.map((signal) => {
@@ -1051,11 +1298,21 @@ export function PartnerSignals({
               const assignedSince = signal.assignedReviewerName && signal.assignedAt
                 ? formatRelativeTimestamp(signal.assignedAt)
                 : null
+              const transitions = listPartnerSignalTransitions(signal.status, viewerRole)
 
               return (
                 <li key={signal.id}>
-                  <article>
+                  <article data-selected={selectedIds.includes(signal.id)}>
                     <header>
+                      {canBulkModerate && (
+                        <input
+                          type="checkbox"
+                          className="partner-signals__select"
+                          checked={selectedIds.includes(signal.id)}
+                          onChange={() => toggleSelected(signal.id)}
+                          aria-label={`Select ${signal.merchantName}`}
+                        />
+                      )}
                       <div>
                         <h4>{signal.merchantName}</h4>
                         <p>
@@ -1066,8 +1323,12 @@ export function PartnerSignals({
                         <span
                           className={`partner-signals__status-pill partner-signals__status-pill--${signal.status}`}
                         >
-                          {signal.status}
+                          {getPartnerSignalStatusLabel(signal.status)}
                         </span>
+                        <PartnerSignalSlaBadge signal={signal} />
+                        {signal.duplicateOfId && !signal.mergedIntoId && (
+                          <span className="partner-signals__badge partner-signals__badge--duplicate">Duplicate?</span>
+                        )}
                         <div className={`partner-signals__badge partner-signals__badge--${signal.signalType}`}>
                           {signal.signalType}
                         </div>
@@ -1089,30 +1350,27 @@ export function PartnerSignals({
                       <strong>{assignedReviewerLabel}</strong>
                       {assignedSince && <small>Assigned {assignedSince}</small>}
                     </div>
-                    <div className="partner-signals__status-actions" role="group" aria-label="Update status">
-                      {statusOptions.map((statusOption) => {
-                        const isActive = statusOption === signal.status
-                        const loadingState = statusUpdating[signal.id]
-                        const isLoading = Boolean(loadingState)
-                        const moderationLocked = !canModerate
-                        const isDisabled = moderationLocked || isActive || isLoading
-                        return (
-                          <button
-                            key={statusOption}
-                            type="button"
-                            className="partner-signals__status-button"
-                            data-active={isActive}
-                            data-loading={isLoading && loadingState === statusOption}
-                            onClick={() => handleStatusUpdate(signal, statusOption)}
-                            disabled={isDisabled}
-                            data-disabled={moderationLocked ? 'true' : undefined}
-                            title={moderationLocked ? 'Switch to a colleague persona to moderate' : undefined}
-                          >
-                            {statusOption}
-                          </button>
-                        )
-                      })}
-                    </div>
+                    {transitions.length > 0 && (
+                      <div className="partner-signals__status-actions" role="group" aria-label="Update status">
+                        {transitions.map((rule) => {
+                          const loadingState = statusUpdating[signal.id]
+                          const isLoading = Boolean(loadingState)
+                          return (
+                            <button
+                              key={rule.id}
+                              type="button"
+                              className="partner-signals__status-button"
+                              data-loading={isLoading && loadingState === rule.to}
+                              onClick={() => handleStatusUpdate(signal, rule)}
+                              disabled={isLoading}
+                              title={rule.requiresNotes ? 'Requires reviewer notes' : undefined}
+                            >
+                              {rule.label}
+                            </button>
+                          )
+                        })}
+                      </div>
+                    )}
                     <button
                       type="button"
                       className="partner-signals__detail-button"
@@ -1141,9 +1399,23 @@ export function PartnerSignals({
           <div className="partner-signals__empty">Loading partner signals…</div>
         ) : (
           <div className="partner-signals__empty">
-            {activeFilter === 'all'
-              ? 'No partner signals submitted yet.'
-              : `No ${activeFilter} insights yet—share the first breakthrough.`}
+            {searchQuery
+              ? `No signals match “${searchQuery}”.`
+              : activeFilter === 'all'
+                ? 'No partner signals submitted yet.'
+                : `No ${activeFilter} insights yet—share the first breakthrough.`}
+          </div>
+        )}
+        {hasSignals && (
+          <div className="partner-signals__pagination" ref={loadMoreSentinelRef} aria-live="polite">
+            <small>
+              Showing {signals.length} of {Math.max(totalCount, signals.length)}
+            </small>
+            {hasMore && (
+              <button type="button" onClick={onLoadMore} disabled={isLoadingMore}>
+                {isLoadingMore ? 'Loading more…' : 'Load more'}
+              </button>
+            )}
           </div>
         )}
       </div>
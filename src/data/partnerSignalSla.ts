@@ -0,0 +1,7 @@
+export {
+  computePartnerSignalSlaDueAt,
+  getPartnerSignalSlaPolicy,
+  partnerSignalSlaPolicies,
+  resolvePartnerSignalSlaPolicy,
+  slaTrackedPartnerSignalStatuses,
+} from '../../shared/data/partnerSignalSla'
@@ -0,0 +1,7 @@
+export {
+  getPartnerSignalStatusLabel,
+  listPartnerSignalTransitions,
+  partnerSignalStatuses,
+  partnerSignalWorkflow,
+} from '../../shared/data/partnerSignalWorkflow'
+export type { PartnerSignalTransitionRule } from '../../shared/data/partnerSignalWorkflow'
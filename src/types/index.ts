@@ -9,14 +9,43 @@ export type {
   WorkflowPlaybook,
   PartnerSignal,
   PartnerSignalInput,
+  PartnerSignalPage,
+  PartnerSignalSortKey,
+  PartnerSignalSortOrder,
+  PartnerSignalStatus,
   PartnerSignalStats,
   PartnerSignalAudit,
   PartnerSignalAssignment,
+  PartnerSignalComment,
+  PartnerSignalCommentInput,
+  PartnerSignalCommentMention,
+  PartnerSignalBulkAction,
+  PartnerSignalBulkItemResult,
+  PartnerSignalBulkResult,
+  PartnerSignalMergeResult,
+  PartnerSignalImportJob,
+  PartnerSignalImportRowError,
+  PartnerSignalImportValidation,
+  PartnerSignalTransferFormat,
+  MerchantOverview,
+  MerchantOverviewPartner,
+  RegistryEntry,
   ReviewerRole,
+  AuthSession,
+  DevLoginInput,
+  LiveAnalyticsHistory,
+  LiveAnalyticsHistoryPoint,
+  LiveAnalyticsQuery,
+  LiveAnalyticsResolution,
   LiveAnalyticsSnapshot,
+  LiveDimensionKey,
+  LiveDimensions,
+  LiveMetricGroup,
   LiveMetric,
   LiveMetricTrendDirection,
   LiveMetricTrendPoint,
   LiveMetricAnomaly,
+  LiveAnomalyDetectorKind,
+  LiveMetricExpectedBand,
   LiveMetricThresholds,
 } from '../../shared/types/domain'
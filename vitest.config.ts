@@ -5,6 +5,9 @@ export default defineConfig({
     environment: 'node',
     globals: true,
     include: ['server/**/*.test.ts'],
+    env: {
+      AUTH_MODE: 'headers',
+    },
     coverage: {
       enabled: false,
     },